@@ -1,4 +1,8 @@
 export * from "./model/element.types";
 export * from "./services/element-graph.service";
-export * from "./services/parent-relationship.service";
+export * from "./services/element-tree.service";
+export * from "./services/snapshot-collector.service";
 export * from "./lib/id";
+export * from "./lib/find-element";
+export * from "./lib/custom-attributes";
+export * from "./lib/element-content";
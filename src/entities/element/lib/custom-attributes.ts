@@ -0,0 +1,24 @@
+/**
+ * Reads an element's custom attributes (`data-*` etc. set in the Designer
+ * settings panel) into a plain record.
+ * @returns An empty record for elements that don't support custom attributes
+ */
+export async function readCustomAttributes(
+  element: any
+): Promise<Record<string, string>> {
+  if (!element?.customAttributes) return {};
+  if (typeof element.getAllCustomAttributes !== "function") return {};
+  try {
+    const list: Array<{ name: string; value: string }> | null =
+      await element.getAllCustomAttributes();
+    const out: Record<string, string> = {};
+    for (const attr of list ?? []) {
+      if (attr && typeof attr.name === "string") {
+        out[attr.name] = typeof attr.value === "string" ? attr.value : "";
+      }
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
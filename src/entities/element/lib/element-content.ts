@@ -0,0 +1,96 @@
+/** Content an element exposes beyond its styles, for accessibility checks */
+export interface ElementContent {
+  /** Image alt text: the element's own, else the asset's */
+  altText?: string | null;
+  /**
+   * Text inside a link: its String nodes joined, with the alt text of any
+   * image standing in for the image. String nodes have no styles, so they are
+   * never in the lint graph themselves.
+   */
+  text?: string | null;
+  /** DOM id from the element settings */
+  domId?: string | null;
+}
+
+/** Designer element types that render as `<a>` */
+export const LINK_ELEMENT_TYPES: ReadonlySet<string> = new Set([
+  "Link",
+  "LinkBlock",
+  "NavbarLink",
+  "NavbarBrand",
+  "DropdownLink",
+]);
+
+async function readAltText(element: any): Promise<string | null> {
+  try {
+    const own = (await element.getAltText()) ?? null;
+    if (own || typeof element.getAsset !== "function") return own;
+    const asset = await element.getAsset();
+    return asset && typeof asset.getAltText === "function"
+      ? (await asset.getAltText()) ?? null
+      : own;
+  } catch {
+    return null;
+  }
+}
+
+async function collectText(element: any, out: string[]): Promise<void> {
+  if (element?.type === "String" && typeof element.getText === "function") {
+    const text = await element.getText();
+    if (text) out.push(text);
+    return;
+  }
+  if (typeof element?.getAltText === "function") {
+    const alt = await readAltText(element);
+    if (alt) out.push(alt);
+    return;
+  }
+  if (!element?.children || typeof element.getChildren !== "function") return;
+  const children: any[] = (await element.getChildren()) ?? [];
+  for (const child of children) await collectText(child, out);
+}
+
+/**
+ * Plain text inside an element: its String nodes joined in document order,
+ * with image alt text standing in for images.
+ * @returns null when the children could not be read
+ */
+export async function readTextContent(element: any): Promise<string | null> {
+  try {
+    const parts: string[] = [];
+    await collectText(element, parts);
+    return parts.join(" ").replace(/\s+/g, " ").trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads whatever content the element type supports. Each getter is optional
+ * on the Designer API, and a failing one only drops that field.
+ * @returns An empty record for elements with nothing to read
+ */
+export async function readElementContent(
+  element: any
+): Promise<ElementContent> {
+  const out: ElementContent = {};
+  if (!element) return out;
+
+  if (typeof element.getAltText === "function") {
+    out.altText = await readAltText(element);
+  }
+
+  if (LINK_ELEMENT_TYPES.has(element.type)) {
+    out.text = await readTextContent(element);
+  }
+
+  if (element.domId && typeof element.getDomId === "function") {
+    try {
+      out.domId = (await element.getDomId()) ?? null;
+    } catch {
+      out.domId = null;
+    }
+  }
+
+  return out;
+}
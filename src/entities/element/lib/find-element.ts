@@ -0,0 +1,33 @@
+import { toElementKey } from "./id";
+
+/**
+ * Resolves a Designer element on the current page by its element key.
+ * Tries `webflow.getAllElements()` first and falls back to a traversal from the root.
+ * @returns The element or null when it can't be found (e.g. it lives on another page)
+ */
+export async function findElementById(elementId: string): Promise<any | null> {
+  if (!elementId) return null;
+  const wf: any = (window as any).webflow;
+  if (!wf) return null;
+
+  if (typeof wf.getAllElements === "function") {
+    const all: any[] = (await wf.getAllElements()) ?? [];
+    const match = all.find((el) => toElementKey(el) === elementId);
+    if (match) return match;
+  }
+
+  if (typeof wf.getRootElement === "function") {
+    const root = await wf.getRootElement();
+    const queue: any[] = root ? [root] : [];
+    while (queue.length) {
+      const el = queue.shift();
+      if (toElementKey(el) === elementId) return el;
+      if (typeof el?.getChildren === "function") {
+        const children = await el.getChildren();
+        if (Array.isArray(children)) queue.push(...children);
+      }
+    }
+  }
+
+  return null;
+}
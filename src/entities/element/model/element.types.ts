@@ -2,10 +2,32 @@
 
 // Minimal element types used by services and detectors in the canonical roles/graph architecture
 
+import type { ElementContent } from "../lib/element-content";
+
 // Use the official Webflow API types
 export type WebflowElement = AnyElement;
 
 export interface ElementWithClassNames {
   element: WebflowElement;
   classNames: string[];
+  /** Custom attributes set in the Designer, when collected */
+  attributes?: Readonly<Record<string, string>>;
+}
+
+/** What the Designer API reports about an element, beyond its classes */
+export interface ElementSemantics {
+  /** Tag from `getTag()`; null when the element has no tag setting */
+  tagName: string | null;
+  /** Designer element type, e.g. "Block", "Heading", "Link" */
+  elementType: string | null;
+  /** Custom attributes set in the Designer */
+  attributes: Readonly<Record<string, string>>;
+  /** Text of text-bearing elements (headings, paragraphs, links, …) */
+  textContent?: string;
+  /** Alt text, full link text and DOM id; omitted when there is none */
+  content?: ElementContent;
+  /** Position among the parent's children, or among the page roots */
+  siblingIndex: number;
+  /** Number of ancestors; page roots are at depth 0 */
+  depth: number;
 }
@@ -0,0 +1,94 @@
+// src/entities/element/services/__tests__/element-graph.service.test.ts
+import { describe, it, expect } from "vitest";
+import { createElementGraphService } from "@/entities/element/services/element-graph.service";
+import { createElementTreeService } from "@/entities/element/services/element-tree.service";
+
+const node = (id: string, children: unknown[] = []) => ({
+  id: { element: id },
+  getChildren: () => Promise.resolve(children),
+});
+
+// body > [nav, section > [heading, wrapper(unlinted) > [para, button], image]]
+const heading = node("heading");
+const para = node("para");
+const button = node("button");
+const wrapper = node("wrapper", [para, button]);
+const image = node("image");
+const section = node("section", [heading, wrapper, image]);
+const nav = node("nav");
+const body = node("body", [nav, section]);
+
+async function build(elements: unknown[], root?: unknown) {
+  const tree = await createElementTreeService().buildTree(
+    elements as any[],
+    root as any
+  );
+  return { tree, graph: createElementGraphService(elements as any[], tree) };
+}
+
+describe("createElementGraphService", () => {
+  it("keeps Designer order regardless of the element list order", async () => {
+    const { graph } = await build([image, para, section, heading, button]);
+
+    expect(graph.getChildrenIds("section")).toEqual([
+      "heading",
+      "para",
+      "button",
+      "image",
+    ]);
+    expect(graph.getParentId("para")).toBe("section");
+    expect(graph.getParentId("section")).toBeNull();
+  });
+
+  it("answers sibling, depth and path queries", async () => {
+    const { graph } = await build([body, nav, section, heading, para, image]);
+
+    expect(graph.getSiblingIndex("para")).toBe(1);
+    expect(graph.getPreviousSibling("para")).toBe("heading");
+    expect(graph.getNextSibling("para")).toBe("image");
+    expect(graph.getPreviousSibling("heading")).toBeNull();
+    expect(graph.getNextSibling("image")).toBeNull();
+    expect(graph.getDepth("body")).toBe(0);
+    expect(graph.getDepth("para")).toBe(2);
+    expect(graph.getPath("para")).toEqual(["body", "section", "para"]);
+    expect(graph.getSiblingIndex("unknown")).toBe(-1);
+  });
+
+  it("orders top-level elements from the page root", async () => {
+    const { tree, graph } = await build([section, nav], body);
+
+    expect(tree.rootIds).toEqual(["nav", "section"]);
+    expect(graph.getNextSibling("nav")).toBe("section");
+    expect(graph.getDepth("section")).toBe(0);
+  });
+
+  it("reads children in batches and keeps their order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const counted = (id: string, children: unknown[] = []) => ({
+      id: { element: id },
+      getChildren: async () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        inFlight -= 1;
+        return children;
+      },
+    });
+    const items = ["a", "b", "c", "d", "e"].map((id) => counted(id));
+    const list = counted("list", items);
+
+    const tree = await createElementTreeService({ batchSize: 2 }).buildTree(
+      [list, ...items] as any[]
+    );
+
+    expect(maxInFlight).toBe(2);
+    expect(tree.childrenIdsByParentId["list"]).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+      "e",
+    ]);
+  });
+});
@@ -1,40 +1,48 @@
 import type { WebflowElement } from "@/entities/element/model/element.types";
+import type { ElementTree } from "./element-tree.service";
 import { toElementKey, getElementTag } from "../lib/id";
 
 export type ElementGraph = {
   getParentId: (id: string) => string | null;
+  /** Children in Designer order */
   getChildrenIds: (id: string) => string[];
   getAncestorIds: (id: string) => string[];
   getDescendantIds: (id: string) => string[];
   getTag: (id: string) => Promise<string | null>;
+  /** Position among siblings (top-level elements count as siblings); -1 if unknown */
+  getSiblingIndex: (id: string) => number;
+  getPreviousSibling: (id: string) => string | null;
+  getNextSibling: (id: string) => string | null;
+  /** Number of ancestors; top-level elements are at depth 0 */
+  getDepth: (id: string) => number;
+  /** Element ids from the top-level ancestor down to the element itself */
+  getPath: (id: string) => string[];
 };
 
 export function createElementGraphService(
   elements: WebflowElement[],
-  parentIdByChildId: Record<string, string | null>
+  tree: ElementTree
 ): ElementGraph {
-  const childrenByParentId = new Map<string, string[]>();
   const elementById = new Map<string, WebflowElement>();
-
-  // Build element lookup and children maps
   for (const el of elements) {
-    const id = toElementKey(el);
-    elementById.set(id, el);
-    if (!childrenByParentId.has(id)) childrenByParentId.set(id, []);
+    elementById.set(toElementKey(el), el);
   }
 
-  for (const [childId, parentId] of Object.entries(parentIdByChildId)) {
-    if (parentId) {
-      const list = childrenByParentId.get(parentId) ?? [];
-      list.push(childId);
-      childrenByParentId.set(parentId, list);
-    }
+  // Sibling lists and positions, including the top-level list
+  const siblingsById = new Map<string, string[]>();
+  const indexById = new Map<string, number>();
+  const lists = [tree.rootIds, ...Object.values(tree.childrenIdsByParentId)];
+  for (const list of lists) {
+    list.forEach((id, index) => {
+      siblingsById.set(id, list);
+      indexById.set(id, index);
+    });
   }
 
   const getParentId = (id: string): string | null =>
-    parentIdByChildId[id] ?? null;
+    tree.parentIdByChildId[id] ?? null;
   const getChildrenIds = (id: string): string[] =>
-    childrenByParentId.get(id) ?? [];
+    tree.childrenIdsByParentId[id] ?? [];
   const getAncestorIds = (id: string): string[] => {
     const out: string[] = [];
     let cur: string | null = getParentId(id);
@@ -69,11 +77,31 @@ export function createElementGraphService(
     return await getElementTag(element);
   };
 
+  const getSiblingIndex = (id: string): number => indexById.get(id) ?? -1;
+  const siblingAt = (id: string, offset: number): string | null => {
+    const index = indexById.get(id);
+    if (index === undefined) return null;
+    return siblingsById.get(id)?.[index + offset] ?? null;
+  };
+  const getPreviousSibling = (id: string) => siblingAt(id, -1);
+  const getNextSibling = (id: string) => siblingAt(id, 1);
+  const getDepth = (id: string): number =>
+    tree.depthById[id] ?? getAncestorIds(id).length;
+  const getPath = (id: string): string[] => [
+    ...getAncestorIds(id).reverse(),
+    id,
+  ];
+
   return {
     getParentId,
     getChildrenIds,
     getAncestorIds,
     getDescendantIds,
     getTag,
+    getSiblingIndex,
+    getPreviousSibling,
+    getNextSibling,
+    getDepth,
+    getPath,
   } as const;
 }
@@ -0,0 +1,142 @@
+import type { WebflowElement } from "@/entities/element/model/element.types";
+import { toElementKey } from "../lib/id";
+import { DESIGNER_BATCH_SIZE, mapInBatches } from "@/shared/lib";
+
+/** Page structure in Designer order, limited to the elements being linted */
+export interface ElementTree {
+  /** Nearest linted ancestor per element; null for top-level elements */
+  parentIdByChildId: Record<string, string | null>;
+  /** Linted children per element, in Designer order */
+  childrenIdsByParentId: Record<string, string[]>;
+  /** Top-level linted elements, in Designer order */
+  rootIds: string[];
+  /** Number of linted ancestors per element */
+  depthById: Record<string, number>;
+}
+
+export interface ElementTreeServiceOptions {
+  /** getChildren() calls in flight at once, as for the snapshot collector */
+  batchSize?: number;
+}
+
+export interface ElementTreeService {
+  buildTree: (
+    elements: WebflowElement[],
+    root?: WebflowElement | null
+  ) => Promise<ElementTree>;
+}
+
+/**
+ * Creates a service that builds the ordered element tree with one traversal
+ * over `getChildren()`. Starting from the page root (when given) keeps
+ * top-level order; elements the root does not reach start their own
+ * subtrees. Nodes outside `elements` (String nodes, unstyled wrappers) are
+ * walked through, so their linted descendants attach to the nearest linted
+ * ancestor at the right position.
+ */
+export function createElementTreeService(
+  options: ElementTreeServiceOptions = {}
+): ElementTreeService {
+  const batchSize = Math.max(1, options.batchSize ?? DESIGNER_BATCH_SIZE);
+
+  async function readChildren(node: any): Promise<any[]> {
+    if (typeof node?.getChildren !== "function") return [];
+    try {
+      const children = await node.getChildren();
+      return Array.isArray(children) ? children : [];
+    } catch (error) {
+      // getChildren() errors are non-fatal; the subtree is just not linked
+      console.warn(
+        `[ElementTreeService] getChildren error for element ${toElementKey(node)}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  async function buildTree(
+    elements: WebflowElement[],
+    root?: WebflowElement | null
+  ): Promise<ElementTree> {
+    const includedIds = new Set(elements.map((el) => toElementKey(el)));
+    const startNodes = root ? [root, ...elements] : [...elements];
+
+    // 1) Fetch ordered children level by level, `batchSize` Designer calls
+    //    at a time
+    const childIdsById = new Map<string, string[]>();
+    let frontier: any[] = startNodes;
+    while (frontier.length > 0) {
+      const pending = new Map<string, any>();
+      for (const node of frontier) {
+        const id = toElementKey(node);
+        if (id && !childIdsById.has(id) && !pending.has(id)) {
+          pending.set(id, node);
+        }
+      }
+      const entries = Array.from(pending.entries());
+      const childLists = await mapInBatches(
+        entries,
+        ([, node]) => readChildren(node),
+        batchSize
+      );
+      frontier = [];
+      entries.forEach(([id], i) => {
+        const children = childLists[i] ?? [];
+        childIdsById.set(id, children.map((child) => toElementKey(child)));
+        frontier.push(...children);
+      });
+    }
+
+    // 2) Walk depth-first in document order from nodes nobody else contains
+    const containedIds = new Set(Array.from(childIdsById.values()).flat());
+    const parentIdByChildId: Record<string, string | null> = {};
+    const childrenIdsByParentId: Record<string, string[]> = {};
+    const depthById: Record<string, number> = {};
+    const rootIds: string[] = [];
+    for (const id of includedIds) {
+      parentIdByChildId[id] = null;
+      childrenIdsByParentId[id] = [];
+      depthById[id] = 0;
+    }
+
+    const placed = new Set<string>();
+    const visit = (id: string, ancestorId: string | null) => {
+      if (placed.has(id)) return;
+      placed.add(id);
+
+      let nextAncestorId = ancestorId;
+      if (includedIds.has(id)) {
+        parentIdByChildId[id] = ancestorId;
+        if (ancestorId) {
+          childrenIdsByParentId[ancestorId].push(id);
+          depthById[id] = depthById[ancestorId] + 1;
+        } else {
+          rootIds.push(id);
+        }
+        nextAncestorId = id;
+      }
+      for (const childId of childIdsById.get(id) ?? []) {
+        visit(childId, nextAncestorId);
+      }
+    };
+
+    for (const node of startNodes) {
+      const id = toElementKey(node);
+      if (id && !containedIds.has(id)) visit(id, null);
+    }
+    // Only reachable through a cycle; keep it as a top-level element
+    for (const id of includedIds) {
+      if (!placed.has(id)) visit(id, null);
+    }
+
+    return { parentIdByChildId, childrenIdsByParentId, rootIds, depthById };
+  }
+
+  return {
+    buildTree,
+  } as const;
+}
+
+export type ElementTreeServiceType = ReturnType<
+  typeof createElementTreeService
+>;
@@ -0,0 +1,99 @@
+import type {
+  ElementSemantics,
+  WebflowElement,
+} from "@/entities/element/model/element.types";
+import type { ElementGraph } from "./element-graph.service";
+import { toElementKey, getElementTag } from "../lib/id";
+import { readCustomAttributes } from "../lib/custom-attributes";
+import {
+  readElementContent,
+  readTextContent,
+  LINK_ELEMENT_TYPES,
+} from "../lib/element-content";
+import { DESIGNER_BATCH_SIZE } from "@/shared/lib";
+
+export interface SnapshotCollectorOptions {
+  /** Elements read concurrently per round trip to the Designer */
+  batchSize?: number;
+  /** Text longer than this is cut off; detectors only need a hint */
+  maxTextLength?: number;
+}
+
+export interface SnapshotCollector {
+  collect: (
+    elements: WebflowElement[],
+    graph: Pick<ElementGraph, "getSiblingIndex" | "getDepth">
+  ) => Promise<Map<string, ElementSemantics>>;
+}
+
+const DEFAULT_MAX_TEXT_LENGTH = 200;
+
+/** Text elements other than links, whose text comes with their content */
+function isPlainTextBearing(element: any): boolean {
+  return (
+    element?.textContent === true && !LINK_ELEMENT_TYPES.has(element?.type)
+  );
+}
+
+/**
+ * Creates a collector that reads tag, custom attributes, text, element type
+ * and accessibility content (alt text, link text, DOM id) for every element.
+ * Designer API calls are async round trips, so elements are read in batches
+ * rather than all at once or one by one.
+ * Sibling index and depth come from the ordered element graph.
+ */
+export function createSnapshotCollector(
+  options: SnapshotCollectorOptions = {}
+): SnapshotCollector {
+  const batchSize = Math.max(1, options.batchSize ?? DESIGNER_BATCH_SIZE);
+  const maxTextLength = options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
+
+  async function readElement(element: WebflowElement) {
+    const anyElement = element as any;
+    const [tagName, attributes, content, plainText] = await Promise.all([
+      getElementTag(element),
+      readCustomAttributes(element),
+      readElementContent(anyElement),
+      isPlainTextBearing(anyElement)
+        ? readTextContent(anyElement)
+        : Promise.resolve(null),
+    ]);
+    const text = plainText ?? content.text ?? null;
+    return {
+      tagName: tagName ? tagName.toLowerCase() : null,
+      elementType:
+        typeof anyElement?.type === "string" ? anyElement.type : null,
+      attributes,
+      textContent: text ? text.slice(0, maxTextLength) : undefined,
+      ...(Object.keys(content).length > 0 ? { content } : {}),
+    };
+  }
+
+  async function collect(
+    elements: WebflowElement[],
+    graph: Pick<ElementGraph, "getSiblingIndex" | "getDepth">
+  ): Promise<Map<string, ElementSemantics>> {
+    const out = new Map<string, ElementSemantics>();
+    const ids = elements.map((element) => toElementKey(element));
+
+    for (let start = 0; start < elements.length; start += batchSize) {
+      const batch = elements.slice(start, start + batchSize);
+      const read = await Promise.all(batch.map(readElement));
+      read.forEach((semantics, i) => {
+        const id = ids[start + i];
+        if (!id) return;
+        out.set(id, {
+          ...semantics,
+          siblingIndex: Math.max(0, graph.getSiblingIndex(id)),
+          depth: graph.getDepth(id),
+        });
+      });
+    }
+
+    return out;
+  }
+
+  return { collect } as const;
+}
+
+export type SnapshotCollectorType = ReturnType<typeof createSnapshotCollector>;
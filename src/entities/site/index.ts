@@ -0,0 +1 @@
+export * from "./lib/site-info";
@@ -0,0 +1,43 @@
+let cachedSiteId: string | null = null;
+let pending: Promise<string | null> | null = null;
+
+/**
+ * Resolves the current Webflow site id via `webflow.getSiteInfo()`.
+ * The result is cached for the lifetime of the extension; failures resolve to null
+ * so callers can fall back to an unscoped (local) configuration.
+ */
+export function getSiteId(): Promise<string | null> {
+  if (cachedSiteId) return Promise.resolve(cachedSiteId);
+  if (pending) return pending;
+
+  const wf: any = (window as any).webflow;
+  if (!wf || typeof wf.getSiteInfo !== "function") return Promise.resolve(null);
+
+  pending = Promise.resolve(wf.getSiteInfo())
+    .then((info: { siteId?: string } | null) => {
+      cachedSiteId = info?.siteId ?? null;
+      return cachedSiteId;
+    })
+    .catch(() => null)
+    .finally(() => {
+      pending = null;
+    });
+  return pending;
+}
+
+/** Site id from a previous `getSiteId()` call, without touching the Designer API */
+export function getCachedSiteId(): string | null {
+  return cachedSiteId;
+}
+
+/** Id of the page open in the Designer, or null outside the Designer */
+export async function getCurrentPageId(): Promise<string | null> {
+  const wf: any = (window as any).webflow;
+  if (!wf || typeof wf.getCurrentPage !== "function") return null;
+  try {
+    const page = await wf.getCurrentPage();
+    return page?.id ?? null;
+  } catch {
+    return null;
+  }
+}
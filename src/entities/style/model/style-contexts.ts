@@ -0,0 +1,80 @@
+// src/entities/style/model/style-contexts.ts
+
+/** Webflow Designer breakpoints, base ("main") first */
+export const STYLE_BREAKPOINTS = [
+  "main",
+  "medium",
+  "small",
+  "tiny",
+  "large",
+  "xl",
+  "xxl",
+] as const;
+
+export type StyleBreakpoint = (typeof STYLE_BREAKPOINTS)[number];
+
+/** Pseudo-states that commonly carry authored declarations */
+export const STYLE_PSEUDO_STATES = [
+  "hover",
+  "focus",
+  "focus-visible",
+  "active",
+  "visited",
+  "placeholder",
+  "before",
+  "after",
+] as const;
+
+export type StylePseudoState = (typeof STYLE_PSEUDO_STATES)[number];
+
+/** Where a set of declarations lives; `pseudo: null` is the plain state */
+export interface StyleContext {
+  breakpoint: StyleBreakpoint;
+  pseudo: StylePseudoState | null;
+}
+
+export const BASE_STYLE_CONTEXT: StyleContext = {
+  breakpoint: "main",
+  pseudo: null,
+};
+
+/** `main`, `small`, `small:hover`, … */
+export type StyleContextKey = string;
+
+export function toStyleContextKey(context: StyleContext): StyleContextKey {
+  return context.pseudo
+    ? `${context.breakpoint}:${context.pseudo}`
+    : context.breakpoint;
+}
+
+export function parseStyleContextKey(key: StyleContextKey): StyleContext {
+  const [breakpoint, pseudo] = key.split(":");
+  return {
+    breakpoint: (STYLE_BREAKPOINTS as readonly string[]).includes(breakpoint)
+      ? (breakpoint as StyleBreakpoint)
+      : "main",
+    pseudo: (STYLE_PSEUDO_STATES as readonly string[]).includes(pseudo)
+      ? (pseudo as StylePseudoState)
+      : null,
+  };
+}
+
+export function isBaseStyleContext(context: StyleContext): boolean {
+  return context.breakpoint === "main" && context.pseudo === null;
+}
+
+const breakpointLabels: Record<StyleBreakpoint, string> = {
+  main: "Desktop",
+  medium: "Tablet",
+  small: "Mobile landscape",
+  tiny: "Mobile portrait",
+  large: "1280px",
+  xl: "1440px",
+  xxl: "1920px",
+};
+
+/** Human-readable location, e.g. "Mobile portrait :hover" */
+export function describeStyleContext(context: StyleContext): string {
+  const bp = breakpointLabels[context.breakpoint];
+  return context.pseudo ? `${bp} :${context.pseudo}` : bp;
+}
@@ -1,8 +1,16 @@
 // src/entities/style/model/style.types.ts
+import type { StyleContextKey } from "./style-contexts";
+
 export interface StyleInfo {
   id: string;
   name: string;
+  /** Base declarations (main breakpoint, no pseudo-state) */
   properties: Record<string, unknown>;
+  /**
+   * Declarations per breakpoint/pseudo-state, keyed by `toStyleContextKey`.
+   * Only contexts that set something are present; `main` mirrors `properties`.
+   */
+  propertiesByContext?: Record<StyleContextKey, Record<string, unknown>>;
   order: number;
   isCombo: boolean;
   detectionSource?: "api" | "heuristic";
@@ -0,0 +1,76 @@
+// src/entities/style/services/__tests__/style.service.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createStyleService } from "@/entities/style/services/style.service";
+import { resetStyleServiceCache } from "@/entities/style/services/style-service-cache";
+
+let inFlight = 0;
+let maxInFlight = 0;
+let calls = 0;
+
+const fakeStyle = (name: string) => ({
+  id: `id-${name}`,
+  getName: () => Promise.resolve(name),
+  isComboClass: () => Promise.resolve(false),
+  getProperties: async (options?: { breakpoint: string; pseudo?: string }) => {
+    calls += 1;
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    inFlight -= 1;
+    if (options?.breakpoint !== "main") return {};
+    return options.pseudo === "hover" ? { color: "red" } : { color: "blue" };
+  },
+});
+
+describe("createStyleService", () => {
+  beforeEach(() => {
+    inFlight = 0;
+    maxInFlight = 0;
+    calls = 0;
+    resetStyleServiceCache();
+    vi.stubGlobal("webflow", {
+      getAllStyles: () =>
+        Promise.resolve(["a", "b", "c"].map((name) => fakeStyle(name))),
+    });
+  });
+
+  afterEach(() => {
+    resetStyleServiceCache();
+    vi.unstubAllGlobals();
+  });
+
+  it("only reads the base context when nothing needs the others", async () => {
+    const service = createStyleService({ needsAllContexts: () => false });
+    const styles = await service.getAllStylesWithProperties();
+
+    expect(calls).toBe(3);
+    expect(styles[0].properties).toEqual({ color: "blue" });
+    expect(styles[0].propertiesByContext).toEqual({
+      main: { color: "blue" },
+    });
+  });
+
+  it("keeps Designer calls within the batch size", async () => {
+    const service = createStyleService({ batchSize: 4 });
+    const styles = await service.getAllStylesWithProperties();
+
+    expect(calls).toBe(3 * 63);
+    expect(maxInFlight).toBe(4);
+    expect(styles[0].propertiesByContext?.["main:hover"]).toEqual({
+      color: "red",
+    });
+  });
+
+  it("refetches a base-only cache when every context is needed", async () => {
+    const service = createStyleService({ needsAllContexts: () => false });
+    await service.getAllStylesWithProperties();
+    const full = await service.getAllStylesWithProperties({
+      allContexts: true,
+    });
+    expect(full[0].propertiesByContext?.["main:hover"]).toBeDefined();
+
+    calls = 0;
+    await service.getAllStylesWithProperties();
+    expect(calls).toBe(0);
+  });
+});
@@ -3,15 +3,24 @@
 
 // Module-level cache for site-wide styles (memoized for the session)
 let cachedAllStylesPromise: Promise<any[]> | null = null;
+// Whether the cached styles carry breakpoint/pseudo-state declarations too
+let cachedHasAllContexts = false;
 
 export function resetStyleServiceCache() {
   cachedAllStylesPromise = null;
+  cachedHasAllContexts = false;
 }
 
-export function getStyleServiceCache() {
+/** A base-only cache does not satisfy a caller that needs every context */
+export function getStyleServiceCache(needsAllContexts = false) {
+  if (needsAllContexts && !cachedHasAllContexts) return null;
   return cachedAllStylesPromise;
 }
 
-export function setStyleServiceCache(cache: Promise<any[]> | null) {
+export function setStyleServiceCache(
+  cache: Promise<any[]> | null,
+  hasAllContexts = false
+) {
   cachedAllStylesPromise = cache;
+  cachedHasAllContexts = cache !== null && hasAllContexts;
 }
@@ -5,12 +5,26 @@ import {
 } from "./style-service-cache";
 
 import type { StyleInfo, StyleWithElement } from "../model/style.types";
+import {
+  BASE_STYLE_CONTEXT,
+  STYLE_BREAKPOINTS,
+  STYLE_PSEUDO_STATES,
+  toStyleContextKey,
+  type StyleBreakpoint,
+  type StyleContext,
+  type StyleContextKey,
+  type StylePseudoState,
+} from "../model/style-contexts";
 import { toElementKey } from "@/entities/element/lib/id";
+import { DESIGNER_BATCH_SIZE, mapInBatches } from "@/shared/lib";
 
 interface Style {
   id: string;
   getName: () => Promise<string>;
-  getProperties: (options?: { breakpoint: string }) => Promise<any>;
+  getProperties: (options?: {
+    breakpoint: StyleBreakpoint;
+    pseudo?: StylePseudoState;
+  }) => Promise<any>;
   // Webflow Designer API: style.isComboClass(): Promise<boolean>
   // Optional at type level to allow graceful fallback in non-supporting contexts
   isComboClass?: () => Promise<boolean>;
@@ -23,9 +37,94 @@ export interface ElementStyleInfo {
 
 const DEBUG = false;
 
-export const createStyleService = () => {
-  const getAllStylesWithProperties = (): Promise<StyleInfo[]> => {
-    let cachedAllStylesPromise = getStyleServiceCache();
+/** Every breakpoint × (plain + each pseudo-state) */
+const STYLE_CONTEXTS: StyleContext[] = STYLE_BREAKPOINTS.flatMap((breakpoint) => [
+  { breakpoint, pseudo: null },
+  ...STYLE_PSEUDO_STATES.map((pseudo) => ({ breakpoint, pseudo })),
+]);
+
+const BASE_CONTEXTS: StyleContext[] = [BASE_STYLE_CONTEXT];
+
+type CollectedProperties = {
+  properties: Record<string, unknown>;
+  propertiesByContext: Record<StyleContextKey, Record<string, unknown>>;
+};
+
+export interface StyleServiceOptions {
+  /** getProperties calls in flight at once, across all styles */
+  batchSize?: number;
+  /**
+   * Whether anything reads breakpoint/pseudo-state declarations. When false
+   * only the base context is fetched (one call per style instead of 63).
+   * Without it every context is fetched.
+   */
+  needsAllContexts?: () => boolean;
+}
+
+/**
+ * Reads each style's own (non-inherited) declarations for `contexts`,
+ * `batchSize` Designer calls at a time. Unsupported breakpoints/states (plan
+ * limits, older Designer builds) are skipped; the base context failing
+ * leaves `properties` empty as before.
+ */
+async function collectStyleProperties(
+  styles: ReadonlyArray<Pick<Style, "getProperties">>,
+  contexts: ReadonlyArray<StyleContext>,
+  batchSize: number
+): Promise<CollectedProperties[]> {
+  const collected: CollectedProperties[] = styles.map(() => ({
+    properties: {},
+    propertiesByContext: {},
+  }));
+  const calls = styles.flatMap((style, styleIndex) =>
+    contexts.map((context) => ({ style, styleIndex, context }))
+  );
+
+  await mapInBatches(
+    calls,
+    async ({ style, styleIndex, context }) => {
+      let props: Record<string, unknown> | null = null;
+      try {
+        props =
+          (await style.getProperties(
+            context.pseudo
+              ? { breakpoint: context.breakpoint, pseudo: context.pseudo }
+              : { breakpoint: context.breakpoint }
+          )) ?? {};
+      } catch (err) {
+        if (DEBUG) console.error("Error getting properties", context, err);
+      }
+      if (props && Object.keys(props).length > 0) {
+        collected[styleIndex].propertiesByContext[toStyleContextKey(context)] =
+          props;
+      }
+    },
+    batchSize
+  );
+
+  for (const entry of collected) {
+    entry.properties = entry.propertiesByContext["main"] ?? {};
+  }
+  return collected;
+}
+
+export const createStyleService = (options: StyleServiceOptions = {}) => {
+  const batchSize = Math.max(1, options.batchSize ?? DESIGNER_BATCH_SIZE);
+  const contextsFor = (allContexts?: boolean): StyleContext[] =>
+    allContexts ?? options.needsAllContexts?.() ?? true
+      ? STYLE_CONTEXTS
+      : BASE_CONTEXTS;
+
+  /**
+   * Site-wide styles with their declarations. `allContexts` overrides the
+   * `needsAllContexts` resolver, e.g. for backups that must be complete.
+   */
+  const getAllStylesWithProperties = (
+    request: { allContexts?: boolean } = {}
+  ): Promise<StyleInfo[]> => {
+    const contexts = contextsFor(request.allContexts);
+    const allContexts = contexts === STYLE_CONTEXTS;
+    let cachedAllStylesPromise = getStyleServiceCache(allContexts);
     if (!cachedAllStylesPromise) {
       if (DEBUG)
         console.log("Fetching ALL styles from the entire Webflow site...");
@@ -36,13 +135,12 @@ export const createStyleService = () => {
             `Retrieved ${allStyles.length} styles from webflow.getAllStyles()`
           );
 
-        if (DEBUG)
-          console.log("Extracting names and properties from all styles...");
-        const allStylesWithProperties = await Promise.all(
-          allStyles.map(async (style, index) => {
+        if (DEBUG) console.log("Extracting names from all styles...");
+        const namedStyles = await mapInBatches(
+          allStyles,
+          async (style, index) => {
             try {
               const name = await style.getName();
-              let properties = {};
               // Prefer Webflow Designer API for combo detection; fall back to heuristic
               let isCombo = false;
               let detectionSource: "api" | "heuristic" = "heuristic";
@@ -66,22 +164,9 @@ export const createStyleService = () => {
                 detectionSource = "heuristic";
               }
 
-              try {
-                // Retrieve unique (non-inherited) properties for all classes
-                // so combos/customs can be compared against utilities
-                properties = await style.getProperties({ breakpoint: "main" });
-              } catch (err) {
-                if (DEBUG)
-                  console.error(
-                    `Error getting properties for style ${name}:`,
-                    err
-                  );
-              }
-
               return {
-                id: style.id,
+                style,
                 name: name?.trim() || "",
-                properties,
                 index,
                 isCombo,
                 detectionSource,
@@ -92,31 +177,34 @@ export const createStyleService = () => {
                   `Error getting name for style at index ${index}, ID ${style.id}:`,
                   err
                 );
-              return {
-                id: style.id,
-                name: "",
-                properties: {},
-                index,
-                isCombo: false,
-              };
+              return { style, name: "", index, isCombo: false };
             }
-          })
+          },
+          batchSize
         );
 
-        const validStyles = allStylesWithProperties.filter(
-          (style) => style.name
-        );
+        const validStyles = namedStyles.filter((style) => style.name);
         if (DEBUG)
           console.log(
             `Found ${validStyles.length} valid styles with names out of ${allStyles.length} total styles`
           );
 
-        return validStyles.map((style, index) => ({
-          ...style,
-          order: index,
+        // Retrieve unique (non-inherited) properties for all classes so
+        // combos/customs can be compared against utilities
+        const collected = await collectStyleProperties(
+          validStyles.map((s) => s.style),
+          contexts,
+          batchSize
+        );
+
+        return validStyles.map(({ style, ...rest }, order) => ({
+          id: style.id,
+          ...rest,
+          ...collected[order],
+          order,
         }));
       })();
-      setStyleServiceCache(cachedAllStylesPromise);
+      setStyleServiceCache(cachedAllStylesPromise, allContexts);
     }
 
     return cachedAllStylesPromise as Promise<StyleInfo[]>;
@@ -181,10 +269,12 @@ export const createStyleService = () => {
         if (id && !seenIds.has(id)) {
           seenIds.add(id);
 
-          let properties = {};
+          let properties: Record<string, unknown> = {};
+          let propertiesByContext: StyleInfo["propertiesByContext"] = {};
           try {
             // Retrieve unique (non-inherited) properties for all classes
-            properties = await style.getProperties({ breakpoint: "main" });
+            [{ properties, propertiesByContext }] =
+              await collectStyleProperties([style], contextsFor(), batchSize);
           } catch (err) {
             console.error(
               `Error getting properties for style ${trimmedName}:`,
@@ -196,6 +286,7 @@ export const createStyleService = () => {
             id,
             name: trimmedName,
             properties,
+            propertiesByContext,
             order: i,
             isCombo,
             detectionSource,
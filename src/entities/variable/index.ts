@@ -0,0 +1,2 @@
+export * from "./model/variable.types";
+export * from "./services/variable.service";
@@ -0,0 +1,10 @@
+// src/entities/variable/model/variable.types.ts
+
+/** A site color variable with its value resolved through aliases */
+export interface ColorVariableInfo {
+  id: string;
+  name: string;
+  /** CSS color string as stored in the Designer (hex, rgba(), color-mix(), …) */
+  value: string;
+  collectionId?: string;
+}
@@ -0,0 +1,100 @@
+// src/entities/variable/services/variable.service.ts
+import type { ColorVariableInfo } from "../model/variable.types";
+
+const MAX_ALIAS_DEPTH = 5;
+
+// Module-level cache (memoized until reset, like the style service cache)
+let cachedColorVariablesPromise: Promise<ColorVariableInfo[]> | null = null;
+let cachedColorVariables: ColorVariableInfo[] = [];
+
+export function resetVariableServiceCache(): void {
+  cachedColorVariablesPromise = null;
+}
+
+/**
+ * Color variables from the last completed fetch. Synchronous so rules can
+ * read them during a run; empty until `getColorVariables()` has resolved.
+ */
+export function getCachedColorVariables(): readonly ColorVariableInfo[] {
+  return cachedColorVariables;
+}
+
+/** Follows alias chains (a variable whose value is another variable) */
+async function resolveColorValue(variable: any): Promise<string | null> {
+  let current = variable;
+  for (let depth = 0; depth < MAX_ALIAS_DEPTH; depth++) {
+    const value = await current.get({ customValues: true });
+    if (typeof value === "string") return value;
+    if (value && typeof value === "object") {
+      if (value.type === "custom" && typeof value.value === "string") {
+        return value.value;
+      }
+      if (typeof value.get === "function") {
+        current = value;
+        continue;
+      }
+    }
+    return null;
+  }
+  return null;
+}
+
+export const createVariableService = () => {
+  const getColorVariables = (): Promise<ColorVariableInfo[]> => {
+    if (cachedColorVariablesPromise) return cachedColorVariablesPromise;
+
+    cachedColorVariablesPromise = (async () => {
+      const wf: any = (window as any).webflow;
+      if (!wf) return [];
+
+      let collections: any[] = [];
+      try {
+        if (typeof wf.getAllVariableCollections === "function") {
+          collections = (await wf.getAllVariableCollections()) ?? [];
+        } else if (typeof wf.getDefaultVariableCollection === "function") {
+          const fallback = await wf.getDefaultVariableCollection();
+          collections = fallback ? [fallback] : [];
+        }
+      } catch (err) {
+        console.warn("[VariableService] Failed to list collections", err);
+        return [];
+      }
+
+      const out: ColorVariableInfo[] = [];
+      for (const collection of collections) {
+        let variables: any[] = [];
+        try {
+          variables = (await collection.getAllVariables()) ?? [];
+        } catch {
+          continue;
+        }
+        const colors = await Promise.all(
+          variables
+            .filter((v) => v?.type === "Color")
+            .map(async (v): Promise<ColorVariableInfo | null> => {
+              try {
+                const [name, value] = await Promise.all([
+                  v.getName(),
+                  resolveColorValue(v),
+                ]);
+                return value
+                  ? { id: v.id, name, value, collectionId: collection.id }
+                  : null;
+              } catch {
+                return null;
+              }
+            })
+        );
+        out.push(...colors.filter((c): c is ColorVariableInfo => c !== null));
+      }
+      cachedColorVariables = out;
+      return out;
+    })();
+
+    return cachedColorVariablesPromise;
+  };
+
+  return { getColorVariables } as const;
+};
+
+export type VariableService = ReturnType<typeof createVariableService>;
@@ -57,6 +57,13 @@ function parseCustom(name: string): ParsedClass {
   return parsed;
 }
 
+// Client-First spells out the element terms Lumos abbreviates
+const CLIENT_FIRST_ELEMENT_TERMS: Record<string, string> = {
+  wrap: "wrapper",
+  contain: "container",
+  img: "image",
+};
+
 export const clientFirstGrammar: GrammarAdapter = {
   id: "client-first",
   isCustomFirstRequired: true,
@@ -70,4 +77,9 @@ export const clientFirstGrammar: GrammarAdapter = {
     }
     return parseCustom(name);
   },
+  format({ componentKey, element }): string {
+    // parse() folds hyphens into underscores; the key goes back to kebab case
+    const key = componentKey.replace(/_/g, "-");
+    return `${key}_${CLIENT_FIRST_ELEMENT_TERMS[element] ?? element}`;
+  },
 };
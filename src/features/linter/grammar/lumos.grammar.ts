@@ -80,4 +80,7 @@ export const lumosGrammar: GrammarAdapter = {
     }
     return parseCustom(name);
   },
+  format({ componentKey, element }): string {
+    return `${componentKey}_${element}`;
+  },
 };
@@ -0,0 +1,129 @@
+// src/features/linter/lib/__tests__/batch-fix-plan.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  buildBatchFixPlan,
+  previewClassList,
+} from "@/features/linter/lib/batch-fix-plan";
+import type { QuickFix, RuleResult } from "@/features/linter/model/rule.types";
+
+const result = (
+  ruleId: string,
+  elementId: string | undefined,
+  fix: QuickFix,
+  inMetadata = false
+): RuleResult => ({
+  ruleId,
+  name: ruleId,
+  message: "",
+  severity: "warning",
+  className: "",
+  isCombo: false,
+  ...(elementId ? { elementId } : {}),
+  ...(inMetadata ? { metadata: { fix } } : { fix }),
+});
+
+const classes: Record<string, string[]> = {
+  e1: ["u-pad", "card", "is-active"],
+  e2: ["hero"],
+};
+const getClasses = (id: string) => classes[id] ?? [];
+
+describe("buildBatchFixPlan", () => {
+  it("orders each element's changes reorder → rename → remove → add", () => {
+    const plan = buildBatchFixPlan(
+      [
+        result("r:add", "e1", {
+          kind: "add-class",
+          className: "u-hide",
+          scope: "element",
+        }),
+        result("r:remove", "e1", {
+          kind: "remove-class",
+          className: "u-pad",
+          scope: "element",
+        }),
+        result("r:rename", "e1", {
+          kind: "rename-class",
+          from: "card",
+          to: "c-card",
+          scope: "element",
+        }),
+        result("r:order", "e1", {
+          kind: "reorder-classes",
+          order: ["card", "is-active", "u-pad"],
+          scope: "element",
+        }),
+      ],
+      getClasses
+    );
+
+    expect(plan.elements[0].changes.map((c) => c.ruleId)).toEqual([
+      "r:order",
+      "r:rename",
+      "r:remove",
+      "r:add",
+    ]);
+    // The reorder still sees "card" because it runs before the rename
+    expect(previewClassList(plan.elements[0], () => true)).toEqual([
+      "c-card",
+      "is-active",
+      "u-hide",
+    ]);
+  });
+
+  it("merges identical fixes from different rules and skips unplaceable ones", () => {
+    const rename: QuickFix = {
+      kind: "rename-class",
+      from: "hero",
+      to: "hero_wrap",
+      scope: "element",
+    };
+    const plan = buildBatchFixPlan(
+      [
+        result("r:a", "e2", rename),
+        result("r:b", "e2", { ...rename }, true),
+        result("r:global", "e2", { ...rename, scope: "global" }),
+        result("r:orphan", undefined, rename),
+      ],
+      getClasses
+    );
+
+    expect(plan.totalChanges).toBe(1);
+    expect(plan.elements).toEqual([
+      {
+        elementId: "e2",
+        before: ["hero"],
+        changes: [expect.objectContaining({ ruleId: "r:a", fix: rename })],
+      },
+    ]);
+  });
+
+  it("keeps conflicting fixes selectable and applies them in plan order", () => {
+    const plan = buildBatchFixPlan(
+      [
+        result("r:lumos", "e2", {
+          kind: "rename-class",
+          from: "hero",
+          to: "hero_wrap",
+          scope: "element",
+        }),
+        result("r:auto", "e2", {
+          kind: "rename-class",
+          from: "hero",
+          to: "section_hero",
+          scope: "element",
+        }),
+      ],
+      getClasses
+    );
+    const [element] = plan.elements;
+
+    expect(element.changes).toHaveLength(2);
+    // The first rename wins; the second no longer finds "hero"
+    expect(previewClassList(element, () => true)).toEqual(["hero_wrap"]);
+    expect(previewClassList(element, (c) => c.ruleId === "r:auto")).toEqual([
+      "section_hero",
+    ]);
+    expect(previewClassList(element, () => false)).toEqual(["hero"]);
+  });
+});
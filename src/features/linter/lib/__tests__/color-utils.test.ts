@@ -0,0 +1,103 @@
+// src/features/linter/lib/__tests__/color-utils.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  parseColor,
+  toHex,
+  rgbToLab,
+  deltaE2000,
+  rankColorMatches,
+} from "@/features/linter/lib/color-utils";
+
+const hexOf = (value: string) => {
+  const parsed = parseColor(value);
+  return parsed ? toHex(parsed) : null;
+};
+
+describe("parseColor", () => {
+  it("parses hex in all lengths", () => {
+    expect(hexOf("#f44")).toBe("#ff4444");
+    expect(hexOf("#FF4444")).toBe("#ff4444");
+    expect(hexOf("#ff444480")).toBe("#ff444480");
+    expect(hexOf("#f448")).toBe("#ff444488");
+  });
+
+  it("parses rgb() and rgba() in comma and space syntax", () => {
+    expect(hexOf("rgb(255, 68, 68)")).toBe("#ff4444");
+    expect(hexOf("rgba(255,68,68,0.5)")).toBe("#ff444480");
+    expect(hexOf("rgb(255 68 68 / 50%)")).toBe("#ff444480");
+    expect(hexOf("rgb(100% 0% 0%)")).toBe("#ff0000");
+  });
+
+  it("parses hsl() with angle units", () => {
+    expect(hexOf("hsl(0, 100%, 50%)")).toBe("#ff0000");
+    expect(hexOf("hsla(120deg 100% 25% / 1)")).toBe("#008000");
+    expect(hexOf("hsl(0.5turn 100% 50%)")).toBe("#00ffff");
+  });
+
+  it("parses named colors and transparent", () => {
+    expect(hexOf("rebeccapurple")).toBe("#663399");
+    expect(parseColor("transparent")?.a).toBe(0);
+  });
+
+  it("parses oklch()", () => {
+    expect(hexOf("oklch(62.8% 0.2577 29.23)")).toBe("#ff0000");
+    expect(hexOf("oklch(1 0 0)")).toBe("#ffffff");
+  });
+
+  it("parses color-mix()", () => {
+    expect(hexOf("color-mix(in srgb, red, blue)")).toBe("#800080");
+    expect(hexOf("color-mix(in srgb, red 25%, white)")).toBe("#ffbfbf");
+    expect(hexOf("color-mix(in oklab, white, white)")).toBe("#ffffff");
+    expect(hexOf("color-mix(in srgb, red 40%, blue 40%)")).toBe("#800080cc");
+  });
+
+  it("rejects values that are not literal colors", () => {
+    expect(parseColor("var(--brand)")).toBeNull();
+    expect(parseColor("currentcolor")).toBeNull();
+    expect(parseColor("#ggg")).toBeNull();
+    expect(parseColor("color-mix(in srgb, var(--a), red)")).toBeNull();
+    expect(parseColor("12px")).toBeNull();
+  });
+});
+
+describe("deltaE2000", () => {
+  // Reference pairs from Sharma, Wu & Dalal (2005)
+  it.each([
+    [{ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }, 2.0425],
+    [{ l: 50, a: -1.3802, b: -84.2814 }, { l: 50, a: 0, b: -82.7485 }, 1.0],
+    [{ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 }, 27.1492],
+    [{ l: 2.0776, a: 0.0795, b: -1.135 }, { l: 0.9033, a: -0.0636, b: -0.5514 }, 0.9082],
+  ])("matches the published value for %o vs %o", (lab1, lab2, expected) => {
+    expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 3);
+  });
+
+  it("is zero for identical colors", () => {
+    const lab = rgbToLab({ r: 255, g: 68, b: 68, a: 1 });
+    expect(deltaE2000(lab, lab)).toBe(0);
+  });
+});
+
+describe("rankColorMatches", () => {
+  const variables = [
+    { id: "v1", name: "Brand / Blue", value: "#1e40af" },
+    { id: "v2", name: "Brand / Red", value: "#ef4444" },
+    { id: "v3", name: "Neutral / White", value: "white" },
+    { id: "v4", name: "Broken", value: "var(--missing)" },
+  ];
+
+  it("orders candidates by perceptual distance", () => {
+    const matches = rankColorMatches("#ff4444", variables);
+    expect(matches.map((m) => m.candidate.id)).toEqual(["v2", "v3", "v1"]);
+    expect(matches[0].deltaE).toBeLessThan(5);
+  });
+
+  it("skips candidates that do not parse and respects the limit", () => {
+    const matches = rankColorMatches("#ffffff", variables, 10);
+    expect(matches).toHaveLength(3);
+    expect(matches[0].deltaE).toBe(0);
+  });
+
+  it("returns nothing for an unparseable value", () => {
+    expect(rankColorMatches("var(--x)", variables)).toEqual([]);
+  });
+});
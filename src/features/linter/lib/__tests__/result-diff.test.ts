@@ -0,0 +1,68 @@
+// src/features/linter/lib/__tests__/result-diff.test.ts
+import { describe, it, expect } from "vitest";
+import { diffResults } from "@/features/linter/lib/result-diff";
+import { resultFingerprint } from "@/features/linter/lib/result-fingerprint";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+
+const result = (
+  elementId: string,
+  metadata: Record<string, unknown> = {},
+  message = "msg"
+): RuleResult => ({
+  ruleId: "rule:a",
+  name: "Rule A",
+  message,
+  severity: "warning",
+  className: "card",
+  elementId,
+  isCombo: false,
+  metadata,
+});
+
+describe("result fingerprints and diffing", () => {
+  it("ignores metadata key order and message text", () => {
+    expect(resultFingerprint(result("el-1", { a: 1, b: [2] }, "x"))).toBe(
+      resultFingerprint(result("el-1", { b: [2], a: 1 }, "y"))
+    );
+    expect(resultFingerprint(result("el-1", { a: 1 }))).not.toBe(
+      resultFingerprint(result("el-2", { a: 1 }))
+    );
+  });
+
+  it("only hashes identity metadata, not page context", () => {
+    const base = { propertyName: "color", role: "section" };
+    expect(
+      resultFingerprint(
+        result("el-1", {
+          ...base,
+          roleSource: "manual",
+          nearestVariables: [{ id: "v1" }],
+          outline: [{ elementId: "h1", level: 1 }],
+        })
+      )
+    ).toBe(resultFingerprint(result("el-1", base)));
+    expect(resultFingerprint(result("el-1", base))).not.toBe(
+      resultFingerprint(result("el-1", { propertyName: "background-color" }))
+    );
+    expect(
+      resultFingerprint(
+        result("el-1", {
+          ...base,
+          styleContext: { breakpoint: "small", pseudo: "hover" },
+        })
+      )
+    ).not.toBe(resultFingerprint(result("el-1", base)));
+  });
+
+  it("reports fixed and introduced findings between runs", () => {
+    const previous = [result("el-1"), result("el-2"), result("el-2")];
+    const current = [result("el-2"), result("el-3")];
+    const diff = diffResults(previous, current);
+    expect(diff.introduced.map((r) => r.elementId)).toEqual(["el-3"]);
+    expect(diff.fixed.map((r) => r.elementId).sort()).toEqual([
+      "el-1",
+      "el-2",
+    ]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+});
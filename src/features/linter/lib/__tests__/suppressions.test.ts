@@ -0,0 +1,71 @@
+// src/features/linter/lib/__tests__/suppressions.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  createSuppressionMatcher,
+  parseSuppressionList,
+  summarizeSuppressed,
+} from "@/features/linter/lib/suppressions";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+
+const attributes: Record<string, Record<string, string>> = {
+  section: { "data-flowlint-disable-tree": "rule:a" },
+  card: { "data-flowlint-disable": "rule:b, rule:c" },
+  legacy: { "data-flowlint-disable": "" },
+};
+const parents: Record<string, string | null> = {
+  section: null,
+  card: "section",
+  title: "card",
+  legacy: null,
+  footer: null,
+};
+
+const getAncestorIds = (id: string) => {
+  const out: string[] = [];
+  let cur = parents[id] ?? null;
+  while (cur) {
+    out.push(cur);
+    cur = parents[cur] ?? null;
+  }
+  return out;
+};
+
+const isSuppressed = createSuppressionMatcher({
+  getAttributes: (id) => attributes[id],
+  getAncestorIds,
+});
+
+describe("inline suppressions", () => {
+  it("parses lists and wildcards", () => {
+    expect(parseSuppressionList(" rule:a ,rule:b,")).toEqual(
+      new Set(["rule:a", "rule:b"])
+    );
+    expect(parseSuppressionList("")).toBe("all");
+    expect(parseSuppressionList("rule:a,*")).toBe("all");
+  });
+
+  it("applies element suppressions only to that element", () => {
+    expect(isSuppressed("rule:b", "card")).toBe(true);
+    expect(isSuppressed("rule:c", "card")).toBe(true);
+    expect(isSuppressed("rule:b", "title")).toBe(false);
+    expect(isSuppressed("rule:b", "section")).toBe(false);
+  });
+
+  it("applies tree suppressions to the element and its descendants", () => {
+    expect(isSuppressed("rule:a", "section")).toBe(true);
+    expect(isSuppressed("rule:a", "title")).toBe(true);
+    expect(isSuppressed("rule:a", "footer")).toBe(false);
+  });
+
+  it("treats an empty value as disabling every rule", () => {
+    expect(isSuppressed("anything", "legacy")).toBe(true);
+    expect(isSuppressed("anything", undefined)).toBe(false);
+  });
+
+  it("summarizes suppressed results per rule", () => {
+    const r = (ruleId: string) => ({ ruleId }) as RuleResult;
+    expect(summarizeSuppressed([r("rule:a"), r("rule:a"), r("rule:b")])).toEqual(
+      { total: 3, byRule: { "rule:a": 2, "rule:b": 1 } }
+    );
+  });
+});
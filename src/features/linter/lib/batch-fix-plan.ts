@@ -0,0 +1,99 @@
+// src/features/linter/lib/batch-fix-plan.ts
+import { stableStringify } from "@/shared/lib";
+import type { QuickFix, RuleResult } from "@/features/linter/model/rule.types";
+import {
+  applyFixToClassList,
+  describeFix,
+  getQuickFix,
+  getResultElementId,
+} from "@/features/linter/services/fix-applier.service";
+
+export interface BatchFixChange {
+  /** Stable key used for selection state */
+  key: string;
+  elementId: string;
+  ruleId: string;
+  fix: QuickFix;
+  description: string;
+}
+
+export interface BatchFixElementPlan {
+  elementId: string;
+  /** Class list in `getStyles()` order at scan time */
+  before: string[];
+  changes: BatchFixChange[];
+}
+
+export interface BatchFixPlan {
+  elements: BatchFixElementPlan[];
+  totalChanges: number;
+}
+
+// Reorders first: their `order` lists use the names present at scan time,
+// so running them after a rename would push the renamed class to the end.
+const KIND_PRIORITY: Record<QuickFix["kind"], number> = {
+  "reorder-classes": 0,
+  "rename-class": 1,
+  "remove-class": 2,
+  "add-class": 3,
+  "set-variable": 4,
+};
+
+/**
+ * Groups every fixable result by element. Global-scope fixes are left out
+ * because they touch more than the element being previewed.
+ */
+export function buildBatchFixPlan(
+  results: ReadonlyArray<RuleResult>,
+  getClassesForElement: (elementId: string) => string[]
+): BatchFixPlan {
+  const byElement = new Map<string, BatchFixChange[]>();
+  const seen = new Set<string>();
+
+  for (const result of results) {
+    const fix = getQuickFix(result);
+    const elementId = getResultElementId(result);
+    if (!fix || !elementId || fix.scope !== "element") continue;
+
+    const key = `${elementId}:${stableStringify(fix)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const list = byElement.get(elementId) ?? [];
+    list.push({
+      key,
+      elementId,
+      ruleId: result.ruleId,
+      fix,
+      description: describeFix(fix),
+    });
+    byElement.set(elementId, list);
+  }
+
+  const elements: BatchFixElementPlan[] = [];
+  for (const [elementId, changes] of byElement.entries()) {
+    changes.sort((a, b) => KIND_PRIORITY[a.fix.kind] - KIND_PRIORITY[b.fix.kind]);
+    elements.push({
+      elementId,
+      before: getClassesForElement(elementId),
+      changes,
+    });
+  }
+
+  return {
+    elements,
+    totalChanges: elements.reduce((n, e) => n + e.changes.length, 0),
+  };
+}
+
+/** Class list after applying the selected changes, in plan order */
+export function previewClassList(
+  element: BatchFixElementPlan,
+  isSelected: (change: BatchFixChange) => boolean
+): string[] {
+  return element.changes
+    .filter(isSelected)
+    .reduce((classes, change) => applyFixToClassList(classes, change.fix), [
+      ...element.before,
+    ]);
+}
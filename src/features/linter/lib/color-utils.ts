@@ -1,8 +1,560 @@
+/** sRGB color with 0–255 channels (unrounded) and 0–1 alpha */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// CSS Color Module Level 4 named colors
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: "f0f8ff", antiquewhite: "faebd7", aqua: "00ffff",
+  aquamarine: "7fffd4", azure: "f0ffff", beige: "f5f5dc", bisque: "ffe4c4",
+  black: "000000", blanchedalmond: "ffebcd", blue: "0000ff",
+  blueviolet: "8a2be2", brown: "a52a2a", burlywood: "deb887",
+  cadetblue: "5f9ea0", chartreuse: "7fff00", chocolate: "d2691e",
+  coral: "ff7f50", cornflowerblue: "6495ed", cornsilk: "fff8dc",
+  crimson: "dc143c", cyan: "00ffff", darkblue: "00008b", darkcyan: "008b8b",
+  darkgoldenrod: "b8860b", darkgray: "a9a9a9", darkgreen: "006400",
+  darkgrey: "a9a9a9", darkkhaki: "bdb76b", darkmagenta: "8b008b",
+  darkolivegreen: "556b2f", darkorange: "ff8c00", darkorchid: "9932cc",
+  darkred: "8b0000", darksalmon: "e9967a", darkseagreen: "8fbc8f",
+  darkslateblue: "483d8b", darkslategray: "2f4f4f", darkslategrey: "2f4f4f",
+  darkturquoise: "00ced1", darkviolet: "9400d3", deeppink: "ff1493",
+  deepskyblue: "00bfff", dimgray: "696969", dimgrey: "696969",
+  dodgerblue: "1e90ff", firebrick: "b22222", floralwhite: "fffaf0",
+  forestgreen: "228b22", fuchsia: "ff00ff", gainsboro: "dcdcdc",
+  ghostwhite: "f8f8ff", gold: "ffd700", goldenrod: "daa520", gray: "808080",
+  green: "008000", greenyellow: "adff2f", grey: "808080", honeydew: "f0fff0",
+  hotpink: "ff69b4", indianred: "cd5c5c", indigo: "4b0082", ivory: "fffff0",
+  khaki: "f0e68c", lavender: "e6e6fa", lavenderblush: "fff0f5",
+  lawngreen: "7cfc00", lemonchiffon: "fffacd", lightblue: "add8e6",
+  lightcoral: "f08080", lightcyan: "e0ffff", lightgoldenrodyellow: "fafad2",
+  lightgray: "d3d3d3", lightgreen: "90ee90", lightgrey: "d3d3d3",
+  lightpink: "ffb6c1", lightsalmon: "ffa07a", lightseagreen: "20b2aa",
+  lightskyblue: "87cefa", lightslategray: "778899", lightslategrey: "778899",
+  lightsteelblue: "b0c4de", lightyellow: "ffffe0", lime: "00ff00",
+  limegreen: "32cd32", linen: "faf0e6", magenta: "ff00ff", maroon: "800000",
+  mediumaquamarine: "66cdaa", mediumblue: "0000cd", mediumorchid: "ba55d3",
+  mediumpurple: "9370db", mediumseagreen: "3cb371", mediumslateblue: "7b68ee",
+  mediumspringgreen: "00fa9a", mediumturquoise: "48d1cc",
+  mediumvioletred: "c71585", midnightblue: "191970", mintcream: "f5fffa",
+  mistyrose: "ffe4e1", moccasin: "ffe4b5", navajowhite: "ffdead",
+  navy: "000080", oldlace: "fdf5e6", olive: "808000", olivedrab: "6b8e23",
+  orange: "ffa500", orangered: "ff4500", orchid: "da70d6",
+  palegoldenrod: "eee8aa", palegreen: "98fb98", paleturquoise: "afeeee",
+  palevioletred: "db7093", papayawhip: "ffefd5", peachpuff: "ffdab9",
+  peru: "cd853f", pink: "ffc0cb", plum: "dda0dd", powderblue: "b0e0e6",
+  purple: "800080", rebeccapurple: "663399", red: "ff0000",
+  rosybrown: "bc8f8f", royalblue: "4169e1", saddlebrown: "8b4513",
+  salmon: "fa8072", sandybrown: "f4a460", seagreen: "2e8b57",
+  seashell: "fff5ee", sienna: "a0522d", silver: "c0c0c0", skyblue: "87ceeb",
+  slateblue: "6a5acd", slategray: "708090", slategrey: "708090",
+  snow: "fffafa", springgreen: "00ff7f", steelblue: "4682b4", tan: "d2b48c",
+  teal: "008080", thistle: "d8bfd8", tomato: "ff6347", turquoise: "40e0d0",
+  violet: "ee82ee", wheat: "f5deb3", white: "ffffff", whitesmoke: "f5f5f5",
+  yellow: "ffff00", yellowgreen: "9acd32",
+};
+
+const clamp = (n: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, n));
+
+/** Splits on commas (or whitespace) that are not nested inside parentheses */
+const splitTopLevel = (input: string, separator: "," | " "): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of input) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    const isSeparator = separator === "," ? ch === "," : /\s/.test(ch);
+    if (isSeparator && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+/** Reads `fn(a b c / d)` or `fn(a, b, c, d)` into channel strings + alpha */
+const readChannels = (
+  args: string
+): { channels: string[]; alpha: string | null } | null => {
+  const [main, alpha, ...rest] = args.split("/");
+  if (rest.length) return null;
+  const channels = main.includes(",")
+    ? splitTopLevel(main, ",")
+    : splitTopLevel(main, " ");
+  if (alpha !== undefined) {
+    if (channels.length !== 3) return null;
+    return { channels, alpha: alpha.trim() };
+  }
+  if (channels.length === 4) return { channels: channels.slice(0, 3), alpha: channels[3] };
+  return channels.length === 3 ? { channels, alpha: null } : null;
+};
+
+/** Number or percentage; `percentScale` maps 100% onto the channel range */
+const parseNumber = (token: string, percentScale = 1): number | null => {
+  if (token === "none") return 0;
+  const match = /^(-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?)(%)?$/i.exec(token);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  return match[2] ? (n / 100) * percentScale : n;
+};
+
+const parseAlpha = (token: string | null): number | null => {
+  if (token === null) return 1;
+  const n = parseNumber(token, 1);
+  return n === null ? null : clamp(n, 0, 1);
+};
+
+const parseHue = (token: string): number | null => {
+  if (token === "none") return 0;
+  const match = /^(-?(?:\d+\.?\d*|\.\d+))(deg|grad|rad|turn)?$/i.exec(token);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  switch ((match[2] ?? "deg").toLowerCase()) {
+    case "grad":
+      return n * 0.9;
+    case "rad":
+      return (n * 180) / Math.PI;
+    case "turn":
+      return n * 360;
+    default:
+      return n;
+  }
+};
+
+const parseHex = (hex: string): RgbaColor | null => {
+  if (!/^[0-9a-f]+$/i.test(hex)) return null;
+  const full =
+    hex.length === 3 || hex.length === 4
+      ? hex
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : hex;
+  if (full.length !== 6 && full.length !== 8) return null;
+  return {
+    r: parseInt(full.slice(0, 2), 16),
+    g: parseInt(full.slice(2, 4), 16),
+    b: parseInt(full.slice(4, 6), 16),
+    a: full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1,
+  };
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const hue = ((h % 360) + 360) % 360;
+  const f = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+};
+
+// ---- sRGB <-> linear <-> OKLab ----
+
+const toLinear = (c: number): number =>
+  c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+
+const fromLinear = (c: number): number =>
+  c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+
+const linearToOklab = (r: number, g: number, b: number): LabColor => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+};
+
+const oklabToLinear = ({ l, a, b }: LabColor): [number, number, number] => {
+  const l_ = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m_ = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s_ = Math.pow(l - 0.0894841775 * a - 1.291485548 * b, 3);
+  return [
+    4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_,
+    -1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_,
+    -0.0041960863 * l_ - 0.7034186147 * m_ + 1.707614701 * s_,
+  ];
+};
+
+const fromLinearChannels = (
+  [r, g, b]: [number, number, number],
+  a: number
+): RgbaColor => ({
+  r: clamp(fromLinear(r), 0, 1) * 255,
+  g: clamp(fromLinear(g), 0, 1) * 255,
+  b: clamp(fromLinear(b), 0, 1) * 255,
+  a,
+});
+
+const toOklab = (c: RgbaColor): LabColor =>
+  linearToOklab(
+    toLinear(c.r / 255),
+    toLinear(c.g / 255),
+    toLinear(c.b / 255)
+  );
+
+const oklchToRgb = (l: number, c: number, h: number, a: number): RgbaColor => {
+  const rad = (h * Math.PI) / 180;
+  return fromLinearChannels(
+    oklabToLinear({ l, a: c * Math.cos(rad), b: c * Math.sin(rad) }),
+    a
+  );
+};
+
+// ---- color-mix() ----
+
+type MixSpace = "srgb" | "srgb-linear" | "oklab" | "oklch";
+
+const MIX_SPACES: readonly MixSpace[] = [
+  "srgb",
+  "srgb-linear",
+  "oklab",
+  "oklch",
+];
+
+/** Projects a color into the mixing space (alpha stays separate) */
+const toMixSpace = (c: RgbaColor, space: MixSpace): number[] => {
+  switch (space) {
+    case "srgb":
+      return [c.r / 255, c.g / 255, c.b / 255];
+    case "srgb-linear":
+      return [toLinear(c.r / 255), toLinear(c.g / 255), toLinear(c.b / 255)];
+    case "oklab": {
+      const lab = toOklab(c);
+      return [lab.l, lab.a, lab.b];
+    }
+    case "oklch": {
+      const lab = toOklab(c);
+      const chroma = Math.hypot(lab.a, lab.b);
+      const hue = (Math.atan2(lab.b, lab.a) * 180) / Math.PI;
+      return [lab.l, chroma, (hue + 360) % 360];
+    }
+  }
+};
+
+const fromMixSpace = (v: number[], space: MixSpace, a: number): RgbaColor => {
+  switch (space) {
+    case "srgb":
+      return {
+        r: clamp(v[0], 0, 1) * 255,
+        g: clamp(v[1], 0, 1) * 255,
+        b: clamp(v[2], 0, 1) * 255,
+        a,
+      };
+    case "srgb-linear":
+      return fromLinearChannels([v[0], v[1], v[2]], a);
+    case "oklab":
+      return fromLinearChannels(oklabToLinear({ l: v[0], a: v[1], b: v[2] }), a);
+    case "oklch":
+      return oklchToRgb(v[0], v[1], v[2], a);
+  }
+};
+
+const parseColorMix = (args: string): RgbaColor | null => {
+  const parts = splitTopLevel(args, ",");
+  if (parts.length !== 3) return null;
+
+  const spaceMatch = /^in\s+([a-z-]+)(?:\s+(shorter|longer)\s+hue)?$/i.exec(
+    parts[0]
+  );
+  const space = spaceMatch?.[1].toLowerCase() as MixSpace | undefined;
+  if (!space || !MIX_SPACES.includes(space)) return null;
+  const longerHue = spaceMatch?.[2]?.toLowerCase() === "longer";
+
+  const readStop = (part: string) => {
+    const tokens = splitTopLevel(part, " ");
+    let pct: number | null = null;
+    const colorTokens = tokens.filter((t) => {
+      if (/%$/.test(t) && pct === null && !t.includes("(")) {
+        pct = parseNumber(t, 1);
+        return false;
+      }
+      return true;
+    });
+    const color = parseColor(colorTokens.join(" "));
+    return color ? { color, pct: pct as number | null } : null;
+  };
+
+  const first = readStop(parts[1]);
+  const second = readStop(parts[2]);
+  if (!first || !second) return null;
+
+  let p1 = first.pct;
+  let p2 = second.pct;
+  if (p1 === null && p2 === null) p1 = p2 = 0.5;
+  else if (p1 === null) p1 = 1 - (p2 as number);
+  else if (p2 === null) p2 = 1 - p1;
+  const sum = (p1 as number) + (p2 as number);
+  if (sum <= 0) return null;
+  const w2 = (p2 as number) / sum;
+  const w1 = 1 - w2;
+  // Percentages summing below 100% leave the result partially transparent
+  const alphaScale = Math.min(sum, 1);
+
+  const a = first.color.a * w1 + second.color.a * w2;
+  const v1 = toMixSpace(first.color, space);
+  const v2 = toMixSpace(second.color, space);
+
+  if (space === "oklch") {
+    let delta = v2[2] - v1[2];
+    if (!longerHue && Math.abs(delta) > 180) delta -= Math.sign(delta) * 360;
+    if (longerHue && Math.abs(delta) < 180 && delta !== 0)
+      delta -= Math.sign(delta) * 360;
+    const mixed = [
+      v1[0] * w1 + v2[0] * w2,
+      v1[1] * w1 + v2[1] * w2,
+      v1[2] + delta * w2,
+    ];
+    return fromMixSpace(mixed, space, a * alphaScale);
+  }
+
+  // Rectangular spaces interpolate premultiplied channels
+  const mixed = [0, 1, 2].map((i) =>
+    a === 0
+      ? 0
+      : (v1[i] * first.color.a * w1 + v2[i] * second.color.a * w2) / a
+  );
+  return fromMixSpace(mixed, space, a * alphaScale);
+};
+
+/**
+ * Parses a CSS color into sRGB. Supports hex, `rgb()`/`rgba()`,
+ * `hsl()`/`hsla()`, named colors, `transparent`, `oklch()` and
+ * `color-mix()` (in srgb, srgb-linear, oklab or oklch). Returns `null` for
+ * anything else, including `var()` references and `currentcolor`.
+ */
+export function parseColor(value: string): RgbaColor | null {
+  const input = value.trim().toLowerCase();
+  if (!input) return null;
+
+  if (input.startsWith("#")) return parseHex(input.slice(1));
+  if (input === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  const named = NAMED_COLORS[input];
+  if (named) return parseHex(named);
+
+  const fn = /^([a-z-]+)\((.*)\)$/s.exec(input);
+  if (!fn) return null;
+  const [, name, args] = fn;
+
+  if (name === "color-mix") return parseColorMix(args);
+
+  const parsed = readChannels(args);
+  if (!parsed) return null;
+  const { channels } = parsed;
+  const a = parseAlpha(parsed.alpha);
+  if (a === null) return null;
+
+  if (name === "rgb" || name === "rgba") {
+    const [r, g, b] = channels.map((c) => parseNumber(c, 255));
+    if (r === null || g === null || b === null) return null;
+    return { r: clamp(r, 0, 255), g: clamp(g, 0, 255), b: clamp(b, 0, 255), a };
+  }
+
+  if (name === "hsl" || name === "hsla") {
+    const h = parseHue(channels[0]);
+    const s = parseNumber(channels[1], 1);
+    const l = parseNumber(channels[2], 1);
+    if (h === null || s === null || l === null) return null;
+    // Legacy unitless s/l (e.g. `hsl(0 100 50)`) are percentages too
+    const sat = channels[1].endsWith("%") ? s : s / 100;
+    const light = channels[2].endsWith("%") ? l : l / 100;
+    const [r, g, b] = hslToRgb(h, clamp(sat, 0, 1), clamp(light, 0, 1));
+    return { r, g, b, a };
+  }
+
+  if (name === "oklch") {
+    const l = parseNumber(channels[0], 1);
+    const c = parseNumber(channels[1], 0.4);
+    const h = parseHue(channels[2]);
+    if (l === null || c === null || h === null) return null;
+    return oklchToRgb(clamp(l, 0, 1), Math.max(0, c), h, a);
+  }
+
+  return null;
+}
+
+/** `#rrggbb`, or `#rrggbbaa` when the color is translucent */
+export function toHex(color: RgbaColor): string {
+  const hex = (n: number) =>
+    Math.round(clamp(n, 0, 255))
+      .toString(16)
+      .padStart(2, "0");
+  const base = `#${hex(color.r)}${hex(color.g)}${hex(color.b)}`;
+  return color.a < 1 ? `${base}${hex(color.a * 255)}` : base;
+}
+
+/** CIE L*a*b* (D65) from sRGB */
+export function rgbToLab(color: RgbaColor): LabColor {
+  const r = toLinear(color.r / 255);
+  const g = toLinear(color.g / 255);
+  const b = toLinear(color.b / 255);
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b;
+  const z = (0.0193339 * r + 0.119192 * g + 0.9503041 * b) / 1.08883;
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * CIEDE2000 color difference. Roughly: < 1 imperceptible, 1–2 close
+ * inspection, 2–10 noticeable at a glance, > 10 a different color.
+ */
+export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const rad = Math.PI / 180;
+  const deg = 180 / Math.PI;
+
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cBar7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  const a1p = lab1.a * (1 + g);
+  const a2p = lab2.a * (1 + g);
+  const c1p = Math.hypot(a1p, lab1.b);
+  const c2p = Math.hypot(a2p, lab2.b);
+  const hue = (b: number, a: number) =>
+    b === 0 && a === 0 ? 0 : (Math.atan2(b, a) * deg + 360) % 360;
+  const h1p = hue(lab1.b, a1p);
+  const h2p = hue(lab2.b, a2p);
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad);
+
+  const lBarP = (lab1.l + lab2.l) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP /= 2;
+    else hBarP = h1p + h2p < 360 ? (hBarP + 360) / 2 : (hBarP - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hBarP - 30) * rad) +
+    0.24 * Math.cos(2 * hBarP * rad) +
+    0.32 * Math.cos((3 * hBarP + 6) * rad) -
+    0.2 * Math.cos((4 * hBarP - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((hBarP - 275) / 25, 2));
+  const cBarP7 = Math.pow(cBarP, 7);
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + Math.pow(25, 7)));
+  const sl =
+    1 +
+    (0.015 * Math.pow(lBarP - 50, 2)) / Math.sqrt(20 + Math.pow(lBarP - 50, 2));
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(2 * dTheta * rad) * rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / sl, 2) +
+      Math.pow(dCp / sc, 2) +
+      Math.pow(dHp / sh, 2) +
+      rt * (dCp / sc) * (dHp / sh)
+  );
+}
+
+/** Alpha-composites `top` over `bottom` (source-over) */
+export function compositeOver(top: RgbaColor, bottom: RgbaColor): RgbaColor {
+  const a = top.a + bottom.a * (1 - top.a);
+  if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  const mix = (t: number, b: number) =>
+    (t * top.a + b * bottom.a * (1 - top.a)) / a;
+  return {
+    r: mix(top.r, bottom.r),
+    g: mix(top.g, bottom.g),
+    b: mix(top.b, bottom.b),
+    a,
+  };
+}
+
+/** WCAG 2.x relative luminance (alpha ignored) */
+export function relativeLuminance(color: RgbaColor): number {
+  return (
+    0.2126 * toLinear(color.r / 255) +
+    0.7152 * toLinear(color.g / 255) +
+    0.0722 * toLinear(color.b / 255)
+  );
+}
+
+/** WCAG 2.x contrast ratio between two opaque colors, 1–21 */
+export function contrastRatio(fg: RgbaColor, bg: RgbaColor): number {
+  const l1 = relativeLuminance(fg);
+  const l2 = relativeLuminance(bg);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+export interface ColorMatch<T> {
+  candidate: T;
+  hex: string;
+  deltaE: number;
+}
+
+/**
+ * Ranks candidate colors by CIEDE2000 distance to `value`, closest first.
+ * Candidates whose value does not parse are skipped.
+ */
+export function rankColorMatches<T extends { value: string }>(
+  value: string,
+  candidates: readonly T[],
+  limit = 3
+): ColorMatch<T>[] {
+  const target = parseColor(value);
+  if (!target) return [];
+  const targetLab = rgbToLab(target);
+
+  const matches: ColorMatch<T>[] = [];
+  for (const candidate of candidates) {
+    const color = parseColor(candidate.value);
+    if (!color) continue;
+    // Opacity differences count as much as a full lightness step
+    const alphaPenalty = Math.abs(color.a - target.a) * 100;
+    matches.push({
+      candidate,
+      hex: toHex(color),
+      deltaE: deltaE2000(targetLab, rgbToLab(color)) + alphaPenalty,
+    });
+  }
+  return matches.sort((x, y) => x.deltaE - y.deltaE).slice(0, limit);
+}
+
 /**
  * Converts various color formats to hex format for display purposes.
- * This is a simplified conversion that handles common cases.
+ * Falls back to the browser's computed style for syntaxes `parseColor`
+ * does not understand.
  */
 export const convertColorToHex = (colorValue: string): string => {
+  const parsed = parseColor(colorValue);
+  if (parsed) {
+    // Keep named colors readable; everything else is normalized
+    return /^[a-z]+$/i.test(colorValue.trim()) ? colorValue : toHex(parsed);
+  }
+
   // If it's already hex, return as is
   if (colorValue.startsWith("#")) {
     return colorValue;
@@ -13,7 +565,7 @@ export const convertColorToHex = (colorValue: string): string => {
     return colorValue;
   }
 
-  // For HSL/HSLA, RGB/RGBA - create a temporary element to convert
+  // Anything else - create a temporary element to convert
   try {
     const tempElement = document.createElement("div");
     tempElement.style.color = colorValue;
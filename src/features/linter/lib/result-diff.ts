@@ -0,0 +1,44 @@
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import { resultFingerprint } from "@/features/linter/lib/result-fingerprint";
+
+export interface ResultDiff {
+  /** In the current run but not the previous one */
+  introduced: RuleResult[];
+  /** In the previous run but gone now */
+  fixed: RuleResult[];
+  unchangedCount: number;
+}
+
+const keyOf = (r: RuleResult) => r.fingerprint ?? resultFingerprint(r);
+
+/**
+ * Compares two runs by fingerprint. Identical fingerprints are matched
+ * one-to-one, so a finding that occurs twice and then once counts as one fix.
+ */
+export function diffResults(
+  previous: ReadonlyArray<RuleResult>,
+  current: ReadonlyArray<RuleResult>
+): ResultDiff {
+  const pending = new Map<string, RuleResult[]>();
+  for (const r of previous) {
+    const key = keyOf(r);
+    const list = pending.get(key) ?? [];
+    list.push(r);
+    pending.set(key, list);
+  }
+
+  const introduced: RuleResult[] = [];
+  let unchangedCount = 0;
+  for (const r of current) {
+    const match = pending.get(keyOf(r));
+    if (match && match.length > 0) {
+      match.shift();
+      unchangedCount++;
+    } else {
+      introduced.push(r);
+    }
+  }
+
+  const fixed = Array.from(pending.values()).flat();
+  return { introduced, fixed, unchangedCount };
+}
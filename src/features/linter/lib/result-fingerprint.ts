@@ -0,0 +1,85 @@
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import { stableStringify } from "@/shared/lib";
+import {
+  toStyleContextKey,
+  type StyleContext,
+} from "@/entities/style/model/style-contexts";
+
+/** DJB2 string hash, base36 (same scheme as lint context signatures) */
+export function hashString(value: string): string {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) {
+    h = (h << 5) + h + value.charCodeAt(i);
+  }
+  return (h >>> 0).toString(36);
+}
+
+/**
+ * Values interpolated into a message (quoted or backticked segments), so
+ * rewording a message doesn't invalidate fingerprints but a different
+ * offending value does. Falls back to the whole message when nothing is quoted.
+ */
+export function extractMessageParams(message: string): string[] {
+  const params: string[] = [];
+  const quoted = /"([^"]*)"|'([^']*)'|`([^`]*)`/g;
+  let match: RegExpExecArray | null;
+  while ((match = quoted.exec(message)) !== null) {
+    params.push(match[1] ?? match[2] ?? match[3] ?? "");
+  }
+  return params.length > 0
+    ? params
+    : [message.replace(/\s+/g, " ").trim()];
+}
+
+/**
+ * Identity of a finding for baselines:
+ * `ruleId | className | elementKey | hash(message params)`.
+ * Context-aware property results also carry their breakpoint/pseudo-state.
+ */
+export function baselineFingerprint(result: RuleResult): string {
+  const styleContext = result.metadata?.styleContext as
+    | StyleContext
+    | undefined;
+  const params = extractMessageParams(result.message ?? "");
+  if (styleContext) params.push(toStyleContextKey(styleContext));
+  return [
+    result.ruleId,
+    result.className ?? "",
+    result.elementId ?? "",
+    hashString(params.join("\u0000")),
+  ].join("|");
+}
+
+/**
+ * Metadata keys rules use to tell findings on the same element and class
+ * apart. Everything else in metadata (roles, outlines, suggestions, nearby
+ * variables, …) describes the page around the finding and stays out of its
+ * identity.
+ */
+const IDENTITY_METADATA_KEYS = [
+  "propertyName",
+  "property",
+  "issue",
+  "reason",
+  "level",
+] as const;
+
+/**
+ * Identity of a finding across runs:
+ * `ruleId | elementKey | className | hash(style context + discriminators)`.
+ * Unlike {@link baselineFingerprint} it ignores the message text entirely.
+ */
+export function resultFingerprint(result: RuleResult): string {
+  const metadata = result.metadata ?? {};
+  const styleContext = metadata.styleContext as StyleContext | undefined;
+  const identity: Record<string, unknown> = {
+    styleContext: styleContext ? toStyleContextKey(styleContext) : undefined,
+  };
+  for (const key of IDENTITY_METADATA_KEYS) identity[key] = metadata[key];
+  return [
+    result.ruleId,
+    result.elementId ?? "",
+    result.className ?? "",
+    hashString(stableStringify(identity)),
+  ].join("|");
+}
@@ -0,0 +1,29 @@
+import type { ElementRole } from "@/features/linter/model/linter.types";
+
+/** Pins the element's role, e.g. `data-flowlint-role="section"` */
+export const ROLE_ATTRIBUTE = "data-flowlint-role";
+
+/** Roles a user can pin; `unknown` is what detection falls back to */
+export const PINNABLE_ROLES = [
+  "main",
+  "section",
+  "componentRoot",
+  "childGroup",
+  "container",
+  "layout",
+  "content",
+] as const satisfies readonly ElementRole[];
+
+export type PinnableRole = (typeof PINNABLE_ROLES)[number];
+
+/** Pinned role per element id */
+export type RolePins = Readonly<Record<string, PinnableRole>>;
+
+/** Case-insensitive; returns null for empty or unrecognised values */
+export function parsePinnedRole(
+  value: string | null | undefined
+): PinnableRole | null {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return null;
+  return PINNABLE_ROLES.find((r) => r.toLowerCase() === normalized) ?? null;
+}
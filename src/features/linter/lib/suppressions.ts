@@ -0,0 +1,75 @@
+import type { RuleResult } from "@/features/linter/model/rule.types";
+
+/** Comma-separated rule ids silenced on the element itself */
+export const SUPPRESS_ATTRIBUTE = "data-flowlint-disable";
+/** Comma-separated rule ids silenced on the element and all its descendants */
+export const SUPPRESS_TREE_ATTRIBUTE = "data-flowlint-disable-tree";
+
+/** An empty value, `*` or `all` silences every rule */
+type SuppressedRules = ReadonlySet<string> | "all";
+
+export function parseSuppressionList(value: string): SuppressedRules {
+  const ids = value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (ids.length === 0 || ids.includes("*") || ids.includes("all")) {
+    return "all";
+  }
+  return new Set(ids);
+}
+
+function covers(rules: SuppressedRules | undefined, ruleId: string): boolean {
+  if (!rules) return false;
+  return rules === "all" || rules.has(ruleId);
+}
+
+export interface SuppressionLookup {
+  getAttributes: (
+    elementId: string
+  ) => Readonly<Record<string, string>> | undefined;
+  getAncestorIds?: (elementId: string) => string[];
+}
+
+/**
+ * Builds a predicate telling whether a rule is suppressed for an element,
+ * either directly or through a `-tree` attribute on an ancestor.
+ */
+export function createSuppressionMatcher(lookup: SuppressionLookup) {
+  const parsed = new Map<string, SuppressedRules | undefined>();
+  const parse = (elementId: string, attribute: string) => {
+    const key = `${attribute}\u0000${elementId}`;
+    if (!parsed.has(key)) {
+      const value = lookup.getAttributes(elementId)?.[attribute];
+      parsed.set(
+        key,
+        value === undefined ? undefined : parseSuppressionList(value)
+      );
+    }
+    return parsed.get(key);
+  };
+
+  return (ruleId: string, elementId: string | undefined): boolean => {
+    if (!elementId) return false;
+    if (covers(parse(elementId, SUPPRESS_ATTRIBUTE), ruleId)) return true;
+    if (covers(parse(elementId, SUPPRESS_TREE_ATTRIBUTE), ruleId)) return true;
+    const ancestors = lookup.getAncestorIds?.(elementId) ?? [];
+    return ancestors.some((id) =>
+      covers(parse(id, SUPPRESS_TREE_ATTRIBUTE), ruleId)
+    );
+  };
+}
+
+/** Number of suppressed findings, overall and per rule */
+export interface SuppressionSummary {
+  total: number;
+  byRule: Record<string, number>;
+}
+
+export function summarizeSuppressed(
+  suppressed: ReadonlyArray<RuleResult>
+): SuppressionSummary {
+  const byRule: Record<string, number> = {};
+  for (const r of suppressed) byRule[r.ruleId] = (byRule[r.ruleId] ?? 0) + 1;
+  return { total: suppressed.length, byRule };
+}
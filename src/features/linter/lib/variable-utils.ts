@@ -0,0 +1,19 @@
+/**
+ * Checks if a property value is a Webflow variable reference (color, size,
+ * font, …). Variables are represented as objects with an "id" field in the
+ * properties returned by `style.getProperties()`.
+ */
+export const isVariableReference = (value: unknown): boolean => {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "id" in value &&
+    typeof (value as any).id === "string" &&
+    (value as any).id.startsWith("variable-")
+  );
+};
+
+/** Variable reference, or a raw value that goes through `var(--…)` */
+export const usesVariable = (value: unknown): boolean =>
+  isVariableReference(value) ||
+  (typeof value === "string" && value.includes("var(--"));
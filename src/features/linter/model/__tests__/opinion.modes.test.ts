@@ -0,0 +1,96 @@
+// src/features/linter/model/__tests__/opinion.modes.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  applyOpinionMode,
+  validateOpinionModes,
+  type OpinionModeDefinition,
+} from "@/features/linter/model/opinion.modes";
+import { createRuleRegistry } from "@/features/linter/services/rule-registry";
+import type { NamingRule } from "@/features/linter/model/rule.types";
+
+const namingRule = (id: string): NamingRule => ({
+  id,
+  name: id,
+  description: "",
+  type: "naming",
+  severity: "warning",
+  enabled: true,
+  category: "format",
+  targetClassTypes: ["custom"],
+  test: () => true,
+});
+
+function setup() {
+  const registry = createRuleRegistry();
+  registry.registerRules([namingRule("test:a"), namingRule("test:b")]);
+  return registry;
+}
+
+const config = (registry: ReturnType<typeof setup>, id: string) => {
+  const cfg = registry.getRuleConfiguration(id);
+  return { severity: cfg?.severity, enabled: cfg?.enabled };
+};
+
+describe("applyOpinionMode", () => {
+  it("lets a rule override win over its category's override", () => {
+    const registry = setup();
+    applyOpinionMode(registry, {
+      id: "custom",
+      label: "Custom",
+      categories: { format: { severity: "error" } },
+      rules: { "test:b": { severity: "suggestion" } },
+    });
+
+    expect(config(registry, "test:a")).toEqual({
+      severity: "error",
+      enabled: true,
+    });
+    expect(config(registry, "test:b")).toEqual({
+      severity: "suggestion",
+      enabled: true,
+    });
+  });
+
+  it("only adjusts severity for rules the user toggled", () => {
+    const registry = setup();
+    registry.updateRuleConfiguration("test:a", { enabled: true });
+    applyOpinionMode(
+      registry,
+      {
+        id: "quiet",
+        label: "Quiet",
+        categories: { format: { severity: "suggestion", enabled: false } },
+      },
+      { preserveEnabled: new Set(["test:a"]) }
+    );
+
+    expect(config(registry, "test:a")).toEqual({
+      severity: "suggestion",
+      enabled: true,
+    });
+    expect(config(registry, "test:b")).toEqual({
+      severity: "suggestion",
+      enabled: false,
+    });
+  });
+});
+
+describe("validateOpinionModes", () => {
+  it("warns about unknown rule ids and duplicate modes", () => {
+    const modes: OpinionModeDefinition[] = [
+      {
+        id: "custom",
+        label: "Custom",
+        rules: { "test:a": { severity: "error" }, "test:typo": {} },
+      },
+      { id: "custom", label: "Again" },
+    ];
+
+    const known = new Set(["test:a", "test:b"]);
+
+    expect(validateOpinionModes(modes, known)).toEqual([
+      'Opinion mode "custom" references unknown rule "test:typo"',
+      'Duplicate opinion mode "custom"',
+    ]);
+  });
+});
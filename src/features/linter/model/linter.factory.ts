@@ -1,23 +1,45 @@
 import {
   ruleRegistry,
   initializeRuleRegistry,
+  getRuleConfigService,
 } from "@/features/linter/services/registry";
-import { getDefaultPresetId, getPresetIds } from "@/features/linter/presets";
-import type { OpinionMode } from "@/features/linter/model/opinion.modes";
+import {
+  getDefaultPresetId,
+  getPresetIds,
+  resolvePresetOrFallback,
+} from "@/features/linter/presets";
+import {
+  DEFAULT_OPINION_MODE,
+  resolveOpinionModes,
+  type OpinionMode,
+  type OpinionModeDefinition,
+} from "@/features/linter/model/opinion.modes";
+import { getCachedSiteId, getSiteId } from "@/entities/site";
 
 let isInitialized = false;
-let currentMode: OpinionMode = "balanced";
+let currentMode: OpinionMode = DEFAULT_OPINION_MODE;
 let currentPreset: string = getDefaultPresetId();
 
+/**
+ * @param mode Opinion mode; omit to keep the current one (or, after a preset
+ * change, to use the mode stored in that preset's active profile)
+ */
 export function ensureLinterInitialized(
-  mode: OpinionMode = "balanced",
+  mode?: OpinionMode,
   preset: string = currentPreset
 ): void {
-  if (isInitialized && mode === currentMode && preset === currentPreset) return;
-  initializeRuleRegistry(mode, preset);
+  const requested = mode ?? (preset === currentPreset ? currentMode : undefined);
+  if (isInitialized && requested === currentMode && preset === currentPreset) {
+    return;
+  }
+  initialize(requested, preset);
+}
+
+function initialize(mode: OpinionMode | undefined, preset: string): void {
+  currentMode = initializeRuleRegistry(mode, preset);
   isInitialized = true;
-  currentMode = mode;
   currentPreset = preset;
+  syncSiteScope();
   void (async () => {
     try {
       const styleCacheMod = await import(
@@ -45,6 +67,37 @@ export function ensureLinterInitialized(
   })();
 }
 
+/**
+ * Configs are stored per site. The site id is only available asynchronously,
+ * so the first init may run unscoped; re-initialize once it resolves.
+ */
+function syncSiteScope(): void {
+  if (getCachedSiteId()) return;
+  void getSiteId().then((siteId) => {
+    if (siteId) reloadLinterConfiguration();
+  });
+}
+
+/** Re-reads stored configs (e.g. after switching profiles), including the profile's opinion mode */
+export function reloadLinterConfiguration(): void {
+  initialize(undefined, currentPreset);
+}
+
+/** Switches opinion mode and remembers it in the active profile */
+export function setOpinionMode(mode: OpinionMode): void {
+  getRuleConfigService().setOpinionMode(mode);
+  ensureLinterInitialized(mode);
+}
+
+export function getCurrentOpinionMode(): OpinionMode {
+  return currentMode;
+}
+
+/** Modes declared by the active preset (or the defaults) */
+export function getAvailableOpinionModes(): readonly OpinionModeDefinition[] {
+  return resolveOpinionModes(resolvePresetOrFallback(currentPreset));
+}
+
 export function getRuleRegistry() {
   return ruleRegistry;
 }
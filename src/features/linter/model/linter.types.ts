@@ -22,9 +22,19 @@ export interface ParsedClass {
   componentKey?: string | null;
 }
 
+/** Semantic parts a grammar turns into a class name */
+export interface ClassNameParts {
+  /** Component key as returned by `parse` (underscore-joined tokens) */
+  componentKey: string;
+  /** Element term, e.g. "wrap", "text", "heading" */
+  element: string;
+}
+
 export interface GrammarAdapter {
   id: string;
   parse(name: string): ParsedClass;
+  /** Builds a class name in this grammar's format; inverse of `parse` */
+  format?(parts: ClassNameParts): string;
   isCustomFirstRequired?: boolean;
   utilityPrefix?: string;
   componentPrefix?: string;
@@ -45,6 +55,11 @@ export interface ElementGraphApi {
   getAncestorIds(id: ElementId): ElementId[];
   getDescendantIds(id: ElementId): ElementId[];
   getTag(id: ElementId): Promise<string | null>;
+  getSiblingIndex(id: ElementId): number;
+  getPreviousSibling(id: ElementId): ElementId | null;
+  getNextSibling(id: ElementId): ElementId | null;
+  getDepth(id: ElementId): number;
+  getPath(id: ElementId): ElementId[];
 }
 
 /** Style context used by rules but defined by the linter runtime */
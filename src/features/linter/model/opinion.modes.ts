@@ -1,37 +1,113 @@
 import type { RuleRegistry } from "@/features/linter/services/rule-registry";
+import type {
+  RuleCategory,
+  Severity,
+} from "@/features/linter/model/rule.types";
 
-export type OpinionMode = "strict" | "balanced" | "lenient";
+/** Built-in ids are "strict" | "balanced" | "lenient"; presets may add their own */
+export type OpinionMode = string;
+
+export const DEFAULT_OPINION_MODE: OpinionMode = "balanced";
+
+export interface OpinionModeOverride {
+  readonly severity?: Severity;
+  readonly enabled?: boolean;
+}
+
+/**
+ * Declarative mode table. Category overrides apply first, then rule-id
+ * overrides, so a single rule can opt out of its category's adjustment.
+ */
+export interface OpinionModeDefinition {
+  readonly id: OpinionMode;
+  readonly label: string;
+  readonly description?: string;
+  readonly categories?: Readonly<
+    Partial<Record<RuleCategory, OpinionModeOverride>>
+  >;
+  readonly rules?: Readonly<Record<string, OpinionModeOverride>>;
+}
+
+/** Preset-agnostic canonical rules adjusted by every default mode table */
+const canonicalLenient: Record<string, OpinionModeOverride> = {
+  "canonical:childgroup-key-match": { severity: "suggestion" },
+};
+
+/** Used when a preset doesn't declare `opinionModes` */
+export const DEFAULT_OPINION_MODES: readonly OpinionModeDefinition[] = [
+  {
+    id: "strict",
+    label: "Strict",
+    description: "Format and composition issues are errors",
+    categories: {
+      format: { severity: "error" },
+      composition: { severity: "error" },
+    },
+  },
+  { id: "balanced", label: "Balanced" },
+  {
+    id: "lenient",
+    label: "Lenient",
+    description: "Structure issues are suggestions",
+    categories: { structure: { severity: "suggestion" } },
+    rules: canonicalLenient,
+  },
+];
+
+export function resolveOpinionModes(preset: {
+  readonly opinionModes?: readonly OpinionModeDefinition[];
+}): readonly OpinionModeDefinition[] {
+  return preset.opinionModes?.length
+    ? preset.opinionModes
+    : DEFAULT_OPINION_MODES;
+}
+
+/**
+ * Reports mode-table rule ids that aren't registered, e.g. typos or ids from
+ * another preset. Returns human-readable warnings; never throws.
+ */
+export function validateOpinionModes(
+  modes: readonly OpinionModeDefinition[],
+  knownRuleIds: ReadonlySet<string>
+): string[] {
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+  for (const mode of modes) {
+    if (seen.has(mode.id)) warnings.push(`Duplicate opinion mode "${mode.id}"`);
+    seen.add(mode.id);
+    for (const ruleId of Object.keys(mode.rules ?? {})) {
+      if (!knownRuleIds.has(ruleId)) {
+        warnings.push(`Opinion mode "${mode.id}" references unknown rule "${ruleId}"`);
+      }
+    }
+  }
+  return warnings;
+}
 
 export function applyOpinionMode(
   ruleRegistry: RuleRegistry,
-  mode: OpinionMode
+  mode: OpinionModeDefinition,
+  options: {
+    /** Rules whose enabled state the user changed; modes only adjust severity for these */
+    preserveEnabled?: ReadonlySet<string>;
+  } = {}
 ): void {
-  if (mode === "balanced") return;
-
-  const promoteToError = (ruleId: string) => {
-    const cfg = ruleRegistry.getRuleConfiguration(ruleId);
-    if (!cfg) return;
-    ruleRegistry.updateRuleConfiguration(ruleId, { severity: "error" });
-  };
-
-  const demoteToSuggestion = (ruleId: string) => {
-    const cfg = ruleRegistry.getRuleConfiguration(ruleId);
-    if (!cfg) return;
-    ruleRegistry.updateRuleConfiguration(ruleId, { severity: "suggestion" });
+  const apply = (ruleId: string, override: OpinionModeOverride) => {
+    if (!ruleRegistry.getRuleConfiguration(ruleId)) return;
+    const keepEnabled =
+      override.enabled === undefined || options.preserveEnabled?.has(ruleId);
+    ruleRegistry.updateRuleConfiguration(ruleId, {
+      ...(override.severity ? { severity: override.severity } : {}),
+      ...(keepEnabled ? {} : { enabled: override.enabled }),
+    });
   };
 
-  if (mode === "strict") {
-    // Promote format violations to errors
-    const strictIds = [
-      "lumos-utility-class-format",
-      "lumos-combo-class-format",
-    ];
-    strictIds.forEach(promoteToError);
+  const rules = [...ruleRegistry.getAllRules(), ...ruleRegistry.getPageRules()];
+  for (const rule of rules) {
+    const override = mode.categories?.[rule.category];
+    if (override) apply(rule.id, override);
   }
-
-  if (mode === "lenient") {
-    // Demote structure rules to suggestions
-    const lenientIds = ["canonical:childgroup-key-match"];
-    lenientIds.forEach(demoteToSuggestion);
+  for (const [ruleId, override] of Object.entries(mode.rules ?? {})) {
+    apply(ruleId, override);
   }
 }
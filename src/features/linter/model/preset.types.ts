@@ -2,14 +2,23 @@ import type {
   GrammarAdapter,
   ElementRole,
 } from "@/features/linter/model/linter.types";
+import type { OpinionModeDefinition } from "@/features/linter/model/opinion.modes";
 
 /** Stable, minimal element snapshot for role detection */
 export interface ElementSnapshot {
   readonly id: string;
+  /** Lowercase tag from the Designer; "div" when it has no tag setting */
   readonly tagName: string;
+  /** Designer element type, e.g. "Block", "Section", "Heading" */
+  readonly elementType: string | null;
   readonly classes: readonly string[];
   readonly parentId: string | null;
   readonly childrenIds: readonly string[];
+  /** Position among siblings, in Designer order */
+  readonly siblingIndex: number;
+  /** Number of ancestors; page roots are at depth 0 */
+  readonly depth: number;
+  /** Text of headings, paragraphs, links and other text-bearing elements */
   readonly textContent?: string;
   readonly attributes: Readonly<Record<string, string>>;
 }
@@ -28,6 +37,8 @@ export interface DetectionContext {
   // Structural analysis context (always available for intelligent detection)
   readonly rolesByElement?: import("@/features/linter/model/linter.types").RolesByElement;
   readonly graph?: import("@/features/linter/model/linter.types").ElementGraphApi;
+  /** Snapshot lookup for ancestors, children and siblings */
+  readonly getSnapshot?: (id: string) => ElementSnapshot | undefined;
 }
 
 /** Role detection result */
@@ -37,6 +48,34 @@ export interface RoleDetectionResult {
   readonly reasoning?: string;
 }
 
+/** One detector's answer for an element, kept for the role explainer */
+export interface DetectorVerdict {
+  readonly detectorId: string;
+  /** null when the detector had no opinion (or threw) */
+  readonly result: RoleDetectionResult | null;
+  readonly error?: string;
+}
+
+/** Why an element ended up with its role */
+export interface RoleDiagnostics {
+  readonly elementId: string;
+  readonly classes: readonly string[];
+  readonly tagName: string;
+  readonly elementType: string | null;
+  readonly verdicts: readonly DetectorVerdict[];
+  /** Highest-scoring candidate before thresholding; null if none */
+  readonly bestRole: ElementRole | null;
+  readonly bestScore: number;
+  readonly threshold: number;
+  readonly finalRole: ElementRole;
+  /** "manual" when the role was pinned rather than detected */
+  readonly roleSource: "detected" | "manual";
+  /** Where the pin came from: `data-flowlint-role` or the role explainer */
+  readonly pinnedBy?: "attribute" | "ui";
+  /** Set when the best candidate was not kept */
+  readonly demotedBy?: "threshold" | "singleton-main";
+}
+
 /** Role detector function type */
 export interface RoleDetector {
   readonly id: string;
@@ -59,4 +98,6 @@ export interface Preset {
     readonly fallbackRole?: ElementRole;
   };
   readonly rules: readonly import("@/features/linter/model/rule.types").Rule[];
+  /** Severity/enabled tables per opinion mode; defaults apply when omitted */
+  readonly opinionModes?: readonly OpinionModeDefinition[];
 }
@@ -1,6 +1,10 @@
 import { StyleInfo } from "@/entities/style/model/style.types";
+import type { StyleContext } from "@/entities/style/model/style-contexts";
+import type { ColorVariableInfo } from "@/entities/variable";
 import { ElementGraph } from "@/entities/element/services/element-graph.service";
+import type { ElementContent } from "@/entities/element/lib/element-content";
 import {
+  ClassNameParts,
   ElementRole,
   ParsedClass,
   RolesByElement,
@@ -19,12 +23,22 @@ export type ExpandedViewContentType =
   | "recognized-elements"
   | "rule-documentation"
   | "diagnostic-details"
-  | "suggested-fixes";
+  | "suggested-fixes"
+  | "rule-settings"
+  | "scan-diff"
+  | "unused-styles"
+  | "near-duplicates"
+  | "heading-outline";
 
 export interface ExpandedViewCapability {
   contentType: ExpandedViewContentType;
   title: string;
   description?: string;
+  /**
+   * Content for the view, e.g. a page-wide outline. Rules share one object
+   * across their results; unlike metadata it is not part of fingerprints.
+   */
+  data?: unknown;
   /** Predicate to determine if this expansion is relevant for a given violation */
   isRelevantFor?: (violation: RuleResult) => boolean;
 }
@@ -41,6 +55,8 @@ export interface RuleResult {
   example?: string;
   metadata?: Record<string, any>;
   fix?: QuickFix;
+  /** Deterministic identity across runs; assigned by the rule runner */
+  fingerprint?: string;
   /** Declares what expanded view capabilities this result supports */
   expandedViewCapabilities?: ExpandedViewCapability[];
 }
@@ -69,6 +85,17 @@ export type QuickFix =
       kind: "remove-class";
       className: string;
       scope: "element";
+    }
+  | {
+      kind: "set-variable";
+      /** Style whose declaration is replaced (affects every element using it) */
+      styleName: string;
+      property: string;
+      variableId: string;
+      variableName: string;
+      breakpoint?: string;
+      pseudo?: string | null;
+      scope: "style";
     };
 
 // -------------------------
@@ -87,6 +114,8 @@ export interface RuleConfigField {
   description?: string;
   default: unknown;
   options?: string[]; // only for enum
+  /** Still accepted on import but reported; the string explains the replacement */
+  deprecated?: boolean | string;
 }
 
 export type RuleConfigSchema = Record<string, RuleConfigField>;
@@ -127,16 +156,33 @@ export interface NamingRule extends BaseRule {
   type: "naming";
   targetClassTypes: ClassType[];
   test: (className: string) => boolean;
+  /** Severity may be omitted; the executor applies the configured one */
   evaluate?: (
     className: string,
     context: RuleContext & { config?: Record<string, unknown> }
-  ) => RuleResult | null | undefined;
+  ) => NamingEvaluation | null | undefined;
   config?: RuleConfigSchema;
 }
 
+export type NamingEvaluation = Omit<RuleResult, "severity"> & {
+  severity?: Severity;
+};
+
 export interface PropertyRule extends BaseRule {
   type: "property";
   targetClassTypes: ClassType[];
+  /**
+   * Style contexts `analyze` runs for. `"all"` also runs it once per
+   * breakpoint/pseudo-state that sets declarations (see
+   * `RuleContext.styleContext`); defaults to `"base"`.
+   */
+  contexts?: "base" | "all";
+  /**
+   * Reads other classes' `propertiesByContext` through `allStyles` while
+   * running once. Like `contexts: "all"`, makes the style service fetch
+   * every breakpoint/pseudo-state when the rule is enabled.
+   */
+  readsAllContexts?: boolean;
   analyze: (
     className: string,
     properties: Record<string, unknown>,
@@ -147,9 +193,10 @@ export interface PropertyRule extends BaseRule {
 
 export interface StructureRule extends BaseRule {
   type: "structure";
-  category: "structure";
+  category: "structure" | "accessibility";
   targetClassTypes?: ClassType[];
   analyzeElement: (args: ElementAnalysisArgs) => RuleResult[];
+  config?: RuleConfigSchema;
 }
 
 export interface CompositionRule extends BaseRule {
@@ -163,6 +210,7 @@ export interface CompositionRule extends BaseRule {
 export interface PageRule extends BaseRule {
   type: "page";
   analyzePage(args: PageAnalysisArgs): RuleResult[];
+  config?: RuleConfigSchema;
 }
 
 export type Rule =
@@ -179,6 +227,25 @@ export interface RuleContext {
   allStyles: StyleInfo[];
   utilityClassPropertiesMap: Map<string, { name: string; properties: any }[]>;
   propertyToClassesMap: Map<string, Set<string>>;
+  /** Breakpoint/pseudo-state of the `properties` being analyzed */
+  styleContext?: StyleContext;
+  /** Class type resolver of the active grammar */
+  getClassType?: (className: string, isCombo?: boolean) => ClassType;
+  /** Site color variables, when they have been fetched for this run */
+  colorVariables?: readonly ColorVariableInfo[];
+  /** Element the class sits on (naming rules, when the runner knows it) */
+  element?: NamingElementContext;
+  /** Builds a class name with the active grammar, when it supports that */
+  formatClassName?: (parts: ClassNameParts) => string;
+}
+
+export interface NamingElementContext {
+  elementId: string;
+  role: ElementRole;
+  tagName: string | null;
+  elementType: string | null;
+  /** Component key of the nearest ancestor class that yields one */
+  parentComponentKey: string | null;
 }
 
 // -------------------------
@@ -233,6 +300,12 @@ export interface ElementAnalysisArgs {
   parseClass?: (name: string) => ParsedClass;
   getTagName?: (elementId: string) => string | null;
   getElementType?: (elementId: string) => string | null;
+  /** Custom attributes set in the Designer (aria-*, role, for, …) */
+  getAttributes?: (
+    elementId: string
+  ) => Readonly<Record<string, string>> | undefined;
+  /** Alt text, link text and DOM id, where the element has them */
+  getElementContent?: (elementId: string) => ElementContent | undefined;
 }
 
 export interface RuleConfiguration {
@@ -8,9 +8,13 @@ import { getClientFirstKnownElements } from "@/features/linter/rules/client-firs
 import {
   createDuplicateOfUtilityRule,
   createColorVariableRule,
+  createTokenVariableRules,
+  createNearDuplicateRule,
   createUtilityDuplicatePropertyRule,
 } from "@/features/linter/rules/shared/property";
+import { createAutoGeneratedClassRule } from "@/features/linter/rules/shared/naming";
 import { createMissingClassOnDivRule } from "@/features/linter/rules/shared/structure";
+import { createAccessibilityRules } from "@/features/linter/rules/shared/accessibility";
 
 /**
  * Element configuration for Client-First preset
@@ -40,17 +44,42 @@ export const clientFirstPreset: Preset & {
   roleDetectors: clientFirstRoleDetectors,
   roleDetectionConfig: { threshold: 0.6 },
   elementsConfig: clientFirstElementsConfig,
+  opinionModes: [
+    {
+      id: "strict",
+      label: "Strict",
+      description: "Utility duplication and unstyled divs are errors",
+      rules: {
+        "shared:property:duplicate-of-utility": { severity: "error" },
+        "shared:structure:missing-class-on-div": { severity: "error" },
+      },
+    },
+    { id: "balanced", label: "Balanced" },
+    {
+      id: "lenient",
+      label: "Lenient",
+      description: "Structure issues are suggestions",
+      categories: { structure: { severity: "suggestion" } },
+      rules: { "cf:naming:class-format": { severity: "warning" } },
+    },
+  ],
 
   rules: [
     // naming
     createCFNamingClassFormatRule(),
+    createAutoGeneratedClassRule(),
 
     // Shared Property rules
     createDuplicateOfUtilityRule(),
     createColorVariableRule(),
+    ...createTokenVariableRules(),
+    createNearDuplicateRule(),
     createUtilityDuplicatePropertyRule(),
 
     // Shared Structure rules
     createMissingClassOnDivRule(),
+
+    // Shared Accessibility rules
+    ...createAccessibilityRules(),
   ],
 };
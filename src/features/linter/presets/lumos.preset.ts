@@ -11,10 +11,14 @@ import { lumosRoleDetectors } from "@/features/linter/detectors/lumos.detectors"
 import {
   createDuplicateOfUtilityRule,
   createColorVariableRule,
+  createTokenVariableRules,
+  createNearDuplicateRule,
   createUtilityDuplicatePropertyRule,
 } from "@/features/linter/rules/shared/property";
 
+import { createAutoGeneratedClassRule } from "@/features/linter/rules/shared/naming";
 import { createMissingClassOnDivRule } from "@/features/linter/rules/shared/structure";
+import { createAccessibilityRules } from "@/features/linter/rules/shared/accessibility";
 import { getLumosKnownElements } from "@/features/linter/rules/lumos/naming/naming-class-format";
 
 /**
@@ -55,10 +59,49 @@ export const lumosPreset: Preset & {
   roleDetectors: lumosRoleDetectors,
   roleDetectionConfig: { threshold: 0.6 },
   elementsConfig: lumosElementsConfig,
+  opinionModes: [
+    {
+      id: "strict",
+      label: "Strict",
+      description: "Composition and utility duplication are errors",
+      categories: { composition: { severity: "error" } },
+      rules: {
+        "shared:property:duplicate-of-utility": { severity: "error" },
+        "shared:structure:missing-class-on-div": { severity: "error" },
+      },
+    },
+    { id: "balanced", label: "Balanced" },
+    {
+      id: "lenient",
+      label: "Lenient",
+      description: "Structure and composition issues are suggestions",
+      categories: {
+        composition: { severity: "suggestion" },
+        structure: { severity: "suggestion" },
+      },
+      rules: {
+        "lumos:composition:class-order": { severity: "warning" },
+      },
+    },
+    {
+      id: "migration",
+      label: "Migration",
+      description: "For sites moving to Lumos: naming checks only",
+      categories: {
+        composition: { enabled: false },
+        structure: { severity: "suggestion" },
+      },
+      rules: {
+        "lumos:naming:class-format": { severity: "warning" },
+        "lumos:naming:combo-class-format": { severity: "warning" },
+      },
+    },
+  ],
   rules: [
     // Naming rules
     lumosRules.createLumosCustomClassFormatRule(),
     lumosRules.createLumosComboClassFormatRule(),
+    createAutoGeneratedClassRule(),
 
     // Structure rules
     lumosRules.createLumosClassOrderRule(),
@@ -68,9 +111,14 @@ export const lumosPreset: Preset & {
     // Shared Property rules
     createDuplicateOfUtilityRule(),
     createColorVariableRule(),
+    ...createTokenVariableRules(),
+    createNearDuplicateRule(),
     createUtilityDuplicatePropertyRule(),
 
     // Shared Structure rules
     createMissingClassOnDivRule(),
+
+    // Shared Accessibility rules
+    ...createAccessibilityRules(),
   ],
 };
@@ -54,6 +54,11 @@ function runRule(
       return descendants;
     },
     getTag: async () => await Promise.resolve(null),
+    getSiblingIndex: () => -1,
+    getPreviousSibling: () => null,
+    getNextSibling: () => null,
+    getDepth: () => 0,
+    getPath: (id: string) => [id],
   };
 
   return rule.analyzePage({
@@ -253,6 +258,11 @@ describe("canonical:main-children.page", () => {
       getAncestorIds: () => [],
       getDescendantIds: () => [],
       getTag: async () => await Promise.resolve(null),
+      getSiblingIndex: () => -1,
+      getPreviousSibling: () => null,
+      getNextSibling: () => null,
+      getDepth: () => 0,
+      getPath: (id: string) => [id],
     };
 
     const out = rule.analyzePage({
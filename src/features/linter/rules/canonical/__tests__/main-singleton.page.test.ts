@@ -31,6 +31,11 @@ function runRule(
       getAncestorIds: () => [],
       getDescendantIds: () => [],
       getTag: async () => await Promise.resolve(null),
+      getSiblingIndex: () => -1,
+      getPreviousSibling: () => null,
+      getNextSibling: () => null,
+      getDepth: () => 0,
+      getPath: (id: string) => [id],
     },
     styles: styles as any,
     getRoleForElement: (id: string) => rolesByElement?.[id] || "unknown",
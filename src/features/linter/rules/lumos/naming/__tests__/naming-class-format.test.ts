@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { createLumosCustomClassFormatRule } from "@/features/linter/rules/lumos/naming/naming-class-format";
 import type {
-  RuleResult,
+  NamingEvaluation,
   RuleContext,
 } from "@/features/linter/model/rule.types";
 
@@ -21,7 +21,7 @@ function run(
   rule: Rule,
   className: string,
   ctx?: { config?: Record<string, unknown> }
-): RuleResult | null {
+): NamingEvaluation | null {
   // Gate: rule should decide if it wants to run on this className
   const shouldRun = rule.test(className);
   if (!shouldRun) return null;
@@ -48,7 +48,7 @@ function expectInvalid(
   className: string,
   severity: "error" | "warning" | "suggestion" = "error",
   ctx?: { config?: Record<string, unknown> }
-): RuleResult {
+): NamingEvaluation {
   const result = run(rule, className, ctx);
   expect(result, `Expected "${className}" to be invalid`).toBeTruthy();
 
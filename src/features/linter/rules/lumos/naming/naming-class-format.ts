@@ -92,6 +92,8 @@ export const createLumosCustomClassFormatRule = (): NamingRule => ({
     const pattern = /^[a-z0-9_]+$/;
     if (!pattern.test(className)) {
       const suggested = normalizeToUnderscoreFormat(className);
+      const isValidSuggestion =
+        Boolean(suggested) && /^[a-z0-9]+(?:_[a-z0-9]+)+$/.test(suggested);
 
       return {
         ruleId: "lumos:naming:class-format",
@@ -101,10 +103,17 @@ export const createLumosCustomClassFormatRule = (): NamingRule => ({
         className,
         isCombo: false,
         example: "footer_wrap or hero_secondary_content_wrap",
-        metadata:
-          suggested && /^[a-z0-9]+(?:_[a-z0-9]+)+$/.test(suggested)
-            ? { suggestedName: suggested }
-            : undefined,
+        metadata: isValidSuggestion ? { suggestedName: suggested } : undefined,
+        ...(isValidSuggestion
+          ? {
+              fix: {
+                kind: "rename-class" as const,
+                from: className,
+                to: suggested,
+                scope: "element" as const,
+              },
+            }
+          : {}),
       };
     }
 
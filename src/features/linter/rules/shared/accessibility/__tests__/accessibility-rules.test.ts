@@ -0,0 +1,265 @@
+// src/features/linter/rules/shared/accessibility/__tests__/accessibility-rules.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  createFormLabelRule,
+  createImageAltRule,
+  createInteractiveBlockRule,
+  createLinkTextRule,
+} from "@/features/linter/rules/shared/accessibility";
+import { isFilenameLike } from "@/features/linter/rules/shared/accessibility/image-alt";
+import type { ElementContent } from "@/entities/element/lib/element-content";
+import type {
+  RuleResult,
+  StructureRule,
+} from "@/features/linter/model/rule.types";
+
+interface Node {
+  parent?: string;
+  type?: string;
+  classes?: string[];
+  attributes?: Record<string, string>;
+  content?: ElementContent;
+}
+
+function runRule(
+  rule: StructureRule,
+  nodes: Record<string, Node>,
+  elementId: string,
+  customSettings: Record<string, unknown> = {}
+): RuleResult[] {
+  const getParentId = (id: string) => nodes[id]?.parent ?? null;
+  const getAncestorIds = (id: string) => {
+    const out: string[] = [];
+    let cur = nodes[id]?.parent;
+    while (cur) {
+      out.push(cur);
+      cur = nodes[cur]?.parent;
+    }
+    return out;
+  };
+
+  return rule.analyzeElement({
+    elementId,
+    classes: (nodes[elementId]?.classes ?? []).map((className, order) => ({
+      className,
+      order,
+      elementId,
+      isCombo: order > 0,
+    })),
+    allStyles: [],
+    getClassType: () => "custom",
+    getRuleConfig: (ruleId) => ({
+      ruleId,
+      enabled: true,
+      severity: "warning",
+      customSettings,
+    }),
+    rolesByElement: Object.fromEntries(
+      Object.keys(nodes).map((id) => [id, "unknown"])
+    ) as any,
+    getParentId,
+    getChildrenIds: (id) =>
+      Object.keys(nodes).filter((child) => getParentId(child) === id),
+    getAncestorIds,
+    getElementType: (id) => nodes[id]?.type ?? null,
+    getAttributes: (id) => nodes[id]?.attributes,
+    getElementContent: (id) => nodes[id]?.content,
+  });
+}
+
+describe("shared:accessibility:image-alt", () => {
+  const rule = createImageAltRule();
+  const image = (
+    content: ElementContent,
+    attributes?: Record<string, string>
+  ) => runRule(rule, { img: { type: "Image", content, attributes } }, "img");
+
+  it("reports missing, file-name and generic alt text", () => {
+    expect(image({ altText: "" })[0]?.metadata?.reason).toBe("missing");
+    expect(image({ altText: "IMG_2041.jpg" })[0]?.metadata?.reason).toBe(
+      "filename"
+    );
+    expect(image({ altText: "Photo" })[0]?.metadata?.reason).toBe("generic");
+  });
+
+  it("accepts descriptive alt text and decorative images", () => {
+    expect(image({ altText: "Team at the launch party" })).toEqual([]);
+    expect(image({ altText: "" }, { "aria-hidden": "true" })).toEqual([]);
+    expect(image({ altText: "" }, { role: "presentation" })).toEqual([]);
+  });
+
+  it("skips images whose alt text was not read", () => {
+    expect(image({})).toEqual([]);
+  });
+
+  it("recognizes file-name patterns", () => {
+    expect(isFilenameLike("hero-bg@2x.webp")).toBe(true);
+    expect(isFilenameLike("DSC0042")).toBe(true);
+    expect(isFilenameLike("64a1f0c2e4b0a1b2c3d4e5f6_hero.png")).toBe(true);
+    expect(isFilenameLike("team_photo")).toBe(true);
+    expect(isFilenameLike("team-02")).toBe(true);
+    expect(isFilenameLike("Two people in 2024")).toBe(false);
+    expect(isFilenameLike("Logo")).toBe(false);
+  });
+});
+
+describe("shared:accessibility:link-text", () => {
+  const rule = createLinkTextRule();
+  const link = (
+    content: ElementContent,
+    attributes?: Record<string, string>,
+    settings?: Record<string, unknown>
+  ) =>
+    runRule(rule, { a: { type: "Link", content, attributes } }, "a", settings);
+
+  it("reports links without text and generic phrases", () => {
+    expect(link({ text: "" })[0]?.metadata?.reason).toBe("empty");
+    expect(link({ text: "Click here!" })[0]?.metadata?.reason).toBe("generic");
+    expect(link({ text: "  Read more →" })[0]?.metadata?.reason).toBe(
+      "generic"
+    );
+  });
+
+  it("accepts descriptive text and aria-labels", () => {
+    expect(link({ text: "Read the pricing guide" })).toEqual([]);
+    expect(link({ text: "" }, { "aria-label": "Open cart" })).toEqual([]);
+  });
+
+  it("uses the configured phrase list", () => {
+    expect(
+      link({ text: "Mehr" }, undefined, { genericLinkTexts: ["mehr"] })
+    ).toHaveLength(1);
+    expect(
+      link({ text: "here" }, undefined, { genericLinkTexts: [] })
+    ).toEqual([]);
+  });
+});
+
+describe("shared:accessibility:form-label", () => {
+  const rule = createFormLabelRule();
+
+  it("reports a field with no label", () => {
+    const out = runRule(
+      rule,
+      {
+        form: { type: "FormForm" },
+        input: { parent: "form", type: "FormTextInput" },
+      },
+      "input"
+    );
+    expect(out).toHaveLength(1);
+    expect(out[0].metadata?.elementType).toBe("FormTextInput");
+  });
+
+  it("accepts a preceding Form Label unless another field claims it", () => {
+    const nodes: Record<string, Node> = {
+      form: { type: "FormForm" },
+      label: { parent: "form", type: "FormBlockLabel" },
+      name: { parent: "form", type: "FormTextInput" },
+      email: { parent: "form", type: "FormTextInput" },
+    };
+    expect(runRule(rule, nodes, "name")).toEqual([]);
+    expect(runRule(rule, nodes, "email")).toHaveLength(1);
+    expect(
+      runRule(rule, nodes, "email", { allowPrecedingLabel: false })
+    ).toHaveLength(1);
+  });
+
+  it("accepts for/id, wrapping labels and aria-label", () => {
+    expect(
+      runRule(
+        rule,
+        {
+          label: { type: "FormBlockLabel", attributes: { for: "email" } },
+          input: { type: "FormTextInput", content: { domId: "email" } },
+        },
+        "input"
+      )
+    ).toEqual([]);
+    expect(
+      runRule(
+        rule,
+        {
+          wrap: { type: "FormCheckboxWrapper" },
+          box: { parent: "wrap", type: "FormCheckboxInput" },
+        },
+        "box"
+      )
+    ).toEqual([]);
+    expect(
+      runRule(
+        rule,
+        { input: { type: "FormSelect", attributes: { "aria-label": "Size" } } },
+        "input"
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("shared:accessibility:interactive-block", () => {
+  const rule = createInteractiveBlockRule();
+
+  it("reports a Div Block styled as a button", () => {
+    const out = runRule(
+      rule,
+      { div: { type: "Block", classes: ["hero_button"] } },
+      "div"
+    );
+    expect(out).toHaveLength(1);
+    expect(out[0].className).toBe("hero_button");
+  });
+
+  it("reports role=button without tabindex", () => {
+    const out = runRule(
+      rule,
+      { div: { type: "Block", attributes: { role: "button" } } },
+      "div"
+    );
+    expect(out[0]?.message).toContain("tabindex");
+    expect(
+      runRule(
+        rule,
+        {
+          div: {
+            type: "Block",
+            attributes: { role: "button", tabindex: "0" },
+          },
+        },
+        "div"
+      )
+    ).toEqual([]);
+  });
+
+  it("ignores blocks inside links or wrapping real buttons", () => {
+    expect(
+      runRule(
+        rule,
+        {
+          link: { type: "Link" },
+          div: { parent: "link", type: "Block", classes: ["card_button"] },
+        },
+        "div"
+      )
+    ).toEqual([]);
+    expect(
+      runRule(
+        rule,
+        {
+          div: { type: "Block", classes: ["button_wrap"] },
+          btn: { parent: "div", type: "Link" },
+        },
+        "div"
+      )
+    ).toEqual([]);
+  });
+
+  it("leaves ordinary blocks alone", () => {
+    expect(
+      runRule(
+        rule,
+        { div: { type: "Block", classes: ["hero_buttons_list"] } },
+        "div"
+      )
+    ).toEqual([]);
+  });
+});
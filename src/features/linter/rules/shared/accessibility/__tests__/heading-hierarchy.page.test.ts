@@ -0,0 +1,179 @@
+// src/features/linter/rules/shared/accessibility/__tests__/heading-hierarchy.page.test.ts
+import { describe, it, expect } from "vitest";
+import { createHeadingHierarchyPageRule } from "@/features/linter/rules/shared/accessibility/heading-hierarchy.page";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+
+interface Node {
+  parent?: string;
+  tag?: string;
+  className?: string;
+}
+
+function runRule(
+  nodes: Record<string, Node>,
+  customSettings: Record<string, unknown> = {}
+): RuleResult[] {
+  const rule = createHeadingHierarchyPageRule();
+  const styles = Object.entries(nodes)
+    .filter(([, node]) => node.className)
+    .map(([elementId, node]) => ({
+      id: `${elementId}-${node.className}`,
+      name: node.className!,
+      properties: {},
+      order: 0,
+      isCombo: false,
+      elementId,
+    }));
+  const getParentId = (id: string) => nodes[id]?.parent ?? null;
+  const getAncestorIds = (id: string) => {
+    const out: string[] = [];
+    let cur = nodes[id]?.parent;
+    while (cur) {
+      out.push(cur);
+      cur = nodes[cur]?.parent;
+    }
+    return out;
+  };
+
+  return rule.analyzePage({
+    rolesByElement: Object.fromEntries(
+      Object.keys(nodes).map((id) => [id, "unknown"])
+    ) as any,
+    graph: {
+      getParentId,
+      // Children in declaration order, like the page's element order
+      getChildrenIds: (id) =>
+        Object.keys(nodes).filter((child) => getParentId(child) === id),
+      getAncestorIds,
+      getDescendantIds: () => [],
+      getTag: async () => await Promise.resolve(null),
+      getSiblingIndex: () => -1,
+      getPreviousSibling: () => null,
+      getNextSibling: () => null,
+      getDepth: () => 0,
+      getPath: (id: string) => [id],
+    },
+    styles,
+    getRoleForElement: () => "unknown",
+    getRuleConfig: (ruleId) => ({
+      ruleId,
+      enabled: true,
+      severity: "warning",
+      customSettings: customSettings as any,
+    }),
+    getTagName: (id) => nodes[id]?.tag ?? null,
+    getElementType: () => null,
+  });
+}
+
+describe("shared:accessibility:heading-hierarchy", () => {
+  it("accepts a well-formed outline", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      title: { parent: "body", tag: "h1", className: "hero_heading" },
+      section: { parent: "body", tag: "section" },
+      sub: { parent: "section", tag: "h2", className: "features_heading" },
+      card: { parent: "section", tag: "h3", className: "card_title" },
+      next: { parent: "body", tag: "h2", className: "cta_heading" },
+    });
+    expect(out).toEqual([]);
+  });
+
+  it("reports a missing h1 once, for the page", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      a: { parent: "body", tag: "h2", className: "hero_heading" },
+    });
+    expect(out).toHaveLength(1);
+    expect(out[0].elementId).toBeUndefined();
+    expect(out[0].metadata?.issue).toBe("missing-h1");
+  });
+
+  it("flags every h1 after the first", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      a: { parent: "body", tag: "h1", className: "hero_heading" },
+      b: { parent: "body", tag: "h1", className: "about_heading" },
+      c: { parent: "body", tag: "h1", className: "cta_heading" },
+    });
+    expect(out.map((r) => r.elementId)).toEqual(["b", "c"]);
+    expect(out.every((r) => r.metadata?.issue === "multiple-h1")).toBe(true);
+  });
+
+  it("flags skipped levels in document order, not tree depth", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      h1: { parent: "body", tag: "h1", className: "hero_heading" },
+      wrap: { parent: "body", tag: "div" },
+      h2: { parent: "wrap", tag: "h2", className: "features_heading" },
+      h4: { parent: "body", tag: "h4", className: "footer_heading" },
+    });
+    expect(out).toHaveLength(1);
+    expect(out[0].elementId).toBe("h4");
+    expect(out[0].metadata?.issue).toBe("skipped-level");
+    expect(out[0].message).toContain("h2 to h4");
+  });
+
+  it("flags headings nested in headings", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      h1: { parent: "body", tag: "h1", className: "hero_heading" },
+      inner: { parent: "h1", tag: "h2", className: "hero_subheading" },
+    });
+    expect(out.map((r) => r.metadata?.issue)).toEqual(["nested"]);
+  });
+
+  it("flags heading tags carrying body-text classes", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      h1: { parent: "body", tag: "h1", className: "hero_heading" },
+      eyebrow: { parent: "body", tag: "h2", className: "hero_eyebrow" },
+      para: { parent: "body", tag: "h3", className: "paragraph-4" },
+    });
+    expect(out.map((r) => [r.elementId, r.metadata?.issue])).toEqual([
+      ["eyebrow", "styling"],
+      ["para", "styling"],
+    ]);
+    // One outline shared by every finding, outside the fingerprinted metadata
+    const outlines = out.map((r) => r.expandedViewCapabilities?.[0].data);
+    expect(outlines[0]).toBe(outlines[1]);
+    expect(out[1].metadata?.outline).toBeUndefined();
+  });
+
+  it("attaches the outline with issues marked on each entry", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      h1: { parent: "body", tag: "h1", className: "hero_heading" },
+      h3: { parent: "body", tag: "h3", className: "about_heading" },
+    });
+    const [view] = out[0].expandedViewCapabilities ?? [];
+    expect(view.contentType).toBe("heading-outline");
+    expect(view.data).toEqual({
+      outline: [
+        { elementId: "h1", level: 1, className: "hero_heading", issues: [] },
+        {
+          elementId: "h3",
+          level: 3,
+          className: "about_heading",
+          issues: ["skipped-level"],
+        },
+      ],
+    });
+  });
+
+  it("respects disabled checks", () => {
+    const out = runRule(
+      {
+        body: { tag: "body" },
+        a: { parent: "body", tag: "h2", className: "hero_text" },
+        b: { parent: "body", tag: "h4", className: "about_heading" },
+      },
+      {
+        requireSingleH1: false,
+        checkSkippedLevels: false,
+        bodyTextTerms: [],
+      }
+    );
+    expect(out).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+// src/features/linter/rules/shared/accessibility/__tests__/text-contrast.page.test.ts
+import { describe, it, expect } from "vitest";
+import { createTextContrastPageRule } from "@/features/linter/rules/shared/accessibility/text-contrast.page";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+
+interface Node {
+  parent?: string;
+  type?: string;
+  tag?: string;
+  classes?: Array<{ name: string; properties: Record<string, unknown> }>;
+}
+
+function runRule(
+  nodes: Record<string, Node>,
+  customSettings: Record<string, unknown> = {}
+): RuleResult[] {
+  const rule = createTextContrastPageRule();
+  const styles = Object.entries(nodes).flatMap(([elementId, node]) =>
+    (node.classes ?? []).map((c, order) => ({
+      id: `${elementId}-${c.name}`,
+      name: c.name,
+      properties: c.properties,
+      order,
+      isCombo: order > 0,
+      elementId,
+    }))
+  );
+  const getAncestorIds = (id: string) => {
+    const out: string[] = [];
+    let cur = nodes[id]?.parent;
+    while (cur) {
+      out.push(cur);
+      cur = nodes[cur]?.parent;
+    }
+    return out;
+  };
+
+  return rule.analyzePage({
+    rolesByElement: Object.fromEntries(
+      Object.keys(nodes).map((id) => [id, "unknown"])
+    ) as any,
+    graph: {
+      getParentId: (id) => nodes[id]?.parent ?? null,
+      getChildrenIds: () => [],
+      getAncestorIds,
+      getDescendantIds: () => [],
+      getTag: async () => await Promise.resolve(null),
+      getSiblingIndex: () => -1,
+      getPreviousSibling: () => null,
+      getNextSibling: () => null,
+      getDepth: () => 0,
+      getPath: (id: string) => [id],
+    },
+    styles,
+    getRoleForElement: () => "unknown",
+    getRuleConfig: (ruleId) => ({
+      ruleId,
+      enabled: true,
+      severity: "warning",
+      customSettings: customSettings as any,
+    }),
+    getTagName: (id) => nodes[id]?.tag ?? null,
+    getElementType: (id) => nodes[id]?.type ?? null,
+  });
+}
+
+describe("shared:accessibility:text-contrast", () => {
+  it("reports light grey text on white with the ratio and both colors", () => {
+    const out = runRule({
+      body: { tag: "body" },
+      p: {
+        parent: "body",
+        type: "Paragraph",
+        tag: "p",
+        classes: [{ name: "muted", properties: { color: "#999999" } }],
+      },
+    });
+    expect(out).toHaveLength(1);
+    expect(out[0].elementId).toBe("p");
+    expect(out[0].severity).toBe("warning");
+    expect(out[0].message).toContain("2.84:1");
+    expect(out[0].metadata).toMatchObject({
+      level: "AA",
+      required: 4.5,
+      textColor: "#999999",
+      backgroundColor: "#ffffff",
+    });
+  });
+
+  it("uses the nearest ancestor background and inherited text color", () => {
+    const out = runRule({
+      section: {
+        type: "Section",
+        tag: "section",
+        classes: [
+          {
+            name: "section-dark",
+            properties: { "background-color": "#111111", color: "#444444" },
+          },
+        ],
+      },
+      h: {
+        parent: "section",
+        type: "Heading",
+        tag: "h2",
+        classes: [{ name: "heading", properties: {} }],
+      },
+    });
+    expect(out).toHaveLength(1);
+    expect(out[0].metadata?.backgroundElementId).toBe("section");
+    // Headings default to large bold text
+    expect(out[0].metadata?.textSize).toBe("large");
+    expect(out[0].metadata?.required).toBe(3);
+  });
+
+  it("treats large text with the lower threshold", () => {
+    const nodes = (fontSize: string): Record<string, Node> => ({
+      t: {
+        type: "TextBlock",
+        tag: "div",
+        classes: [
+          { name: "t", properties: { color: "#888888", "font-size": fontSize } },
+        ],
+      },
+    });
+    // #888 on white ≈ 3.54:1: fails normal, passes large
+    expect(runRule(nodes("16px"))).toHaveLength(1);
+    expect(runRule(nodes("1.5rem"))).toHaveLength(0);
+  });
+
+  it("honours configured thresholds and AAA reporting", () => {
+    const nodes: Record<string, Node> = {
+      p: {
+        type: "Paragraph",
+        tag: "p",
+        classes: [{ name: "p", properties: { color: "#666666" } }],
+      },
+    };
+    // #666 on white ≈ 5.74:1
+    expect(runRule(nodes)).toHaveLength(0);
+    const aaa = runRule(nodes, { checkEnhanced: true });
+    expect(aaa).toHaveLength(1);
+    expect(aaa[0].severity).toBe("suggestion");
+    expect(aaa[0].metadata?.level).toBe("AAA");
+    expect(runRule(nodes, { normalTextRatio: 6 })).toHaveLength(1);
+  });
+
+  it("composites translucent backgrounds and skips background images", () => {
+    const translucent = runRule({
+      wrap: {
+        classes: [
+          {
+            name: "wrap",
+            properties: { "background-color": "rgba(0, 0, 0, 0.5)" },
+          },
+        ],
+      },
+      p: {
+        parent: "wrap",
+        type: "Paragraph",
+        classes: [{ name: "p", properties: { color: "#555555" } }],
+      },
+    });
+    expect(translucent[0]?.metadata?.backgroundColor).toBe("#808080");
+
+    const image = runRule({
+      hero: {
+        classes: [
+          {
+            name: "hero",
+            properties: { "background-image": "url(hero.jpg)" },
+          },
+        ],
+      },
+      p: {
+        parent: "hero",
+        type: "Paragraph",
+        classes: [{ name: "p", properties: { color: "#eeeeee" } }],
+      },
+    });
+    expect(image).toEqual([]);
+  });
+
+  it("ignores non-text elements and unstyled text nested in text", () => {
+    const out = runRule({
+      div: {
+        type: "Block",
+        tag: "div",
+        classes: [{ name: "box", properties: { color: "#eeeeee" } }],
+      },
+      span: { parent: "div", type: "Span", tag: "span" },
+      p: {
+        type: "Paragraph",
+        classes: [{ name: "p", properties: { color: "#eeeeee" } }],
+      },
+      inner: { parent: "p", type: "Span", tag: "span" },
+    });
+    expect(out.map((r) => r.elementId).sort()).toEqual(["p", "span"]);
+  });
+});
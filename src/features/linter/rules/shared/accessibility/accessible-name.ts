@@ -0,0 +1,40 @@
+import type { ElementAnalysisArgs } from "@/features/linter/model/rule.types";
+
+const NAMING_ATTRIBUTES = ["aria-label", "aria-labelledby", "title"];
+
+/** Custom attribute by name, ignoring case; trimmed, or null when unset */
+export function getAttribute(
+  args: Pick<ElementAnalysisArgs, "getAttributes">,
+  elementId: string,
+  name: string
+): string | null {
+  const attributes = args.getAttributes?.(elementId);
+  if (!attributes) return null;
+  const key = Object.keys(attributes).find(
+    (k) => k.toLowerCase() === name.toLowerCase()
+  );
+  return key === undefined ? null : attributes[key].trim();
+}
+
+/**
+ * Name given through attributes rather than content: aria-label,
+ * aria-labelledby or title, whichever is set first
+ */
+export function getAttributeName(
+  args: Pick<ElementAnalysisArgs, "getAttributes">,
+  elementId: string
+): string | null {
+  for (const name of NAMING_ATTRIBUTES) {
+    const value = getAttribute(args, elementId, name);
+    if (value) return value;
+  }
+  return null;
+}
+
+/** Lowercase, punctuation stripped, whitespace collapsed */
+export const normalizePhrase = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
@@ -0,0 +1,141 @@
+import type {
+  StructureRule,
+  RuleConfigSchema,
+  RuleResult,
+  ElementAnalysisArgs,
+} from "@/features/linter/model/rule.types";
+import {
+  getAttribute,
+  getAttributeName,
+} from "@/features/linter/rules/shared/accessibility/accessible-name";
+
+const RULE_ID = "shared:accessibility:form-label";
+const RULE_NAME = "Form Field Label";
+
+interface FormLabelConfig {
+  fieldTypes: string[];
+  allowPrecedingLabel: boolean;
+}
+
+const DEFAULT_CONFIG: FormLabelConfig = {
+  fieldTypes: [
+    "FormTextInput",
+    "FormTextarea",
+    "FormSelect",
+    "FormCheckboxInput",
+    "FormRadioInput",
+    "FormFileUploadInput",
+  ],
+  allowPrecedingLabel: true,
+};
+
+const formLabelConfigSchema: RuleConfigSchema = {
+  fieldTypes: {
+    label: "Field Element Types",
+    type: "string[]",
+    description: "Designer element types that need a label",
+    default: DEFAULT_CONFIG.fieldTypes,
+  },
+  allowPrecedingLabel: {
+    label: "Accept Preceding Label",
+    type: "boolean",
+    description:
+      "Treat a Form Label directly before the field (nothing but other labels between) as its label, as the Designer's form block sets it up",
+    default: DEFAULT_CONFIG.allowPrecedingLabel,
+  },
+};
+
+const LABEL_TYPES = new Set(["FormBlockLabel", "FormInlineLabel"]);
+// Checkbox and radio wrappers render as <label>
+const WRAPPING_LABEL_TYPES = new Set([
+  "FormBlockLabel",
+  "FormInlineLabel",
+  "FormCheckboxWrapper",
+  "FormRadioWrapper",
+  "FormFileUploadLabel",
+]);
+
+/**
+ * Shared accessibility rule: every form field has a label. Accepted, in
+ * order: aria-label/aria-labelledby/title, a label whose `for` attribute
+ * matches the field's id, a wrapping label, or a Form Label just before the
+ * field. A placeholder is not a label.
+ */
+export const createFormLabelRule = (): StructureRule => ({
+  id: RULE_ID,
+  name: RULE_NAME,
+  description:
+    "Form fields need a label that screen readers announce. Placeholder text disappears on input and is not a label.",
+  example: 'Form Label "Email address" before the email field',
+  category: "accessibility",
+  type: "structure",
+  severity: "warning",
+  enabled: true,
+  config: formLabelConfigSchema,
+
+  analyzeElement: (args: ElementAnalysisArgs): RuleResult[] => {
+    const {
+      elementId,
+      classes,
+      getElementType,
+      getParentId,
+      getChildrenIds,
+      getAncestorIds,
+      getElementContent,
+      rolesByElement,
+    } = args;
+    const elementType = getElementType?.(elementId);
+    if (!elementType) return [];
+
+    const ruleConfig = args.getRuleConfig(RULE_ID);
+    const config: FormLabelConfig = {
+      ...DEFAULT_CONFIG,
+      ...((ruleConfig?.customSettings ?? {}) as Partial<FormLabelConfig>),
+    };
+    if (!config.fieldTypes.includes(elementType)) return [];
+
+    if (getAttributeName(args, elementId)) return [];
+
+    // <label for="…"> anywhere on the page
+    const domId = getElementContent?.(elementId)?.domId;
+    if (domId) {
+      const labelledBy = Object.keys(rolesByElement ?? {}).some(
+        (id) =>
+          LABEL_TYPES.has(getElementType?.(id) ?? "") &&
+          getAttribute(args, id, "for") === domId
+      );
+      if (labelledBy) return [];
+    }
+
+    const wrapped = (getAncestorIds?.(elementId) ?? []).some((id) =>
+      WRAPPING_LABEL_TYPES.has(getElementType?.(id) ?? "")
+    );
+    if (wrapped) return [];
+
+    if (config.allowPrecedingLabel) {
+      const parentId = getParentId?.(elementId);
+      const siblings = parentId ? getChildrenIds?.(parentId) ?? [] : [];
+      const index = siblings.indexOf(elementId);
+      for (let i = index - 1; i >= 0; i--) {
+        const type = getElementType?.(siblings[i]) ?? "";
+        if (type === "FormBlockLabel") return [];
+        // Another field in between means the label belongs to that one
+        if (config.fieldTypes.includes(type)) break;
+      }
+    }
+
+    return [
+      {
+        ruleId: RULE_ID,
+        name: RULE_NAME,
+        message:
+          "Form field has no label. Add a Form Label before it (or link one with for/id), or give it an aria-label.",
+        severity: ruleConfig?.severity ?? "warning",
+        elementId,
+        className: classes[0]?.className ?? "",
+        isCombo: false,
+        metadata: { elementType, domId: domId ?? null },
+      },
+    ];
+  },
+});
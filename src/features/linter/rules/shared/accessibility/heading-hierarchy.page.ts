@@ -0,0 +1,260 @@
+// src/features/linter/rules/shared/accessibility/heading-hierarchy.page.ts
+import type {
+  PageRule,
+  RuleConfigSchema,
+  RuleResult,
+  Severity,
+} from "@/features/linter/model/rule.types";
+import type { StyleWithElement } from "@/entities/style/model/style.types";
+
+const RULE_ID = "shared:accessibility:heading-hierarchy";
+const RULE_NAME = "Heading Hierarchy";
+
+interface HeadingHierarchyConfig {
+  requireSingleH1: boolean;
+  checkSkippedLevels: boolean;
+  checkNestedHeadings: boolean;
+  bodyTextTerms: string[];
+}
+
+const DEFAULT_CONFIG: HeadingHierarchyConfig = {
+  requireSingleH1: true,
+  checkSkippedLevels: true,
+  checkNestedHeadings: true,
+  bodyTextTerms: [
+    "text",
+    "paragraph",
+    "body",
+    "copy",
+    "caption",
+    "label",
+    "eyebrow",
+    "description",
+  ],
+};
+
+const headingHierarchyConfigSchema: RuleConfigSchema = {
+  requireSingleH1: {
+    label: "Require a Single H1",
+    type: "boolean",
+    description: "Report pages with no h1 or more than one",
+    default: DEFAULT_CONFIG.requireSingleH1,
+  },
+  checkSkippedLevels: {
+    label: "Check Skipped Levels",
+    type: "boolean",
+    description:
+      "Report headings that jump more than one level deeper than the previous heading (h2 → h4)",
+    default: DEFAULT_CONFIG.checkSkippedLevels,
+  },
+  checkNestedHeadings: {
+    label: "Check Nested Headings",
+    type: "boolean",
+    description: "Report headings placed inside another heading",
+    default: DEFAULT_CONFIG.checkNestedHeadings,
+  },
+  bodyTextTerms: {
+    label: "Body Text Terms",
+    type: "string[]",
+    description:
+      "Final class-name segments that mark body text; a heading whose class ends in one is likely a heading tag used for its styling",
+    default: DEFAULT_CONFIG.bodyTextTerms,
+  },
+};
+
+export type HeadingIssue = "multiple-h1" | "skipped-level" | "nested" | "styling";
+
+/** One heading in document order, as rendered by the outline view */
+export interface HeadingOutlineEntry {
+  elementId: string;
+  level: number;
+  className: string;
+  issues: HeadingIssue[];
+}
+
+const headingLevel = (tag: string | null): number | null => {
+  const match = /^h([1-6])$/.exec(tag?.toLowerCase() ?? "");
+  return match ? Number(match[1]) : null;
+};
+
+/** Last segment of a class name, ignoring numbered suffixes ("text-block-4") */
+const finalTerm = (className: string): string | null => {
+  const tokens = className
+    .toLowerCase()
+    .split(/[_-]+/)
+    .filter((t) => t && !/^\d+$/.test(t));
+  return tokens[tokens.length - 1] ?? null;
+};
+
+/**
+ * Page rule: the page's headings form a sensible outline. Exactly one h1,
+ * no levels skipped going deeper in document order, no headings inside
+ * headings, and no heading tags carrying body-text classes (a heading picked
+ * for its size rather than its meaning). Every result shares one "Heading
+ * outline" view whose `data.outline` the expanded view shows as a tree.
+ */
+export const createHeadingHierarchyPageRule = (): PageRule => ({
+  id: RULE_ID,
+  name: RULE_NAME,
+  description:
+    "Pages should have exactly one h1, and headings should descend one level at a time (h2 → h3, not h2 → h4) without nesting inside each other.",
+  example: "h1 page title → h2 section titles → h3 card titles",
+  type: "page",
+  category: "accessibility",
+  severity: "warning",
+  enabled: true,
+  config: headingHierarchyConfigSchema,
+
+  analyzePage: ({
+    rolesByElement,
+    graph,
+    styles,
+    getRuleConfig,
+    getTagName,
+  }): RuleResult[] => {
+    const ruleConfig =
+      getRuleConfig<Partial<HeadingHierarchyConfig>>(RULE_ID);
+    const config: HeadingHierarchyConfig = {
+      ...DEFAULT_CONFIG,
+      ...(ruleConfig.customSettings ?? {}),
+    };
+    const severity: Severity = ruleConfig.severity;
+    const bodyTextTerms = new Set(
+      config.bodyTextTerms.map((t) => t.trim().toLowerCase())
+    );
+
+    const stylesByElement = new Map<string, StyleWithElement[]>();
+    // The runner passes styles with their element ids attached
+    for (const s of styles as StyleWithElement[]) {
+      const list = stylesByElement.get(s.elementId) ?? [];
+      list.push(s);
+      stylesByElement.set(s.elementId, list);
+    }
+    for (const list of stylesByElement.values()) {
+      list.sort((a, b) => a.order - b.order);
+    }
+
+    // Document order: depth-first from the roots, children in graph order.
+    // Anything the walk misses keeps its discovery order at the end.
+    const known = new Set<string>([
+      ...Object.keys(rolesByElement),
+      ...stylesByElement.keys(),
+    ]);
+    const ordered: string[] = [];
+    const visited = new Set<string>();
+    const walk = (id: string) => {
+      if (visited.has(id)) return;
+      visited.add(id);
+      ordered.push(id);
+      graph.getChildrenIds(id).forEach(walk);
+    };
+    for (const id of known) {
+      const parentId = graph.getParentId(id);
+      if (!parentId || !known.has(parentId)) walk(id);
+    }
+    for (const id of known) walk(id);
+
+    const outline: HeadingOutlineEntry[] = [];
+    for (const elementId of ordered) {
+      const level = headingLevel(getTagName(elementId));
+      if (level === null) continue;
+      outline.push({
+        elementId,
+        level,
+        className: stylesByElement.get(elementId)?.[0]?.name ?? "",
+        issues: [],
+      });
+    }
+    if (outline.length === 0 && !config.requireSingleH1) return [];
+
+    const headingIds = new Set(outline.map((h) => h.elementId));
+    const findings: Array<{
+      entry: HeadingOutlineEntry | null;
+      issue: HeadingIssue | "missing-h1";
+      message: string;
+    }> = [];
+
+    const h1s = outline.filter((h) => h.level === 1);
+    if (config.requireSingleH1) {
+      if (h1s.length === 0) {
+        findings.push({
+          entry: null,
+          issue: "missing-h1",
+          message:
+            outline.length > 0
+              ? `Page has no h1; its first heading is an h${outline[0].level}.`
+              : "Page has no headings. Add an h1 that names the page.",
+        });
+      }
+      for (const extra of h1s.slice(1)) {
+        findings.push({
+          entry: extra,
+          issue: "multiple-h1",
+          message: `Page has ${h1s.length} h1 headings. Keep one and demote the others to h2.`,
+        });
+      }
+    }
+
+    let previous: HeadingOutlineEntry | null = null;
+    for (const entry of outline) {
+      if (
+        config.checkSkippedLevels &&
+        previous &&
+        entry.level > previous.level + 1
+      ) {
+        findings.push({
+          entry,
+          issue: "skipped-level",
+          message: `Heading skips from h${previous.level} to h${entry.level}. Use an h${previous.level + 1} here or restyle it with a class.`,
+        });
+      }
+      previous = entry;
+
+      if (
+        config.checkNestedHeadings &&
+        graph.getAncestorIds(entry.elementId).some((id) => headingIds.has(id))
+      ) {
+        findings.push({
+          entry,
+          issue: "nested",
+          message: `h${entry.level} is nested inside another heading. Headings cannot contain headings; use a span for the inner text.`,
+        });
+      }
+
+      const term = entry.className ? finalTerm(entry.className) : null;
+      if (term && bodyTextTerms.has(term)) {
+        findings.push({
+          entry,
+          issue: "styling",
+          message: `h${entry.level} uses the body-text class "${entry.className}". If this is not a heading, use a paragraph or div instead of a heading tag.`,
+        });
+      }
+    }
+
+    for (const { entry, issue } of findings) {
+      if (entry && issue !== "missing-h1") entry.issues.push(issue);
+    }
+
+    const outlineView = {
+      contentType: "heading-outline" as const,
+      title: "Heading outline",
+      description: "The page's headings as a tree, with problems marked",
+      data: { outline },
+    };
+
+    return findings.map(({ entry, issue, message }) => ({
+      ruleId: RULE_ID,
+      name: RULE_NAME,
+      message,
+      severity,
+      className: entry?.className ?? "",
+      isCombo: false,
+      ...(entry ? { elementId: entry.elementId } : {}),
+      metadata: {
+        ...(entry ? { elementId: entry.elementId, level: entry.level } : {}),
+        issue,
+      },
+      expandedViewCapabilities: [outlineView],
+    }));
+  },
+});
@@ -0,0 +1,129 @@
+import type {
+  StructureRule,
+  RuleConfigSchema,
+  RuleResult,
+  ElementAnalysisArgs,
+} from "@/features/linter/model/rule.types";
+import {
+  getAttribute,
+  normalizePhrase,
+} from "@/features/linter/rules/shared/accessibility/accessible-name";
+
+const RULE_ID = "shared:accessibility:image-alt";
+const RULE_NAME = "Image Alt Text";
+
+type AltIssue = "missing" | "filename" | "generic";
+
+interface ImageAltConfig {
+  allowDecorative: boolean;
+  genericAltTexts: string[];
+}
+
+const DEFAULT_CONFIG: ImageAltConfig = {
+  allowDecorative: true,
+  genericAltTexts: ["image", "img", "photo", "picture", "graphic"],
+};
+
+const imageAltConfigSchema: RuleConfigSchema = {
+  allowDecorative: {
+    label: "Allow Decorative Images",
+    type: "boolean",
+    description:
+      'Accept images without alt text when they carry aria-hidden="true" or role="presentation"/"none"',
+    default: DEFAULT_CONFIG.allowDecorative,
+  },
+  genericAltTexts: {
+    label: "Generic Alt Texts",
+    type: "string[]",
+    description: "Alt texts that describe nothing and are reported",
+    default: DEFAULT_CONFIG.genericAltTexts,
+  },
+};
+
+// Upload names: extensions, camera/phone prefixes, Webflow asset id prefixes
+const FILENAME_PATTERNS = [
+  /\.(?:png|jpe?g|gif|svg|webp|avif|bmp|tiff?)$/i,
+  /^(?:img|dsc|dscn|pxl|mvimg|screenshot|screen shot)[\s_-]?\d/i,
+  /^[0-9a-f]{24}_/i,
+];
+
+/** True when alt text reads like a file name rather than a description */
+export function isFilenameLike(alt: string): boolean {
+  const text = alt.trim();
+  if (FILENAME_PATTERNS.some((p) => p.test(text))) return true;
+  // A single token glued with underscores, or dashes and digits: hero_bg, team-02
+  if (!/^[\w-]+$/.test(text)) return false;
+  return text.includes("_") || (text.includes("-") && /\d/.test(text));
+}
+
+/**
+ * Shared accessibility rule: Image elements need alt text that describes the
+ * image. Missing alt, file-name alt and generic words are reported; images
+ * marked decorative through attributes pass when allowed.
+ */
+export const createImageAltRule = (): StructureRule => ({
+  id: RULE_ID,
+  name: RULE_NAME,
+  description:
+    "Images need alt text that describes them. File names and words like 'image' tell screen reader users nothing.",
+  example:
+    'alt="Team celebrating the product launch" instead of "IMG_2041.jpg"',
+  category: "accessibility",
+  type: "structure",
+  severity: "warning",
+  enabled: true,
+  config: imageAltConfigSchema,
+
+  analyzeElement: (args: ElementAnalysisArgs): RuleResult[] => {
+    const { elementId, classes, getElementType, getElementContent } = args;
+    if (getElementType?.(elementId) !== "Image") return [];
+
+    const content = getElementContent?.(elementId);
+    // Alt text was not read for this element; nothing to judge
+    if (!content || content.altText === undefined) return [];
+
+    const ruleConfig = args.getRuleConfig(RULE_ID);
+    const config: ImageAltConfig = {
+      ...DEFAULT_CONFIG,
+      ...((ruleConfig?.customSettings ?? {}) as Partial<ImageAltConfig>),
+    };
+
+    const alt = (content.altText ?? "").trim();
+    let reason: AltIssue | null = null;
+    if (!alt) {
+      const role = getAttribute(args, elementId, "role")?.toLowerCase();
+      const hidden = getAttribute(args, elementId, "aria-hidden") === "true";
+      const decorative = hidden || role === "presentation" || role === "none";
+      if (!(config.allowDecorative && decorative)) reason = "missing";
+    } else if (isFilenameLike(alt)) {
+      reason = "filename";
+    } else if (
+      config.genericAltTexts
+        .map(normalizePhrase)
+        .includes(normalizePhrase(alt))
+    ) {
+      reason = "generic";
+    }
+    if (!reason) return [];
+
+    const messages: Record<AltIssue, string> = {
+      missing:
+        'Image has no alt text. Describe the image, or mark it decorative (aria-hidden="true") if it adds nothing.',
+      filename: `Image alt text "${alt}" looks like a file name. Describe what the image shows.`,
+      generic: `Image alt text "${alt}" is too generic. Describe what the image shows.`,
+    };
+
+    return [
+      {
+        ruleId: RULE_ID,
+        name: RULE_NAME,
+        message: messages[reason],
+        severity: ruleConfig?.severity ?? "warning",
+        elementId,
+        className: classes[0]?.className ?? "",
+        isCombo: false,
+        metadata: { reason, altText: alt },
+      },
+    ];
+  },
+});
@@ -0,0 +1,26 @@
+import type { StructureRule } from "@/features/linter/model/rule.types";
+import { createImageAltRule } from "./image-alt";
+import { createLinkTextRule } from "./link-text";
+import { createFormLabelRule } from "./form-label";
+import { createInteractiveBlockRule } from "./interactive-block";
+
+export { createTextContrastPageRule } from "./text-contrast.page";
+export {
+  createHeadingHierarchyPageRule,
+  type HeadingOutlineEntry,
+  type HeadingIssue,
+} from "./heading-hierarchy.page";
+export {
+  createImageAltRule,
+  createLinkTextRule,
+  createFormLabelRule,
+  createInteractiveBlockRule,
+};
+
+/** Element-level accessibility rules, for presets to include as a pack */
+export const createAccessibilityRules = (): StructureRule[] => [
+  createImageAltRule(),
+  createLinkTextRule(),
+  createFormLabelRule(),
+  createInteractiveBlockRule(),
+];
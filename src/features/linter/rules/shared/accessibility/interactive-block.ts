@@ -0,0 +1,114 @@
+import type {
+  StructureRule,
+  RuleConfigSchema,
+  RuleResult,
+  ElementAnalysisArgs,
+} from "@/features/linter/model/rule.types";
+import { LINK_ELEMENT_TYPES } from "@/entities/element/lib/element-content";
+import { getAttribute } from "@/features/linter/rules/shared/accessibility/accessible-name";
+
+const RULE_ID = "shared:accessibility:interactive-block";
+const RULE_NAME = "Button Built From a Block";
+
+const INTERACTIVE_TYPES = new Set([
+  ...LINK_ELEMENT_TYPES,
+  "FormButton",
+  "DropdownToggle",
+  "NavbarButton",
+]);
+
+interface InteractiveBlockConfig {
+  buttonClassTerms: string[];
+}
+
+const DEFAULT_CONFIG: InteractiveBlockConfig = {
+  buttonClassTerms: ["button", "btn"],
+};
+
+const interactiveBlockConfigSchema: RuleConfigSchema = {
+  buttonClassTerms: {
+    label: "Button Class Terms",
+    type: "string[]",
+    description:
+      "Class-name segments that mark a Block as a button (matched against segments split on _ and -)",
+    default: DEFAULT_CONFIG.buttonClassTerms,
+  },
+};
+
+/**
+ * Shared accessibility rule: a Block styled as a button (or given
+ * role="button") is not focusable or keyboard-operable. Blocks inside a link
+ * or wrapping a real link/button are only styling and pass.
+ */
+export const createInteractiveBlockRule = (): StructureRule => ({
+  id: RULE_ID,
+  name: RULE_NAME,
+  description:
+    "Buttons built from Div Blocks cannot be reached or pressed with a keyboard. Use a Button or Link Block instead.",
+  example: "Replace the Div Block 'hero_button' with a Button element",
+  category: "accessibility",
+  type: "structure",
+  severity: "warning",
+  enabled: true,
+  config: interactiveBlockConfigSchema,
+
+  analyzeElement: (args: ElementAnalysisArgs): RuleResult[] => {
+    const { elementId, classes, getElementType, getAncestorIds } = args;
+    if (getElementType?.(elementId) !== "Block") return [];
+
+    const ruleConfig = args.getRuleConfig(RULE_ID);
+    const config: InteractiveBlockConfig = {
+      ...DEFAULT_CONFIG,
+      ...((ruleConfig?.customSettings ??
+        {}) as Partial<InteractiveBlockConfig>),
+    };
+    const terms = new Set(config.buttonClassTerms.map((t) => t.toLowerCase()));
+
+    const role = getAttribute(args, elementId, "role")?.toLowerCase();
+    const buttonClass = classes
+      .map((c) => c.className)
+      .find((name) =>
+        name
+          .toLowerCase()
+          .split(/[_-]+/)
+          .some((token) => terms.has(token))
+      );
+    if (role !== "button" && !buttonClass) return [];
+
+    const isInteractive = (id: string) =>
+      INTERACTIVE_TYPES.has(getElementType?.(id) ?? "");
+    if ((getAncestorIds?.(elementId) ?? []).some(isInteractive)) return [];
+    if (descendantIds(args, elementId).some(isInteractive)) return [];
+
+    // role="button" plus tabindex is a deliberate, keyboard-reachable widget
+    const tabindex = getAttribute(args, elementId, "tabindex");
+    if (role === "button" && tabindex !== null) return [];
+
+    return [
+      {
+        ruleId: RULE_ID,
+        name: RULE_NAME,
+        message:
+          role === "button"
+            ? 'Block has role="button" but no tabindex, so keyboards cannot reach it. Use a Button element instead.'
+            : `Block "${buttonClass}" looks like a button but is a Div Block. Use a Button or Link Block so it can be focused and pressed.`,
+        severity: ruleConfig?.severity ?? "warning",
+        elementId,
+        className: buttonClass ?? classes[0]?.className ?? "",
+        isCombo: false,
+        metadata: { role: role ?? null, buttonClass: buttonClass ?? null },
+      },
+    ];
+  },
+});
+
+function descendantIds(args: ElementAnalysisArgs, elementId: string): string[] {
+  const out: string[] = [];
+  const queue = [...(args.getChildrenIds?.(elementId) ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    out.push(id);
+    queue.push(...(args.getChildrenIds?.(id) ?? []));
+  }
+  return out;
+}
@@ -0,0 +1,108 @@
+import type {
+  StructureRule,
+  RuleConfigSchema,
+  RuleResult,
+  ElementAnalysisArgs,
+} from "@/features/linter/model/rule.types";
+import { LINK_ELEMENT_TYPES } from "@/entities/element/lib/element-content";
+import {
+  getAttributeName,
+  normalizePhrase,
+} from "@/features/linter/rules/shared/accessibility/accessible-name";
+
+const RULE_ID = "shared:accessibility:link-text";
+const RULE_NAME = "Link Text";
+
+interface LinkTextConfig {
+  genericLinkTexts: string[];
+}
+
+const DEFAULT_CONFIG: LinkTextConfig = {
+  genericLinkTexts: [
+    "click here",
+    "click",
+    "here",
+    "read more",
+    "learn more",
+    "more",
+    "link",
+    "this link",
+    "go",
+  ],
+};
+
+const linkTextConfigSchema: RuleConfigSchema = {
+  genericLinkTexts: {
+    label: "Generic Link Texts",
+    type: "string[]",
+    description:
+      "Link texts that make no sense out of context (compared without case or punctuation)",
+    default: DEFAULT_CONFIG.genericLinkTexts,
+  },
+};
+
+/**
+ * Shared accessibility rule: links, link blocks and Designer buttons (all
+ * Link elements) need text that says where they go. The accessible name is
+ * aria-label/aria-labelledby/title when set, else the link's text with image
+ * alt text standing in for images.
+ */
+export const createLinkTextRule = (): StructureRule => ({
+  id: RULE_ID,
+  name: RULE_NAME,
+  description:
+    "Links need text that says where they lead. Icon-only links need an aria-label, and phrases like 'click here' mean nothing when read out of context.",
+  example: '"Read the pricing guide" instead of "Click here"',
+  category: "accessibility",
+  type: "structure",
+  severity: "warning",
+  enabled: true,
+  config: linkTextConfigSchema,
+
+  analyzeElement: (args: ElementAnalysisArgs): RuleResult[] => {
+    const { elementId, classes, getElementType, getElementContent } = args;
+    const elementType = getElementType?.(elementId);
+    if (!elementType || !LINK_ELEMENT_TYPES.has(elementType)) return [];
+
+    const ruleConfig = args.getRuleConfig(RULE_ID);
+    const config: LinkTextConfig = {
+      ...DEFAULT_CONFIG,
+      ...((ruleConfig?.customSettings ?? {}) as Partial<LinkTextConfig>),
+    };
+
+    const labelled = getAttributeName(args, elementId);
+    const text = labelled ?? getElementContent?.(elementId)?.text;
+    // Link text was not read for this element; nothing to judge
+    if (text === undefined || text === null) return [];
+
+    const generic = new Set(config.genericLinkTexts.map(normalizePhrase));
+    const normalized = normalizePhrase(text);
+    const reason = !normalized
+      ? "empty"
+      : generic.has(normalized)
+        ? "generic"
+        : null;
+    if (!reason) return [];
+
+    return [
+      {
+        ruleId: RULE_ID,
+        name: RULE_NAME,
+        message:
+          reason === "empty"
+            ? "Link has no accessible text. Add visible text, alt text on its image, or an aria-label."
+            : `Link text "${text.trim()}" does not say where the link goes. Describe the destination instead.`,
+        severity: ruleConfig?.severity ?? "warning",
+        elementId,
+        className: classes[0]?.className ?? "",
+        isCombo: false,
+        metadata: {
+          reason,
+          elementType,
+          linkText: text.trim(),
+          source: labelled ? "attribute" : "content",
+        },
+      },
+    ];
+  },
+});
@@ -0,0 +1,361 @@
+// src/features/linter/rules/shared/accessibility/text-contrast.page.ts
+import type {
+  PageRule,
+  RuleConfigSchema,
+  RuleResult,
+} from "@/features/linter/model/rule.types";
+import type { StyleWithElement } from "@/entities/style/model/style.types";
+import { getCachedColorVariables } from "@/entities/variable";
+import {
+  compositeOver,
+  contrastRatio,
+  parseColor,
+  toHex,
+  type RgbaColor,
+} from "@/features/linter/lib/color-utils";
+import { isVariableReference } from "@/features/linter/lib/variable-utils";
+
+const RULE_ID = "shared:accessibility:text-contrast";
+const RULE_NAME = "Text Contrast";
+
+interface TextContrastConfig {
+  normalTextRatio: number;
+  largeTextRatio: number;
+  checkEnhanced: boolean;
+  enhancedNormalTextRatio: number;
+  enhancedLargeTextRatio: number;
+  largeTextMinSizePx: number;
+  largeBoldTextMinSizePx: number;
+}
+
+const DEFAULT_CONFIG: TextContrastConfig = {
+  normalTextRatio: 4.5,
+  largeTextRatio: 3,
+  checkEnhanced: false,
+  enhancedNormalTextRatio: 7,
+  enhancedLargeTextRatio: 4.5,
+  largeTextMinSizePx: 24,
+  largeBoldTextMinSizePx: 18.66,
+};
+
+const textContrastConfigSchema: RuleConfigSchema = {
+  normalTextRatio: {
+    label: "AA Ratio (Normal Text)",
+    type: "number",
+    description: "Minimum contrast for body-sized text (WCAG 1.4.3)",
+    default: DEFAULT_CONFIG.normalTextRatio,
+  },
+  largeTextRatio: {
+    label: "AA Ratio (Large Text)",
+    type: "number",
+    description: "Minimum contrast for large text (WCAG 1.4.3)",
+    default: DEFAULT_CONFIG.largeTextRatio,
+  },
+  checkEnhanced: {
+    label: "Report AAA Failures",
+    type: "boolean",
+    description:
+      "Also report text that passes AA but misses the enhanced (AAA) ratio, as suggestions",
+    default: DEFAULT_CONFIG.checkEnhanced,
+  },
+  enhancedNormalTextRatio: {
+    label: "AAA Ratio (Normal Text)",
+    type: "number",
+    description: "Enhanced contrast for body-sized text (WCAG 1.4.6)",
+    default: DEFAULT_CONFIG.enhancedNormalTextRatio,
+  },
+  enhancedLargeTextRatio: {
+    label: "AAA Ratio (Large Text)",
+    type: "number",
+    description: "Enhanced contrast for large text (WCAG 1.4.6)",
+    default: DEFAULT_CONFIG.enhancedLargeTextRatio,
+  },
+  largeTextMinSizePx: {
+    label: "Large Text Size (px)",
+    type: "number",
+    description: "Font size from which any text counts as large (18pt)",
+    default: DEFAULT_CONFIG.largeTextMinSizePx,
+  },
+  largeBoldTextMinSizePx: {
+    label: "Large Bold Text Size (px)",
+    type: "number",
+    description: "Font size from which bold (700+) text counts as large (14pt)",
+    default: DEFAULT_CONFIG.largeBoldTextMinSizePx,
+  },
+};
+
+const TEXT_ELEMENT_TYPES = new Set([
+  "Heading",
+  "Paragraph",
+  "TextBlock",
+  "Link",
+  "Button",
+  "RichText",
+  "Blockquote",
+  "ListItem",
+  "FormButton",
+  "FormBlockLabel",
+  "FormInlineLabel",
+]);
+
+const TEXT_TAGS = new Set([
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "p",
+  "a",
+  "span",
+  "li",
+  "blockquote",
+  "label",
+  "button",
+  "figcaption",
+]);
+
+// Webflow's default stylesheet: body text and heading sizes
+const DEFAULT_TEXT_COLOR: RgbaColor = { r: 51, g: 51, b: 51, a: 1 };
+const PAGE_BACKGROUND: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+const ROOT_FONT_SIZE_PX = 16;
+const HEADING_SIZES_PX: Record<string, number> = {
+  h1: 38,
+  h2: 32,
+  h3: 24,
+  h4: 18,
+  h5: 14,
+  h6: 12,
+};
+
+/** Unresolvable value (unknown variable, gradient, image): skip the element */
+const UNKNOWN = Symbol("unknown");
+
+const resolveColor = (value: unknown): RgbaColor | null | typeof UNKNOWN => {
+  if (value === undefined || value === null || value === "") return null;
+  if (isVariableReference(value)) {
+    const id = (value as { id: string }).id;
+    const variable = getCachedColorVariables().find((v) => v.id === id);
+    return (variable && parseColor(variable.value)) || UNKNOWN;
+  }
+  if (typeof value !== "string") return UNKNOWN;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "inherit") return null;
+  return parseColor(value) ?? UNKNOWN;
+};
+
+const parseFontSize = (value: unknown, inheritedPx: number): number | null => {
+  if (typeof value !== "string") return null;
+  const match = /^(\d*\.?\d+)(px|rem|em|%)?$/.exec(value.trim());
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  switch (match[2]) {
+    case "rem":
+      return n * ROOT_FONT_SIZE_PX;
+    case "em":
+      return n * inheritedPx;
+    case "%":
+      return (n / 100) * inheritedPx;
+    default:
+      return n;
+  }
+};
+
+const parseFontWeight = (value: unknown): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const v = value.trim().toLowerCase();
+  if (v === "bold" || v === "bolder") return 700;
+  if (v === "normal" || v === "lighter") return 400;
+  const n = parseInt(v, 10);
+  return Number.isFinite(n) ? n : null;
+};
+
+const fmt = (ratio: number) => `${Math.floor(ratio * 100) / 100}:1`;
+
+/**
+ * Page rule: WCAG 2.x contrast between each text element's effective color
+ * and the background it sits on. Colors cascade through the element's
+ * classes (later classes win) and are inherited from ancestors; the background
+ * is the nearest ancestor fill, with translucent layers composited down to
+ * the page. Elements over background images or unresolved variables are
+ * skipped rather than guessed.
+ */
+export const createTextContrastPageRule = (): PageRule => ({
+  id: RULE_ID,
+  name: RULE_NAME,
+  description:
+    "Text should have enough contrast against its background to meet WCAG 2.x AA (4.5:1 for normal text, 3:1 for large text).",
+  example: "#999999 on #ffffff is 2.84:1 — darken the text to at least #767676",
+  type: "page",
+  category: "accessibility",
+  severity: "warning",
+  enabled: true,
+  config: textContrastConfigSchema,
+
+  analyzePage: ({
+    rolesByElement,
+    graph,
+    styles,
+    getRuleConfig,
+    getTagName,
+    getElementType,
+  }): RuleResult[] => {
+    const ruleConfig = getRuleConfig<Partial<TextContrastConfig>>(RULE_ID);
+    const config: TextContrastConfig = {
+      ...DEFAULT_CONFIG,
+      ...(ruleConfig.customSettings ?? {}),
+    };
+
+    const stylesByElement = new Map<string, StyleWithElement[]>();
+    // The runner passes styles with their element ids attached
+    for (const s of styles as StyleWithElement[]) {
+      const list = stylesByElement.get(s.elementId) ?? [];
+      list.push(s);
+      stylesByElement.set(s.elementId, list);
+    }
+    for (const list of stylesByElement.values()) {
+      list.sort((a, b) => a.order - b.order);
+    }
+
+    /** Last class on the element that sets `property` wins */
+    const ownValue = (elementId: string, property: string): unknown => {
+      const list = stylesByElement.get(elementId) ?? [];
+      for (let i = list.length - 1; i >= 0; i--) {
+        const v = list[i].properties?.[property];
+        if (v !== undefined && v !== null && v !== "") return v;
+      }
+      return undefined;
+    };
+
+    const isTextElement = (id: string): boolean => {
+      const type = getElementType(id);
+      if (type && TEXT_ELEMENT_TYPES.has(type)) return true;
+      const tag = getTagName(id)?.toLowerCase();
+      return Boolean(tag && TEXT_TAGS.has(tag));
+    };
+
+    const candidates = new Set<string>([
+      ...Object.keys(rolesByElement),
+      ...stylesByElement.keys(),
+    ]);
+
+    const results: RuleResult[] = [];
+    for (const elementId of candidates) {
+      if (!isTextElement(elementId)) continue;
+
+      const ancestors = graph.getAncestorIds(elementId);
+      // Unstyled text nested in text (a span in a paragraph) repeats its parent
+      const parentId = ancestors[0];
+      if (
+        parentId &&
+        !stylesByElement.has(elementId) &&
+        isTextElement(parentId)
+      ) {
+        continue;
+      }
+
+      const chain = [elementId, ...ancestors];
+
+      // Text color: nearest declaration up the tree
+      let text: RgbaColor | null = null;
+      let unknown = false;
+      for (const id of chain) {
+        const c = resolveColor(ownValue(id, "color"));
+        if (c === UNKNOWN) {
+          unknown = true;
+          break;
+        }
+        if (c) {
+          text = c;
+          break;
+        }
+      }
+      if (unknown) continue;
+
+      // Background: fills up the tree until an opaque one (or the page)
+      const layers: RgbaColor[] = [];
+      let backgroundElementId: string | null = null;
+      for (const id of chain) {
+        const image = ownValue(id, "background-image");
+        if (typeof image === "string" ? image !== "none" : image !== undefined) {
+          unknown = true;
+          break;
+        }
+        const c = resolveColor(ownValue(id, "background-color"));
+        if (c === UNKNOWN) {
+          unknown = true;
+          break;
+        }
+        if (c && c.a > 0) {
+          layers.push(c);
+          backgroundElementId ??= id;
+          if (c.a >= 1) break;
+        }
+      }
+      if (unknown) continue;
+
+      const background = layers
+        .reverse()
+        .reduce((acc, layer) => compositeOver(layer, acc), PAGE_BACKGROUND);
+      const foreground = compositeOver(text ?? DEFAULT_TEXT_COLOR, background);
+
+      // Font size/weight cascade from the root down to the element
+      let fontSizePx = ROOT_FONT_SIZE_PX;
+      let fontWeight = 400;
+      for (const id of [...chain].reverse()) {
+        const tag = getTagName(id)?.toLowerCase() ?? "";
+        if (HEADING_SIZES_PX[tag]) {
+          fontSizePx = HEADING_SIZES_PX[tag];
+          fontWeight = 700;
+        }
+        fontSizePx =
+          parseFontSize(ownValue(id, "font-size"), fontSizePx) ?? fontSizePx;
+        fontWeight = parseFontWeight(ownValue(id, "font-weight")) ?? fontWeight;
+      }
+      const isLarge =
+        fontSizePx >= config.largeTextMinSizePx ||
+        (fontWeight >= 700 && fontSizePx >= config.largeBoldTextMinSizePx);
+
+      const ratio = contrastRatio(foreground, background);
+      const aa = isLarge ? config.largeTextRatio : config.normalTextRatio;
+      const aaa = isLarge
+        ? config.enhancedLargeTextRatio
+        : config.enhancedNormalTextRatio;
+
+      let level: "AA" | "AAA" | null = null;
+      if (ratio < aa) level = "AA";
+      else if (config.checkEnhanced && ratio < aaa) level = "AAA";
+      if (!level) continue;
+
+      const required = level === "AA" ? aa : aaa;
+      const textHex = toHex(foreground);
+      const backgroundHex = toHex(background);
+      const sizeLabel = isLarge ? "large text" : "normal text";
+
+      results.push({
+        ruleId: RULE_ID,
+        name: RULE_NAME,
+        message: `Contrast ${fmt(ratio)} is below WCAG ${level} (${required}:1 for ${sizeLabel}): ${textHex} on ${backgroundHex}.`,
+        severity: level === "AA" ? ruleConfig.severity : "suggestion",
+        elementId,
+        className: stylesByElement.get(elementId)?.[0]?.name ?? "",
+        isCombo: false,
+        metadata: {
+          elementId,
+          ratio: Math.round(ratio * 100) / 100,
+          required,
+          level,
+          textSize: isLarge ? "large" : "normal",
+          fontSizePx: Math.round(fontSizePx * 100) / 100,
+          fontWeight,
+          textColor: textHex,
+          backgroundColor: backgroundHex,
+          backgroundElementId,
+        },
+      });
+    }
+
+    return results;
+  },
+});
@@ -1,5 +1,13 @@
 export {
   createDuplicateOfUtilityRule,
   createColorVariableRule,
+  createTokenVariableRules,
+  createNearDuplicateRule,
 } from "./property";
+export { createAutoGeneratedClassRule } from "./naming";
 export { createMissingClassOnDivRule } from "./structure";
+export {
+  createTextContrastPageRule,
+  createHeadingHierarchyPageRule,
+  createAccessibilityRules,
+} from "./accessibility";
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  createAutoGeneratedClassRule,
+  matchDefaultClassName,
+} from "@/features/linter/rules/shared/naming/auto-generated-class";
+import { lumosGrammar } from "@/features/linter/grammar/lumos.grammar";
+import { clientFirstGrammar } from "@/features/linter/grammar/client-first.grammar";
+import type {
+  NamingElementContext,
+  RuleContext,
+} from "@/features/linter/model/rule.types";
+import type { GrammarAdapter } from "@/features/linter/model/linter.types";
+
+const rule = createAutoGeneratedClassRule();
+
+const element = (
+  overrides: Partial<NamingElementContext> = {}
+): NamingElementContext => ({
+  elementId: "el-1",
+  role: "unknown",
+  tagName: "div",
+  elementType: "Block",
+  parentComponentKey: "hero_primary",
+  ...overrides,
+});
+
+const context = (
+  grammar: GrammarAdapter,
+  el?: NamingElementContext,
+  config?: Record<string, unknown>
+): RuleContext & { config?: Record<string, unknown> } => ({
+  allStyles: [],
+  utilityClassPropertiesMap: new Map(),
+  propertyToClassesMap: new Map(),
+  element: el,
+  formatClassName: grammar.format,
+  config,
+});
+
+describe("matchDefaultClassName", () => {
+  it("recognizes Designer defaults and their numbered suffixes", () => {
+    expect(matchDefaultClassName("div-block-23")).toEqual({
+      base: "div-block",
+      number: 23,
+    });
+    expect(matchDefaultClassName("text-block")).toEqual({
+      base: "text-block",
+      number: null,
+    });
+    expect(matchDefaultClassName("heading-7")?.base).toBe("heading");
+    expect(matchDefaultClassName("link-block-2")?.base).toBe("link-block");
+    expect(matchDefaultClassName("image-12")?.base).toBe("image");
+  });
+
+  it("leaves named classes and bare single words alone", () => {
+    expect(matchDefaultClassName("heading")).toBeNull();
+    expect(matchDefaultClassName("hero_wrap")).toBeNull();
+    expect(matchDefaultClassName("div-block_wrap")).toBeNull();
+    expect(matchDefaultClassName("section_hero")).toBeNull();
+    expect(matchDefaultClassName("hero-block-2")).toBeNull();
+    expect(matchDefaultClassName("hero-block-2", ["hero-block"])).toEqual({
+      base: "hero-block",
+      number: 2,
+    });
+  });
+});
+
+describe("shared:naming:auto-generated-class", () => {
+  it("suggests a Lumos name from the parent key and tag", () => {
+    const result = rule.evaluate?.(
+      "heading-7",
+      context(lumosGrammar, element({ tagName: "h2" }))
+    );
+    expect(result?.fix).toEqual({
+      kind: "rename-class",
+      from: "heading-7",
+      to: "hero_primary_heading",
+      scope: "element",
+    });
+  });
+
+  it("prefers the detected role over the tag", () => {
+    const result = rule.evaluate?.(
+      "div-block-23",
+      context(lumosGrammar, element({ role: "childGroup" }))
+    );
+    expect(result?.metadata?.suggestedName).toBe("hero_primary_group");
+  });
+
+  it("formats through the Client-First grammar", () => {
+    const result = rule.evaluate?.(
+      "div-block-4",
+      context(
+        clientFirstGrammar,
+        element({ parentComponentKey: "home_testimonials" })
+      )
+    );
+    expect(result?.metadata?.suggestedName).toBe("home-testimonials_wrapper");
+  });
+
+  it("flags without a fix when no component key is known", () => {
+    const result = rule.evaluate?.(
+      "text-block-4",
+      context(lumosGrammar, element({ parentComponentKey: null }))
+    );
+    expect(result?.ruleId).toBe("shared:naming:auto-generated-class");
+    expect(result?.fix).toBeUndefined();
+    // Left to the executor, which applies the configured severity
+    expect(result?.severity).toBeUndefined();
+  });
+
+  it("does not guess a name for component roots", () => {
+    const result = rule.evaluate?.(
+      "div-block-2",
+      context(lumosGrammar, element({ role: "componentRoot" }))
+    );
+    expect(result).toBeTruthy();
+    expect(result?.fix).toBeUndefined();
+  });
+
+  it("ignores regular class names", () => {
+    expect(rule.evaluate?.("hero_wrap", context(lumosGrammar))).toBeNull();
+    expect(rule.test("hero_wrap")).toBe(true);
+  });
+});
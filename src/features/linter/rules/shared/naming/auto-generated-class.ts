@@ -0,0 +1,205 @@
+import type {
+  NamingRule,
+  NamingElementContext,
+  NamingEvaluation,
+  RuleConfigSchema,
+  RuleContext,
+} from "@/features/linter/model/rule.types";
+
+interface AutoGeneratedClassConfig {
+  additionalDefaultNames: string[];
+}
+
+const autoGeneratedClassConfigSchema: RuleConfigSchema = {
+  additionalDefaultNames: {
+    label: "Additional default names",
+    type: "string[]",
+    description:
+      "Extra Designer default class names to flag, without the number (e.g. 'hero-block').",
+    default: [],
+  },
+};
+
+/**
+ * Class names the Designer gives an element when nobody names it, mapped to
+ * the element term used when no role or tag says better. The first instance
+ * is unnumbered, later ones get `-2`, `-3`, …
+ */
+const DEFAULT_NAME_TERMS: Record<string, string> = {
+  "div-block": "wrap",
+  "link-block": "link",
+  "flex-block": "wrap",
+  "text-block": "text",
+  "text-span": "text",
+  "bold-text": "text",
+  "italic-text": "text",
+  "rich-text-block": "text",
+  "block-quote": "text",
+  paragraph: "text",
+  heading: "heading",
+  image: "image",
+  link: "link",
+  button: "button",
+  "list-item": "item",
+  grid: "layout",
+  "quick-stack": "layout",
+  columns: "layout",
+  column: "item",
+  "collection-list-wrapper": "wrap",
+  "collection-list": "list",
+  "collection-item": "item",
+  "form-block": "wrap",
+  "field-label": "label",
+  "text-field": "field",
+  "submit-button": "button",
+  "code-embed": "wrap",
+  "html-embed": "wrap",
+};
+
+// Bare single words are legitimate names in their own right ("heading",
+// "image"); only their numbered forms are flagged
+const SINGLE_WORD_PATTERN = /^[a-z]+$/;
+
+// A component root needs a name of its own, which nothing here can infer
+const ROLE_TERMS: Partial<
+  Record<NamingElementContext["role"], string | null>
+> = {
+  componentRoot: null,
+  childGroup: "group",
+  container: "contain",
+  layout: "layout",
+  content: "content",
+};
+
+const TAG_TERMS: Record<string, string> = {
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  p: "text",
+  span: "text",
+  blockquote: "text",
+  a: "link",
+  img: "image",
+  button: "button",
+  ul: "list",
+  ol: "list",
+  li: "item",
+  label: "label",
+  input: "field",
+  textarea: "field",
+  select: "field",
+};
+
+export interface DefaultClassName {
+  base: string;
+  number: number | null;
+}
+
+/**
+ * Matches a Designer default class name (`div-block-23`, `heading-7`,
+ * `text-block`) and returns its base and numbered suffix
+ */
+export function matchDefaultClassName(
+  className: string,
+  additionalDefaultNames: readonly string[] = []
+): DefaultClassName | null {
+  const match = /^([a-z]+(?:-[a-z]+)*?)(?:-(\d+))?$/.exec(className);
+  if (!match) return null;
+  const [, base, digits] = match;
+  const known =
+    base in DEFAULT_NAME_TERMS || additionalDefaultNames.includes(base);
+  if (!known) return null;
+  if (!digits && SINGLE_WORD_PATTERN.test(base)) return null;
+  return { base, number: digits ? Number(digits) : null };
+}
+
+/**
+ * Element term for the suggestion: detected role first, then the tag, then
+ * whatever the default name itself says. Null when no term fits
+ */
+export function pickElementTerm(
+  base: string,
+  element?: NamingElementContext
+): string | null {
+  const byRole = element ? ROLE_TERMS[element.role] : undefined;
+  if (byRole !== undefined) return byRole;
+  const tag = element?.tagName?.toLowerCase();
+  if (tag && TAG_TERMS[tag]) return TAG_TERMS[tag];
+  return DEFAULT_NAME_TERMS[base] ?? "wrap";
+}
+
+export const createAutoGeneratedClassRule = (): NamingRule => ({
+  id: "shared:naming:auto-generated-class",
+  name: "Auto-Generated Class Name",
+  description:
+    "Classes left with a Designer default name (div-block-23, text-block-4, heading-7) say nothing about what they style. Rename them in the preset's format.",
+  example: "div-block-23 → hero_content_wrap",
+  type: "naming",
+  severity: "warning",
+  enabled: true,
+  category: "format",
+  targetClassTypes: ["custom"],
+  config: autoGeneratedClassConfigSchema,
+
+  test: (className: string): boolean =>
+    matchDefaultClassName(className) === null,
+
+  evaluate: (
+    className: string,
+    context: RuleContext & { config?: Record<string, unknown> }
+  ): NamingEvaluation | null => {
+    const config: AutoGeneratedClassConfig = {
+      additionalDefaultNames: Array.isArray(
+        context.config?.additionalDefaultNames
+      )
+        ? (context.config.additionalDefaultNames as string[])
+        : [],
+    };
+
+    const matched = matchDefaultClassName(
+      className,
+      config.additionalDefaultNames
+    );
+    if (!matched) return null;
+
+    const element = context.element;
+    const elementTerm = pickElementTerm(matched.base, element);
+    const componentKey = element?.parentComponentKey ?? null;
+    const formatted =
+      componentKey && elementTerm && context.formatClassName
+        ? context.formatClassName({ componentKey, element: elementTerm })
+        : null;
+    const suggestedName =
+      formatted && formatted !== className ? formatted : null;
+
+    return {
+      ruleId: "shared:naming:auto-generated-class",
+      name: "Auto-Generated Class Name",
+      message: suggestedName
+        ? `Class "${className}" is a Designer default name. Consider "${suggestedName}".`
+        : `Class "${className}" is a Designer default name. Rename it to describe the element.`,
+      className,
+      isCombo: false,
+      metadata: {
+        defaultName: matched.base,
+        defaultNumber: matched.number,
+        elementTerm,
+        parentComponentKey: componentKey,
+        ...(suggestedName ? { suggestedName } : {}),
+      },
+      ...(suggestedName
+        ? {
+            fix: {
+              kind: "rename-class" as const,
+              from: className,
+              to: suggestedName,
+              scope: "element" as const,
+            },
+          }
+        : {}),
+    };
+  },
+});
@@ -0,0 +1 @@
+export { createAutoGeneratedClassRule } from "./auto-generated-class";
@@ -0,0 +1,56 @@
+// src/features/linter/rules/shared/property/__tests__/token-variables.test.ts
+import { describe, it, expect } from "vitest";
+import { createTokenVariableRule } from "@/features/linter/rules/shared/property/token-variables";
+import type { RuleContext } from "@/features/linter/model/rule.types";
+
+const context = (config?: Record<string, unknown>) =>
+  ({
+    allStyles: [],
+    utilityClassPropertiesMap: new Map(),
+    propertyToClassesMap: new Map(),
+    config,
+  }) as RuleContext & { config?: Record<string, unknown> };
+
+describe("shared token variable rules", () => {
+  const spacing = createTokenVariableRule("spacing");
+
+  it("flags hardcoded values and skips variables and allowed literals", () => {
+    const results = spacing.analyze(
+      "card",
+      {
+        "padding-top": "24px",
+        "padding-bottom": { id: "variable-space-m" },
+        "margin-left": "auto",
+        "margin-right": "0",
+        "row-gap": "var(--space-s)",
+        "column-gap": "INHERIT",
+      },
+      context()
+    );
+    expect(results.map((r) => r.metadata?.propertyName)).toEqual([
+      "padding-top",
+    ]);
+    expect(results[0]).toMatchObject({
+      ruleId: "shared:property:spacing-variable",
+      metadata: { currentValue: "24px", tokenGroup: "spacing" },
+    });
+  });
+
+  it("honours configured target properties and allow-lists", () => {
+    const radius = createTokenVariableRule("radius");
+    const properties = {
+      "border-top-left-radius": "8px",
+      "border-top-right-radius": "4px",
+    };
+    expect(
+      radius.analyze(
+        "card",
+        properties,
+        context({
+          targetProperties: ["border-top-left-radius"],
+          allowedValues: ["8px"],
+        })
+      )
+    ).toEqual([]);
+  });
+});
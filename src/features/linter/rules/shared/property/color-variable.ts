@@ -3,11 +3,18 @@ import type {
   RuleConfigSchema,
   RuleResult,
   RuleContext,
+  QuickFix,
 } from "@/features/linter/model/rule.types";
-import { convertColorToHex } from "@/features/linter/lib/color-utils";
+import {
+  convertColorToHex,
+  parseColor,
+  rankColorMatches,
+} from "@/features/linter/lib/color-utils";
+import { isVariableReference } from "@/features/linter/lib/variable-utils";
 
 interface ColorVariableConfig {
   targetProperties: string[];
+  maxSuggestionDistance: number;
 }
 
 const colorVariableConfigSchema: RuleConfigSchema = {
@@ -17,25 +24,22 @@ const colorVariableConfigSchema: RuleConfigSchema = {
     description: "CSS properties that must use color variables",
     default: ["background-color", "color"],
   },
+  maxSuggestionDistance: {
+    label: "Max Suggestion Distance",
+    type: "number",
+    description:
+      "Largest CIEDE2000 difference at which the closest variable is offered as a quick fix (2 ≈ barely visible, 10 ≈ clearly different)",
+    default: 10,
+  },
 };
 
 const DEFAULT_CONFIG: ColorVariableConfig = {
   targetProperties: ["background-color", "color"],
+  maxSuggestionDistance: 10,
 };
 
-/**
- * Checks if a property value is a Webflow color variable.
- * Variables are represented as objects with an "id" field in the properties.
- */
-const isColorVariable = (value: unknown): boolean => {
-  return (
-    typeof value === "object" &&
-    value !== null &&
-    "id" in value &&
-    typeof (value as any).id === "string" &&
-    (value as any).id.startsWith("variable-")
-  );
-};
+// Not fixed colors, so there is no variable to suggest
+const NON_LITERAL_COLORS = new Set(["transparent", "currentcolor", "inherit"]);
 
 /**
  * Shared rule: ensures color properties use Webflow variables instead of hardcoded values.
@@ -50,6 +54,8 @@ export const createColorVariableRule = (): PropertyRule => ({
   severity: "error",
   category: "maintainability",
   type: "property",
+  // Hardcoded colors hide in :hover and mobile overrides too
+  contexts: "all",
   config: colorVariableConfigSchema,
   targetClassTypes: ["custom", "utility", "combo"],
   enabled: true,
@@ -69,6 +75,9 @@ export const createColorVariableRule = (): PropertyRule => ({
         ruleConfig.targetProperties = context.config
           .targetProperties as string[];
       }
+      if (typeof context.config?.maxSuggestionDistance === "number") {
+        ruleConfig.maxSuggestionDistance = context.config.maxSuggestionDistance;
+      }
 
       const results: RuleResult[] = [];
 
@@ -81,35 +90,63 @@ export const createColorVariableRule = (): PropertyRule => ({
           continue;
         }
 
-        // Check if the property value is NOT a color variable
-        if (!isColorVariable(propertyValue)) {
-          // Only flag if it's a color value (string starting with color formats)
-          if (
-            typeof propertyValue === "string" &&
-            (propertyValue.startsWith("hsla(") ||
-              propertyValue.startsWith("rgba(") ||
-              propertyValue.startsWith("rgb(") ||
-              propertyValue.startsWith("hsl(") ||
-              propertyValue.startsWith("#") ||
-              /^[a-z]+$/i.test(propertyValue)) // named colors like 'red', 'blue'
-          ) {
-            results.push({
-              ruleId: "shared:property:color-variable",
-              name: "Use Color Variables",
-              message: `Property "${propertyName}" uses hardcoded color "${convertColorToHex(
-                propertyValue
-              )}". Consider using a Webflow color variable for better maintainability.`,
-              severity: "warning",
-              className,
-              isCombo: false, // Will be set correctly by the rule runner
-              metadata: {
-                propertyName,
-                currentValue: convertColorToHex(propertyValue),
-                suggestion: "Replace with a Webflow color variable",
-              },
-            });
-          }
+        // Variable references and non-color values are fine
+        if (isVariableReference(propertyValue)) continue;
+        if (typeof propertyValue !== "string") continue;
+        if (NON_LITERAL_COLORS.has(propertyValue.trim().toLowerCase())) {
+          continue;
         }
+        if (!parseColor(propertyValue)) continue;
+
+        const currentValue = convertColorToHex(propertyValue);
+        const matches = rankColorMatches(
+          propertyValue,
+          context.colorVariables ?? []
+        );
+        const nearestVariables = matches.map((m) => ({
+          id: m.candidate.id,
+          name: m.candidate.name,
+          value: m.candidate.value,
+          hex: m.hex,
+          deltaE: Math.round(m.deltaE * 10) / 10,
+        }));
+        const best = nearestVariables[0];
+        const fixable =
+          best !== undefined &&
+          best.deltaE <= ruleConfig.maxSuggestionDistance;
+
+        const fix: QuickFix | undefined = fixable
+          ? {
+              kind: "set-variable",
+              styleName: className,
+              property: propertyName,
+              variableId: best.id,
+              variableName: best.name,
+              breakpoint: context.styleContext?.breakpoint,
+              pseudo: context.styleContext?.pseudo ?? null,
+              scope: "style",
+            }
+          : undefined;
+
+        results.push({
+          ruleId: "shared:property:color-variable",
+          name: "Use Color Variables",
+          message: fixable
+            ? `Property "${propertyName}" uses hardcoded color "${currentValue}". Closest variable: "${best.name}" (${best.hex}, ΔE ${best.deltaE}).`
+            : `Property "${propertyName}" uses hardcoded color "${currentValue}". Consider using a Webflow color variable for better maintainability.`,
+          severity: "warning",
+          className,
+          isCombo: false, // Will be set correctly by the rule runner
+          metadata: {
+            propertyName,
+            currentValue,
+            suggestion: fixable
+              ? `Replace with "${best.name}"`
+              : "Replace with a Webflow color variable",
+            nearestVariables,
+          },
+          ...(fix ? { fix } : {}),
+        });
       }
 
       return results;
@@ -1,3 +1,10 @@
 export { createDuplicateOfUtilityRule } from "./utility-duplicate-properties";
 export { createColorVariableRule } from "./color-variable";
 export { createUtilityDuplicatePropertyRule } from "./utility-duplicate-property";
+export {
+  createTokenVariableRule,
+  createTokenVariableRules,
+  TOKEN_VARIABLE_GROUPS,
+  type TokenGroup,
+} from "./token-variables";
+export { createNearDuplicateRule } from "./near-duplicate";
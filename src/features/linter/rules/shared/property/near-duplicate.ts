@@ -0,0 +1,160 @@
+import type {
+  PropertyRule,
+  RuleConfigSchema,
+  RuleResult,
+  RuleContext,
+} from "@/features/linter/model/rule.types";
+import type { StyleInfo } from "@/entities/style/model/style.types";
+import { stableStringify } from "@/shared/lib";
+import {
+  diffDeclarations,
+  findNearDuplicates,
+  type NearDuplicateOptions,
+  type NearDuplicateReport,
+} from "@/features/linter/services/analyzers/near-duplicate-analyzer";
+
+const RULE_ID = "shared:property:near-duplicate";
+const RULE_NAME = "Near-Duplicate Classes";
+const MAX_COMPARISONS = 5;
+
+const nearDuplicateConfigSchema: RuleConfigSchema = {
+  threshold: {
+    label: "Similarity Threshold",
+    type: "number",
+    description:
+      "Share of identical declarations (0–1, Jaccard on property:value across all breakpoints and states) at which two classes are reported",
+    default: 0.8,
+  },
+  propertyThreshold: {
+    label: "Property-Name Threshold",
+    type: "number",
+    description:
+      "Looser match on property names only (same shape, different values); 0 turns it off",
+    default: 0,
+  },
+  minDeclarations: {
+    label: "Minimum Declarations",
+    type: "number",
+    description: "Classes with fewer declarations are not compared",
+    default: 4,
+  },
+};
+
+const DEFAULT_OPTIONS: NearDuplicateOptions = {
+  threshold: 0.8,
+  propertyThreshold: 0,
+  minDeclarations: 4,
+};
+
+// One analysis per style snapshot and option set; the executor hands every
+// class the same `allStyles` array during a run
+const reportCache = new WeakMap<StyleInfo[], Map<string, NearDuplicateReport>>();
+
+const getReport = (
+  allStyles: StyleInfo[],
+  options: NearDuplicateOptions,
+  isCandidate: (style: StyleInfo) => boolean
+): NearDuplicateReport => {
+  const key = stableStringify(options);
+  const byOptions = reportCache.get(allStyles) ?? new Map();
+  reportCache.set(allStyles, byOptions);
+  const cached = byOptions.get(key);
+  if (cached) return cached;
+  const report = findNearDuplicates(allStyles.filter(isCandidate), options);
+  byOptions.set(key, report);
+  return report;
+};
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+/**
+ * Shared rule: custom classes whose declarations are mostly the same as
+ * another custom class's. Exact duplicates and single shared declarations are
+ * covered by the utility duplicate rules; this catches the "copy, tweak one
+ * value" classes in between.
+ */
+export const createNearDuplicateRule = (): PropertyRule => ({
+  id: RULE_ID,
+  name: RULE_NAME,
+  description:
+    "Custom classes that share most of their declarations with another class should usually be merged, or share a base class with a combo for the differences.",
+  example:
+    '"card_primary_wrap" and "card_feature_wrap" share 9 of 10 declarations',
+  severity: "suggestion",
+  category: "maintainability",
+  type: "property",
+  config: nearDuplicateConfigSchema,
+  targetClassTypes: ["custom"],
+  enabled: true,
+  readsAllContexts: true,
+  analyze: (
+    className: string,
+    _properties: Record<string, unknown>,
+    context: RuleContext & { config?: Record<string, unknown> }
+  ): RuleResult[] => {
+    const options: NearDuplicateOptions = { ...DEFAULT_OPTIONS };
+    for (const key of Object.keys(DEFAULT_OPTIONS) as Array<
+      keyof NearDuplicateOptions
+    >) {
+      const value = context.config?.[key];
+      if (typeof value === "number") options[key] = value;
+    }
+
+    const report = getReport(
+      context.allStyles,
+      options,
+      (s) =>
+        !s.isCombo &&
+        (context.getClassType ? context.getClassType(s.name) === "custom" : true)
+    );
+
+    const matches = report.pairs
+      .filter((p) => p.a === className || p.b === className)
+      .slice(0, MAX_COMPARISONS);
+    if (matches.length === 0) return [];
+
+    const own = report.declarations.get(className)!;
+    const comparisons = matches.map((p) => {
+      const other = p.a === className ? p.b : p.a;
+      return {
+        other,
+        valueSimilarity: Math.round(p.valueSimilarity * 100) / 100,
+        propertySimilarity: Math.round(p.propertySimilarity * 100) / 100,
+        sharedCount: p.sharedCount,
+        totalCount: p.totalCount,
+        differences: diffDeclarations(own, report.declarations.get(other)!),
+      };
+    });
+    const best = comparisons[0];
+    const cluster =
+      report.clusters.find((c) => c.includes(className)) ?? [className];
+    const others = cluster.length - 2;
+
+    return [
+      {
+        ruleId: RULE_ID,
+        name: RULE_NAME,
+        message:
+          `"${className}" and "${best.other}" share ${best.sharedCount} of ${best.totalCount} declarations (${percent(best.valueSimilarity)} similar).` +
+          (others > 0
+            ? ` ${others} more class${others === 1 ? " is" : "es are"} in the same group.`
+            : ""),
+        severity: "suggestion",
+        className,
+        isCombo: false,
+        metadata: {
+          similarTo: best.other,
+          cluster,
+          comparisons,
+        },
+        expandedViewCapabilities: [
+          {
+            contentType: "near-duplicates",
+            title: "Compare declarations",
+            description: "Side-by-side view of the declarations that differ",
+          },
+        ],
+      },
+    ];
+  },
+});
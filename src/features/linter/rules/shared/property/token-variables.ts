@@ -0,0 +1,183 @@
+import type {
+  PropertyRule,
+  RuleConfigSchema,
+  RuleResult,
+  RuleContext,
+} from "@/features/linter/model/rule.types";
+import { usesVariable } from "@/features/linter/lib/variable-utils";
+
+export type TokenGroup =
+  | "spacing"
+  | "sizing"
+  | "typography"
+  | "radius"
+  | "shadow";
+
+interface TokenGroupDefinition {
+  name: string;
+  description: string;
+  /** Noun used in messages: "Use a spacing variable" */
+  variableKind: string;
+  targetProperties: string[];
+  /** Literal values that are fine without a variable */
+  allowedValues: string[];
+}
+
+/** CSS-wide keywords never need a token */
+const GLOBAL_KEYWORDS = ["inherit", "initial", "unset", "revert"];
+
+export const TOKEN_VARIABLE_GROUPS: Record<TokenGroup, TokenGroupDefinition> =
+  {
+    spacing: {
+      name: "Use Spacing Variables",
+      description:
+        "Margins, paddings and gaps should use spacing variables so rhythm stays consistent across the site.",
+      variableKind: "spacing",
+      targetProperties: [
+        "margin-top",
+        "margin-right",
+        "margin-bottom",
+        "margin-left",
+        "padding-top",
+        "padding-right",
+        "padding-bottom",
+        "padding-left",
+        "row-gap",
+        "column-gap",
+      ],
+      allowedValues: ["0", "0px", "auto"],
+    },
+    sizing: {
+      name: "Use Sizing Variables",
+      description:
+        "Widths and max-widths should use sizing variables (container widths, max line lengths) instead of one-off values.",
+      variableKind: "sizing",
+      targetProperties: ["width", "max-width"],
+      allowedValues: ["auto", "100%", "none", "0", "0px"],
+    },
+    typography: {
+      name: "Use Typography Variables",
+      description:
+        "Font sizes, line heights, font families and letter spacing should come from typography variables.",
+      variableKind: "typography",
+      targetProperties: [
+        "font-size",
+        "line-height",
+        "font-family",
+        "letter-spacing",
+      ],
+      allowedValues: ["normal", "0", "0em"],
+    },
+    radius: {
+      name: "Use Radius Variables",
+      description: "Corner radii should use radius variables.",
+      variableKind: "radius",
+      targetProperties: [
+        "border-top-left-radius",
+        "border-top-right-radius",
+        "border-bottom-left-radius",
+        "border-bottom-right-radius",
+      ],
+      allowedValues: ["0", "0px", "50%"],
+    },
+    shadow: {
+      name: "Use Shadow Variables",
+      description: "Box and text shadows should use shadow variables.",
+      variableKind: "shadow",
+      targetProperties: ["box-shadow", "text-shadow"],
+      allowedValues: ["none"],
+    },
+  };
+
+const normalizeValue = (value: string) =>
+  value.trim().replace(/\s+/g, " ").toLowerCase();
+
+const createConfigSchema = (
+  definition: TokenGroupDefinition
+): RuleConfigSchema => ({
+  targetProperties: {
+    label: "Target Properties",
+    type: "string[]",
+    description: `CSS properties that must use ${definition.variableKind} variables`,
+    default: definition.targetProperties,
+  },
+  allowedValues: {
+    label: "Allowed Literal Values",
+    type: "string[]",
+    description: "Hardcoded values that are accepted without a variable",
+    default: definition.allowedValues,
+  },
+});
+
+/**
+ * Shared rule family: flags hardcoded values for a token group. Same shape as
+ * `shared:property:color-variable`, plus a per-group allow-list of literals.
+ */
+export const createTokenVariableRule = (group: TokenGroup): PropertyRule => {
+  const definition = TOKEN_VARIABLE_GROUPS[group];
+  const ruleId = `shared:property:${group}-variable`;
+
+  return {
+    id: ruleId,
+    name: definition.name,
+    description: definition.description,
+    example: `Use a ${definition.variableKind} variable instead of a hardcoded value`,
+    severity: "suggestion",
+    category: "maintainability",
+    type: "property",
+    contexts: "all",
+    config: createConfigSchema(definition),
+    targetClassTypes: ["custom", "utility", "combo"],
+    enabled: true,
+    analyze: (
+      className: string,
+      properties: Record<string, unknown>,
+      context: RuleContext & { config?: Record<string, unknown> }
+    ): RuleResult[] => {
+      const targetProperties =
+        (context.config?.targetProperties as string[] | undefined) ??
+        definition.targetProperties;
+      const allowed = new Set(
+        [
+          ...((context.config?.allowedValues as string[] | undefined) ??
+            definition.allowedValues),
+          ...GLOBAL_KEYWORDS,
+        ].map(normalizeValue)
+      );
+
+      const results: RuleResult[] = [];
+      for (const propertyName of targetProperties) {
+        const value = properties[propertyName];
+        if (value === undefined || value === null || usesVariable(value)) {
+          continue;
+        }
+        if (typeof value !== "string" && typeof value !== "number") continue;
+
+        const literal = String(value);
+        if (literal.trim() === "" || allowed.has(normalizeValue(literal))) {
+          continue;
+        }
+
+        results.push({
+          ruleId,
+          name: definition.name,
+          message: `Property "${propertyName}" uses hardcoded value "${literal}". Use a ${definition.variableKind} variable instead.`,
+          severity: "suggestion",
+          className,
+          isCombo: false, // Will be set correctly by the rule runner
+          metadata: {
+            propertyName,
+            currentValue: literal,
+            tokenGroup: group,
+          },
+        });
+      }
+      return results;
+    },
+  };
+};
+
+export const TOKEN_GROUPS = Object.keys(TOKEN_VARIABLE_GROUPS) as TokenGroup[];
+
+export const createTokenVariableRules = (): PropertyRule[] =>
+  TOKEN_GROUPS.map(createTokenVariableRule);
@@ -0,0 +1,94 @@
+// src/features/linter/services/__tests__/baseline.service.test.ts
+import { describe, it, expect } from "vitest";
+import { createBaselineService } from "@/features/linter/services/baseline.service";
+import { createMemoryStorageAdapter } from "@/features/linter/services/rule-configuration-service";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+
+const result = (
+  ruleId: string,
+  className: string,
+  elementId: string,
+  message: string
+): RuleResult => ({
+  ruleId,
+  name: ruleId,
+  message,
+  severity: "warning",
+  className,
+  elementId,
+  isCombo: false,
+});
+
+function setup() {
+  const stores = new Map<
+    string,
+    ReturnType<typeof createMemoryStorageAdapter>
+  >();
+  const createStorage = (key: string) => {
+    if (!stores.has(key)) stores.set(key, createMemoryStorageAdapter());
+    return stores.get(key)!;
+  };
+  const forPage = (pageId: string) =>
+    createBaselineService({
+      siteId: "site-1",
+      pageId,
+      createStorage,
+      nowISO: () => "2026-01-01T00:00:00.000Z",
+    });
+  return { forPage };
+}
+
+describe("baseline service", () => {
+  const legacy = [
+    result(
+      "lumos:naming",
+      "Hero Title",
+      "el-1",
+      'Class "Hero Title" has spaces'
+    ),
+    result("lumos:combo-limit", "card", "el-2", "Too many combos (4 > 2)"),
+  ];
+
+  it("passes everything through without a baseline", () => {
+    const service = setup().forPage("home");
+    expect(service.load()).toBeNull();
+    expect(service.partition(legacy)).toEqual({
+      fresh: legacy,
+      baselined: [],
+      fixedCount: 0,
+    });
+  });
+
+  it("splits new findings from baselined ones and counts fixes", () => {
+    const service = setup().forPage("home");
+    service.create(legacy);
+
+    const introduced = result(
+      "lumos:naming",
+      "Footer Link",
+      "el-3",
+      'Class "Footer Link" has spaces'
+    );
+    // Reworded message with the same parameters keeps its identity
+    const reworded = {
+      ...legacy[0],
+      message: 'Avoid spaces in "Hero Title"',
+    };
+    const { fresh, baselined, fixedCount } = service.partition([
+      reworded,
+      introduced,
+    ]);
+    expect(fresh).toEqual([introduced]);
+    expect(baselined).toEqual([reworded]);
+    expect(fixedCount).toBe(1);
+  });
+
+  it("scopes baselines per page and clears them", () => {
+    const { forPage } = setup();
+    forPage("home").create(legacy);
+    expect(forPage("about").partition(legacy).baselined).toEqual([]);
+
+    forPage("home").clear();
+    expect(forPage("home").load()).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+// src/features/linter/services/__tests__/config-profiles.service.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  createConfigProfilesService,
+  LEGACY_RULES_STORAGE_KEY,
+} from "@/features/linter/services/config-profiles.service";
+import type { StorageAdapter } from "@/features/linter/services/rule-configuration-service";
+
+function createMemoryStore() {
+  const data = new Map<string, string>();
+  const createStorage = (key: string): StorageAdapter => ({
+    read: () => data.get(key) ?? null,
+    write: (value) => {
+      data.set(key, value);
+    },
+  });
+  return { data, createStorage };
+}
+
+function setup(
+  store = createMemoryStore(),
+  siteId: string | null = "site-1",
+  presetId = "lumos"
+) {
+  let seq = 0;
+  const service = createConfigProfilesService({
+    siteId,
+    presetId,
+    createStorage: store.createStorage,
+    createId: () => `p${++seq}`,
+    nowISO: () => "2026-01-01T00:00:00.000Z",
+  });
+  return { service, store };
+}
+
+describe("config profiles service", () => {
+  it("seeds a default profile from the legacy global key", () => {
+    const store = createMemoryStore();
+    store.data.set(LEGACY_RULES_STORAGE_KEY, '{"ruleConfigs":{}}');
+    const { service } = setup(store);
+
+    expect(service.list().map((p) => p.name)).toEqual(["Default"]);
+    const key = service.getStorageKey(service.getActive().id);
+    expect(key).toBe("codalyn.linter.rules.v2:site-1:lumos:p1");
+    expect(store.data.get(key)).toBe('{"ruleConfigs":{}}');
+  });
+
+  it("keeps sites and presets in separate buckets", () => {
+    const store = createMemoryStore();
+    const lumos = setup(store, "site-1", "lumos").service;
+    lumos.create("Client A strict");
+    const clientFirst = setup(store, "site-1", "client-first").service;
+    const otherSite = setup(store, null, "lumos").service;
+
+    expect(lumos.list()).toHaveLength(2);
+    expect(clientFirst.list()).toHaveLength(1);
+    expect(otherSite.scope).toBe("local:lumos");
+  });
+
+  it("duplicates, renames and switches profiles", () => {
+    const { service, store } = setup();
+    const base = service.getActive();
+    store.data.set(service.getStorageKey(base.id), "stored-config");
+
+    const copy = service.duplicate(base.id);
+    expect(copy.name).toBe("Default copy");
+    expect(service.getActive().id).toBe(copy.id);
+    expect(store.data.get(service.getStorageKey(copy.id))).toBe(
+      "stored-config"
+    );
+
+    service.rename(copy.id, "  Internal lenient ");
+    expect(service.getActive().name).toBe("Internal lenient");
+    expect(() => service.rename(copy.id, " ")).toThrow();
+
+    service.switchTo(base.id);
+    expect(service.getActive().id).toBe(base.id);
+  });
+
+  it("never removes the last profile", () => {
+    const { service } = setup();
+    const base = service.getActive();
+    expect(() => service.remove(base.id)).toThrow();
+
+    const other = service.create("Other");
+    service.remove(other.id);
+    expect(service.getActive().id).toBe(base.id);
+  });
+});
@@ -0,0 +1,507 @@
+// src/features/linter/services/__tests__/fix-applier.service.test.ts
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  applyFixToClassList,
+  createFixApplierService,
+} from "@/features/linter/services/fix-applier.service";
+import { createFixJournalService } from "@/features/linter/services/fix-journal.service";
+import { createMemoryStorageAdapter } from "@/features/linter/services/rule-configuration-service";
+
+type Props = Record<string, unknown>;
+
+const contextKey = (opts: { breakpoint?: string; pseudo?: string } = {}) =>
+  opts.pseudo
+    ? `${opts.breakpoint ?? "main"}:${opts.pseudo}`
+    : opts.breakpoint ?? "main";
+
+/** Style double keeping declarations per `breakpoint[:pseudo]` */
+const fakeStyle = (
+  name: string,
+  propsByContext: Record<string, Props> = {},
+  combo = false
+) => {
+  const style = {
+    name,
+    propsByContext: { ...propsByContext },
+    getName: () => Promise.resolve(style.name),
+    setName: vi.fn((next: string) => {
+      style.name = next;
+      return Promise.resolve(null);
+    }),
+    isComboClass: () => Promise.resolve(combo),
+    getProperties: (opts?: { breakpoint?: string; pseudo?: string }) =>
+      Promise.resolve(style.propsByContext[contextKey(opts)] ?? {}),
+    setProperties: vi.fn(
+      (props: Props, opts?: { breakpoint?: string; pseudo?: string }) => {
+        style.propsByContext[contextKey(opts)] = { ...props };
+        return Promise.resolve(null);
+      }
+    ),
+    setProperty: vi.fn(
+      (
+        property: string,
+        value: unknown,
+        opts?: { breakpoint?: string; pseudo?: string }
+      ) => {
+        const key = contextKey(opts);
+        style.propsByContext[key] = {
+          ...style.propsByContext[key],
+          [property]: value,
+        };
+        return Promise.resolve(null);
+      }
+    ),
+    removeProperty: vi.fn(
+      (property: string, opts?: { breakpoint?: string; pseudo?: string }) => {
+        delete style.propsByContext[contextKey(opts)]?.[property];
+        return Promise.resolve(null);
+      }
+    ),
+  };
+  return style;
+};
+
+type FakeStyle = ReturnType<typeof fakeStyle>;
+
+const fakeElement = (id: string, styles: FakeStyle[]) => {
+  const element = {
+    id: { element: id },
+    styles,
+    getStyles: () => Promise.resolve(element.styles),
+    setStyles: vi.fn((next: FakeStyle[]) => {
+      element.styles = next;
+      return Promise.resolve(null);
+    }),
+  };
+  return element;
+};
+
+const classNames = (el: ReturnType<typeof fakeElement>) =>
+  el.styles.map((s) => s.name);
+
+function stubWebflow(opts: {
+  styles: FakeStyle[];
+  elements: ReturnType<typeof fakeElement>[];
+  variables?: Record<string, unknown>;
+}) {
+  const styles = [...opts.styles];
+  const webflow = {
+    getStyleByName: (name: string | string[]) =>
+      Promise.resolve(
+        styles.find(
+          (s) => s.name === (Array.isArray(name) ? name.at(-1) : name)
+        ) ?? null
+      ),
+    createStyle: vi.fn((name: string) => {
+      const created = fakeStyle(name);
+      styles.push(created);
+      return Promise.resolve(created);
+    }),
+    getAllElements: () => Promise.resolve(opts.elements),
+    getAllVariableCollections: () =>
+      Promise.resolve([
+        {
+          getVariable: (id: string) =>
+            Promise.resolve(opts.variables?.[id] ?? null),
+        },
+      ]),
+  };
+  vi.stubGlobal("window", { webflow });
+  return webflow;
+}
+
+const createJournal = () =>
+  createFixJournalService({
+    storage: createMemoryStorageAdapter(),
+    nowISO: () => "2026-01-01T00:00:00.000Z",
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("applyFixToClassList", () => {
+  it("renames, adds and removes classes in place", () => {
+    const classes = ["card", "is-active"];
+    expect(
+      applyFixToClassList(classes, {
+        kind: "rename-class",
+        from: "card",
+        to: "c-card",
+        scope: "element",
+      })
+    ).toEqual(["c-card", "is-active"]);
+    expect(
+      applyFixToClassList(classes, {
+        kind: "add-class",
+        className: "card",
+        scope: "element",
+      })
+    ).toBe(classes);
+    expect(
+      applyFixToClassList(classes, {
+        kind: "add-class",
+        className: "u-hide",
+        scope: "element",
+      })
+    ).toEqual(["card", "is-active", "u-hide"]);
+    expect(
+      applyFixToClassList(classes, {
+        kind: "remove-class",
+        className: "is-active",
+        scope: "element",
+      })
+    ).toEqual(["card"]);
+  });
+
+  it("reorders known classes first and keeps the rest in order", () => {
+    expect(
+      applyFixToClassList(["u-pad", "is-active", "card", "x"], {
+        kind: "reorder-classes",
+        order: ["card", "missing", "is-active"],
+        scope: "element",
+      })
+    ).toEqual(["card", "is-active", "u-pad", "x"]);
+  });
+});
+
+describe("createFixApplierService", () => {
+  it("renames on the element through a detached copy with every state", async () => {
+    const card = fakeStyle("card", {
+      main: { color: "red" },
+      "main:hover": { color: "blue" },
+      "small:focus-visible": { outline: "none" },
+    });
+    const other = fakeStyle("is-active");
+    const el = fakeElement("e1", [card, other]);
+    const webflow = stubWebflow({ styles: [card, other], elements: [el] });
+    const journal = createJournal();
+
+    const result = await createFixApplierService({ journal }).applyFix(
+      "e1",
+      { kind: "rename-class", from: "card", to: "c-card", scope: "element" },
+      { ruleId: "lumos:naming" }
+    );
+
+    expect(result).toMatchObject({
+      status: "applied",
+      createdStyle: "c-card",
+      previousClasses: ["card", "is-active"],
+      nextClasses: ["c-card", "is-active"],
+    });
+    expect(classNames(el)).toEqual(["c-card", "is-active"]);
+    expect(webflow.createStyle).toHaveBeenCalledWith("c-card", undefined);
+    const copy = el.styles[0];
+    expect(copy.propsByContext).toEqual({
+      main: { color: "red" },
+      "main:hover": { color: "blue" },
+      "small:focus-visible": { outline: "none" },
+    });
+    // The source style itself is untouched
+    expect(card.setName).not.toHaveBeenCalled();
+    expect(journal.getEntries()[0]).toMatchObject({
+      elementId: "e1",
+      createdStyle: "c-card",
+      previousClasses: ["card", "is-active"],
+    });
+  });
+
+  it("skips fixes the element already satisfies", async () => {
+    const card = fakeStyle("card");
+    const el = fakeElement("e1", [card]);
+    stubWebflow({ styles: [card], elements: [el] });
+
+    const result = await createFixApplierService().applyFix("e1", {
+      kind: "add-class",
+      className: "card",
+      scope: "element",
+    });
+
+    expect(result.status).toBe("skipped");
+    expect(el.setStyles).not.toHaveBeenCalled();
+  });
+
+  it("undoes a class change by restoring the recorded order", async () => {
+    const card = fakeStyle("card");
+    const active = fakeStyle("is-active");
+    const el = fakeElement("e1", [card, active]);
+    stubWebflow({ styles: [card, active], elements: [el] });
+    const journal = createJournal();
+    const applier = createFixApplierService({ journal });
+
+    await applier.applyFix("e1", {
+      kind: "remove-class",
+      className: "card",
+      scope: "element",
+    });
+    expect(classNames(el)).toEqual(["is-active"]);
+
+    const undo = await applier.undoEntry(journal.getEntries()[0]);
+    expect(undo.status).toBe("applied");
+    expect(classNames(el)).toEqual(["card", "is-active"]);
+    expect(journal.getEntries()[0].undoneAt).toBeDefined();
+  });
+
+  it("swaps a declaration for a variable and writes the old value back on undo", async () => {
+    const card = fakeStyle("card", { "main:hover": { color: "#ff0000" } });
+    const el = fakeElement("e1", [card]);
+    const variable = { id: "var-red" };
+    stubWebflow({
+      styles: [card],
+      elements: [el],
+      variables: { "var-red": variable },
+    });
+    const journal = createJournal();
+    const applier = createFixApplierService({ journal });
+
+    const result = await applier.applyFix("e1", {
+      kind: "set-variable",
+      styleName: "card",
+      property: "color",
+      variableId: "var-red",
+      variableName: "Brand / Red",
+      pseudo: "hover",
+      scope: "style",
+    });
+
+    expect(result.status).toBe("applied");
+    expect(card.propsByContext["main:hover"].color).toBe(variable);
+    expect(journal.getEntries()[0].propertyChange).toEqual({
+      styleName: "card",
+      property: "color",
+      breakpoint: "main",
+      pseudo: "hover",
+      previousValue: "#ff0000",
+      variableId: "var-red",
+    });
+
+    await applier.undoEntry(journal.getEntries()[0]);
+    expect(card.propsByContext["main:hover"].color).toBe("#ff0000");
+  });
+
+  it("removes the declaration on undo when there was no previous value", async () => {
+    const card = fakeStyle("card");
+    const el = fakeElement("e1", [card]);
+    stubWebflow({
+      styles: [card],
+      elements: [el],
+      variables: { "var-red": { id: "var-red" } },
+    });
+    const journal = createJournal();
+    const applier = createFixApplierService({ journal });
+
+    await applier.applyFix("e1", {
+      kind: "set-variable",
+      styleName: "card",
+      property: "color",
+      variableId: "var-red",
+      variableName: "Brand / Red",
+      scope: "style",
+    });
+    await applier.undoEntry(journal.getEntries()[0]);
+
+    expect(card.removeProperty).toHaveBeenCalledWith("color", {
+      breakpoint: "main",
+    });
+    expect(card.propsByContext.main).toEqual({});
+  });
+
+  it("fails a variable fix when the variable is gone", async () => {
+    const card = fakeStyle("card");
+    stubWebflow({ styles: [card], elements: [fakeElement("e1", [card])] });
+
+    const result = await createFixApplierService().applyFix("e1", {
+      kind: "set-variable",
+      styleName: "card",
+      property: "color",
+      variableId: "var-missing",
+      variableName: "Old",
+      scope: "style",
+    });
+
+    expect(result.status).toBe("failed");
+    expect(card.setProperty).not.toHaveBeenCalled();
+  });
+});
+
+describe("global rename collisions", () => {
+  const page = (id: string) => ({
+    id,
+    type: "Page",
+    getName: () => Promise.resolve(`Page ${id}`),
+  });
+  const rename = {
+    kind: "rename-class",
+    from: "card",
+    to: "c-card",
+    scope: "global",
+  } as const;
+
+  function setup(opts: { failOnPage?: string } = {}) {
+    const card = fakeStyle("card", {
+      main: { padding: "1rem" },
+      "small:hover": { color: "red" },
+    });
+    const target = fakeStyle("c-card");
+    const active = fakeStyle("is-active");
+    const home = page("home");
+    const about = page("about");
+    const elementsByPage: Record<string, ReturnType<typeof fakeElement>[]> = {
+      home: [fakeElement("e1", [card, active]), fakeElement("e2", [active])],
+      about: [fakeElement("e3", [card, target])],
+    };
+    let current: any = home;
+    const styles = [card, target, active];
+    const webflow = {
+      getStyleByName: (name: string) =>
+        Promise.resolve(styles.find((s) => s.name === name) ?? null),
+      getAllPagesAndFolders: () =>
+        Promise.resolve([home, { id: "f", type: "PageFolder" }, about]),
+      getCurrentPage: () => Promise.resolve(current),
+      switchPage: vi.fn((next: any) => {
+        if (next.id === opts.failOnPage) {
+          return Promise.reject(new Error("locked"));
+        }
+        current = next;
+        return Promise.resolve(null);
+      }),
+      getAllElements: () => Promise.resolve(elementsByPage[current.id]),
+      getAllComponents: () => Promise.resolve([]),
+      createStyle: vi.fn((name: string) => {
+        const created = fakeStyle(name);
+        styles.push(created);
+        return Promise.resolve(created);
+      }),
+      removeStyle: vi.fn((style: FakeStyle) => {
+        styles.splice(styles.indexOf(style), 1);
+        return Promise.resolve(null);
+      }),
+    };
+    vi.stubGlobal("window", { webflow });
+    return { webflow, card, target, active, home, elementsByPage };
+  }
+
+  it("reports a collision unless merging was asked for", async () => {
+    const { webflow, card, elementsByPage } = setup();
+
+    const result = await createFixApplierService().applyFix("e1", rename);
+
+    expect(result.status).toBe("collision");
+    expect(card.setName).not.toHaveBeenCalled();
+    expect(webflow.switchPage).not.toHaveBeenCalled();
+    expect(classNames(elementsByPage.home[0])).toEqual(["card", "is-active"]);
+  });
+
+  it("merges on every page, returns to the start page and removes the source", async () => {
+    const { webflow, card, home, elementsByPage } = setup();
+    const journal = createJournal();
+
+    const result = await createFixApplierService({ journal }).applyFix(
+      "e1",
+      rename,
+      {},
+      { mergeOnCollision: true }
+    );
+
+    expect(result).toMatchObject({
+      status: "applied",
+      mergedElements: 2,
+      removedStyle: "card",
+    });
+    expect(classNames(elementsByPage.home[0])).toEqual(["c-card", "is-active"]);
+    // Already on the target: the source class is just dropped
+    expect(classNames(elementsByPage.about[0])).toEqual(["c-card"]);
+    expect(webflow.removeStyle).toHaveBeenCalledWith(card);
+    expect(webflow.switchPage).toHaveBeenLastCalledWith(home);
+    expect(
+      journal.getEntries().map((e) => [e.elementId, e.pageId, e.description])
+    ).toEqual([
+      ["e1", "home", 'Merge "card" into "c-card"'],
+      ["e3", "about", 'Merge "card" into "c-card"'],
+      ["e1", undefined, 'Remove merged style "card"'],
+    ]);
+  });
+
+  it("undoes a merge by recreating the style and restoring every page", async () => {
+    const { webflow, home, elementsByPage } = setup();
+    const journal = createJournal();
+    const applier = createFixApplierService({ journal });
+    await applier.applyFix("e1", rename, {}, { mergeOnCollision: true });
+
+    const results = [];
+    for (const entry of journal.getUndoableSessionEntries()) {
+      results.push(await applier.undoEntry(entry));
+    }
+
+    expect(results.map((r) => r.status)).toEqual([
+      "applied",
+      "applied",
+      "applied",
+    ]);
+    expect(webflow.createStyle).toHaveBeenCalledWith("card", undefined);
+    const recreated = elementsByPage.home[0].styles[0];
+    expect(recreated.propsByContext).toEqual({
+      main: { padding: "1rem" },
+      "small:hover": { color: "red" },
+    });
+    expect(classNames(elementsByPage.home[0])).toEqual(["card", "is-active"]);
+    expect(classNames(elementsByPage.about[0])).toEqual(["card", "c-card"]);
+    expect(webflow.switchPage).toHaveBeenLastCalledWith(home);
+    expect(journal.getUndoableSessionEntries()).toEqual([]);
+  });
+
+  it("fails an undo whose classes no longer exist", async () => {
+    const { elementsByPage } = setup();
+    const journal = createJournal();
+    const applier = createFixApplierService({ journal });
+    await applier.applyFix("e1", rename, {}, { mergeOnCollision: true });
+
+    // Undo the home page's element without recreating the style first
+    const entry = journal.getEntries()[0];
+    const result = await applier.undoEntry(entry);
+
+    expect(result.status).toBe("failed");
+    expect(result.message).toContain("card");
+    expect(classNames(elementsByPage.home[0])).toEqual(["c-card", "is-active"]);
+    expect(journal.getEntries()[0].undoneAt).toBeUndefined();
+  });
+
+  it("keeps the source style when a component still uses it", async () => {
+    const { webflow, card } = setup();
+    webflow.getAllComponents = () =>
+      Promise.resolve([
+        {
+          getRootElement: () => Promise.resolve(fakeElement("n", [card])),
+        },
+      ] as any);
+
+    const result = await createFixApplierService().applyFix(
+      "e1",
+      rename,
+      {},
+      { mergeOnCollision: true }
+    );
+
+    expect(result.status).toBe("applied");
+    expect(result.removedStyle).toBeUndefined();
+    expect(result.message).toContain("still used in components");
+    expect(webflow.removeStyle).not.toHaveBeenCalled();
+  });
+
+  it("aborts on a page it cannot open and keeps the source style", async () => {
+    const { webflow, home, elementsByPage } = setup({ failOnPage: "about" });
+
+    const result = await createFixApplierService().applyFix(
+      "e1",
+      rename,
+      {},
+      { mergeOnCollision: true }
+    );
+
+    expect(result).toMatchObject({ status: "failed", mergedElements: 1 });
+    expect(result.message).toContain('Merge stopped at page "Page about"');
+    expect(classNames(elementsByPage.about[0])).toEqual(["card", "c-card"]);
+    expect(webflow.removeStyle).not.toHaveBeenCalled();
+    expect(webflow.switchPage).toHaveBeenLastCalledWith(home);
+  });
+});
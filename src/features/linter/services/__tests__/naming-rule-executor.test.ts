@@ -0,0 +1,80 @@
+// src/features/linter/services/__tests__/naming-rule-executor.test.ts
+import { describe, it, expect } from "vitest";
+import { createNamingRuleExecutor } from "@/features/linter/services/executors";
+import { createRuleRegistry } from "@/features/linter/services/rule-registry";
+import type { NamingRule } from "@/features/linter/model/rule.types";
+
+// Mirrors the format rules: `evaluate` grades each result itself
+const formatRule: NamingRule = {
+  id: "test:format",
+  name: "Format",
+  description: "",
+  type: "naming",
+  severity: "warning",
+  enabled: true,
+  category: "format",
+  targetClassTypes: ["custom"],
+  test: () => false,
+  evaluate: (className) => ({
+    ruleId: "test:format",
+    name: "Format",
+    message: `Bad "${className}"`,
+    severity: "error",
+    className,
+    isCombo: false,
+  }),
+};
+
+describe("naming rule executor", () => {
+  const execute = createNamingRuleExecutor();
+
+  function run(severityOverride?: "suggestion") {
+    const registry = createRuleRegistry();
+    registry.registerRule(formatRule);
+    if (severityOverride) {
+      registry.updateRuleConfiguration(formatRule.id, {
+        severity: severityOverride,
+      });
+    }
+    const cfg = registry.getRuleConfiguration(formatRule.id);
+    return execute(
+      formatRule,
+      {
+        className: "Bad Name",
+        severityDefault: cfg?.severity ?? formatRule.severity,
+      },
+      {
+        getClassType: () => "custom",
+        resolveSeverity: (id) => registry.getRuleConfiguration(id)?.severity,
+      }
+    );
+  }
+
+  it("applies a stored severity override to evaluated results", () => {
+    expect(run("suggestion")[0].severity).toBe("suggestion");
+  });
+
+  it("keeps a per-result severity when nothing overrides the rule", () => {
+    expect(run()[0].severity).toBe("error");
+  });
+
+  it("falls back to the configured severity when a result has none", () => {
+    const registry = createRuleRegistry();
+    registry.registerRule(formatRule);
+    const [result] = execute(
+      {
+        ...formatRule,
+        evaluate: (className, context) => {
+          const evaluated = formatRule.evaluate!(className, context)!;
+          return { ...evaluated, severity: undefined };
+        },
+      },
+      { className: "Bad Name", severityDefault: formatRule.severity },
+      {
+        getClassType: () => "custom",
+        resolveSeverity: (id) => registry.getRuleConfiguration(id)?.severity,
+      }
+    );
+    expect(result.severity).toBe("warning");
+  });
+});
@@ -0,0 +1,119 @@
+// src/features/linter/services/__tests__/near-duplicate-analyzer.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  compareDeclarations,
+  diffDeclarations,
+  findNearDuplicates,
+  toDeclarationMap,
+} from "@/features/linter/services/analyzers/near-duplicate-analyzer";
+import type { StyleInfo } from "@/entities/style/model/style.types";
+
+const style = (
+  name: string,
+  properties: Record<string, unknown>,
+  extra: NonNullable<StyleInfo["propertiesByContext"]> = {}
+): StyleInfo => ({
+  id: name,
+  name,
+  properties,
+  propertiesByContext: { main: properties, ...extra },
+  order: 0,
+  isCombo: false,
+});
+
+const card = {
+  display: "flex",
+  "flex-direction": "column",
+  "padding-top": "2rem",
+  "padding-bottom": "2rem",
+  "padding-left": "2rem",
+  "padding-right": "2rem",
+  "border-radius": "1rem",
+  "background-color": "#fff",
+  gap: "1rem",
+};
+
+const options = { threshold: 0.8, propertyThreshold: 0, minDeclarations: 4 };
+
+describe("near-duplicate analyzer", () => {
+  it("scores value and property-name overlap", () => {
+    const a = toDeclarationMap(style("a", { ...card, color: "red" }));
+    const b = toDeclarationMap(style("b", { ...card, color: "blue" }));
+    const score = compareDeclarations(a, b);
+    expect(score.sharedCount).toBe(9);
+    expect(score.totalCount).toBe(11);
+    expect(score.valueSimilarity).toBeCloseTo(9 / 11);
+    expect(score.propertySimilarity).toBe(1);
+  });
+
+  it("reports pairs above the threshold and groups them into clusters", () => {
+    const report = findNearDuplicates(
+      [
+        style("card_primary_wrap", { ...card, "max-width": "40rem" }),
+        style("card_feature_wrap", card),
+        style("card_alt_wrap", { ...card, gap: "2rem" }),
+        style("hero_wrap", {
+          display: "grid",
+          "min-height": "100vh",
+          gap: "0",
+          color: "#000",
+        }),
+      ],
+      options
+    );
+    expect(report.pairs.map((p) => [p.a, p.b])).toContainEqual([
+      "card_feature_wrap",
+      "card_primary_wrap",
+    ]);
+    const primary = report.pairs.find(
+      (p) => p.a === "card_feature_wrap" && p.b === "card_primary_wrap"
+    )!;
+    expect(primary.sharedCount).toBe(9);
+    expect(primary.totalCount).toBe(10);
+    expect(report.clusters).toEqual([
+      ["card_alt_wrap", "card_feature_wrap", "card_primary_wrap"],
+    ]);
+  });
+
+  it("counts breakpoint and pseudo-state declarations separately", () => {
+    const report = findNearDuplicates(
+      [
+        style("a", card, { "main:hover": { "background-color": "#eee" } }),
+        style("b", card, { small: { display: "block" } }),
+      ],
+      { ...options, threshold: 0.95 }
+    );
+    expect(report.pairs).toEqual([]);
+  });
+
+  it("supports a looser match on property names only", () => {
+    const other = Object.fromEntries(Object.keys(card).map((k) => [k, "0"]));
+    const styles = [style("a", card), style("b", other)];
+    expect(findNearDuplicates(styles, options).pairs).toEqual([]);
+    const loose = findNearDuplicates(styles, {
+      ...options,
+      propertyThreshold: 0.9,
+    });
+    expect(loose.pairs).toHaveLength(1);
+    expect(loose.pairs[0].valueSimilarity).toBe(0);
+  });
+
+  it("ignores classes below the declaration minimum", () => {
+    const report = findNearDuplicates(
+      [style("a", { display: "flex" }), style("b", { display: "flex" })],
+      options
+    );
+    expect(report.pairs).toEqual([]);
+  });
+
+  it("diffs declarations side by side, base context first", () => {
+    const a = toDeclarationMap(
+      style("a", { ...card, color: "red" }, { small: { gap: "0" } })
+    );
+    const b = toDeclarationMap(style("b", { ...card, color: "blue" }));
+    expect(diffDeclarations(a, b)).toEqual([
+      { context: "main", property: "color", a: "red", b: "blue" },
+      { context: "small", property: "gap", a: "0", b: null },
+    ]);
+  });
+});
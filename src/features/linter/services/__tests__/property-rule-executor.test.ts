@@ -0,0 +1,75 @@
+// src/features/linter/services/__tests__/property-rule-executor.test.ts
+import { describe, it, expect } from "vitest";
+import { createPropertyRuleExecutor } from "@/features/linter/services/executors/property-rule-executor";
+import type { PropertyRule } from "@/features/linter/model/rule.types";
+
+const registry = { getRuleConfiguration: () => undefined } as any;
+const analyzer = {
+  buildPropertyMaps: () => {},
+  getUtilityClassPropertiesMap: () => new Map(),
+  getPropertyToClassesMap: () => new Map(),
+} as any;
+
+const hardcodedColor = (contexts?: PropertyRule["contexts"]): PropertyRule => ({
+  id: "test:color",
+  name: "Color",
+  description: "",
+  type: "property",
+  severity: "warning",
+  enabled: true,
+  category: "maintainability",
+  targetClassTypes: ["custom"],
+  contexts,
+  analyze: (className, properties) =>
+    typeof properties.color === "string"
+      ? [
+          {
+            ruleId: "test:color",
+            name: "Color",
+            message: `Hardcoded "${properties.color}"`,
+            severity: "warning",
+            className,
+            isCombo: false,
+          },
+        ]
+      : [],
+});
+
+const propertiesByContext = {
+  main: { display: "flex" },
+  "tiny:hover": { color: "#f00" },
+};
+
+describe("property rule executor", () => {
+  const execute = createPropertyRuleExecutor(registry, analyzer);
+
+  it("only analyzes base properties unless a rule opts in", () => {
+    const results = execute(
+      hardcodedColor(),
+      "card",
+      propertiesByContext.main,
+      "warning",
+      [],
+      undefined,
+      propertiesByContext
+    );
+    expect(results).toEqual([]);
+  });
+
+  it("reports breakpoint and pseudo-state for context-aware rules", () => {
+    const [result] = execute(
+      hardcodedColor("all"),
+      "card",
+      propertiesByContext.main,
+      "warning",
+      [],
+      undefined,
+      propertiesByContext
+    );
+    expect(result.message).toBe('Hardcoded "#f00" (Mobile portrait :hover)');
+    expect(result.metadata).toMatchObject({
+      styleContext: { breakpoint: "tiny", pseudo: "hover" },
+      styleLocation: "Mobile portrait :hover",
+    });
+  });
+});
@@ -0,0 +1,323 @@
+// src/features/linter/services/__tests__/role-detection.service.test.ts
+import { describe, it, expect, vi } from "vitest";
+import { createRoleDetectionService } from "@/features/linter/services/role-detection.service";
+import { createSnapshotCollector } from "@/entities/element/services/snapshot-collector.service";
+import { createElementGraphService } from "@/entities/element/services/element-graph.service";
+import { createElementTreeService } from "@/entities/element/services/element-tree.service";
+import type { ElementSnapshot } from "@/features/linter/model/preset.types";
+
+interface FakeElement {
+  id: { element: string };
+  type: string;
+  textContent?: boolean;
+  customAttributes?: boolean;
+  children?: boolean;
+  getTag?: () => Promise<string | null>;
+  getAllCustomAttributes?: () => Promise<{ name: string; value: string }[]>;
+  getChildren?: () => Promise<unknown[]>;
+  getText?: () => Promise<string>;
+}
+
+const text = (value: string) => ({
+  id: { element: `t-${value}` },
+  type: "String",
+  getText: () => Promise.resolve(value),
+});
+
+const element = (
+  id: string,
+  type: string,
+  opts: {
+    tag?: string;
+    attributes?: Record<string, string>;
+    children?: unknown[];
+  } = {}
+): FakeElement => ({
+  id: { element: id },
+  type,
+  textContent: type === "Heading" || undefined,
+  getTag: () => Promise.resolve(opts.tag ?? null),
+  customAttributes: !!opts.attributes,
+  getAllCustomAttributes: () =>
+    Promise.resolve(
+      Object.entries(opts.attributes ?? {}).map(([name, value]) => ({
+        name,
+        value,
+      }))
+    ),
+  children: !!opts.children,
+  getChildren: () => Promise.resolve(opts.children ?? []),
+});
+
+// main > (section > heading), second section
+const heading = element("h", "Heading", {
+  tag: "H2",
+  children: [text("Pricing"), text(" plans")],
+});
+const section = element("s1", "Section", {
+  tag: "section",
+  children: [heading],
+});
+const other = element("s2", "Block", { attributes: { "data-x": "1" } });
+const main = element("m", "Block", { tag: "main", children: [section, other] });
+const elements = [main, section, heading, other] as any[];
+const buildGraph = async () =>
+  createElementGraphService(
+    elements,
+    await createElementTreeService().buildTree(elements)
+  );
+
+describe("createSnapshotCollector", () => {
+  it("reads tag, type, text, attributes and position in batches", async () => {
+    const graph = await buildGraph();
+    const semantics = await createSnapshotCollector({ batchSize: 2 }).collect(
+      elements,
+      graph
+    );
+
+    expect(semantics.get("h")).toEqual({
+      tagName: "h2",
+      elementType: "Heading",
+      attributes: {},
+      textContent: "Pricing plans",
+      siblingIndex: 0,
+      depth: 2,
+    });
+    expect(semantics.get("m")?.tagName).toBe("main");
+    expect(semantics.get("s2")).toMatchObject({
+      tagName: null,
+      attributes: { "data-x": "1" },
+      siblingIndex: 1,
+      depth: 1,
+    });
+    // Only text-bearing elements get text
+    expect(semantics.get("s1")?.textContent).toBeUndefined();
+  });
+
+  it("reads link text once for both role detection and content", async () => {
+    const label = text("Read the full pricing guide");
+    const getText = vi.spyOn(label, "getText");
+    const link = {
+      ...element("a", "Link", { children: [label] }),
+      textContent: true,
+    };
+    const graph = createElementGraphService(
+      [link] as any[],
+      await createElementTreeService().buildTree([link] as any[])
+    );
+
+    const semantics = await createSnapshotCollector({
+      maxTextLength: 8,
+    }).collect([link] as any[], graph);
+
+    expect(getText).toHaveBeenCalledTimes(1);
+    expect(semantics.get("a")?.textContent).toBe("Read the");
+    expect(semantics.get("a")?.content).toEqual({
+      text: "Read the full pricing guide",
+    });
+  });
+});
+
+describe("createRoleDetectionService", () => {
+  it("gives detectors the real tag, type and position", async () => {
+    const graph = await buildGraph();
+    const semantics = await createSnapshotCollector().collect(elements, graph);
+    const seen = new Map<string, ElementSnapshot>();
+
+    const detection = createRoleDetectionService({
+      detectors: [
+        {
+          id: "tag-detector",
+          detect: (snapshot, context) => {
+            seen.set(snapshot.id, snapshot);
+            if (snapshot.tagName === "main") return { role: "main", score: 1 };
+            const parent = context.getSnapshot?.(snapshot.parentId ?? "");
+            if (snapshot.tagName === "section" && parent?.tagName === "main") {
+              return { role: "section", score: 1 };
+            }
+            return null;
+          },
+        },
+      ],
+    });
+    const roles = detection.detectRolesForPage(
+      elements.map((el) => ({ element: el, classNames: [] })),
+      graph,
+      semantics
+    );
+
+    expect(roles).toMatchObject({ m: "main", s1: "section", s2: "unknown" });
+    expect(seen.get("h")).toMatchObject({
+      tagName: "h2",
+      elementType: "Heading",
+      parentId: "s1",
+      textContent: "Pricing plans",
+      depth: 2,
+    });
+    expect(seen.get("m")?.childrenIds).toEqual(["s1", "s2"]);
+  });
+
+  it("falls back to div when no semantics were collected", () => {
+    const seen: ElementSnapshot[] = [];
+    createRoleDetectionService({
+      detectors: [
+        {
+          id: "spy",
+          detect: (snapshot) => {
+            seen.push(snapshot);
+            return null;
+          },
+        },
+      ],
+    }).detectRolesForPage([
+      { element: main as any, classNames: ["page_main"] },
+    ]);
+
+    expect(seen[0]).toMatchObject({
+      tagName: "div",
+      elementType: null,
+      classes: ["page_main"],
+      attributes: {},
+    });
+  });
+});
+
+describe("detectRolesWithDiagnostics", () => {
+  const item = (id: string, classNames: string[]) => ({
+    element: { id: { element: id } } as any,
+    classNames,
+  });
+
+  it("records every detector verdict and the threshold outcome", () => {
+    const { rolesByElement, diagnosticsByElement } = createRoleDetectionService(
+      {
+        detectors: [
+          {
+            id: "wrap",
+            detect: (el) =>
+              el.classes[0]?.endsWith("_wrap")
+                ? { role: "componentRoot", score: 0.5, reasoning: "wrap" }
+                : null,
+          },
+          { id: "never", detect: () => null },
+          {
+            id: "broken",
+            detect: () => {
+              throw new Error("boom");
+            },
+          },
+        ],
+        config: { threshold: 0.6 },
+      }
+    ).detectRolesWithDiagnostics([item("a", ["card_wrap"])]);
+
+    expect(rolesByElement.a).toBe("unknown");
+    expect(diagnosticsByElement.a).toMatchObject({
+      classes: ["card_wrap"],
+      bestRole: "componentRoot",
+      bestScore: 0.5,
+      threshold: 0.6,
+      finalRole: "unknown",
+      demotedBy: "threshold",
+    });
+    expect(diagnosticsByElement.a.verdicts).toEqual([
+      {
+        detectorId: "wrap",
+        result: { role: "componentRoot", score: 0.5, reasoning: "wrap" },
+      },
+      { detectorId: "never", result: null },
+      { detectorId: "broken", result: null, error: "boom" },
+    ]);
+  });
+
+  it("marks mains dropped by the singleton check", () => {
+    const { rolesByElement, diagnosticsByElement } = createRoleDetectionService(
+      {
+        detectors: [
+          {
+            id: "main",
+            detect: (el) =>
+              el.classes.includes("page_main")
+                ? { role: "main", score: el.id === "a" ? 0.9 : 0.8 }
+                : null,
+          },
+        ],
+      }
+    ).detectRolesWithDiagnostics([
+      item("a", ["page_main"]),
+      item("b", ["page_main"]),
+    ]);
+
+    expect(rolesByElement).toEqual({ a: "main", b: "unknown" });
+    expect(diagnosticsByElement.a.demotedBy).toBeUndefined();
+    expect(diagnosticsByElement.b).toMatchObject({
+      bestRole: "main",
+      finalRole: "unknown",
+      demotedBy: "singleton-main",
+    });
+  });
+});
+
+describe("pinned roles", () => {
+  const item = (
+    id: string,
+    classNames: string[],
+    attributes?: Record<string, string>
+  ) => ({
+    element: { id: { element: id } } as any,
+    classNames,
+    attributes,
+  });
+  const service = createRoleDetectionService({
+    detectors: [
+      {
+        id: "main",
+        detect: (el) =>
+          el.classes.includes("page_main")
+            ? { role: "main", score: 0.9 }
+            : null,
+      },
+    ],
+  });
+
+  it("prefers UI pins over attribute pins over detector scores", () => {
+    const { rolesByElement, diagnosticsByElement } =
+      service.detectRolesWithDiagnostics(
+        [
+          item("a", ["page_main"], { "data-flowlint-role": "Section" }),
+          item("b", ["page_main"], { "data-flowlint-role": "layout" }),
+          item("c", [], { "data-flowlint-role": "bogus" }),
+        ],
+        undefined,
+        undefined,
+        { b: "content" }
+      );
+
+    expect(rolesByElement).toEqual({
+      a: "section",
+      b: "content",
+      c: "unknown",
+    });
+    expect(diagnosticsByElement.a).toMatchObject({
+      bestRole: "main",
+      finalRole: "section",
+      roleSource: "manual",
+      pinnedBy: "attribute",
+    });
+    expect(diagnosticsByElement.b.pinnedBy).toBe("ui");
+    expect(diagnosticsByElement.c.roleSource).toBe("detected");
+  });
+
+  it("keeps a pinned main over a higher-scoring detected one", () => {
+    const { rolesByElement, diagnosticsByElement } =
+      service.detectRolesWithDiagnostics(
+        [item("a", ["page_main"]), item("b", [])],
+        undefined,
+        undefined,
+        { b: "main" }
+      );
+
+    expect(rolesByElement).toEqual({ a: "unknown", b: "main" });
+    expect(diagnosticsByElement.a.demotedBy).toBe("singleton-main");
+  });
+});
@@ -0,0 +1,49 @@
+// src/features/linter/services/__tests__/role-pins.service.test.ts
+import { describe, it, expect } from "vitest";
+import { createRolePinService } from "@/features/linter/services/role-pins.service";
+import { createMemoryStorageAdapter } from "@/features/linter/services/rule-configuration-service";
+
+function setup() {
+  const stores = new Map<
+    string,
+    ReturnType<typeof createMemoryStorageAdapter>
+  >();
+  const createStorage = (key: string) => {
+    if (!stores.has(key)) stores.set(key, createMemoryStorageAdapter());
+    return stores.get(key)!;
+  };
+  const forPage = (pageId: string) =>
+    createRolePinService({ siteId: "site-1", pageId, createStorage });
+  return { stores, forPage };
+}
+
+describe("createRolePinService", () => {
+  it("pins and unpins roles per page", () => {
+    const { forPage } = setup();
+
+    forPage("home").pin("a", "section");
+    forPage("home").pin("b", "main");
+    forPage("home").pin("a", "content");
+
+    expect(forPage("home").load()).toEqual({ a: "content", b: "main" });
+    expect(forPage("about").load()).toEqual({});
+
+    forPage("home").unpin("a");
+    expect(forPage("home").load()).toEqual({ b: "main" });
+  });
+
+  it("ignores corrupt or unknown entries", () => {
+    const { stores, forPage } = setup();
+    const service = forPage("home");
+
+    stores.get(service.storageKey)!.write("{not json");
+    expect(service.load()).toEqual({});
+
+    stores
+      .get(service.storageKey)!
+      .write(
+        JSON.stringify({ version: 1, pins: { a: "section", b: "unknown" } })
+      );
+    expect(service.load()).toEqual({ a: "section" });
+  });
+});
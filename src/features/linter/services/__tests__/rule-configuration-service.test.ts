@@ -0,0 +1,233 @@
+// src/features/linter/services/__tests__/rule-configuration-service.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  createMemoryStorageAdapter,
+  createRuleConfigurationService,
+} from "@/features/linter/services/rule-configuration-service";
+import type {
+  NamingRule,
+  PageRule,
+} from "@/features/linter/model/rule.types";
+
+const namingRule: NamingRule = {
+  id: "test:naming",
+  name: "Naming",
+  description: "",
+  type: "naming",
+  severity: "warning",
+  enabled: true,
+  category: "format",
+  targetClassTypes: ["custom"],
+  test: () => true,
+  config: { max: { label: "Max", type: "number", default: 3 } },
+};
+
+const pageRule: PageRule = {
+  id: "test:page",
+  name: "Page",
+  description: "",
+  type: "page",
+  severity: "error",
+  enabled: true,
+  category: "structure",
+  analyzePage: () => [],
+};
+
+function setup(stored?: unknown) {
+  const storage = createMemoryStorageAdapter();
+  if (stored !== undefined) storage.write(JSON.stringify(stored));
+  const service = createRuleConfigurationService(
+    { getAllRules: () => [namingRule], getPageRules: () => [pageRule] },
+    { storage, nowISO: () => "2026-01-01T00:00:00.000Z" }
+  );
+  const readStored = () => JSON.parse(storage.read() ?? "{}");
+  return { service, readStored };
+}
+
+describe("rule configuration service", () => {
+  it("migrates a v0 file and keeps rule default severities", () => {
+    const { service } = setup({
+      enabledRules: [],
+      ruleConfigs: { "test:naming": { max: 5 } },
+    });
+    const cfg = service.load().find((c) => c.ruleId === "test:naming");
+    expect(cfg).toMatchObject({
+      enabled: false,
+      severity: "warning",
+      customSettings: { max: 5 },
+    });
+    expect(service.loadSeverityOverrides()).toEqual({});
+  });
+
+  it("upgrades v1 files to v2 on save without inventing overrides", () => {
+    const { service, readStored } = setup({
+      version: 1,
+      enabledRules: ["test:naming", "test:page"],
+      ruleConfigs: { "test:naming": { max: 2 } },
+    });
+    service.save(service.load());
+    const file = readStored();
+    expect(file.version).toBe(2);
+    expect(file.severities).toEqual({});
+    expect(file.ruleConfigs["test:naming"]).toEqual({ max: 2 });
+  });
+
+  it("persists severity overrides for element and page rules", () => {
+    const { service } = setup();
+    service.setRuleSeverity("test:naming", "error");
+    service.setRuleSeverity("test:page", "suggestion");
+
+    const byId = new Map(service.load().map((c) => [c.ruleId, c]));
+    expect(byId.get("test:naming")?.severity).toBe("error");
+    expect(byId.get("test:page")?.severity).toBe("suggestion");
+    expect(service.loadSeverityOverrides()).toEqual({
+      "test:naming": "error",
+      "test:page": "suggestion",
+    });
+  });
+
+  it("keeps explicit overrides across unrelated edits and clears on null", () => {
+    const { service } = setup();
+    // Pinned to the default on purpose so opinion modes cannot change it
+    service.setRuleSeverity("test:naming", "warning");
+    service.upsertRuleCustomSettings("test:naming", { max: 4 });
+    expect(service.loadSeverityOverrides()).toEqual({
+      "test:naming": "warning",
+    });
+
+    service.setRuleSeverity("test:naming", null);
+    expect(service.loadSeverityOverrides()).toEqual({});
+  });
+
+  it("drops invalid stored severities and round-trips exports", () => {
+    const { service } = setup({
+      version: 2,
+      ruleConfigs: {},
+      severities: { "test:naming": "fatal", "test:page": "warning" },
+    });
+    expect(service.loadSeverityOverrides()).toEqual({
+      "test:page": "warning",
+    });
+
+    const { configs, report } = service.importConfiguration(
+      service.exportConfiguration(service.load())
+    );
+    expect(report).toEqual({ ok: true, issues: [] });
+    expect(configs.find((c) => c.ruleId === "test:page")?.severity).toBe(
+      "warning"
+    );
+  });
+
+  it("resolves extends chains in order with the importing file winning", () => {
+    const { service } = setup();
+    const agencyBase = {
+      version: 2,
+      ruleConfigs: { "test:naming": { max: 10 } },
+      severities: { "test:naming": "error", "test:page": "warning" },
+    };
+    const clientOverride = {
+      version: 2,
+      extends: [
+        agencyBase,
+        JSON.stringify({
+          ruleConfigs: {},
+          severities: { "test:page": "suggestion" },
+        }),
+      ],
+      ruleConfigs: { "test:naming": { max: 7 } },
+    };
+
+    const { configs, report } = service.importConfiguration(
+      JSON.stringify(clientOverride)
+    );
+    const byId = new Map(configs.map((c) => [c.ruleId, c]));
+    expect(report.ok).toBe(true);
+    expect(byId.get("test:naming")).toMatchObject({
+      severity: "error",
+      customSettings: { max: 7 },
+    });
+    expect(byId.get("test:page")?.severity).toBe("suggestion");
+  });
+
+  it("keeps the extends chain through save, export and re-import", () => {
+    const teamBase = {
+      version: 2,
+      enabledRules: ["test:naming"],
+      ruleConfigs: { "test:naming": { max: 10 }, "test:page": {} },
+      severities: { "test:page": "warning" },
+    };
+    const child = JSON.stringify({
+      version: 2,
+      extends: [teamBase],
+      enabledRules: ["test:naming"],
+      ruleConfigs: { "test:naming": { max: 7 } },
+    });
+
+    const first = setup();
+    const imported = first.service.importConfiguration(child);
+    first.service.save(imported.configs, null, imported.extends);
+    const effective = first.service.load();
+    expect(effective).toEqual([
+      {
+        ruleId: "test:naming",
+        enabled: true,
+        severity: "warning",
+        customSettings: { max: 7 },
+      },
+      {
+        ruleId: "test:page",
+        enabled: false,
+        severity: "warning",
+        customSettings: {},
+      },
+    ]);
+    expect(first.service.loadSeverityOverrides()).toEqual({
+      "test:page": "warning",
+    });
+
+    // Only the override travels; the base stays a base
+    const exported = JSON.parse(first.service.exportConfiguration(effective));
+    expect(exported.extends).toEqual([teamBase]);
+    expect(exported.ruleConfigs).toEqual({ "test:naming": { max: 7 } });
+    expect(exported.severities).toEqual({});
+
+    const second = setup();
+    const again = second.service.importConfiguration(JSON.stringify(exported));
+    expect(again.report).toEqual({ ok: true, issues: [] });
+    second.service.save(again.configs, null, again.extends);
+    expect(second.service.load()).toEqual(effective);
+    expect(second.readStored().extends).toEqual([teamBase]);
+  });
+
+  it("reports invalid input instead of throwing", () => {
+    const { service } = setup();
+    expect(service.importConfiguration("{nope").report).toMatchObject({
+      ok: false,
+      issues: [{ kind: "parse-error", source: "config" }],
+    });
+
+    const { configs, report } = service.importConfiguration(
+      JSON.stringify({
+        version: 2,
+        ruleConfigs: {
+          "test:naming": { max: "7", legacy: true },
+          "other:rule": {},
+        },
+        severities: { "test:page": "fatal" },
+        extends: ["not json"],
+      })
+    );
+    expect(report.ok).toBe(false);
+    expect(report.issues.map((i) => [i.kind, i.source])).toEqual([
+      ["parse-error", "config.extends[0]"],
+      ["invalid-severity", "config"],
+      ["type-mismatch", "config"],
+      ["unknown-key", "config"],
+      ["unknown-rule", "config"],
+    ]);
+    // Invalid values fall back to schema defaults
+    expect(
+      configs.find((c) => c.ruleId === "test:naming")?.customSettings
+    ).toEqual({ max: 3 });
+  });
+});
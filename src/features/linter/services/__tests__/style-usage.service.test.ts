@@ -0,0 +1,159 @@
+// src/features/linter/services/__tests__/style-usage.service.test.ts
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createStyleBackup,
+  createStyleUsageService,
+  findUnusedStyles,
+} from "@/features/linter/services/style-usage.service";
+import type { StyleInfo } from "@/entities/style/model/style.types";
+
+const style = (
+  id: string,
+  name: string,
+  propertiesByContext: StyleInfo["propertiesByContext"] = { main: {} }
+): StyleInfo => ({
+  id,
+  name,
+  properties: propertiesByContext?.main ?? {},
+  propertiesByContext,
+  order: 0,
+  isCombo: false,
+});
+
+const element = (id: string, classes: string[], children: any[] = []) => ({
+  id: { element: id },
+  children: children.length > 0,
+  getChildren: () => Promise.resolve(children),
+  classes,
+});
+
+// Only the methods the usage service calls
+const styleService = {
+  getAppliedClassNames: (el: any) => Promise.resolve(el.classes ?? []),
+} as any;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("findUnusedStyles", () => {
+  it("lists styles missing from the usage index with property counts", () => {
+    const index = new Map([["card", []]]);
+    const unused = findUnusedStyles(
+      [
+        style("s1", "card"),
+        style("s2", "old-hero", {
+          main: { color: "red", "font-size": "2rem" },
+          "small:hover": { color: "blue" },
+        }),
+        style("s3", "alpha"),
+      ],
+      index as any
+    );
+    expect(unused.map((s) => s.name)).toEqual(["alpha", "old-hero"]);
+    expect(unused[1].propertyCount).toBe(3);
+  });
+});
+
+describe("createStyleBackup", () => {
+  it("keeps declarations for every context", () => {
+    const backup = createStyleBackup(
+      [
+        style("s2", "old-hero", {
+          main: { color: "red" },
+          small: { color: "blue" },
+        }),
+      ],
+      { siteId: "site", createdAt: "2026-01-01T00:00:00.000Z" }
+    );
+    expect(backup.version).toBe(1);
+    expect(backup.styles[0].propertiesByContext.small).toEqual({
+      color: "blue",
+    });
+  });
+});
+
+describe("createStyleUsageService", () => {
+  const pageA = { id: "a", type: "Page", getName: () => Promise.resolve("Home") };
+  const pageB = { id: "b", type: "Page", getName: () => Promise.resolve("About") };
+  const folder = { id: "f", type: "PageFolder" };
+
+  const stubWebflow = (overrides: Record<string, unknown> = {}) => {
+    let current: any = pageA;
+    const elementsByPage: Record<string, any[]> = {
+      a: [element("1", ["card", "is-active"]), element("2", [])],
+      b: [element("3", ["about-hero"])],
+    };
+    const webflow = {
+      getAllPagesAndFolders: () => Promise.resolve([pageA, folder, pageB]),
+      getCurrentPage: () => Promise.resolve(current),
+      switchPage: vi.fn((p: any) => {
+        current = p;
+        return Promise.resolve(null);
+      }),
+      getAllElements: () => Promise.resolve(elementsByPage[current.id]),
+      getAllComponents: () =>
+        Promise.resolve([
+          {
+            id: "c1",
+            getName: () => Promise.resolve("Navbar"),
+            getRootElement: () =>
+              Promise.resolve(
+                element("n", ["navbar"], [element("n1", ["nav-link"])])
+              ),
+          },
+          {
+            id: "lib",
+            getName: () => Promise.resolve("Library card"),
+            getRootElement: () => Promise.reject(new Error("read-only")),
+          },
+        ]),
+      ...overrides,
+    };
+    vi.stubGlobal("window", { webflow });
+    return webflow;
+  };
+
+  it("indexes classes across pages and components, then returns to the start page", async () => {
+    const webflow = stubWebflow();
+    const service = createStyleUsageService({ styleService });
+    const scan = await service.scanSite();
+
+    expect([...scan.index.keys()].sort()).toEqual([
+      "about-hero",
+      "card",
+      "is-active",
+      "nav-link",
+      "navbar",
+    ]);
+    expect(scan.index.get("card")).toEqual([
+      { scope: "page", id: "a", name: "Home", elementIds: ["1"] },
+    ]);
+    expect(scan.index.get("nav-link")?.[0].scope).toBe("component");
+    expect(scan.pagesScanned).toBe(2);
+    expect(scan.skipped).toEqual(['Component "Library card"']);
+    expect(webflow.switchPage).toHaveBeenLastCalledWith(pageA);
+  });
+
+  it("re-checks the current page and skips styles that came back into use", async () => {
+    const removeStyle = vi.fn(() => Promise.resolve(null));
+    stubWebflow({
+      removeStyle,
+      getAllStyles: () =>
+        Promise.resolve([
+          { id: "s1", isComboClass: () => false },
+          { id: "s2", isComboClass: () => false },
+        ]),
+    });
+    const service = createStyleUsageService({ styleService });
+    const result = await service.removeStyles([
+      { id: "s1", name: "card" },
+      { id: "s2", name: "old-hero" },
+      { id: "s9", name: "gone" },
+    ]);
+
+    expect(result.removed).toEqual(["old-hero"]);
+    expect(result.kept.map((k) => k.name).sort()).toEqual(["card", "gone"]);
+    expect(removeStyle).toHaveBeenCalledTimes(1);
+  });
+});
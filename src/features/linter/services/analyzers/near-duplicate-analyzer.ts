@@ -0,0 +1,192 @@
+import type { StyleInfo } from "@/entities/style/model/style.types";
+import { stableStringify } from "@/shared/lib";
+
+/** `context|property` → serialized value, for one class */
+export type DeclarationMap = Map<string, string>;
+
+export interface NearDuplicatePair {
+  a: string;
+  b: string;
+  /** Jaccard similarity of `property:value` declarations */
+  valueSimilarity: number;
+  /** Jaccard similarity of declared property names only */
+  propertySimilarity: number;
+  /** Declarations identical in both classes */
+  sharedCount: number;
+  /** Size of the union of both declaration sets */
+  totalCount: number;
+}
+
+/** One row of a side-by-side comparison; `null` means not declared */
+export interface DeclarationDiffRow {
+  /** Style context key (`main`, `small:hover`, …) */
+  context: string;
+  property: string;
+  a: string | null;
+  b: string | null;
+}
+
+export interface NearDuplicateOptions {
+  /** Minimum value similarity for a pair to match */
+  threshold: number;
+  /**
+   * Alternative, looser match on property names only (same "shape",
+   * different values); 0 disables it
+   */
+  propertyThreshold: number;
+  /** Classes with fewer declarations are ignored as too small to compare */
+  minDeclarations: number;
+}
+
+export interface NearDuplicateReport {
+  pairs: NearDuplicatePair[];
+  /** Connected groups of matching classes, each sorted by name */
+  clusters: string[][];
+  declarations: Map<string, DeclarationMap>;
+}
+
+const valueKey = (value: unknown): string =>
+  typeof value === "string" ? value : stableStringify(value);
+
+/** Flattens base and per-context declarations into one keyed map */
+export function toDeclarationMap(style: StyleInfo): DeclarationMap {
+  const out: DeclarationMap = new Map();
+  const contexts = style.propertiesByContext ?? { main: style.properties };
+  for (const [context, props] of Object.entries(contexts)) {
+    for (const [property, value] of Object.entries(props ?? {})) {
+      if (value === undefined || value === null || value === "") continue;
+      out.set(`${context}|${property}`, valueKey(value));
+    }
+  }
+  return out;
+}
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  for (const k of a) if (b.has(k)) shared += 1;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+};
+
+/** Scores one pair of declaration maps */
+export function compareDeclarations(
+  a: DeclarationMap,
+  b: DeclarationMap
+): Omit<NearDuplicatePair, "a" | "b"> {
+  const valuesA = new Set([...a].map(([k, v]) => `${k}:${v}`));
+  const valuesB = new Set([...b].map(([k, v]) => `${k}:${v}`));
+  let sharedCount = 0;
+  for (const k of valuesA) if (valuesB.has(k)) sharedCount += 1;
+  return {
+    valueSimilarity: jaccard(valuesA, valuesB),
+    propertySimilarity: jaccard(new Set(a.keys()), new Set(b.keys())),
+    sharedCount,
+    totalCount: valuesA.size + valuesB.size - sharedCount,
+  };
+}
+
+/** Declarations that differ between two classes, ordered by context then name */
+export function diffDeclarations(
+  a: DeclarationMap,
+  b: DeclarationMap
+): DeclarationDiffRow[] {
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  const rows: DeclarationDiffRow[] = [];
+  for (const key of keys) {
+    const va = a.get(key) ?? null;
+    const vb = b.get(key) ?? null;
+    if (va === vb) continue;
+    const [context, property] = key.split("|");
+    rows.push({ context, property, a: va, b: vb });
+  }
+  return rows.sort(
+    (x, y) =>
+      Number(x.context !== "main") - Number(y.context !== "main") ||
+      x.context.localeCompare(y.context) ||
+      x.property.localeCompare(y.property)
+  );
+}
+
+/**
+ * Pairwise near-duplicate search over a set of styles. Pairs whose property
+ * names barely overlap are skipped before the full comparison, so large sites
+ * stay well under the naive n² cost in practice.
+ */
+export function findNearDuplicates(
+  styles: ReadonlyArray<StyleInfo>,
+  options: NearDuplicateOptions
+): NearDuplicateReport {
+  const declarations = new Map<string, DeclarationMap>();
+  for (const s of styles) {
+    if (!s.name || declarations.has(s.name)) continue;
+    const map = toDeclarationMap(s);
+    if (map.size >= options.minDeclarations) declarations.set(s.name, map);
+  }
+
+  // Index by property name to only compare classes sharing something
+  const byProperty = new Map<string, string[]>();
+  for (const [name, map] of declarations) {
+    for (const key of map.keys()) {
+      const list = byProperty.get(key) ?? [];
+      list.push(name);
+      byProperty.set(key, list);
+    }
+  }
+
+  const looser =
+    options.propertyThreshold > 0
+      ? Math.min(options.threshold, options.propertyThreshold)
+      : options.threshold;
+
+  const names = [...declarations.keys()];
+  const pairs: NearDuplicatePair[] = [];
+  for (const a of names) {
+    const mapA = declarations.get(a)!;
+    const overlap = new Map<string, number>();
+    for (const key of mapA.keys()) {
+      for (const b of byProperty.get(key) ?? []) {
+        if (b > a) overlap.set(b, (overlap.get(b) ?? 0) + 1);
+      }
+    }
+    for (const [b, sharedKeys] of overlap) {
+      const mapB = declarations.get(b)!;
+      // Upper bound on either score: shared keys over the larger set
+      if (sharedKeys / Math.max(mapA.size, mapB.size) < looser) continue;
+      const score = compareDeclarations(mapA, mapB);
+      const matches =
+        score.valueSimilarity >= options.threshold ||
+        (options.propertyThreshold > 0 &&
+          score.propertySimilarity >= options.propertyThreshold);
+      if (matches) pairs.push({ a, b, ...score });
+    }
+  }
+  pairs.sort((x, y) => y.valueSimilarity - x.valueSimilarity);
+
+  // Union-find over matching pairs
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.get(root) !== undefined && parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(x, root);
+    return root;
+  };
+  for (const { a, b } of pairs) {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  }
+  const groups = new Map<string, string[]>();
+  for (const { a, b } of pairs) {
+    for (const n of [a, b]) {
+      const root = find(n);
+      const list = groups.get(root) ?? [];
+      if (!list.includes(n)) list.push(n);
+      groups.set(root, list);
+    }
+  }
+  const clusters = [...groups.values()].map((g) => g.sort());
+
+  return { pairs, clusters, declarations };
+}
@@ -0,0 +1,104 @@
+// features/linter/services/baseline.service.ts
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import { baselineFingerprint } from "@/features/linter/lib/result-fingerprint";
+import {
+  createLocalStorageAdapter,
+  type StorageAdapter,
+} from "./rule-configuration-service";
+
+const BASELINE_KEY_PREFIX = "codalyn.linter.baseline.v1";
+const LOCAL_SCOPE = "local";
+
+export type ViolationBaselineV1 = {
+  version: 1;
+  createdAt: string;
+  fingerprints: string[];
+};
+
+export interface BaselinePartition {
+  /** Findings not in the baseline */
+  fresh: RuleResult[];
+  /** Findings accepted when the baseline was created */
+  baselined: RuleResult[];
+  /** Baseline entries with no matching finding any more */
+  fixedCount: number;
+}
+
+export type BaselineServiceOptions = {
+  siteId: string | null;
+  pageId: string | null;
+  createStorage?: (key: string) => StorageAdapter;
+  nowISO?: () => string;
+};
+
+export type BaselineService = ReturnType<typeof createBaselineService>;
+
+/**
+ * Accepted findings for one site + page. Results are matched by fingerprint,
+ * so a baseline survives re-scans, reordering and message rewording.
+ */
+export const createBaselineService = (opts: BaselineServiceOptions) => {
+  const createStorage = opts.createStorage ?? createLocalStorageAdapter;
+  const nowISO = opts.nowISO ?? (() => new Date().toISOString());
+  const storageKey = `${BASELINE_KEY_PREFIX}:${opts.siteId ?? LOCAL_SCOPE}:${
+    opts.pageId ?? LOCAL_SCOPE
+  }`;
+  const storage = createStorage(storageKey);
+
+  const load = (): ViolationBaselineV1 | null => {
+    const raw = storage.read();
+    if (!raw) return null;
+    try {
+      const parsed = JSON.parse(raw) as Partial<ViolationBaselineV1>;
+      if (parsed?.version !== 1 || !Array.isArray(parsed.fingerprints)) {
+        return null;
+      }
+      return {
+        version: 1,
+        createdAt: String(parsed.createdAt ?? ""),
+        fingerprints: parsed.fingerprints.filter(
+          (f): f is string => typeof f === "string"
+        ),
+      };
+    } catch {
+      return null;
+    }
+  };
+
+  const create = (results: ReadonlyArray<RuleResult>): ViolationBaselineV1 => {
+    const baseline: ViolationBaselineV1 = {
+      version: 1,
+      createdAt: nowISO(),
+      fingerprints: Array.from(new Set(results.map(baselineFingerprint))),
+    };
+    storage.write(JSON.stringify(baseline));
+    return baseline;
+  };
+
+  const clear = (): void => {
+    // Adapter has no delete; an empty value reads back as "no baseline"
+    storage.write("");
+  };
+
+  const partition = (results: ReadonlyArray<RuleResult>): BaselinePartition => {
+    const baseline = load();
+    if (!baseline) return { fresh: [...results], baselined: [], fixedCount: 0 };
+
+    const accepted = new Set(baseline.fingerprints);
+    const seen = new Set<string>();
+    const fresh: RuleResult[] = [];
+    const baselined: RuleResult[] = [];
+    for (const r of results) {
+      const fp = baselineFingerprint(r);
+      if (accepted.has(fp)) {
+        baselined.push(r);
+        seen.add(fp);
+      } else {
+        fresh.push(r);
+      }
+    }
+    return { fresh, baselined, fixedCount: accepted.size - seen.size };
+  };
+
+  return { storageKey, load, create, clear, partition } as const;
+};
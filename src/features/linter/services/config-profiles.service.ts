@@ -0,0 +1,200 @@
+// features/linter/services/config-profiles.service.ts
+import {
+  createLocalStorageAdapter,
+  type StorageAdapter,
+} from "./rule-configuration-service";
+
+/** Key used before configs were scoped per site, preset and profile */
+export const LEGACY_RULES_STORAGE_KEY = "codalyn.linter.rules.v1";
+
+const PROFILES_KEY_PREFIX = "codalyn.linter.profiles.v1";
+const RULES_KEY_PREFIX = "codalyn.linter.rules.v2";
+const LOCAL_SITE = "local";
+
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+type ProfilesFileV1 = {
+  version: 1;
+  activeProfileId: string;
+  profiles: ConfigProfile[];
+};
+
+export type ConfigProfilesServiceOptions = {
+  /** Webflow site id; null falls back to a local, unscoped bucket */
+  siteId: string | null;
+  presetId: string;
+  /** Storage factory, one adapter per key (tests pass a memory-backed map) */
+  createStorage?: (key: string) => StorageAdapter;
+  nowISO?: () => string;
+  createId?: () => string;
+};
+
+export type ConfigProfilesService = ReturnType<
+  typeof createConfigProfilesService
+>;
+
+const defaultCreateId = () =>
+  `profile-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Named configuration profiles for one site + preset pair. Each profile owns
+ * its own rule config storage key; the index only tracks names and which one
+ * is active.
+ */
+export const createConfigProfilesService = (
+  opts: ConfigProfilesServiceOptions
+) => {
+  const createStorage = opts.createStorage ?? createLocalStorageAdapter;
+  const nowISO = opts.nowISO ?? (() => new Date().toISOString());
+  const createId = opts.createId ?? defaultCreateId;
+  const scope = `${opts.siteId ?? LOCAL_SITE}:${opts.presetId}`;
+  const index = createStorage(`${PROFILES_KEY_PREFIX}:${scope}`);
+
+  const getStorageKey = (profileId: string): string =>
+    `${RULES_KEY_PREFIX}:${scope}:${profileId}`;
+
+  const writeIndex = (file: ProfilesFileV1) => {
+    index.write(JSON.stringify(file));
+  };
+
+  /** First use of a scope: seed a default profile from the legacy global key */
+  const seed = (): ProfilesFileV1 => {
+    const profile: ConfigProfile = {
+      id: createId(),
+      name: "Default",
+      createdAt: nowISO(),
+    };
+    const legacy = createStorage(LEGACY_RULES_STORAGE_KEY).read();
+    if (legacy) createStorage(getStorageKey(profile.id)).write(legacy);
+    const file: ProfilesFileV1 = {
+      version: 1,
+      activeProfileId: profile.id,
+      profiles: [profile],
+    };
+    writeIndex(file);
+    return file;
+  };
+
+  const readIndex = (): ProfilesFileV1 => {
+    try {
+      const raw = index.read();
+      if (!raw) return seed();
+      const parsed = JSON.parse(raw) as ProfilesFileV1;
+      if (!Array.isArray(parsed?.profiles) || parsed.profiles.length === 0) {
+        return seed();
+      }
+      const active = parsed.profiles.some(
+        (p) => p.id === parsed.activeProfileId
+      )
+        ? parsed.activeProfileId
+        : parsed.profiles[0].id;
+      return { version: 1, activeProfileId: active, profiles: parsed.profiles };
+    } catch {
+      return seed();
+    }
+  };
+
+  const findProfile = (file: ProfilesFileV1, profileId: string) => {
+    const profile = file.profiles.find((p) => p.id === profileId);
+    if (!profile) throw new Error(`Unknown profile: ${profileId}`);
+    return profile;
+  };
+
+  const normalizeName = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("Profile name cannot be empty");
+    return trimmed;
+  };
+
+  const list = (): ConfigProfile[] => readIndex().profiles.map((p) => ({ ...p }));
+
+  const getActive = (): ConfigProfile => {
+    const file = readIndex();
+    return { ...findProfile(file, file.activeProfileId) };
+  };
+
+  /**
+   * Creates a profile and makes it active. With `copyFrom`, the source
+   * profile's stored rule config is copied; otherwise it starts from defaults.
+   */
+  const create = (
+    name: string,
+    options: { copyFrom?: string } = {}
+  ): ConfigProfile => {
+    const file = readIndex();
+    const profile: ConfigProfile = {
+      id: createId(),
+      name: normalizeName(name),
+      createdAt: nowISO(),
+    };
+    if (options.copyFrom) {
+      findProfile(file, options.copyFrom);
+      const raw = createStorage(getStorageKey(options.copyFrom)).read();
+      if (raw) createStorage(getStorageKey(profile.id)).write(raw);
+    }
+    writeIndex({
+      ...file,
+      activeProfileId: profile.id,
+      profiles: [...file.profiles, profile],
+    });
+    return { ...profile };
+  };
+
+  const duplicate = (profileId: string, name?: string): ConfigProfile => {
+    const source = findProfile(readIndex(), profileId);
+    return create(name ?? `${source.name} copy`, { copyFrom: profileId });
+  };
+
+  const rename = (profileId: string, name: string): ConfigProfile => {
+    const file = readIndex();
+    findProfile(file, profileId);
+    const nextName = normalizeName(name);
+    const profiles = file.profiles.map((p) =>
+      p.id === profileId ? { ...p, name: nextName } : p
+    );
+    writeIndex({ ...file, profiles });
+    return { ...findProfile({ ...file, profiles }, profileId) };
+  };
+
+  const switchTo = (profileId: string): ConfigProfile => {
+    const file = readIndex();
+    const profile = findProfile(file, profileId);
+    writeIndex({ ...file, activeProfileId: profileId });
+    return { ...profile };
+  };
+
+  /** Removes a profile and its stored config. The last profile can't be removed. */
+  const remove = (profileId: string): void => {
+    const file = readIndex();
+    findProfile(file, profileId);
+    if (file.profiles.length === 1) {
+      throw new Error("Cannot remove the only profile");
+    }
+    const profiles = file.profiles.filter((p) => p.id !== profileId);
+    createStorage(getStorageKey(profileId)).write("");
+    writeIndex({
+      ...file,
+      profiles,
+      activeProfileId:
+        file.activeProfileId === profileId
+          ? profiles[0].id
+          : file.activeProfileId,
+    });
+  };
+
+  return {
+    scope,
+    getStorageKey,
+    list,
+    getActive,
+    create,
+    duplicate,
+    rename,
+    switchTo,
+    remove,
+  } as const;
+};
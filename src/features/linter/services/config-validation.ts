@@ -0,0 +1,119 @@
+// features/linter/services/config-validation.ts
+import type {
+  RuleConfigField,
+  RuleConfigSchema,
+} from "@/features/linter/model/rule.types";
+
+export type ConfigIssueKind =
+  | "parse-error"
+  | "unknown-rule"
+  | "unknown-key"
+  | "type-mismatch"
+  | "invalid-enum"
+  | "invalid-severity"
+  | "deprecated-key";
+
+export interface ConfigValidationIssue {
+  kind: ConfigIssueKind;
+  /** Which file in the `extends` chain the issue came from, e.g. `extends[0]` */
+  source: string;
+  message: string;
+  ruleId?: string;
+  key?: string;
+}
+
+export interface ConfigValidationReport {
+  /** False when the payload (or part of its chain) could not be read at all */
+  ok: boolean;
+  issues: ConfigValidationIssue[];
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+}
+
+function matchesType(field: RuleConfigField, value: unknown): boolean {
+  switch (field.type) {
+    case "string":
+    case "enum":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+  }
+}
+
+/**
+ * Checks stored settings for one rule against its schema.
+ * @returns The settings that passed (invalid values are dropped so schema
+ * defaults apply) and the issues found
+ */
+export function validateRuleSettings(
+  ruleId: string,
+  schema: RuleConfigSchema | undefined,
+  settings: Readonly<Record<string, unknown>>,
+  source: string
+): { accepted: Record<string, unknown>; issues: ConfigValidationIssue[] } {
+  if (!schema) return { accepted: { ...settings }, issues: [] };
+
+  const accepted: Record<string, unknown> = {};
+  const issues: ConfigValidationIssue[] = [];
+
+  for (const [key, value] of Object.entries(settings)) {
+    const field = schema[key];
+    if (!field) {
+      issues.push({
+        kind: "unknown-key",
+        source,
+        ruleId,
+        key,
+        message: `"${key}" is not a setting of ${ruleId} and was ignored`,
+      });
+      continue;
+    }
+    if (!matchesType(field, value)) {
+      issues.push({
+        kind: "type-mismatch",
+        source,
+        ruleId,
+        key,
+        message: `"${key}" expects ${field.type}, got ${describeValue(value)}`,
+      });
+      continue;
+    }
+    if (
+      field.type === "enum" &&
+      field.options &&
+      !field.options.includes(value as string)
+    ) {
+      issues.push({
+        kind: "invalid-enum",
+        source,
+        ruleId,
+        key,
+        message: `"${String(value)}" is not one of ${field.options.join(", ")}`,
+      });
+      continue;
+    }
+    if (field.deprecated) {
+      issues.push({
+        kind: "deprecated-key",
+        source,
+        ruleId,
+        key,
+        message:
+          typeof field.deprecated === "string"
+            ? `"${key}" is deprecated: ${field.deprecated}`
+            : `"${key}" is deprecated`,
+      });
+    }
+    accepted[key] = value;
+  }
+
+  return { accepted, issues };
+}
@@ -1,10 +1,15 @@
 // src/features/linter/services/element-lint-service.ts
 import type { RuleResult } from "@/features/linter/model/rule.types";
 import type { WebflowElement } from "@/entities/element/model/element.types";
-import type { RuleRunner } from "@/features/linter/services/rule-runner";
+import type { RoleDiagnostics } from "@/features/linter/model/preset.types";
 import type {
-  LintContextService,
-  LintContext,
+  RuleRunner,
+  RuleRunOptions,
+} from "@/features/linter/services/rule-runner";
+import {
+  getPageContextCache,
+  type LintContextService,
+  type LintContext,
 } from "@/features/linter/services/lint-context.service";
 import { toElementKey } from "@/entities/element/lib/id";
 
@@ -19,7 +24,11 @@ export function createElementLintService(deps: {
   async function lintElement(
     element: WebflowElement,
     pageContext?: LintContext,
-    useStructuralContext: boolean = false
+    useStructuralContext: boolean = false,
+    options: Pick<RuleRunOptions, "onSuppressed"> & {
+      /** Receives the detector verdicts behind the element's role */
+      onRoleDiagnostics?: (diagnostics: RoleDiagnostics | null) => void;
+    } = {}
   ): Promise<RuleResult[]> {
     if (!element || typeof (element as any).getStyles !== "function") return [];
 
@@ -34,6 +43,9 @@ export function createElementLintService(deps: {
     //    - Structural ON: analyze ALL styles in the section (like page lint but scoped)
     //    - Structural OFF: analyze only the selected element (original behavior)
     const elementId = toElementKey(element);
+    options.onRoleDiagnostics?.(
+      context.roleDiagnosticsByElementId[elementId] ?? null
+    );
     const elementStyles = context.elementStyleMap.get(elementId) || [];
     let stylesToAnalyze:
       | typeof elementStyles
@@ -59,6 +71,20 @@ export function createElementLintService(deps: {
       );
     }
 
+    // Isolated contexts don't know the element's ancestors; borrow them from
+    // the last page scan so `data-flowlint-disable-tree` still applies
+    const lastPage = pageContext ? null : getPageContextCache();
+    const getAttributes = (id: string) =>
+      context.attributesByElementId.get(id) ??
+      lastPage?.attributesByElementId.get(id);
+    const getElementContent = (id: string) =>
+      context.contentByElementId.get(id) ??
+      lastPage?.contentByElementId.get(id);
+    const getSuppressionAncestorIds = (id: string) => {
+      const own = context.graph.getAncestorIds(id);
+      return own.length > 0 ? own : lastPage?.graph.getAncestorIds(id) ?? [];
+    };
+
     // 3) Execute rules via the same runner API used by page scans
     //    Skip page rules when no page context is available
     const results = ruleRunner.runRulesOnStylesWithContext(
@@ -70,10 +96,18 @@ export function createElementLintService(deps: {
       context.graph.getChildrenIds,
       context.graph.getAncestorIds,
       context.parseClass,
-      { getTag: context.graph.getTag },
+      context.graph,
       (id: string) => context.tagByElementId.get(id) ?? null,
       (id: string) => context.elementTypeByElementId.get(id) ?? null,
-      !pageContext // Skip page rules when no page context available
+      !pageContext, // Skip page rules when no page context available
+      {
+        getAttributes,
+        getElementContent,
+        getSuppressionAncestorIds,
+        onSuppressed: options.onSuppressed,
+        isRolePinned: (id: string) =>
+          context.roleDiagnosticsByElementId[id]?.roleSource === "manual",
+      }
     );
 
     return results;
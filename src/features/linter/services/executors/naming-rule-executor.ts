@@ -4,7 +4,10 @@ import type {
   ClassType,
   Severity,
 } from "@/features/linter/model/rule.types";
-import type { ElementRole } from "@/features/linter/model/linter.types";
+import type {
+  ClassNameParts,
+  ElementRole,
+} from "@/features/linter/model/linter.types";
 
 import type { RuleConfigurationService } from "@/features/linter/services/rule-configuration-service";
 
@@ -15,6 +18,10 @@ export type ExecutionDeps = {
   suggestName?: (name: string, role?: ElementRole) => string | null;
   ruleConfigService?: RuleConfigurationService;
   resolveSeverity?: (ruleId: string) => Severity | undefined;
+  getTagName?: (id: string) => string | null;
+  getElementType?: (id: string) => string | null;
+  getParentComponentKey?: (id: string) => string | null;
+  formatClassName?: (parts: ClassNameParts) => string;
 };
 
 export type NamingExecInput = {
@@ -44,8 +51,16 @@ export const createNamingRuleExecutor = (): NamingRuleExecutor => {
       severityDefault,
       configForRule,
     } = input;
-    const { getRoleForElement, getClassType, suggestName, resolveSeverity } =
-      deps;
+    const {
+      getRoleForElement,
+      getClassType,
+      suggestName,
+      resolveSeverity,
+      getTagName,
+      getElementType,
+      getParentComponentKey,
+      formatClassName,
+    } = deps;
 
     const role: ElementRole =
       elementId && getRoleForElement
@@ -57,8 +72,11 @@ export const createNamingRuleExecutor = (): NamingRuleExecutor => {
     // Most naming rules should ignore utilities
     if (classType === "utility") return [];
 
-    // Normalize severity via injected resolver
+    // Normalize severity via injected resolver. The registry seeds every
+    // config with the rule's own severity, so a different value is a stored
+    // or opinion-mode override; only then does it beat per-result severities
     const severity: Severity = resolveSeverity?.(rule.id) ?? severityDefault;
+    const overridden = severity !== rule.severity;
 
     // Preferred rich API
     if ("evaluate" in rule && typeof rule.evaluate === "function") {
@@ -67,6 +85,16 @@ export const createNamingRuleExecutor = (): NamingRuleExecutor => {
         utilityClassPropertiesMap: new Map(),
         propertyToClassesMap: new Map(),
         config: configForRule,
+        element: elementId
+          ? {
+              elementId,
+              role,
+              tagName: getTagName?.(elementId) ?? null,
+              elementType: getElementType?.(elementId) ?? null,
+              parentComponentKey: getParentComponentKey?.(elementId) ?? null,
+            }
+          : undefined,
+        formatClassName,
       });
       if (evaluated) {
         const result: RuleResult = {
@@ -74,7 +102,7 @@ export const createNamingRuleExecutor = (): NamingRuleExecutor => {
           ruleId: evaluated.ruleId ?? rule.id,
           name: evaluated.name ?? rule.name,
           message: evaluated.message ?? rule.description,
-          severity: evaluated.severity ?? severity,
+          severity: overridden ? severity : evaluated.severity ?? severity,
           className, // for naming rules, this is the one we tested
           isCombo: evaluated.isCombo ?? Boolean(isCombo),
           // keep all extra diagnostics in metadata to avoid type conflicts
@@ -87,6 +115,8 @@ export const createNamingRuleExecutor = (): NamingRuleExecutor => {
           },
           // example is optional in many shapes; include only if present
           ...(evaluated.example ? { example: evaluated.example } : {}),
+          // preserve quick-fix so the panel can offer to apply it
+          ...(evaluated.fix ? { fix: evaluated.fix } : {}),
           // preserve expanded view capabilities from rule evaluation
           ...(evaluated.expandedViewCapabilities ? { expandedViewCapabilities: evaluated.expandedViewCapabilities } : {}),
         };
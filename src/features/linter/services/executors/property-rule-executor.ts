@@ -5,6 +5,14 @@ import type {
   Severity,
 } from "@/features/linter/model/rule.types";
 import type { StyleInfo } from "@/entities/style/model/style.types";
+import {
+  BASE_STYLE_CONTEXT,
+  describeStyleContext,
+  isBaseStyleContext,
+  parseStyleContextKey,
+  type StyleContext,
+} from "@/entities/style/model/style-contexts";
+import { getCachedColorVariables } from "@/entities/variable";
 import type { RuleRegistry } from "@/features/linter/services/rule-registry";
 import type { UtilityClassAnalyzer } from "@/features/linter/services/analyzers/utility-class-analyzer";
 
@@ -18,7 +26,8 @@ export type ExecutePropertyRule = (
   getClassType?: (
     className: string,
     isCombo?: boolean
-  ) => import("@/features/linter/model/rule.types").ClassType
+  ) => import("@/features/linter/model/rule.types").ClassType,
+  propertiesByContext?: StyleInfo["propertiesByContext"]
 ) => RuleResult[];
 
 /**
@@ -36,7 +45,8 @@ export const createPropertyRuleExecutor = (
     properties,
     severity,
     allStyles,
-    getClassType
+    getClassType,
+    propertiesByContext
   ): RuleResult[] {
     // Build/ensure property maps once for this run
     if (typeof (utilityAnalyzer as any).ensureBuilt === "function") {
@@ -45,33 +55,55 @@ export const createPropertyRuleExecutor = (
       utilityAnalyzer.buildPropertyMaps(allStyles);
     }
 
-    const context = {
+    const baseContext = {
       allStyles,
       utilityClassPropertiesMap: utilityAnalyzer.getUtilityClassPropertiesMap(),
       propertyToClassesMap: utilityAnalyzer.getPropertyToClassesMap(),
       // Add utility analyzer and class type resolver to context
       utilityAnalyzer,
       getClassType,
+      colorVariables: getCachedColorVariables(),
       // Rule-specific options (from configuration service)
       config: ruleRegistry.getRuleConfiguration(rule.id)?.customSettings,
     };
 
-    const violations = rule.analyze(className, properties, context);
+    // Base-only rules see exactly what they always did
+    const runs: Array<[StyleContext, Record<string, unknown>]> =
+      rule.contexts === "all" && propertiesByContext
+        ? Object.entries(propertiesByContext).map(([key, props]) => [
+            parseStyleContextKey(key),
+            props,
+          ])
+        : [[BASE_STYLE_CONTEXT, properties]];
 
-    return violations.map((v) => ({
-      ruleId: v.ruleId,
-      name: v.name,
-      message: v.message,
-      severity,
-      className: v.className,
-      isCombo: v.isCombo,
-      example: rule.example,
-      metadata: v.metadata,
-      fix: v.fix,
-      // preserve expanded view capabilities from rule results
-      ...(v.expandedViewCapabilities
-        ? { expandedViewCapabilities: v.expandedViewCapabilities }
-        : {}),
-    }));
+    return runs.flatMap(([styleContext, props]) => {
+      const violations = rule.analyze(className, props, {
+        ...baseContext,
+        styleContext,
+      });
+      const located = rule.contexts === "all";
+      const where = describeStyleContext(styleContext);
+
+      return violations.map((v) => ({
+        ruleId: v.ruleId,
+        name: v.name,
+        message:
+          located && !isBaseStyleContext(styleContext)
+            ? `${v.message} (${where})`
+            : v.message,
+        severity,
+        className: v.className,
+        isCombo: v.isCombo,
+        example: rule.example,
+        metadata: located
+          ? { ...(v.metadata ?? {}), styleContext, styleLocation: where }
+          : v.metadata,
+        fix: v.fix,
+        // preserve expanded view capabilities from rule results
+        ...(v.expandedViewCapabilities
+          ? { expandedViewCapabilities: v.expandedViewCapabilities }
+          : {}),
+      }));
+    });
   };
 };
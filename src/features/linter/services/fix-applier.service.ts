@@ -0,0 +1,785 @@
+// src/features/linter/services/fix-applier.service.ts
+import type { QuickFix, RuleResult } from "@/features/linter/model/rule.types";
+import { findElementById } from "@/entities/element/lib/find-element";
+import { toElementKey } from "@/entities/element/lib/id";
+import {
+  STYLE_BREAKPOINTS,
+  STYLE_PSEUDO_STATES,
+  parseStyleContextKey,
+  toStyleContextKey,
+} from "@/entities/style/model/style-contexts";
+import { resetStyleServiceCache } from "@/entities/style/services/style-service-cache";
+import type {
+  FixJournalEntry,
+  FixJournalService,
+  NewFixJournalEntry,
+} from "@/features/linter/services/fix-journal.service";
+
+export type FixApplyStatus = "applied" | "skipped" | "failed" | "collision";
+
+export interface FixApplyOptions {
+  /** Resolve a global rename collision by moving elements onto the existing style */
+  mergeOnCollision?: boolean;
+}
+
+export interface FixApplyResult {
+  status: FixApplyStatus;
+  message: string;
+  elementId: string;
+  fix: QuickFix;
+  previousClasses?: string[];
+  nextClasses?: string[];
+  /** Name of a style created while applying the fix */
+  createdStyle?: string;
+  /** Journal entry recorded for the change, when a journal is attached */
+  journalEntry?: FixJournalEntry;
+  /** Number of elements moved onto the existing style during a merge */
+  mergedElements?: number;
+  /** Source style removed once a merge left it unused */
+  removedStyle?: string;
+}
+
+export interface UndoResult {
+  status: FixApplyStatus;
+  message: string;
+  entry: FixJournalEntry;
+}
+
+const FIX_KINDS: ReadonlyArray<QuickFix["kind"]> = [
+  "rename-class",
+  "reorder-classes",
+  "add-class",
+  "remove-class",
+  "set-variable",
+];
+
+/**
+ * Returns the quick-fix attached to a result. Naming rules using the boolean
+ * `test` API tuck their fix inside `metadata.fix`, so both places are checked.
+ */
+export function getQuickFix(result: RuleResult): QuickFix | null {
+  const candidate: any = result.fix ?? result.metadata?.fix;
+  if (!candidate || typeof candidate !== "object") return null;
+  return FIX_KINDS.includes(candidate.kind) ? (candidate as QuickFix) : null;
+}
+
+/** Element id a result refers to, wherever the runner placed it */
+export function getResultElementId(result: RuleResult): string | null {
+  const id = result.elementId ?? result.metadata?.elementId;
+  return typeof id === "string" && id.length > 0 ? id : null;
+}
+
+/**
+ * Pure class-list transform for a quick-fix. Used for previews and to compute
+ * the class list the applier writes back through the Designer API.
+ */
+export function applyFixToClassList(classes: string[], fix: QuickFix): string[] {
+  switch (fix.kind) {
+    case "rename-class":
+      return classes.map((c) => (c === fix.from ? fix.to : c));
+    case "reorder-classes": {
+      const ordered = fix.order.filter((c) => classes.includes(c));
+      const rest = classes.filter((c) => !ordered.includes(c));
+      return [...ordered, ...rest];
+    }
+    case "add-class":
+      return classes.includes(fix.className)
+        ? classes
+        : [...classes, fix.className];
+    case "remove-class":
+      return classes.filter((c) => c !== fix.className);
+    case "set-variable":
+      // Edits a style declaration; the class list stays as it is
+      return classes;
+  }
+}
+
+export const createFixApplierService = (
+  deps: { journal?: FixJournalService } = {}
+) => {
+  const { journal } = deps;
+  const getWebflow = (): any => (window as any).webflow;
+
+  async function readStyles(element: any) {
+    const styles: any[] = ((await element.getStyles()) ?? []).filter(Boolean);
+    const names = await Promise.all(
+      styles.map(async (s) => String((await s.getName()) ?? ""))
+    );
+    return { styles, names };
+  }
+
+  /** Declarations of every breakpoint and pseudo-state that sets any */
+  async function readPropertiesByContext(
+    style: any
+  ): Promise<Record<string, Record<string, unknown>>> {
+    const byContext: Record<string, Record<string, unknown>> = {};
+    for (const breakpoint of STYLE_BREAKPOINTS) {
+      for (const pseudo of [null, ...STYLE_PSEUDO_STATES]) {
+        const options = pseudo ? { breakpoint, pseudo } : { breakpoint };
+        try {
+          const props = await style.getProperties(options);
+          if (props && Object.keys(props).length > 0) {
+            byContext[toStyleContextKey({ breakpoint, pseudo })] = props;
+          }
+        } catch {
+          // Breakpoint or state may be unavailable on this plan; skip it
+        }
+      }
+    }
+    return byContext;
+  }
+
+  async function writePropertiesByContext(
+    style: any,
+    byContext: Record<string, Record<string, unknown>>
+  ): Promise<void> {
+    for (const [key, props] of Object.entries(byContext)) {
+      const { breakpoint, pseudo } = parseStyleContextKey(key);
+      try {
+        await style.setProperties(
+          props,
+          pseudo ? { breakpoint, pseudo } : { breakpoint }
+        );
+      } catch {
+        // Breakpoint or state may be unavailable on this plan; skip it
+      }
+    }
+  }
+
+  /**
+   * Copies declarations across breakpoints and pseudo-states so a renamed
+   * copy looks (and hovers, focuses, …) the same
+   */
+  async function copyProperties(source: any, target: any): Promise<void> {
+    await writePropertiesByContext(target, await readPropertiesByContext(source));
+  }
+
+  /**
+   * Looks up a style by name, creating it when missing. When `source` is given
+   * the new style is a detached copy of it (combo parent and properties).
+   */
+  async function resolveOrCreateStyle(
+    name: string,
+    elementStyles: any[],
+    source?: any
+  ): Promise<{ style: any; created: boolean }> {
+    const wf = getWebflow();
+    const existing = await wf.getStyleByName(name);
+    if (existing) return { style: existing, created: false };
+
+    let parent: any;
+    if (source && typeof source.isComboClass === "function") {
+      if (await source.isComboClass()) {
+        for (const s of elementStyles) {
+          if (s === source) continue;
+          if (typeof s.isComboClass === "function" && !(await s.isComboClass())) {
+            parent = s;
+            break;
+          }
+        }
+      }
+    }
+
+    const style = await wf.createStyle(name, parent ? { parent } : undefined);
+    if (source) await copyProperties(source, style);
+    return { style, created: true };
+  }
+
+  /**
+   * Renames the underlying style so every element on every page picks up the
+   * new name. When the target name is taken, either reports the collision or
+   * merges every element on the site onto the existing style.
+   */
+  async function applyGlobalRename(
+    elementId: string,
+    fix: Extract<QuickFix, { kind: "rename-class" }>,
+    meta: { ruleId?: string },
+    options: FixApplyOptions
+  ): Promise<FixApplyResult> {
+    const base = { elementId, fix };
+    const wf = getWebflow();
+    const source = await wf.getStyleByName(fix.from);
+    if (!source) {
+      return {
+        ...base,
+        status: "failed",
+        message: `Style "${fix.from}" not found`,
+      };
+    }
+
+    const existing = await wf.getStyleByName(fix.to);
+    if (existing && !options.mergeOnCollision) {
+      return {
+        ...base,
+        status: "collision",
+        message: `A style named "${fix.to}" already exists`,
+      };
+    }
+
+    if (!existing) {
+      const element = await findElementById(elementId);
+      const before = element ? (await readStyles(element)).names : [];
+      await source.setName(fix.to);
+      resetStyleServiceCache();
+
+      const journalEntry = journal?.record({
+        elementId,
+        ruleId: meta.ruleId,
+        description: describeFix(fix),
+        previousClasses: before,
+        nextClasses: before.map((n) => (n === fix.from ? fix.to : n)),
+        renamedStyle: { from: fix.from, to: fix.to },
+      });
+      return {
+        ...base,
+        status: "applied",
+        message: `Renamed "${fix.from}" to "${fix.to}" site-wide`,
+        journalEntry,
+      };
+    }
+
+    return mergeIntoExistingStyle(fix, source, existing, meta, base);
+  }
+
+  /**
+   * Swaps `from` for `to` on every element of the current page. `parent` is
+   * the class `from` was stacked on, for recreating a removed combo on undo.
+   */
+  async function mergeOnCurrentPage(
+    fix: Extract<QuickFix, { kind: "rename-class" }>,
+    target: any,
+    meta: { ruleId?: string },
+    pageId: string | undefined
+  ): Promise<{ merged: number; remaining: number; parent: string | null }> {
+    const wf = getWebflow();
+    let merged = 0;
+    let parent: string | null = null;
+    for (const el of ((await wf.getAllElements()) ?? []) as any[]) {
+      if (!el || typeof el.getStyles !== "function") continue;
+      const { styles, names } = await readStyles(el);
+      const idx = names.indexOf(fix.from);
+      if (idx === -1) continue;
+      const nextStyles = names.includes(fix.to)
+        ? styles.filter((_, i) => i !== idx)
+        : styles.map((st, i) => (i === idx ? target : st));
+      await el.setStyles(nextStyles);
+      merged += 1;
+      if (idx > 0) parent ??= names[idx - 1];
+      journal?.record({
+        elementId: toElementKey(el),
+        ruleId: meta.ruleId,
+        description: `Merge "${fix.from}" into "${fix.to}"`,
+        pageId,
+        previousClasses: names,
+        nextClasses: names.includes(fix.to)
+          ? names.filter((_, i) => i !== idx)
+          : names.map((n, i) => (i === idx ? fix.to : n)),
+      });
+    }
+
+    // Re-read the page: anything still on `from` keeps the source style alive
+    let remaining = 0;
+    for (const el of ((await wf.getAllElements()) ?? []) as any[]) {
+      if (!el || typeof el.getStyles !== "function") continue;
+      if ((await readStyles(el)).names.includes(fix.from)) remaining += 1;
+    }
+    return { merged, remaining, parent };
+  }
+
+  /** True when a component definition still applies the class */
+  async function isUsedInComponents(name: string): Promise<boolean> {
+    const wf = getWebflow();
+    if (typeof wf.getAllComponents !== "function") return false;
+    for (const component of ((await wf.getAllComponents()) ?? []) as any[]) {
+      try {
+        const stack: any[] = [await component.getRootElement()];
+        while (stack.length > 0) {
+          const el = stack.pop();
+          if (!el) continue;
+          if (
+            typeof el.getStyles === "function" &&
+            (await readStyles(el)).names.includes(name)
+          ) {
+            return true;
+          }
+          if (el.children && typeof el.getChildren === "function") {
+            stack.push(...((await el.getChildren()) ?? []));
+          }
+        }
+      } catch {
+        // Unreadable (e.g. library) components count as using it
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Moves every element on every page from the source style onto the
+   * existing one, then removes the source style once nothing uses it. The
+   * Designer API only exposes the current page's elements, so the merge
+   * switches through the site's pages and returns to the starting page.
+   * A page that cannot be opened aborts the merge and keeps the source.
+   */
+  async function mergeIntoExistingStyle(
+    fix: Extract<QuickFix, { kind: "rename-class" }>,
+    source: any,
+    existing: any,
+    meta: { ruleId?: string },
+    base: Pick<FixApplyResult, "elementId" | "fix">
+  ): Promise<FixApplyResult> {
+    const wf = getWebflow();
+    if (typeof wf.getAllPagesAndFolders !== "function") {
+      return {
+        ...base,
+        status: "failed",
+        message: "Designer API cannot list the site's pages",
+      };
+    }
+    const pages: any[] = ((await wf.getAllPagesAndFolders()) ?? []).filter(
+      (p: any) => p?.type === "Page"
+    );
+
+    let mergedElements = 0;
+    let remaining = 0;
+    let parent: string | null = null;
+    let abortedAt: string | null = null;
+    const startPage = await wf.getCurrentPage?.();
+    try {
+      for (const page of pages) {
+        try {
+          await wf.switchPage(page);
+          const pageResult = await mergeOnCurrentPage(
+            fix,
+            existing,
+            meta,
+            page.id
+          );
+          mergedElements += pageResult.merged;
+          remaining += pageResult.remaining;
+          parent ??= pageResult.parent;
+        } catch (err) {
+          abortedAt = String((await page.getName?.()) ?? page.id);
+          console.warn(
+            `[FixApplier] Merge stopped at page "${abortedAt}"`,
+            err
+          );
+          break;
+        }
+      }
+    } finally {
+      if (startPage) await wf.switchPage(startPage).catch(() => {});
+    }
+
+    const merged = `${mergedElements} element${mergedElements === 1 ? "" : "s"}`;
+    if (abortedAt !== null) {
+      return {
+        ...base,
+        status: "failed",
+        message: `Merge stopped at page "${abortedAt}" after moving ${merged}; "${fix.from}" was kept`,
+        mergedElements,
+      };
+    }
+
+    let removedStyle: string | undefined;
+    let kept = "";
+    if (remaining > 0) {
+      kept = `; "${fix.from}" is still used on ${remaining} element${
+        remaining === 1 ? "" : "s"
+      } and was kept`;
+    } else if (await isUsedInComponents(fix.from)) {
+      kept = `; "${fix.from}" is still used in components and was kept`;
+    } else {
+      try {
+        // Journal the style first so undo can recreate it for the elements
+        const isCombo =
+          typeof source.isComboClass === "function" &&
+          (await source.isComboClass());
+        const removal: NewFixJournalEntry = {
+          elementId: base.elementId,
+          ruleId: meta.ruleId,
+          description: `Remove merged style "${fix.from}"`,
+          previousClasses: [],
+          nextClasses: [],
+          removedStyle: {
+            name: fix.from,
+            parent: isCombo ? parent : null,
+            propertiesByContext: await readPropertiesByContext(source),
+          },
+        };
+        await wf.removeStyle(source);
+        journal?.record(removal);
+        removedStyle = fix.from;
+      } catch (err) {
+        kept = `; "${fix.from}" could not be removed (${
+          err instanceof Error ? err.message : "removal failed"
+        })`;
+      }
+    }
+    resetStyleServiceCache();
+
+    return {
+      ...base,
+      status: mergedElements > 0 || removedStyle ? "applied" : "skipped",
+      message:
+        mergedElements > 0
+          ? `Merged "${fix.from}" into "${fix.to}" on ${merged} across ${
+              pages.length
+            } page${pages.length === 1 ? "" : "s"}${
+              removedStyle ? ` and removed "${fix.from}"` : kept
+            }`
+          : removedStyle
+            ? `No elements used "${fix.from}"; removed it`
+            : `No elements use "${fix.from}"${kept}`,
+      mergedElements,
+      removedStyle,
+    };
+  }
+
+  /** Finds a variable by id across the site's collections */
+  async function findVariable(variableId: string): Promise<any | null> {
+    const wf = getWebflow();
+    const collections: any[] =
+      typeof wf.getAllVariableCollections === "function"
+        ? ((await wf.getAllVariableCollections()) ?? [])
+        : [await wf.getDefaultVariableCollection?.()].filter(Boolean);
+    for (const collection of collections) {
+      const variable = await collection.getVariable?.(variableId);
+      if (variable) return variable;
+    }
+    return null;
+  }
+
+  /**
+   * Replaces a hardcoded declaration with a variable reference on the style
+   * itself, so every element using the class picks up the change.
+   */
+  async function applySetVariable(
+    elementId: string,
+    fix: Extract<QuickFix, { kind: "set-variable" }>,
+    meta: { ruleId?: string }
+  ): Promise<FixApplyResult> {
+    const base = { elementId, fix };
+    const wf = getWebflow();
+    const element = await findElementById(elementId);
+    const { styles, names } = element
+      ? await readStyles(element)
+      : { styles: [] as any[], names: [] as string[] };
+    const idx = names.indexOf(fix.styleName);
+    // Combo classes may not resolve by name alone, so prefer the element's copy
+    const style =
+      idx >= 0 ? styles[idx] : await wf.getStyleByName(fix.styleName);
+    if (!style || typeof style.setProperty !== "function") {
+      return {
+        ...base,
+        status: "failed",
+        message: `Style "${fix.styleName}" not found`,
+      };
+    }
+
+    const variable = await findVariable(fix.variableId);
+    if (!variable) {
+      return {
+        ...base,
+        status: "failed",
+        message: `Variable "${fix.variableName}" no longer exists`,
+      };
+    }
+
+    const options = {
+      breakpoint: fix.breakpoint ?? "main",
+      ...(fix.pseudo ? { pseudo: fix.pseudo } : {}),
+    };
+    const current = await style.getProperties?.(options);
+    const previousValue = current?.[fix.property];
+    await style.setProperty(fix.property, variable, options);
+    resetStyleServiceCache();
+
+    const journalEntry = journal?.record({
+      elementId,
+      ruleId: meta.ruleId,
+      description: describeFix(fix),
+      previousClasses: names,
+      nextClasses: names,
+      propertyChange: {
+        styleName: fix.styleName,
+        property: fix.property,
+        breakpoint: options.breakpoint,
+        pseudo: fix.pseudo ?? null,
+        previousValue:
+          typeof previousValue === "string" ? previousValue : null,
+        variableId: fix.variableId,
+      },
+    });
+
+    return {
+      ...base,
+      status: "applied",
+      message: describeFix(fix),
+      previousClasses: names,
+      nextClasses: names,
+      journalEntry,
+    };
+  }
+
+  async function applyFix(
+    elementId: string,
+    fix: QuickFix,
+    meta: { ruleId?: string } = {},
+    options: FixApplyOptions = {}
+  ): Promise<FixApplyResult> {
+    const base = { elementId, fix };
+    const wf = getWebflow();
+    if (!wf || typeof wf.getStyleByName !== "function") {
+      return { ...base, status: "failed", message: "Designer API unavailable" };
+    }
+
+    if (fix.kind === "rename-class" && fix.scope === "global") {
+      return applyGlobalRename(elementId, fix, meta, options);
+    }
+    if (fix.kind === "set-variable") {
+      return applySetVariable(elementId, fix, meta);
+    }
+
+    const element = await findElementById(elementId);
+    if (!element || typeof element.setStyles !== "function") {
+      return {
+        ...base,
+        status: "failed",
+        message: "Element not found on the current page",
+      };
+    }
+
+    const { styles, names } = await readStyles(element);
+    const nextNames = applyFixToClassList(names, fix);
+    if (nextNames.join("\n") === names.join("\n")) {
+      return {
+        ...base,
+        status: "skipped",
+        message: "Element already matches the suggested fix",
+        previousClasses: names,
+        nextClasses: names,
+      };
+    }
+
+    const styleByName = new Map<string, any>();
+    names.forEach((n, i) => styleByName.set(n, styles[i]));
+
+    let createdStyle: string | undefined;
+    if (fix.kind === "rename-class" || fix.kind === "add-class") {
+      const targetName = fix.kind === "rename-class" ? fix.to : fix.className;
+      const source =
+        fix.kind === "rename-class" ? styleByName.get(fix.from) : undefined;
+      if (fix.kind === "rename-class" && !source) {
+        return {
+          ...base,
+          status: "skipped",
+          message: `Class "${fix.from}" is no longer on this element`,
+          previousClasses: names,
+        };
+      }
+      const resolved = await resolveOrCreateStyle(targetName, styles, source);
+      styleByName.set(targetName, resolved.style);
+      if (resolved.created) createdStyle = targetName;
+    }
+
+    const nextStyles = nextNames
+      .map((n) => styleByName.get(n))
+      .filter(Boolean);
+    await element.setStyles(nextStyles);
+
+    if (createdStyle) resetStyleServiceCache();
+
+    const journalEntry = journal?.record({
+      elementId,
+      ruleId: meta.ruleId,
+      description: describeFix(fix),
+      previousClasses: names,
+      nextClasses: nextNames,
+      ...(createdStyle ? { createdStyle } : {}),
+    });
+
+    return {
+      ...base,
+      status: "applied",
+      message: describeFix(fix),
+      previousClasses: names,
+      nextClasses: nextNames,
+      createdStyle,
+      journalEntry,
+    };
+  }
+
+  /**
+   * Restores the class list recorded before a journaled fix, in the original
+   * `getStyles()` order. Styles created by the fix are left in place since
+   * other elements may have picked them up since. Declaration changes are
+   * reverted on the style instead.
+   */
+  async function undoEntry(entry: FixJournalEntry): Promise<UndoResult> {
+    const wf = getWebflow();
+    if (!wf || typeof wf.getStyleByName !== "function") {
+      return { entry, status: "failed", message: "Designer API unavailable" };
+    }
+
+    if (entry.propertyChange) {
+      const change = entry.propertyChange;
+      const element = await findElementById(entry.elementId);
+      const { styles, names } = element
+        ? await readStyles(element)
+        : { styles: [] as any[], names: [] as string[] };
+      const idx = names.indexOf(change.styleName);
+      const style =
+        idx >= 0 ? styles[idx] : await wf.getStyleByName(change.styleName);
+      if (!style) {
+        return {
+          entry,
+          status: "failed",
+          message: `Style "${change.styleName}" not found`,
+        };
+      }
+      const options = {
+        breakpoint: change.breakpoint,
+        ...(change.pseudo ? { pseudo: change.pseudo } : {}),
+      };
+      if (change.previousValue !== null) {
+        await style.setProperty(change.property, change.previousValue, options);
+      } else {
+        await style.removeProperty?.(change.property, options);
+      }
+      resetStyleServiceCache();
+      if (journal) journal.markUndone([entry.id]);
+      return { entry, status: "applied", message: `Undid: ${entry.description}` };
+    }
+
+    if (entry.removedStyle) {
+      const removed = entry.removedStyle;
+      if (!(await wf.getStyleByName(removed.name))) {
+        const parent = removed.parent
+          ? await wf.getStyleByName(removed.parent)
+          : null;
+        if (removed.parent && !parent) {
+          return {
+            entry,
+            status: "failed",
+            message: `Parent style "${removed.parent}" not found`,
+          };
+        }
+        const style = await wf.createStyle(
+          removed.name,
+          parent ? { parent } : undefined
+        );
+        await writePropertiesByContext(style, removed.propertiesByContext);
+        resetStyleServiceCache();
+      }
+      if (journal) journal.markUndone([entry.id]);
+      return { entry, status: "applied", message: `Recreated "${removed.name}"` };
+    }
+
+    if (entry.renamedStyle) {
+      const renamed = await wf.getStyleByName(entry.renamedStyle.to);
+      if (renamed && typeof renamed.setName === "function") {
+        await renamed.setName(entry.renamedStyle.from);
+        resetStyleServiceCache();
+      }
+    }
+
+    const element = await findElementById(entry.elementId);
+    if (!element && entry.pageId) {
+      // Merges touch every page; restore the element where it lives
+      const restored = await onPage(entry.pageId, async () => {
+        const onItsPage = await findElementById(entry.elementId);
+        return onItsPage ? restoreClasses(entry, onItsPage) : null;
+      });
+      if (restored) return restored;
+    }
+    if (!element || typeof element.setStyles !== "function") {
+      if (entry.renamedStyle && journal) journal.markUndone([entry.id]);
+      return {
+        entry,
+        status: entry.renamedStyle ? "applied" : "failed",
+        message: entry.renamedStyle
+          ? `Renamed "${entry.renamedStyle.to}" back to "${entry.renamedStyle.from}"`
+          : "Element not found on the current page",
+      };
+    }
+
+    return restoreClasses(entry, element);
+  }
+
+  /** Puts the recorded class list back; fails if any class is gone */
+  async function restoreClasses(
+    entry: FixJournalEntry,
+    element: any
+  ): Promise<UndoResult> {
+    if (typeof element?.setStyles !== "function") {
+      return { entry, status: "failed", message: "Element cannot be edited" };
+    }
+    const wf = getWebflow();
+    const styles: any[] = [];
+    const missing: string[] = [];
+    for (const [i, name] of entry.previousClasses.entries()) {
+      // Combo classes may only resolve by their full path (base → combo)
+      const style =
+        (await wf.getStyleByName(name)) ??
+        (i > 0
+          ? await wf.getStyleByName(entry.previousClasses.slice(0, i + 1))
+          : null);
+      if (style) styles.push(style);
+      else missing.push(name);
+    }
+    if (missing.length > 0) {
+      return {
+        entry,
+        status: "failed",
+        message: `Missing styles: ${missing.join(", ")}`,
+      };
+    }
+    await element.setStyles(styles);
+
+    if (journal) journal.markUndone([entry.id]);
+    return { entry, status: "applied", message: `Undid: ${entry.description}` };
+  }
+
+  /** Runs `run` on another page, then returns to the current one */
+  async function onPage<T>(
+    pageId: string,
+    run: () => Promise<T>
+  ): Promise<T | null> {
+    const wf = getWebflow();
+    if (typeof wf.getAllPagesAndFolders !== "function") return null;
+    const page = ((await wf.getAllPagesAndFolders()) ?? []).find(
+      (p: any) => p?.type === "Page" && p.id === pageId
+    );
+    if (!page) return null;
+    const startPage = await wf.getCurrentPage?.();
+    try {
+      await wf.switchPage(page);
+      return await run();
+    } finally {
+      if (startPage) await wf.switchPage(startPage).catch(() => {});
+    }
+  }
+
+  return { applyFix, undoEntry } as const;
+};
+
+export type FixApplierService = ReturnType<typeof createFixApplierService>;
+
+/** Short human-readable label for a quick-fix */
+export function describeFix(fix: QuickFix): string {
+  switch (fix.kind) {
+    case "rename-class":
+      return fix.scope === "global"
+        ? `Rename "${fix.from}" to "${fix.to}" site-wide`
+        : `Rename "${fix.from}" to "${fix.to}"`;
+    case "reorder-classes":
+      return `Reorder classes: ${fix.order.join(" → ")}`;
+    case "add-class":
+      return `Add class "${fix.className}"`;
+    case "remove-class":
+      return `Remove class "${fix.className}"`;
+    case "set-variable":
+      return `Use variable "${fix.variableName}" for ${fix.property} on "${fix.styleName}"`;
+  }
+}
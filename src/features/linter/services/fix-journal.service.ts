@@ -0,0 +1,145 @@
+// features/linter/services/fix-journal.service.ts
+import { stableStringify } from "@/shared/lib";
+import {
+  createLocalStorageAdapter,
+  type StorageAdapter,
+} from "@/features/linter/services/rule-configuration-service";
+
+/* ---------- Entry shape ---------- */
+export interface FixJournalEntry {
+  id: string;
+  /** Session that applied the fix; one per extension load */
+  sessionId: string;
+  timestamp: string;
+  elementId: string;
+  ruleId?: string;
+  description: string;
+  /** Class names in `getStyles()` order before and after the fix */
+  previousClasses: string[];
+  nextClasses: string[];
+  /** Style created by the fix (detached copy or added class) */
+  createdStyle?: string;
+  /** Style renamed in place by the fix */
+  renamedStyle?: { from: string; to: string };
+  /** Style removed once a merge left it unused; undo recreates it */
+  removedStyle?: {
+    name: string;
+    /** Base class a combo was stacked on; recreated as its parent */
+    parent: string | null;
+    /** Declarations keyed like `StyleInfo.propertiesByContext` */
+    propertiesByContext: Record<string, Record<string, unknown>>;
+  };
+  /** Page the element was on, when the fix switched pages (merges) */
+  pageId?: string;
+  /** Style declaration replaced by the fix; undo writes `previousValue` back */
+  propertyChange?: {
+    styleName: string;
+    property: string;
+    breakpoint: string;
+    pseudo: string | null;
+    previousValue: string | null;
+    variableId: string;
+  };
+  /** Set once the entry has been reverted */
+  undoneAt?: string;
+}
+
+export type NewFixJournalEntry = Omit<
+  FixJournalEntry,
+  "id" | "sessionId" | "timestamp" | "undoneAt"
+>;
+
+/* ---------- File format (v1) ---------- */
+type SerializedJournalV1 = {
+  version: 1;
+  entries: FixJournalEntry[];
+};
+
+const DEFAULT_MAX_ENTRIES = 200;
+
+const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Session id shared by every journal instance created in this page load */
+const currentSessionId = createSessionId();
+let entrySeq = 0;
+
+export type FixJournalServiceOptions = {
+  storage?: StorageAdapter;
+  storageKey?: string;
+  sessionId?: string;
+  maxEntries?: number;
+  /** Testability point for timestamps */
+  nowISO?: () => string;
+};
+
+export const createFixJournalService = (opts: FixJournalServiceOptions = {}) => {
+  const storageKey = opts.storageKey ?? "codalyn.linter.fix-journal.v1";
+  const storage = opts.storage ?? createLocalStorageAdapter(storageKey);
+  const sessionId = opts.sessionId ?? currentSessionId;
+  const maxEntries = opts.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const nowISO = opts.nowISO ?? (() => new Date().toISOString());
+
+  const readEntries = (): FixJournalEntry[] => {
+    try {
+      const raw = storage.read();
+      if (!raw) return [];
+      const parsed = JSON.parse(raw) as SerializedJournalV1;
+      return Array.isArray(parsed?.entries) ? parsed.entries : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const writeEntries = (entries: FixJournalEntry[]) => {
+    const file: SerializedJournalV1 = {
+      version: 1,
+      entries: entries.slice(-maxEntries),
+    };
+    storage.write(stableStringify(file));
+  };
+
+  /** Appends an entry and returns it with id, session and timestamp filled in */
+  const record = (entry: NewFixJournalEntry): FixJournalEntry => {
+    entrySeq += 1;
+    const full: FixJournalEntry = {
+      ...entry,
+      id: `${sessionId}:${entrySeq}`,
+      sessionId,
+      timestamp: nowISO(),
+    };
+    writeEntries([...readEntries(), full]);
+    return full;
+  };
+
+  /** All entries, oldest first */
+  const getEntries = (): FixJournalEntry[] => readEntries();
+
+  /** Entries from this session that have not been undone, newest first */
+  const getUndoableSessionEntries = (): FixJournalEntry[] =>
+    readEntries()
+      .filter((e) => e.sessionId === sessionId && !e.undoneAt)
+      .reverse();
+
+  const markUndone = (ids: ReadonlyArray<string>): void => {
+    if (ids.length === 0) return;
+    const idSet = new Set(ids);
+    const at = nowISO();
+    writeEntries(
+      readEntries().map((e) => (idSet.has(e.id) ? { ...e, undoneAt: at } : e))
+    );
+  };
+
+  const clear = (): void => writeEntries([]);
+
+  return {
+    sessionId,
+    record,
+    getEntries,
+    getUndoableSessionEntries,
+    markUndone,
+    clear,
+  } as const;
+};
+
+export type FixJournalService = ReturnType<typeof createFixJournalService>;
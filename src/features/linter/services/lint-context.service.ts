@@ -2,10 +2,14 @@ import type {
   RoleDetectionConfig,
   RolesByElement,
 } from "@/features/linter/model/linter.types";
-import type { RoleDetector } from "@/features/linter/model/preset.types";
+import type {
+  RoleDetector,
+  RoleDiagnostics,
+} from "@/features/linter/model/preset.types";
 import type {
   WebflowElement,
   ElementWithClassNames,
+  ElementSemantics,
 } from "@/entities/element/model/element.types";
 
 import { lumosGrammar } from "@/features/linter/grammar/lumos.grammar";
@@ -17,7 +21,13 @@ import {
   createElementGraphService,
   type ElementGraph,
 } from "@/entities/element/services/element-graph.service";
-import { createParentRelationshipService } from "@/entities/element/services/parent-relationship.service";
+import {
+  createElementTreeService,
+  type ElementTree,
+} from "@/entities/element/services/element-tree.service";
+import { createSnapshotCollector } from "@/entities/element/services/snapshot-collector.service";
+import type { ElementContent } from "@/entities/element/lib/element-content";
+import type { RolePins } from "@/features/linter/lib/role-pins";
 // Cache for page lint context to improve performance for page mode
 let cachedPageContext: LintContext | null = null;
 
@@ -60,6 +70,14 @@ export interface LintContext {
   parseClass: (name: string) => any;
   tagByElementId: Map<string, string | null>;
   elementTypeByElementId: Map<string, string | null>;
+  /** Custom attributes per element (only elements that have any) */
+  attributesByElementId: Map<string, Record<string, string>>;
+  /** Alt text, link text and DOM ids (only elements that have any) */
+  contentByElementId: Map<string, ElementContent>;
+  /** Tag, type, text, attributes and position read from the Designer */
+  semanticsByElementId: Map<string, ElementSemantics>;
+  /** Detector verdicts behind each role, for the role explainer */
+  roleDiagnosticsByElementId: Record<string, RoleDiagnostics>;
 }
 
 export interface LintContextService {
@@ -83,12 +101,32 @@ function filterValidElements(elements: WebflowElement[]): WebflowElement[] {
   return elements.filter((el: any) => el && typeof el.getStyles === "function");
 }
 
+/**
+ * Page root to traverse from, so top-level elements keep their order.
+ * Single-element contexts skip it to avoid walking the whole page.
+ */
+async function getPageRoot(
+  elements: WebflowElement[]
+): Promise<WebflowElement | null> {
+  if (elements.length < 2) return null;
+  try {
+    const wf = (window as any).webflow;
+    if (!wf || typeof wf.getRootElement !== "function") return null;
+    return (await wf.getRootElement()) ?? null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Creates signature for caching based on elements and their relationships
  */
 function createSignature(
   pairs: { element: WebflowElement; styles: StyleWithElement[] }[],
-  parentOf: Record<string, string | null>
+  tree: ElementTree,
+  semanticsByElementId: Map<string, ElementSemantics>,
+  contentByElementId: Map<string, ElementContent>,
+  rolePins: RolePins
 ): string {
   const rows = pairs
     .map((p) => {
@@ -101,8 +139,32 @@ function createSignature(
     })
     .sort();
 
-  const tree = Object.entries(parentOf)
-    .map(([child, parent]) => `${child}->${parent ?? ""}`)
+  // Children stay in Designer order so reordering invalidates the cache
+  const structure = [
+    `:${tree.rootIds.join(",")}`,
+    ...Object.entries(tree.childrenIdsByParentId).map(
+      ([parent, children]) => `${parent}:${children.join(",")}`
+    ),
+  ].sort();
+
+  const semantics = Array.from(semanticsByElementId.entries())
+    .map(
+      ([id, sem]) =>
+        `${id}:${sem.tagName ?? ""}|${sem.textContent ?? ""}|${Object.entries(
+          sem.attributes
+        )
+          .map(([k, v]) => `${k}=${v}`)
+          .sort()
+          .join("|")}`
+    )
+    .sort();
+
+  const content = Array.from(contentByElementId.entries())
+    .map(([id, c]) => `${id}:${c.altText ?? ""}|${c.text ?? ""}|${c.domId ?? ""}`)
+    .sort();
+
+  const pins = Object.entries(rolePins)
+    .map(([id, role]) => `${id}:${role}`)
     .sort();
 
   const djb2 = (s: string) => {
@@ -111,13 +173,18 @@ function createSignature(
     return (h >>> 0).toString(36);
   };
 
-  return `v2:${djb2(rows.join("\n"))}:${djb2(tree.join("\n"))}`;
+  return `v7:${djb2(rows.join("\n"))}:${djb2(structure.join("\n"))}:${djb2(
+    semantics.join("\n")
+  )}:${djb2(content.join("\n"))}:${djb2(pins.join("\n"))}`;
 }
 
 export function createLintContextService(deps: {
   styleService: StyleService;
+  /** Roles pinned from the UI for the current page; none when omitted */
+  getRolePins?: () => Promise<RolePins>;
 }): LintContextService {
   const { styleService } = deps;
+  const getRolePins = deps.getRolePins ?? (() => Promise.resolve({}));
 
   // Cache for page contexts to avoid redundant computation
   let cachedContext: LintContext | null = null;
@@ -159,13 +226,44 @@ export function createLintContextService(deps: {
       })
     );
 
-    // 5) Build parent relationships
-    const parentRelationshipService = createParentRelationshipService();
-    const parentIdByChildId =
-      await parentRelationshipService.buildParentChildMap(validElements);
+    // 5) Build the ordered element tree and graph in one traversal
+    const tree = await createElementTreeService().buildTree(
+      validElements,
+      await getPageRoot(validElements)
+    );
+    const graph = createElementGraphService(validElements, tree);
+
+    // 5b) Read tag, type, text, attributes and content for every element
+    // (role detection, semantic and accessibility rules, suppressions)
+    const semanticsByElementId = await createSnapshotCollector().collect(
+      validElements,
+      graph
+    );
+    // 5c) Split out attributes (suppressions) and alt text, link text and
+    // DOM ids (accessibility rules)
+    const attributesByElementId = new Map<string, Record<string, string>>();
+    const contentByElementId = new Map<string, ElementContent>();
+    for (const [id, semantics] of semanticsByElementId) {
+      if (Object.keys(semantics.attributes).length > 0) {
+        attributesByElementId.set(id, { ...semantics.attributes });
+      }
+      if (semantics.content) contentByElementId.set(id, semantics.content);
+    }
+
+    // 5d) Load roles pinned from the UI (attribute pins come with semantics)
+    const rolePins = await getRolePins().catch((err: unknown) => {
+      console.warn("[LintContext] Failed to load role pins:", err);
+      return {};
+    });
 
     // 6) Create signature for caching
-    const signature = createSignature(elementStylePairs, parentIdByChildId);
+    const signature = createSignature(
+      elementStylePairs,
+      tree,
+      semanticsByElementId,
+      contentByElementId,
+      rolePins
+    );
 
     // 7) Check cache
     if (cachedContext && lastSignature === signature) {
@@ -179,49 +277,33 @@ export function createLintContextService(deps: {
         classNames: pair.styles
           .map((s) => s.name)
           .filter((n) => n.trim() !== ""),
+        attributes: attributesByElementId.get(toElementKey(pair.element)),
       }));
 
-    // 9) Create element graph first (needed for structural role detection)
-    const graph = createElementGraphService(validElements, parentIdByChildId);
-
-    // 10) Detect roles with graph context for structural analysis
+    // 9) Detect roles with graph context, element semantics and pins
     const roleDetection = createRoleDetectionService({
       detectors: [...roleDetectors],
       config: roleDetectionConfig,
     });
-    const rolesByElement: RolesByElement = roleDetection.detectRolesForPage(
-      elementsWithClassNames,
-      graph
-    );
+    const { rolesByElement, diagnosticsByElement: roleDiagnosticsByElementId } =
+      roleDetection.detectRolesWithDiagnostics(
+        elementsWithClassNames,
+        graph,
+        semanticsByElementId,
+        rolePins
+      );
 
-    // 11) Collect tag information (for semantic HTML validation)
+    // 10) Tag and element type lookups for semantic HTML and element type checks
     const tagByElementId = new Map<string, string | null>();
-    await Promise.all(
-      elementStylePairs.map(async ({ element }) => {
-        const id = toElementKey(element);
-        try {
-          const tag = await graph.getTag(id);
-          tagByElementId.set(id, tag);
-        } catch (error) {
-          tagByElementId.set(id, null);
-        }
-      })
-    );
-
-    // 12) Collect element type information (for Webflow element type checks)
     const elementTypeByElementId = new Map<string, string | null>();
     for (const { element } of elementStylePairs) {
       const id = toElementKey(element);
-      try {
-        // Use element.type from Webflow API
-        const elementType = (element as any)?.type || null;
-        elementTypeByElementId.set(id, elementType);
-      } catch (error) {
-        elementTypeByElementId.set(id, null);
-      }
+      const semantics = semanticsByElementId.get(id);
+      tagByElementId.set(id, semantics?.tagName ?? null);
+      elementTypeByElementId.set(id, semantics?.elementType ?? null);
     }
 
-    // 13) Create element style map for quick lookup
+    // 11) Create element style map for quick lookup
     const elementStyleMap = new Map<string, StyleWithElement[]>();
     for (const pair of elementStylePairs) {
       const elementId = toElementKey(pair.element);
@@ -239,6 +321,10 @@ export function createLintContextService(deps: {
       parseClass,
       tagByElementId,
       elementTypeByElementId,
+      attributesByElementId,
+      contentByElementId,
+      semanticsByElementId,
+      roleDiagnosticsByElementId,
     };
 
     // Cache for future use
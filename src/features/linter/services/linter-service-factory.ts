@@ -1,16 +1,22 @@
 // src/features/linter/services/linter-service-factory.ts
 import { createStyleService } from "@/entities/style/services/style.service";
+import { createVariableService } from "@/entities/variable";
 import { createUtilityClassAnalyzer } from "@/features/linter/services/analyzers/utility-class-analyzer";
 import { createRuleRunner } from "@/features/linter/services/rule-runner";
 import { createElementLintService } from "@/features/linter/services/element-lint-service";
 import { createPageLintService } from "@/features/linter/services/page-lint-service";
 import { createLintContextService } from "@/features/linter/services/lint-context.service";
 import { createPresetElementsService } from "@/features/linter/services/preset-elements.service";
+import { createFixApplierService } from "@/features/linter/services/fix-applier.service";
+import { createFixJournalService } from "@/features/linter/services/fix-journal.service";
+import { createStyleUsageService } from "@/features/linter/services/style-usage.service";
 import {
   getRuleRegistry,
   getCurrentPreset,
 } from "@/features/linter/model/linter.factory";
 import { resolvePresetOrFallback } from "@/features/linter/presets";
+import { createRolePinService } from "@/features/linter/services/role-pins.service";
+import { getCurrentPageId, getSiteId } from "@/entities/site";
 
 /**
  * Centralized factory for creating linter services with shared dependencies.
@@ -18,10 +24,35 @@ import { resolvePresetOrFallback } from "@/features/linter/presets";
  */
 export function createLinterServices() {
   // Core services - created once and shared
-  const styleService = createStyleService();
+  const styleService = createStyleService({
+    // Breakpoint/pseudo-state declarations cost 62 more Designer calls per
+    // style; fetch them only while an enabled rule reads them
+    needsAllContexts: () =>
+      getRuleRegistry()
+        .getEnabledRules()
+        .some(
+          (rule) =>
+            rule.type === "property" &&
+            (rule.contexts === "all" || rule.readsAllContexts === true)
+        ),
+  });
+  const variableService = createVariableService();
   const analyzer = createUtilityClassAnalyzer();
-  const contextService = createLintContextService({ styleService });
+  const contextService = createLintContextService({
+    styleService,
+    // Pins are read per lint so page switches and pin changes take effect
+    getRolePins: async () => {
+      const [siteId, pageId] = await Promise.all([
+        getSiteId(),
+        getCurrentPageId(),
+      ]);
+      return createRolePinService({ siteId, pageId }).load();
+    },
+  });
   const presetElementsService = createPresetElementsService();
+  const fixJournal = createFixJournalService();
+  const fixApplier = createFixApplierService({ journal: fixJournal });
+  const styleUsageService = createStyleUsageService({ styleService });
 
   // Get active preset for grammar-aware rule runner
   const activePreset = resolvePresetOrFallback(getCurrentPreset());
@@ -36,7 +67,8 @@ export function createLinterServices() {
       if (isCombo === true) return "combo";
       const kind = activeGrammar.parse(name).kind as any;
       return kind === "utility" || kind === "combo" ? kind : "custom";
-    }
+    },
+    activeGrammar.format
   );
 
   // Higher-level services - now using shared context service
@@ -48,12 +80,16 @@ export function createLinterServices() {
 
   return {
     styleService,
+    variableService,
     analyzer,
     contextService,
     ruleRunner,
     elementLintService,
     pageLintService,
     presetElementsService,
+    fixJournal,
+    fixApplier,
+    styleUsageService,
     activePreset,
     activeGrammar,
   } as const;
@@ -2,7 +2,10 @@
 import type { RuleResult } from "@/features/linter/model/rule.types";
 import type { WebflowElement } from "@/entities/element/model/element.types";
 import type { StyleWithElement } from "@/entities/style/model/style.types";
-import type { RuleRunner } from "@/features/linter/services/rule-runner";
+import type {
+  RuleRunner,
+  RuleRunOptions,
+} from "@/features/linter/services/rule-runner";
 import type { LintContextService } from "@/features/linter/services/lint-context.service";
 
 export type PageLintService = ReturnType<typeof createPageLintService>;
@@ -14,7 +17,8 @@ export function createPageLintService(deps: {
   const { contextService, ruleRunner } = deps;
 
   async function lintCurrentPage(
-    elements: WebflowElement[]
+    elements: WebflowElement[],
+    options: Pick<RuleRunOptions, "onSuppressed"> = {}
   ): Promise<RuleResult[]> {
     // 1) Create shared context with caching
     const context = await contextService.createContext(elements);
@@ -34,9 +38,17 @@ export function createPageLintService(deps: {
       context.graph.getChildrenIds,
       context.graph.getAncestorIds,
       context.parseClass,
-      { getTag: context.graph.getTag },
+      context.graph,
       (id: string) => context.tagByElementId.get(id) ?? null,
-      (id: string) => context.elementTypeByElementId.get(id) ?? null
+      (id: string) => context.elementTypeByElementId.get(id) ?? null,
+      false,
+      {
+        getAttributes: (id: string) => context.attributesByElementId.get(id),
+        getElementContent: (id: string) => context.contentByElementId.get(id),
+        onSuppressed: options.onSuppressed,
+        isRolePinned: (id: string) =>
+          context.roleDiagnosticsByElementId[id]?.roleSource === "manual",
+      }
     );
 
     return results;
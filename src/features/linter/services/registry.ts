@@ -1,38 +1,93 @@
 // features/linter/lib/registry.ts
 import { createRuleRegistry } from "@/features/linter/services/rule-registry";
-import { resolvePresetOrFallback } from "@/features/linter/presets";
+import {
+  getDefaultPresetId,
+  resolvePresetOrFallback,
+} from "@/features/linter/presets";
 import {
   applyOpinionMode,
-  OpinionMode,
+  DEFAULT_OPINION_MODE,
+  resolveOpinionModes,
+  validateOpinionModes,
+  type OpinionMode,
 } from "@/features/linter/model/opinion.modes";
-import { createRuleConfigurationService } from "@/features/linter/services/rule-configuration-service";
+import {
+  createRuleConfigurationService,
+  type RuleConfigurationService,
+} from "@/features/linter/services/rule-configuration-service";
+import {
+  createConfigProfilesService,
+  type ConfigProfilesService,
+} from "@/features/linter/services/config-profiles.service";
+import { getCachedSiteId } from "@/entities/site";
 import type { Rule } from "@/features/linter/model/rule.types";
 import { createChildGroupKeyMatchRule } from "@/features/linter/rules/canonical/child-group-key-match";
 import { createMainSingletonPageRule } from "@/features/linter/rules/canonical/main-singleton.page";
 import { createMainChildrenPageRule } from "@/features/linter/rules/canonical/main-children.page";
+import {
+  createHeadingHierarchyPageRule,
+  createTextContrastPageRule,
+} from "@/features/linter/rules/shared/accessibility";
 
 // Global registry instance
 export const ruleRegistry = createRuleRegistry();
 
-// Pass the registry into the config service
-export const ruleConfigService = createRuleConfigurationService(ruleRegistry);
+// Config storage is scoped per site, preset and active profile; both services
+// are rebuilt on every registry initialization
+let configProfiles: ConfigProfilesService | null = null;
+let ruleConfigService: RuleConfigurationService | null = null;
+let ruleRegistryPresetId = getDefaultPresetId();
+
+function configureConfigScope(presetId: string): RuleConfigurationService {
+  const profiles = createConfigProfilesService({
+    siteId: getCachedSiteId(),
+    presetId,
+  });
+  const service = createRuleConfigurationService(ruleRegistry, {
+    storageKey: profiles.getStorageKey(profiles.getActive().id),
+    presetId,
+  });
+  configProfiles = profiles;
+  ruleConfigService = service;
+  return service;
+}
+
+/** Config service for the active site/preset/profile */
+export function getRuleConfigService(): RuleConfigurationService {
+  return ruleConfigService ?? configureConfigScope(ruleRegistryPresetId);
+}
+
+/** Profiles for the active site/preset */
+export function getConfigProfiles(): ConfigProfilesService {
+  if (!configProfiles) configureConfigScope(ruleRegistryPresetId);
+  return configProfiles as ConfigProfilesService;
+}
 
 // Initialize with default rules and user configurations
+/**
+ * @param mode Opinion mode to apply; when omitted the active profile's stored
+ * mode is used, falling back to "balanced"
+ * @returns The opinion mode that was actually applied
+ */
 export function initializeRuleRegistry(
-  mode: OpinionMode = "balanced",
+  mode?: OpinionMode,
   presetId?: string
-): void {
+): OpinionMode {
   console.log("Initializing rule registry…");
 
   // 1) register preset rules (seeds defaults too)
   ruleRegistry.clear();
   const selected = resolvePresetOrFallback(presetId);
   ruleRegistry.registerRules([...selected.rules]);
+  ruleRegistryPresetId = selected.id;
+  const ruleConfigService = configureConfigScope(selected.id);
 
   // 2) register canonical page rules globally (preset-agnostic)
   ruleRegistry.registerPageRules([
     createMainSingletonPageRule(),
     createMainChildrenPageRule(),
+    createTextContrastPageRule(),
+    createHeadingHierarchyPageRule(),
   ]);
   const childGroupRule = createChildGroupKeyMatchRule();
   console.log(`[DEBUG] Registering child group rule:`, {
@@ -43,24 +98,57 @@ export function initializeRuleRegistry(
   });
   ruleRegistry.registerRules([childGroupRule]);
 
-  // 3) apply opinion mode adjustments
-  applyOpinionMode(ruleRegistry, mode);
-
-  // 4) load any persisted user settings and apply
+  // 3) load any persisted user settings and apply
   const userConfigs = ruleConfigService.load();
   userConfigs.forEach((cfg) =>
     ruleRegistry.updateRuleConfiguration(cfg.ruleId, {
       enabled: cfg.enabled,
-      severity: cfg.severity,
       customSettings: cfg.customSettings,
     })
   );
 
+  // 4) apply the preset's opinion mode table
+  const modes = resolveOpinionModes(selected);
+  const registered = [
+    ...ruleRegistry.getAllRules(),
+    ...ruleRegistry.getPageRules(),
+  ];
+  validateOpinionModes(modes, new Set(registered.map((r) => r.id))).forEach((warning) =>
+    console.warn(`[registry] ${selected.id}: ${warning}`)
+  );
+  const requested =
+    mode ?? ruleConfigService.getOpinionMode() ?? DEFAULT_OPINION_MODE;
+  const modeDef =
+    modes.find((m) => m.id === requested) ??
+    modes.find((m) => m.id === DEFAULT_OPINION_MODE);
+  if (modeDef?.id !== requested) {
+    console.warn(
+      `[registry] Preset '${selected.id}' has no opinion mode '${requested}'`
+    );
+  }
+  if (modeDef) {
+    const defaults = new Map(registered.map((r) => [r.id, r.enabled]));
+    applyOpinionMode(ruleRegistry, modeDef, {
+      preserveEnabled: new Set(
+        userConfigs
+          .filter((cfg) => cfg.enabled !== defaults.get(cfg.ruleId))
+          .map((cfg) => cfg.ruleId)
+      ),
+    });
+  }
+
+  // 5) stored severity overrides win over the opinion mode
+  const severityOverrides = ruleConfigService.loadSeverityOverrides();
+  Object.entries(severityOverrides).forEach(([ruleId, severity]) =>
+    ruleRegistry.updateRuleConfiguration(ruleId, { severity })
+  );
+
   console.log(
     `Registry initialized with preset '${selected.id}' containing ${
       ruleRegistry.getAllRules().length
-    } rules`
+    } rules (opinion mode '${modeDef?.id ?? requested}')`
   );
+  return modeDef?.id ?? requested;
 }
 
 // Helper for dynamic rules
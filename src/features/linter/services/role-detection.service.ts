@@ -2,18 +2,36 @@ import type {
   RoleDetectionConfig,
   RolesByElement,
 } from "@/features/linter/model/linter.types";
-import type { RoleDetector } from "@/features/linter/model/preset.types";
 import type {
+  DetectorVerdict,
+  ElementSnapshot,
+  RoleDetector,
+  RoleDiagnostics,
+} from "@/features/linter/model/preset.types";
+import type {
+  ElementSemantics,
   ElementWithClassNames,
   WebflowElement,
 } from "@/entities/element/model/element.types";
 import { toElementKey } from "@/entities/element/lib/id";
+import {
+  ROLE_ATTRIBUTE,
+  parsePinnedRole,
+  type PinnableRole,
+  type RolePins,
+} from "@/features/linter/lib/role-pins";
 
 interface CreateArgs {
   detectors: RoleDetector[];
   config?: RoleDetectionConfig;
 }
 
+export interface RoleDetectionOutput {
+  rolesByElement: RolesByElement;
+  /** Detector verdicts and threshold outcome per element, for the explainer */
+  diagnosticsByElement: Record<string, RoleDiagnostics>;
+}
+
 const DEFAULT_CONFIG: RoleDetectionConfig = { threshold: 0.6 };
 
 function getParentId(el: WebflowElement | undefined): string | null {
@@ -31,16 +49,29 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
     ...(config ?? {}),
   };
 
-  function detectRolesForPage(
+  /**
+   * Detects roles and records, per element, every detector's verdict, the
+   * threshold applied and why the best candidate was dropped (if it was).
+   * Pinned roles (UI pins first, then `data-flowlint-role`) win over scores;
+   * detectors still run on pinned elements so the explainer can compare.
+   */
+  function detectRolesWithDiagnostics(
     elements: ElementWithClassNames[],
-    graph?: import("@/features/linter/model/linter.types").ElementGraphApi
-  ): RolesByElement {
+    graph?: import("@/features/linter/model/linter.types").ElementGraphApi,
+    semanticsById?: ReadonlyMap<string, ElementSemantics>,
+    pins?: RolePins
+  ): RoleDetectionOutput {
     const threshold = Math.max(0, Math.min(1, effectiveConfig.threshold));
     const result: RolesByElement = {};
+    const diagnosticsByElement: Record<string, RoleDiagnostics> = {};
 
     const parentIdByChildId = new Map<string, string | null>();
     const classesByElementId = new Map<string, string[]>();
     const elementById = new Map<string, WebflowElement | undefined>();
+    const attributesByElementId = new Map<
+      string,
+      Readonly<Record<string, string>>
+    >();
 
     for (const item of elements) {
       const element = item.element as WebflowElement | undefined;
@@ -50,11 +81,15 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
       const classNames = (item.classNames ?? []).filter(Boolean);
       classesByElementId.set(elId, classNames);
 
-      parentIdByChildId.set(elId, getParentId(element));
+      parentIdByChildId.set(
+        elId,
+        graph ? graph.getParentId(elId) : getParentId(element)
+      );
       elementById.set(elId, element);
+      if (item.attributes) attributesByElementId.set(elId, item.attributes);
     }
 
-    // Build children index from parent map
+    // Build children index from parent map (graph order when available)
     const childrenIdsByParentId = new Map<string, string[]>();
     for (const [childId, parentId] of parentIdByChildId.entries()) {
       if (!parentId) continue;
@@ -63,53 +98,53 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
       childrenIdsByParentId.set(parentId, list);
     }
 
-    // Build stable snapshots for detectors with ancestry context
-    const snapshots: {
-      readonly id: string;
-      readonly tagName: string;
-      readonly classes: readonly string[];
-      readonly parentId: string | null;
-      readonly childrenIds: readonly string[];
-      readonly textContent?: string;
-      readonly attributes: Readonly<Record<string, string>>;
-    }[] = [];
-    const snapshotById = new Map<string, any>();
-
-    for (const [id, _el] of elementById.entries()) {
-      const el = _el as any;
-      const classes = classesByElementId.get(id) ?? [];
+    // Build stable snapshots for detectors with ancestry context. Tag, type,
+    // text and attributes come from the snapshot collector; without it only
+    // classes and structure are known.
+    const snapshots: ElementSnapshot[] = [];
+    const snapshotById = new Map<string, ElementSnapshot>();
+
+    for (const id of elementById.keys()) {
+      const semantics = semanticsById?.get(id);
       const parentId = parentIdByChildId.get(id) ?? null;
-      const childrenIds = childrenIdsByParentId.get(id) ?? [];
-      const tagName = (el?.tagName || "div") as string;
-      const textContent = (el?.textContent ?? undefined) as string | undefined;
-      const attributes: Record<string, string> = (() => {
-        try {
-          const attrs = el?.attributes;
-          if (!attrs || typeof attrs !== "object") return {};
-          // Normalize a shallow copy of string-like attributes
-          const out: Record<string, string> = {};
-          for (const [k, v] of Object.entries(attrs)) {
-            if (typeof v === "string") out[k] = v;
-          }
-          return out;
-        } catch {
-          return {};
-        }
-      })();
+      const childrenIds = graph
+        ? graph.getChildrenIds(id)
+        : childrenIdsByParentId.get(id) ?? [];
+      const siblings = parentId ? childrenIdsByParentId.get(parentId) ?? [] : [];
 
-      const snap = {
+      const snap: ElementSnapshot = {
         id,
-        tagName,
-        classes,
+        tagName: semantics?.tagName ?? "div",
+        elementType: semantics?.elementType ?? null,
+        classes: classesByElementId.get(id) ?? [],
         parentId,
         childrenIds,
-        textContent,
-        attributes,
-      } as const;
+        siblingIndex:
+          semantics?.siblingIndex ?? Math.max(0, siblings.indexOf(id)),
+        depth: semantics?.depth ?? 0,
+        textContent: semantics?.textContent,
+        attributes:
+          attributesByElementId.get(id) ?? semantics?.attributes ?? {},
+      };
       snapshots.push(snap);
       snapshotById.set(id, snap);
     }
 
+    // Resolve pins up front so structural detectors see pinned ancestors
+    const pinById = new Map<
+      string,
+      { role: PinnableRole; pinnedBy: "attribute" | "ui" }
+    >();
+    for (const snap of snapshots) {
+      const uiPin = pins?.[snap.id];
+      const attributePin = parsePinnedRole(snap.attributes[ROLE_ATTRIBUTE]);
+      if (uiPin) pinById.set(snap.id, { role: uiPin, pinnedBy: "ui" });
+      else if (attributePin) {
+        pinById.set(snap.id, { role: attributePin, pinnedBy: "attribute" });
+      }
+    }
+    for (const [id, pin] of pinById) result[id] = pin.role;
+
     // Track best scores for singleton main enforcement
     const scoresByElement: Record<
       string,
@@ -128,6 +163,7 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
       pageInfo: {},
       rolesByElement: result, // Incrementally built as we go
       graph, // Full graph context available from start
+      getSnapshot: (id: string) => snapshotById.get(id),
     };
 
     // Sort elements to detect structural roles first (main, section) before component roles
@@ -164,13 +200,15 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
 
       let bestRole: RolesByElement[string] | null = null;
       let bestScore = -1;
+      const elementSnapshot = snapshotById.get(elementId);
+      const verdicts: DetectorVerdict[] = [];
 
       for (const detector of detectors) {
         try {
-          const elementSnapshot = snapshotById.get(elementId);
           if (!elementSnapshot) continue;
 
           const scored = detector.detect(elementSnapshot, detectionContext);
+          verdicts.push({ detectorId: detector.id, result: scored ?? null });
 
           if (!scored) continue;
           if (scored.score > bestScore) {
@@ -182,14 +220,36 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
             `[DEBUG] Detector ${detector.id} error for element ${elementId}:`,
             error
           );
+          verdicts.push({
+            detectorId: detector.id,
+            result: null,
+            error: error instanceof Error ? error.message : String(error),
+          });
           // detector errors are non-fatal; continue
         }
       }
 
-      // Thresholding and assignment
-      result[elementId] =
+      // Pins win; otherwise thresholding and assignment
+      const pin = pinById.get(elementId);
+      const detected =
         bestRole && bestScore >= threshold ? bestRole : "unknown";
+      result[elementId] = pin?.role ?? detected;
       scoresByElement[elementId] = { best: bestScore, role: result[elementId] };
+      diagnosticsByElement[elementId] = {
+        elementId,
+        classes: elementSnapshot?.classes ?? [],
+        tagName: elementSnapshot?.tagName ?? "div",
+        elementType: elementSnapshot?.elementType ?? null,
+        verdicts,
+        bestRole,
+        bestScore: Math.max(0, bestScore),
+        threshold,
+        finalRole: result[elementId],
+        roleSource: pin ? "manual" : "detected",
+        pinnedBy: pin?.pinnedBy,
+        demotedBy:
+          !pin && bestRole && detected === "unknown" ? "threshold" : undefined,
+      };
 
       // DEBUG: Log role detection results
       if (bestRole === "section" || bestRole === "main" || bestScore > 0) {
@@ -210,10 +270,14 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
       Object.entries(result).filter(([, role]) => role !== "unknown")
     );
 
-    // Enforce singleton `main`: keep highest-scoring, demote others to unknown
+    // Enforce singleton `main`: keep highest-scoring, demote others to unknown.
+    // A pinned main always wins and is never demoted.
     const mainCandidates = Object.entries(scoresByElement)
       .filter(([, v]) => v.role === "main")
-      .map(([elId, v]) => ({ elId, score: v.best }));
+      .map(([elId, v]) => ({
+        elId,
+        score: pinById.has(elId) ? Infinity : v.best,
+      }));
 
     if (mainCandidates.length > 1) {
       let winner = mainCandidates[0];
@@ -221,12 +285,30 @@ export function createRoleDetectionService({ detectors, config }: CreateArgs) {
         if (c.score > winner.score) winner = c;
       }
       for (const c of mainCandidates) {
-        result[c.elId] = c.elId === winner.elId ? "main" : "unknown";
+        const keep = c.elId === winner.elId || pinById.has(c.elId);
+        result[c.elId] = keep ? "main" : "unknown";
+        if (!keep && diagnosticsByElement[c.elId]) {
+          diagnosticsByElement[c.elId] = {
+            ...diagnosticsByElement[c.elId],
+            finalRole: "unknown",
+            demotedBy: "singleton-main",
+          };
+        }
       }
     }
 
-    return result;
+    return { rolesByElement: result, diagnosticsByElement };
+  }
+
+  function detectRolesForPage(
+    elements: ElementWithClassNames[],
+    graph?: import("@/features/linter/model/linter.types").ElementGraphApi,
+    semanticsById?: ReadonlyMap<string, ElementSemantics>,
+    pins?: RolePins
+  ): RolesByElement {
+    return detectRolesWithDiagnostics(elements, graph, semanticsById, pins)
+      .rolesByElement;
   }
 
-  return { detectRolesForPage } as const;
+  return { detectRolesForPage, detectRolesWithDiagnostics } as const;
 }
@@ -0,0 +1,77 @@
+// features/linter/services/role-pins.service.ts
+import {
+  parsePinnedRole,
+  type PinnableRole,
+  type RolePins,
+} from "@/features/linter/lib/role-pins";
+import {
+  createLocalStorageAdapter,
+  type StorageAdapter,
+} from "./rule-configuration-service";
+
+const ROLE_PINS_KEY_PREFIX = "codalyn.linter.role-pins.v1";
+const LOCAL_SCOPE = "local";
+
+export type RolePinsV1 = {
+  version: 1;
+  pins: Record<string, PinnableRole>;
+};
+
+export type RolePinServiceOptions = {
+  siteId: string | null;
+  pageId: string | null;
+  createStorage?: (key: string) => StorageAdapter;
+};
+
+export type RolePinService = ReturnType<typeof createRolePinService>;
+
+/**
+ * Roles pinned from the UI for one site + page. Pins override detector
+ * scores; elements are keyed by their Designer element id.
+ */
+export const createRolePinService = (opts: RolePinServiceOptions) => {
+  const createStorage = opts.createStorage ?? createLocalStorageAdapter;
+  const storageKey = `${ROLE_PINS_KEY_PREFIX}:${opts.siteId ?? LOCAL_SCOPE}:${
+    opts.pageId ?? LOCAL_SCOPE
+  }`;
+  const storage = createStorage(storageKey);
+
+  const load = (): RolePins => {
+    const raw = storage.read();
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw) as Partial<RolePinsV1>;
+      if (parsed?.version !== 1 || typeof parsed.pins !== "object") return {};
+      const pins: Record<string, PinnableRole> = {};
+      for (const [elementId, value] of Object.entries(parsed.pins ?? {})) {
+        const role = parsePinnedRole(typeof value === "string" ? value : null);
+        if (role) pins[elementId] = role;
+      }
+      return pins;
+    } catch {
+      return {};
+    }
+  };
+
+  const save = (pins: Record<string, PinnableRole>): RolePins => {
+    if (Object.keys(pins).length === 0) {
+      // Adapter has no delete; an empty value reads back as "no pins"
+      storage.write("");
+    } else {
+      const data: RolePinsV1 = { version: 1, pins };
+      storage.write(JSON.stringify(data));
+    }
+    return pins;
+  };
+
+  const pin = (elementId: string, role: PinnableRole): RolePins =>
+    save({ ...load(), [elementId]: role });
+
+  const unpin = (elementId: string): RolePins => {
+    const pins = { ...load() };
+    delete pins[elementId];
+    return save(pins);
+  };
+
+  return { storageKey, load, pin, unpin } as const;
+};
@@ -1,15 +1,23 @@
 import { stableStringify } from "@/shared/lib";
+import {
+  validateRuleSettings,
+  type ConfigValidationIssue,
+  type ConfigValidationReport,
+} from "./config-validation";
 
 // features/linter/services/rule-configuration-service.ts
 import type {
+  PageRule,
   Rule,
   RuleConfiguration,
   RuleConfigSchema,
+  Severity,
 } from "@/features/linter/model/rule.types";
 
 /* ---------- Minimal registry interface (structural typing) ---------- */
 type RuleRegistryLike = {
   getAllRules(): ReadonlyArray<Rule>;
+  getPageRules?(): ReadonlyArray<PageRule>;
 };
 
 /* ---------- Storage adapters ---------- */
@@ -47,18 +55,36 @@ export const createMemoryStorageAdapter = (): StorageAdapter => {
   };
 };
 
-/* ---------- File format (v1) ---------- */
+/* ---------- File format (v2) ---------- */
+export type SerializedConfigFileV2 = {
+  version: 2;
+  /** Optional scoping to a preset without making it mandatory */
+  presetId?: string | null;
+  enabledRules?: string[];
+  ruleConfigs: Record<string, Record<string, unknown>>;
+  /** Per-rule severity overrides chosen by the user */
+  severities?: Record<string, Severity>;
+  /**
+   * Base configs this one builds on, embedded as objects or pasted JSON
+   * strings. Resolved in order on import; this file's own values win.
+   */
+  extends?: Array<SerializedConfigFile | string>;
+  /** Opinion mode picked for this profile */
+  opinionMode?: string;
+  lastUpdated?: string;
+};
+
 type SerializedConfigFileV1 = {
   version: 1;
-  /** Optional scoping to a preset without making it mandatory */
   presetId?: string | null;
   enabledRules?: string[];
   ruleConfigs: Record<string, Record<string, unknown>>;
   lastUpdated?: string;
 };
 
-// Backward compatible union for old files without a version field
-type SerializedConfigFile =
+// Backward compatible union for old files (v0 has no version field)
+export type SerializedConfigFile =
+  | SerializedConfigFileV2
   | SerializedConfigFileV1
   | {
       // v0 legacy shape (no version)
@@ -68,6 +94,58 @@ type SerializedConfigFile =
       presetId?: string | null;
     };
 
+const SEVERITIES: ReadonlyArray<Severity> = ["suggestion", "warning", "error"];
+
+function isV2(file: SerializedConfigFile): file is SerializedConfigFileV2 {
+  return (file as SerializedConfigFileV2).version === 2;
+}
+
+/** Upgrades v0/v1 files in memory; v2 severities are sanitized */
+export function migrateConfigFile(
+  file: SerializedConfigFile
+): SerializedConfigFileV2 {
+  const severities: Record<string, Severity> = {};
+  if (isV2(file)) {
+    for (const [ruleId, sev] of Object.entries(file.severities ?? {})) {
+      if (SEVERITIES.includes(sev)) severities[ruleId] = sev;
+    }
+  }
+  return {
+    version: 2,
+    presetId: file.presetId ?? null,
+    enabledRules: file.enabledRules,
+    ruleConfigs: file.ruleConfigs ?? {},
+    severities,
+    ...(isV2(file) && Array.isArray(file.extends) && file.extends.length > 0
+      ? { extends: file.extends }
+      : {}),
+    ...(isV2(file) && typeof file.opinionMode === "string"
+      ? { opinionMode: file.opinionMode }
+      : {}),
+    lastUpdated: file.lastUpdated,
+  };
+}
+
+export type ConfigExtends = NonNullable<SerializedConfigFileV2["extends"]>;
+
+export type ConfigImportResult = {
+  /** Effective configs if the import were saved */
+  configs: RuleConfiguration[];
+  /** The imported file's `extends` chain, kept when the import is saved */
+  extends?: ConfigExtends;
+  report: ConfigValidationReport;
+};
+
+/** Guards against self-referencing or runaway `extends` nesting */
+const MAX_EXTENDS_DEPTH = 8;
+
+type ResolvedConfigLayer = {
+  /** Only rules the layer says something about; the rest inherit */
+  enabled: Record<string, boolean>;
+  ruleConfigs: Record<string, Record<string, unknown>>;
+  severities: Record<string, Severity>;
+};
+
 /* ---------- Options and service shape ---------- */
 export type RuleConfigurationService = ReturnType<
   typeof createRuleConfigurationService
@@ -103,10 +181,6 @@ function applySchemaDefaults(
   return out;
 }
 
-function isV1(file: SerializedConfigFile): file is SerializedConfigFileV1 {
-  return (file as SerializedConfigFileV1).version === 1;
-}
-
 /* ---------- Factory ---------- */
 export const createRuleConfigurationService = (
   ruleRegistry: RuleRegistryLike,
@@ -117,28 +191,26 @@ export const createRuleConfigurationService = (
   const nowISO = opts.nowISO ?? (() => new Date().toISOString());
   const log = opts.log ?? (() => {});
 
+  const getRules = (): Array<Rule | PageRule> => [
+    ...ruleRegistry.getAllRules(),
+    ...(ruleRegistry.getPageRules?.() ?? []),
+  ];
+
   /* ----- Core read/write ----- */
-  const readFile = (): SerializedConfigFile => {
+  const readFile = (): SerializedConfigFileV2 => {
     try {
       const raw = storage.read();
-      if (!raw) return { ruleConfigs: {} };
+      if (!raw) return migrateConfigFile({ ruleConfigs: {} });
       const parsed = JSON.parse(raw) as SerializedConfigFile;
-      // Accept v0 silently; upgrade to v1 in memory
-      if (isV1(parsed)) return parsed;
-      return {
-        version: 1,
-        enabledRules: parsed.enabledRules ?? [],
-        ruleConfigs: parsed.ruleConfigs ?? {},
-        lastUpdated: parsed.lastUpdated,
-        presetId: parsed.presetId ?? null,
-      };
+      // Accept v0/v1 silently; upgrade to v2 in memory
+      return migrateConfigFile(parsed);
     } catch (err) {
       log("Malformed stored config. Falling back to defaults.", err);
-      return { ruleConfigs: {} };
+      return migrateConfigFile({ ruleConfigs: {} });
     }
   };
 
-  const writeFile = (file: SerializedConfigFileV1) => {
+  const writeFile = (file: SerializedConfigFileV2) => {
     try {
       storage.write(stableStringify(file));
       log("Saved linter config", file);
@@ -147,6 +219,70 @@ export const createRuleConfigurationService = (
     }
   };
 
+  /**
+   * Severity overrides to persist for a config set: anything that differs
+   * from the base (rule defaults plus any `extends` chain), plus rules the
+   * user already pinned explicitly.
+   */
+  const collectSeverities = (
+    configs: ReadonlyArray<RuleConfiguration>,
+    existing: Readonly<Record<string, Severity>>,
+    base: ReadonlyArray<RuleConfiguration>
+  ): Record<string, Severity> => {
+    const defaults = new Map(base.map((c) => [c.ruleId, c.severity]));
+    const out: Record<string, Severity> = {};
+    for (const cfg of configs) {
+      const isOverride =
+        cfg.ruleId in existing || cfg.severity !== defaults.get(cfg.ruleId);
+      if (isOverride && SEVERITIES.includes(cfg.severity)) {
+        out[cfg.ruleId] = cfg.severity;
+      }
+    }
+    return out;
+  };
+
+  /**
+   * Serializes configs. Without an `extends` chain every rule is written;
+   * with one, only rules that differ from the resolved base are, so the base
+   * keeps applying to everything this file does not override.
+   */
+  const toFile = (
+    configs: ReadonlyArray<RuleConfiguration>,
+    presetId: string | null,
+    existingSeverities: Readonly<Record<string, Severity>>,
+    chain: ConfigExtends = []
+  ): SerializedConfigFileV2 => {
+    const base = resolveBaseConfigs(chain);
+    const baseById = new Map(base.map((c) => [c.ruleId, c]));
+    const own =
+      chain.length === 0
+        ? configs
+        : configs.filter((cfg) => {
+            const inherited = baseById.get(cfg.ruleId);
+            return (
+              !inherited ||
+              inherited.enabled !== cfg.enabled ||
+              stableStringify(inherited.customSettings) !==
+                stableStringify(cfg.customSettings)
+            );
+          });
+    return {
+      version: 2,
+      presetId,
+      enabledRules: own.filter((c) => c.enabled).map((c) => c.ruleId),
+      ruleConfigs: own.reduce<Record<string, Record<string, unknown>>>(
+        (acc, cfg) => {
+          acc[cfg.ruleId] = { ...cfg.customSettings };
+          return acc;
+        },
+        {}
+      ),
+      severities: collectSeverities(configs, existingSeverities, base),
+      ...(chain.length > 0 ? { extends: [...chain] } : {}),
+      lastUpdated: nowISO(),
+    };
+  };
+
   /* ----- Public API ----- */
 
   /**
@@ -156,125 +292,298 @@ export const createRuleConfigurationService = (
   const load = (): RuleConfiguration[] => {
     const file = readFile();
     const enabledSet = new Set(file.enabledRules ?? []);
-    const rules = ruleRegistry.getAllRules();
+    const baseById = new Map(
+      resolveBaseConfigs(file.extends ?? []).map((c) => [c.ruleId, c])
+    );
 
-    return rules.map((rule) => {
+    return getRules().map((rule) => {
+      const base = baseById.get(rule.id);
       // Enabled logic:
-      // - If file lists enabledRules, respect explicit presence
-      // - If rule has no stored block yet, default to rule.enabled
-      // - If rule is absent from enabledRules but has a stored block, keep disabled
+      // - Listed in enabledRules: enabled
+      // - Absent from enabledRules but has a stored block: disabled
+      // - No stored block: inherit from the base (or rule.enabled)
       const hasStored = Object.prototype.hasOwnProperty.call(
         file.ruleConfigs,
         rule.id
       );
-      const enabled = file.enabledRules
-        ? enabledSet.has(rule.id) || !hasStored
-          ? rule.enabled
-          : false
-        : rule.enabled;
+      const enabled = enabledSet.has(rule.id)
+        ? true
+        : file.enabledRules && hasStored
+          ? false
+          : base?.enabled ?? rule.enabled;
 
       const storedSettings = file.ruleConfigs[rule.id];
       const customSettings = applySchemaDefaults(
         (rule as Rule & { config?: RuleConfigSchema }).config,
-        storedSettings
+        { ...(base?.customSettings ?? {}), ...(storedSettings ?? {}) }
       );
 
       return {
         ruleId: rule.id,
         enabled,
-        severity: rule.severity,
+        severity:
+          file.severities?.[rule.id] ?? base?.severity ?? rule.severity,
         customSettings,
       };
     });
   };
 
   /**
-   * Persist a full set of configs. Keeps format stable and compatible.
+   * Stored severity overrides only. Applied after opinion modes so that an
+   * explicit user choice always wins.
+   */
+  const loadSeverityOverrides = (): Record<string, Severity> => {
+    const file = readFile();
+    return {
+      ...(resolveChain(file.extends ?? [])?.severities ?? {}),
+      ...(file.severities ?? {}),
+    };
+  };
+
+  /**
+   * Persist a full set of configs. Keeps format stable and compatible. The
+   * stored `extends` chain is kept unless another one is given.
    */
   const save = (
     configs: ReadonlyArray<RuleConfiguration>,
-    presetId: string | null = opts.presetId ?? null
+    presetId: string | null = opts.presetId ?? null,
+    chain?: ConfigExtends
   ): void => {
-    const file: SerializedConfigFileV1 = {
-      version: 1,
-      presetId,
-      enabledRules: configs.filter((c) => c.enabled).map((c) => c.ruleId),
-      ruleConfigs: configs.reduce<Record<string, Record<string, unknown>>>(
-        (acc, cfg) => {
-          acc[cfg.ruleId] = { ...cfg.customSettings };
-          return acc;
-        },
-        {}
+    const current = readFile();
+    writeFile({
+      ...toFile(
+        configs,
+        presetId,
+        current.severities ?? {},
+        chain ?? current.extends
       ),
-      lastUpdated: nowISO(),
-    };
-    writeFile(file);
+      ...(current.opinionMode ? { opinionMode: current.opinionMode } : {}),
+    });
   };
 
   /**
-   * Export a set of configs to a JSON string.
+   * Export a set of configs to a JSON string. `base` (by default the stored
+   * chain) is written as `extends` and only the overrides on top of it are
+   * exported, so a shared team config keeps applying after a round trip.
+   * Severities pinned in this profile are exported even when they match the
+   * default.
    */
   const exportConfiguration = (
     configs: ReadonlyArray<RuleConfiguration>,
-    presetId: string | null = opts.presetId ?? null
+    presetId: string | null = opts.presetId ?? null,
+    base?: ConfigExtends
   ): string => {
-    const file: SerializedConfigFileV1 = {
-      version: 1,
-      presetId,
-      enabledRules: configs.filter((c) => c.enabled).map((c) => c.ruleId),
-      ruleConfigs: configs.reduce<Record<string, Record<string, unknown>>>(
-        (acc, cfg) => {
-          acc[cfg.ruleId] = { ...cfg.customSettings };
-          return acc;
-        },
-        {}
-      ),
-      lastUpdated: nowISO(),
-    };
-    return stableStringify(file);
+    const file = readFile();
+    return stableStringify(
+      toFile(configs, presetId, file.severities ?? {}, base ?? file.extends)
+    );
   };
 
   /**
-   * Import from JSON and return the effective merged array.
-   * Does not auto-save, so caller can preview or validate before persisting.
+   * Flattens one file and its `extends` chain into a single layer, collecting
+   * validation issues along the way. Returns null when the file is unreadable.
    */
-  const importConfiguration = (json: string): RuleConfiguration[] => {
-    let incoming: SerializedConfigFile;
-    try {
-      incoming = JSON.parse(json) as SerializedConfigFile;
-      if (!incoming || typeof incoming !== "object") {
-        throw new Error("Invalid payload");
+  const resolveLayer = (
+    input: unknown,
+    source: string,
+    depth: number,
+    issues: ConfigValidationIssue[]
+  ): ResolvedConfigLayer | null => {
+    let file: unknown = input;
+    if (typeof input === "string") {
+      try {
+        file = JSON.parse(input);
+      } catch {
+        issues.push({ kind: "parse-error", source, message: "Not valid JSON" });
+        return null;
+      }
+    }
+    if (
+      !file ||
+      typeof file !== "object" ||
+      typeof (file as SerializedConfigFile).ruleConfigs !== "object" ||
+      (file as SerializedConfigFile).ruleConfigs === null
+    ) {
+      issues.push({
+        kind: "parse-error",
+        source,
+        message: "Missing ruleConfigs",
+      });
+      return null;
+    }
+    if (depth > MAX_EXTENDS_DEPTH) {
+      issues.push({
+        kind: "parse-error",
+        source,
+        message: `extends chain is deeper than ${MAX_EXTENDS_DEPTH} levels`,
+      });
+      return null;
+    }
+
+    const typed = file as SerializedConfigFileV2;
+    const layer: ResolvedConfigLayer = {
+      enabled: {},
+      ruleConfigs: {},
+      severities: {},
+    };
+
+    (Array.isArray(typed.extends) ? typed.extends : []).forEach((base, i) => {
+      const resolved = resolveLayer(
+        base,
+        `${source}.extends[${i}]`,
+        depth + 1,
+        issues
+      );
+      if (!resolved) return;
+      Object.assign(layer.enabled, resolved.enabled);
+      Object.assign(layer.severities, resolved.severities);
+      for (const [ruleId, settings] of Object.entries(resolved.ruleConfigs)) {
+        layer.ruleConfigs[ruleId] = { ...layer.ruleConfigs[ruleId], ...settings };
       }
-      if (
-        !("ruleConfigs" in incoming) ||
-        typeof incoming.ruleConfigs !== "object"
-      ) {
-        throw new Error("Missing ruleConfigs");
+    });
+
+    const rulesById = new Map(getRules().map((r) => [r.id, r]));
+    const unknownReported = new Set<string>();
+    const isKnown = (ruleId: string) => {
+      if (rulesById.has(ruleId)) return true;
+      if (!unknownReported.has(ruleId)) {
+        unknownReported.add(ruleId);
+        issues.push({
+          kind: "unknown-rule",
+          source,
+          ruleId,
+          message: `${ruleId} is not a rule of the active preset`,
+        });
+      }
+      return false;
+    };
+
+    // Same reading as `load`: listed rules are on, rules with a block but
+    // missing from the list are off, anything else is inherited
+    if (Array.isArray(typed.enabledRules)) {
+      const listed = new Set(typed.enabledRules.filter(isKnown));
+      for (const ruleId of listed) layer.enabled[ruleId] = true;
+      for (const ruleId of Object.keys(typed.ruleConfigs)) {
+        if (!listed.has(ruleId) && rulesById.has(ruleId)) {
+          layer.enabled[ruleId] = false;
+        }
       }
-    } catch (err) {
-      throw new Error("Invalid configuration file");
     }
 
+    for (const [ruleId, severity] of Object.entries(typed.severities ?? {})) {
+      if (!isKnown(ruleId)) continue;
+      if (!SEVERITIES.includes(severity)) {
+        issues.push({
+          kind: "invalid-severity",
+          source,
+          ruleId,
+          message: `"${String(severity)}" is not a severity (${SEVERITIES.join(", ")})`,
+        });
+        continue;
+      }
+      layer.severities[ruleId] = severity;
+    }
+
+    for (const [ruleId, settings] of Object.entries(typed.ruleConfigs)) {
+      if (!isKnown(ruleId)) continue;
+      if (!settings || typeof settings !== "object") {
+        issues.push({
+          kind: "type-mismatch",
+          source,
+          ruleId,
+          message: `Settings for ${ruleId} must be an object`,
+        });
+        continue;
+      }
+      const rule = rulesById.get(ruleId);
+      const schema =
+        rule && (rule as Rule & { config?: RuleConfigSchema }).config;
+      const result = validateRuleSettings(ruleId, schema, settings, source);
+      issues.push(...result.issues);
+      layer.ruleConfigs[ruleId] = {
+        ...layer.ruleConfigs[ruleId],
+        ...result.accepted,
+      };
+    }
+
+    return layer;
+  };
+
+  /**
+   * Import from JSON (resolving any `extends` chain) and return the effective
+   * merged array together with a validation report. Does not auto-save, so
+   * the caller can show the report before persisting.
+   */
+  const importConfiguration = (json: string): ConfigImportResult => {
+    const issues: ConfigValidationIssue[] = [];
     const base = load();
-    const enabledSet = new Set(incoming.enabledRules ?? []);
+    const layer = resolveLayer(json, "config", 0, issues);
+    const report: ConfigValidationReport = {
+      ok: !issues.some((i) => i.kind === "parse-error"),
+      issues,
+    };
+    if (!layer) return { configs: base, report };
+
+    // Keep the chain itself so saving does not flatten it into this profile
+    const parsed = JSON.parse(json) as Partial<SerializedConfigFileV2>;
+    const chain = Array.isArray(parsed.extends) ? parsed.extends : [];
 
-    return base.map((cfg) => {
+    return {
+      configs: applyLayer(base, layer),
+      ...(chain.length > 0 ? { extends: chain } : {}),
+      report,
+    };
+  };
+
+  /** Applies a resolved layer on top of a full config set */
+  const applyLayer = (
+    configs: ReadonlyArray<RuleConfiguration>,
+    layer: ResolvedConfigLayer
+  ): RuleConfiguration[] =>
+    configs.map((cfg) => {
       const next: RuleConfiguration = { ...cfg };
-      if (incoming.enabledRules) next.enabled = enabledSet.has(cfg.ruleId);
-      if (incoming.ruleConfigs[cfg.ruleId]) {
+      if (cfg.ruleId in layer.enabled) next.enabled = layer.enabled[cfg.ruleId];
+      if (layer.severities[cfg.ruleId]) {
+        next.severity = layer.severities[cfg.ruleId];
+      }
+      if (layer.ruleConfigs[cfg.ruleId]) {
         // Re-apply schema to imported values as well
-        const rule = ruleRegistry
-          .getAllRules()
-          .find((r) => r.id === cfg.ruleId);
+        const rule = getRules().find((r) => r.id === cfg.ruleId);
         const schema =
           rule && (rule as Rule & { config?: RuleConfigSchema }).config;
-        next.customSettings = applySchemaDefaults(
-          schema,
-          incoming.ruleConfigs[cfg.ruleId]
-        );
+        next.customSettings = applySchemaDefaults(schema, {
+          ...cfg.customSettings,
+          ...layer.ruleConfigs[cfg.ruleId],
+        });
       }
       return next;
     });
+
+  /** Registry defaults before any stored or imported values */
+  const getDefaultConfigs = (): RuleConfiguration[] =>
+    getRules().map<RuleConfiguration>((rule) => {
+      const schema = (rule as Rule & { config?: RuleConfigSchema }).config;
+      return {
+        ruleId: rule.id,
+        enabled: rule.enabled,
+        severity: rule.severity,
+        customSettings: applySchemaDefaults(schema, undefined),
+      };
+    });
+
+  /**
+   * `extends` chain resolution for stored files. Issues were already
+   * reported when the chain was imported, so they are ignored here.
+   */
+  const resolveChain = (chain: ConfigExtends): ResolvedConfigLayer | null =>
+    chain.length > 0
+      ? resolveLayer({ ruleConfigs: {}, extends: chain }, "config", 0, [])
+      : null;
+
+  const resolveBaseConfigs = (chain: ConfigExtends): RuleConfiguration[] => {
+    const defaults = getDefaultConfigs();
+    const layer = resolveChain(chain);
+    return layer ? applyLayer(defaults, layer) : defaults;
   };
 
   /**
@@ -283,18 +592,8 @@ export const createRuleConfigurationService = (
   const resetToDefaults = (
     presetId: string | null = opts.presetId ?? null
   ): RuleConfiguration[] => {
-    const defaults = ruleRegistry
-      .getAllRules()
-      .map<RuleConfiguration>((rule) => {
-        const schema = (rule as Rule & { config?: RuleConfigSchema }).config;
-        return {
-          ruleId: rule.id,
-          enabled: rule.enabled,
-          severity: rule.severity,
-          customSettings: applySchemaDefaults(schema, undefined),
-        };
-      });
-    save(defaults, presetId);
+    const defaults = getDefaultConfigs();
+    writeFile(toFile(defaults, presetId, {}));
     return defaults;
   };
 
@@ -308,7 +607,7 @@ export const createRuleConfigurationService = (
     const current = load();
     const next = current.map((cfg) => {
       if (cfg.ruleId !== ruleId) return cfg;
-      const rule = ruleRegistry.getAllRules().find((r) => r.id === ruleId);
+      const rule = getRules().find((r) => r.id === ruleId);
       const schema =
         rule && (rule as Rule & { config?: RuleConfigSchema }).config;
       const merged = { ...cfg.customSettings, ...partial };
@@ -330,13 +629,40 @@ export const createRuleConfigurationService = (
     return next;
   };
 
+  /**
+   * Pin a severity for one rule, or pass null to fall back to the rule
+   * default (and whatever the opinion mode sets). Persists immediately.
+   */
+  const setRuleSeverity = (
+    ruleId: string,
+    severity: Severity | null
+  ): RuleConfiguration[] => {
+    const file = readFile();
+    const severities = { ...(file.severities ?? {}) };
+    if (severity && SEVERITIES.includes(severity)) severities[ruleId] = severity;
+    else delete severities[ruleId];
+    writeFile({ ...file, severities, lastUpdated: nowISO() });
+    return load();
+  };
+
+  /** Opinion mode stored for this profile, if the user picked one */
+  const getOpinionMode = (): string | null => readFile().opinionMode ?? null;
+
+  const setOpinionMode = (mode: string): void => {
+    writeFile({ ...readFile(), opinionMode: mode, lastUpdated: nowISO() });
+  };
+
   return {
     load,
+    loadSeverityOverrides,
+    getOpinionMode,
+    setOpinionMode,
     save,
     exportConfiguration,
     importConfiguration,
     resetToDefaults,
     upsertRuleCustomSettings,
     setRuleEnabled,
+    setRuleSeverity,
   };
 };
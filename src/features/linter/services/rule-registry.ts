@@ -48,11 +48,16 @@ export const createRuleRegistry = () => {
 
     // share the same configuration store and shape
     if (!configurations.has(rule.id)) {
+      const defaults: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(rule.config ?? {})) {
+        defaults[key] = field.default;
+      }
+
       configurations.set(rule.id, {
         ruleId: rule.id,
         enabled: rule.enabled,
         severity: rule.severity as Severity,
-        customSettings: {}, // page rules typically have no schema yet
+        customSettings: defaults,
       });
     }
   };
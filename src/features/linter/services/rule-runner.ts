@@ -9,6 +9,7 @@ import type {
   RolesByElement,
   ElementRole,
   ParsedClass,
+  ClassNameParts,
 } from "@/features/linter/model/linter.types";
 
 import type {
@@ -16,6 +17,9 @@ import type {
   StyleWithElement,
 } from "@/entities/style/model/style.types";
 
+import type { ElementContent } from "@/entities/element/lib/element-content";
+import type { ElementGraph } from "@/entities/element/services/element-graph.service";
+
 import { UtilityClassAnalyzer } from "@/features/linter/services/analyzers/utility-class-analyzer";
 
 import { RuleRegistry } from "./rule-registry";
@@ -25,11 +29,65 @@ import {
   createPropertyRuleExecutor,
   type NamingExecutionDeps,
 } from "@/features/linter/services/executors";
+import { createSuppressionMatcher } from "@/features/linter/lib/suppressions";
+import { resultFingerprint } from "@/features/linter/lib/result-fingerprint";
+
+export interface RuleRunOptions {
+  /** Custom attributes per element; enables `data-flowlint-disable*` suppressions */
+  getAttributes?: (
+    elementId: string
+  ) => Readonly<Record<string, string>> | undefined;
+  /** Alt text, link text and DOM ids, for accessibility rules */
+  getElementContent?: (elementId: string) => ElementContent | undefined;
+  /** Ancestry used for `-tree` suppressions; defaults to the run's getAncestorIds */
+  getSuppressionAncestorIds?: (elementId: string) => string[];
+  /** Receives the results that were dropped by suppressions */
+  onSuppressed?: (suppressed: RuleResult[]) => void;
+  /** True when the element's role was pinned; results get `roleSource: "manual"` */
+  isRolePinned?: (elementId: string) => boolean;
+}
+
+/**
+ * Graph handed to page rules: the context graph's methods where provided,
+ * otherwise derived from the parent/children lookups of this run.
+ */
+function toPageGraph(
+  graph: Partial<ElementGraph> | undefined,
+  getParentId: (id: string) => string | null,
+  getChildrenIds: (id: string) => string[],
+  getAncestorIds: (id: string) => string[]
+): ElementGraph {
+  const siblingsOf = (id: string) => {
+    const parentId = getParentId(id);
+    return parentId ? getChildrenIds(parentId) : [];
+  };
+  const getSiblingIndex = (id: string) => siblingsOf(id).indexOf(id);
+  const siblingAt = (id: string, offset: number) => {
+    const index = getSiblingIndex(id);
+    return index < 0 ? null : siblingsOf(id)[index + offset] ?? null;
+  };
+
+  return {
+    getParentId,
+    getChildrenIds,
+    getAncestorIds,
+    getDescendantIds: graph?.getDescendantIds ?? (() => []),
+    getTag: graph?.getTag ?? (async () => await Promise.resolve(null)),
+    getSiblingIndex: graph?.getSiblingIndex ?? getSiblingIndex,
+    getPreviousSibling:
+      graph?.getPreviousSibling ?? ((id) => siblingAt(id, -1)),
+    getNextSibling: graph?.getNextSibling ?? ((id) => siblingAt(id, 1)),
+    getDepth: graph?.getDepth ?? ((id) => getAncestorIds(id).length),
+    getPath:
+      graph?.getPath ?? ((id) => [...getAncestorIds(id).reverse(), id]),
+  };
+}
 
 export const createRuleRunner = (
   ruleRegistry: RuleRegistry,
   utilityAnalyzer: UtilityClassAnalyzer,
-  classTypeResolver?: (className: string, isComboFlag?: boolean) => ClassType
+  classTypeResolver?: (className: string, isComboFlag?: boolean) => ClassType,
+  formatClassName?: (parts: ClassNameParts) => string
 ) => {
   // Authoritative classifier: resolves to your Rule ClassType
   const getClassType = (
@@ -61,7 +119,8 @@ export const createRuleRunner = (
     className: string,
     properties: Record<string, unknown>,
     allStyles: StyleInfo[],
-    elementIdForLog?: string
+    elementIdForLog?: string,
+    propertiesByContext?: StyleInfo["propertiesByContext"]
   ): RuleResult[] => {
     try {
       const config = ruleRegistry.getRuleConfiguration(rule.id);
@@ -74,7 +133,8 @@ export const createRuleRunner = (
           properties,
           effectiveSeverity,
           allStyles,
-          getClassType
+          getClassType,
+          propertiesByContext
         );
       }
       return [];
@@ -97,12 +157,15 @@ export const createRuleRunner = (
     getChildrenIds?: (elementId: string) => string[],
     getAncestorIds?: (elementId: string) => string[],
     parseClass?: (name: string) => ParsedClass,
-    graph?: { getTag?: (id: string) => Promise<string | null> },
+    graph?: Partial<ElementGraph>,
     getTagName?: (id: string) => string | null,
     getElementType?: (id: string) => string | null,
-    skipPageRules: boolean = false
+    skipPageRules: boolean = false,
+    options: RuleRunOptions = {}
   ): RuleResult[] => {
     const results: RuleResult[] = [];
+    const roleSourceFor = (elementId: string) =>
+      options.isRolePinned?.(elementId) ? { roleSource: "manual" } : {};
 
     // Group by element for element-level analysis
     const byElement = new Map<string, StyleWithElement[]>();
@@ -126,6 +189,30 @@ export const createRuleRunner = (
       }
     }
 
+    // Nearest ancestor component key, for naming rules that build suggestions
+    const componentKeyByElement = new Map<string, string | null>();
+    const getParentComponentKey = (elementId: string): string | null => {
+      if (componentKeyByElement.has(elementId)) {
+        return componentKeyByElement.get(elementId) ?? null;
+      }
+      let key: string | null = null;
+      if (parseClass && getAncestorIds) {
+        for (const ancestorId of getAncestorIds(elementId)) {
+          const base = byElement
+            .get(ancestorId)
+            ?.filter((s) => !s.isCombo)
+            .sort((a, b) => a.order - b.order)[0];
+          const parsed = base ? parseClass(base.name) : null;
+          if (parsed?.kind === "custom" && parsed.componentKey) {
+            key = parsed.componentKey;
+            break;
+          }
+        }
+      }
+      componentKeyByElement.set(elementId, key);
+      return key;
+    };
+
     // Precompute comboIndex per element
     const comboIndexByElementAndClass = new Map<string, Map<string, number>>();
     for (const [elId, list] of byElement.entries()) {
@@ -152,21 +239,23 @@ export const createRuleRunner = (
       for (const pr of pageRules) {
         const pageResults = pr.analyzePage({
           rolesByElement: rolesByElement ?? {},
-          graph: {
-            getParentId: getParentId ?? (() => null),
-            getChildrenIds: getChildrenIds ?? (() => []),
-            getAncestorIds: getAncestorIds ?? (() => []),
-            getDescendantIds: () => [], // Simple fallback - no descendants available in this context
-            getTag: graph?.getTag ?? (async () => await Promise.resolve(null)), // Use provided getTag or fallback
-          },
+          graph: toPageGraph(
+            graph,
+            getParentId ?? (() => null),
+            getChildrenIds ?? (() => []),
+            getAncestorIds ?? (() => [])
+          ),
           styles: stylesWithElement,
           getRoleForElement: (id: string) => rolesByElement?.[id] || "unknown",
-          getRuleConfig: (ruleId: string) => ({
-            ruleId,
-            enabled: true,
-            severity: "error",
-            customSettings: {} as any,
-          }),
+          getRuleConfig: (ruleId: string) => {
+            const cfg = ruleRegistry.getRuleConfiguration(ruleId);
+            return {
+              ruleId,
+              enabled: cfg?.enabled ?? true,
+              severity: cfg?.severity ?? "error",
+              customSettings: (cfg?.customSettings ?? {}) as any,
+            };
+          },
           getTagName: getTagName ?? (() => null),
           getElementType: getElementType ?? (() => null),
         });
@@ -247,6 +336,8 @@ export const createRuleRunner = (
             parseClass,
             getTagName,
             getElementType,
+            getAttributes: options.getAttributes,
+            getElementContent: options.getElementContent,
           });
 
           for (const r of elementResults) {
@@ -255,7 +346,12 @@ export const createRuleRunner = (
             const role = rolesByElement ? rolesByElement[elId] : undefined;
             const parentId =
               typeof getParentId === "function" ? getParentId(elId) : undefined;
-            r.metadata = { ...(r.metadata ?? {}), role, parentId };
+            r.metadata = {
+              ...(r.metadata ?? {}),
+              role,
+              parentId,
+              ...roleSourceFor(elId),
+            };
           }
           results.push(...elementResults);
         }
@@ -266,6 +362,7 @@ export const createRuleRunner = (
     for (const {
       name,
       properties,
+      propertiesByContext,
       elementId,
       isCombo,
       detectionSource,
@@ -297,6 +394,10 @@ export const createRuleRunner = (
               ruleRegistry.getRuleConfiguration(ruleId)?.severity as
                 | Severity
                 | undefined,
+            getTagName,
+            getElementType,
+            getParentComponentKey,
+            formatClassName,
           };
 
           const comboIndex =
@@ -325,10 +426,12 @@ export const createRuleRunner = (
               typeof getParentId === "function"
                 ? getParentId(elementId)
                 : undefined;
-            const merged = { ...(r.metadata ?? {}), role, parentId } as Record<
-              string,
-              unknown
-            >;
+            const merged = {
+              ...(r.metadata ?? {}),
+              role,
+              parentId,
+              ...roleSourceFor(elementId),
+            } as Record<string, unknown>;
             if (detectionSource && !merged["detectionSource"])
               merged["detectionSource"] = detectionSource;
             r.metadata = merged;
@@ -348,7 +451,8 @@ export const createRuleRunner = (
           name,
           properties as Record<string, unknown>,
           allStyles,
-          elementId
+          elementId,
+          propertiesByContext
         );
 
         ruleResults.forEach((r) => {
@@ -358,10 +462,12 @@ export const createRuleRunner = (
             typeof getParentId === "function"
               ? getParentId(elementId)
               : undefined;
-          const merged = { ...(r.metadata ?? {}), role, parentId } as Record<
-            string,
-            unknown
-          >;
+          const merged = {
+            ...(r.metadata ?? {}),
+            role,
+            parentId,
+            ...roleSourceFor(elementId),
+          } as Record<string, unknown>;
           if (detectionSource && !merged["detectionSource"])
             merged["detectionSource"] = detectionSource;
           r.metadata = merged;
@@ -377,7 +483,31 @@ export const createRuleRunner = (
       }
     }
 
-    return results;
+    for (const r of results) r.fingerprint ??= resultFingerprint(r);
+
+    return applySuppressions(results, getAncestorIds, options);
+  };
+
+  // Suppressed results are reported, not silently discarded
+  const applySuppressions = (
+    results: RuleResult[],
+    getAncestorIds: ((elementId: string) => string[]) | undefined,
+    options: RuleRunOptions
+  ): RuleResult[] => {
+    const { getAttributes, onSuppressed } = options;
+    if (!getAttributes) return results;
+
+    const isSuppressed = createSuppressionMatcher({
+      getAttributes,
+      getAncestorIds: options.getSuppressionAncestorIds ?? getAncestorIds,
+    });
+    const kept: RuleResult[] = [];
+    const suppressed: RuleResult[] = [];
+    for (const r of results) {
+      (isSuppressed(r.ruleId, r.elementId) ? suppressed : kept).push(r);
+    }
+    onSuppressed?.(suppressed);
+    return kept;
   };
 
   return {
@@ -0,0 +1,282 @@
+// features/linter/services/style-usage.service.ts
+import type { StyleInfo } from "@/entities/style/model/style.types";
+import type { StyleService } from "@/entities/style/services/style.service";
+import { toElementKey } from "@/entities/element/lib/id";
+import { resetStyleServiceCache } from "@/entities/style/services/style-service-cache";
+
+/** Where a class is applied: a page or a component definition */
+export interface StyleUsageLocation {
+  scope: "page" | "component";
+  id: string;
+  name: string;
+  elementIds: string[];
+}
+
+/** Class name → every place it is applied */
+export type StyleUsageIndex = Map<string, StyleUsageLocation[]>;
+
+export interface UnusedStyle {
+  id: string;
+  name: string;
+  isCombo: boolean;
+  /** Declarations across all breakpoints and pseudo-states */
+  propertyCount: number;
+}
+
+export interface SiteUsageScan {
+  index: StyleUsageIndex;
+  pagesScanned: number;
+  componentsScanned: number;
+  /** Pages or components that could not be read; usage there is unknown */
+  skipped: string[];
+}
+
+export interface StyleUsageProgress {
+  done: number;
+  total: number;
+  label: string;
+}
+
+export interface StyleBackupV1 {
+  version: 1;
+  createdAt: string;
+  siteId: string | null;
+  styles: Array<
+    Pick<StyleInfo, "id" | "name" | "isCombo" | "properties"> & {
+      propertiesByContext: NonNullable<StyleInfo["propertiesByContext"]>;
+    }
+  >;
+}
+
+export interface RemoveStylesResult {
+  removed: string[];
+  /** Names kept because they turned out to be in use, or removal failed */
+  kept: Array<{ name: string; reason: string }>;
+}
+
+const countProperties = (style: StyleInfo): number => {
+  const contexts = style.propertiesByContext ?? { main: style.properties };
+  return Object.values(contexts).reduce(
+    (sum, props) => sum + Object.keys(props ?? {}).length,
+    0
+  );
+};
+
+/** Styles with no usage anywhere in the index, sorted by name */
+export function findUnusedStyles(
+  allStyles: ReadonlyArray<StyleInfo>,
+  index: StyleUsageIndex
+): UnusedStyle[] {
+  return allStyles
+    .filter((s) => s.name && !index.has(s.name))
+    .map((s) => ({
+      id: s.id,
+      name: s.name,
+      isCombo: s.isCombo,
+      propertyCount: countProperties(s),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Serializable snapshot of styles, enough to recreate them by hand */
+export function createStyleBackup(
+  styles: ReadonlyArray<StyleInfo>,
+  meta: { siteId: string | null; createdAt: string }
+): StyleBackupV1 {
+  return {
+    version: 1,
+    createdAt: meta.createdAt,
+    siteId: meta.siteId,
+    styles: styles.map((s) => ({
+      id: s.id,
+      name: s.name,
+      isCombo: s.isCombo,
+      properties: s.properties,
+      propertiesByContext: s.propertiesByContext ?? { main: s.properties },
+    })),
+  };
+}
+
+/**
+ * Site-wide class usage. The Designer API only exposes the current page's
+ * elements, so the scan switches through every page (and reads component
+ * definitions) and switches back to the starting page afterwards.
+ */
+export const createStyleUsageService = (deps: {
+  styleService: StyleService;
+}) => {
+  const { styleService } = deps;
+  const getWebflow = (): any => (window as any).webflow;
+
+  const record = (
+    index: StyleUsageIndex,
+    location: Omit<StyleUsageLocation, "elementIds">,
+    elementId: string,
+    classNames: string[]
+  ) => {
+    for (const name of classNames) {
+      const list = index.get(name) ?? [];
+      let entry = list.find(
+        (l) => l.scope === location.scope && l.id === location.id
+      );
+      if (!entry) {
+        entry = { ...location, elementIds: [] };
+        list.push(entry);
+        index.set(name, list);
+      }
+      entry.elementIds.push(elementId);
+    }
+  };
+
+  /** Depth-first walk below a component root */
+  const collectSubtree = async (root: any): Promise<any[]> => {
+    const out: any[] = [];
+    const stack = [root];
+    while (stack.length > 0) {
+      const el = stack.pop();
+      if (!el) continue;
+      out.push(el);
+      if (el.children && typeof el.getChildren === "function") {
+        stack.push(...((await el.getChildren()) ?? []));
+      }
+    }
+    return out;
+  };
+
+  async function scanSite(
+    onProgress?: (progress: StyleUsageProgress) => void
+  ): Promise<SiteUsageScan> {
+    const wf = getWebflow();
+    if (!wf || typeof wf.getAllPagesAndFolders !== "function") {
+      throw new Error("Designer API unavailable");
+    }
+
+    const index: StyleUsageIndex = new Map();
+    const skipped: string[] = [];
+    const pages: any[] = ((await wf.getAllPagesAndFolders()) ?? []).filter(
+      (p: any) => p?.type === "Page"
+    );
+    const components: any[] =
+      typeof wf.getAllComponents === "function"
+        ? ((await wf.getAllComponents()) ?? [])
+        : [];
+    const total = pages.length + components.length;
+    let done = 0;
+
+    const startPage = await wf.getCurrentPage?.();
+    try {
+      for (const page of pages) {
+        const name = String((await page.getName?.()) ?? page.id);
+        onProgress?.({ done, total, label: name });
+        try {
+          await wf.switchPage(page);
+          const elements: any[] = (await wf.getAllElements()) ?? [];
+          for (const el of elements) {
+            const names = await styleService.getAppliedClassNames(el);
+            if (names.length === 0) continue;
+            record(
+              index,
+              { scope: "page", id: page.id, name },
+              toElementKey(el),
+              names
+            );
+          }
+        } catch (err) {
+          console.warn(`[StyleUsage] Could not scan page "${name}"`, err);
+          skipped.push(`Page "${name}"`);
+        }
+        done += 1;
+      }
+    } finally {
+      if (startPage) await wf.switchPage(startPage).catch(() => {});
+    }
+
+    for (const component of components) {
+      const name = String((await component.getName?.()) ?? component.id);
+      onProgress?.({ done, total, label: name });
+      try {
+        // Library components are read-only and reject getRootElement
+        const root = await component.getRootElement();
+        for (const el of await collectSubtree(root)) {
+          const names = await styleService.getAppliedClassNames(el);
+          if (names.length === 0) continue;
+          record(
+            index,
+            { scope: "component", id: String(component.id), name },
+            toElementKey(el),
+            names
+          );
+        }
+      } catch (err) {
+        console.warn(`[StyleUsage] Could not scan component "${name}"`, err);
+        skipped.push(`Component "${name}"`);
+      }
+      done += 1;
+    }
+    onProgress?.({ done, total, label: "" });
+
+    return {
+      index,
+      pagesScanned: pages.length,
+      componentsScanned: components.length,
+      skipped,
+    };
+  }
+
+  /**
+   * Removes styles by id. Each style is re-checked against the current
+   * page right before removal, since the audit may be stale by then.
+   */
+  async function removeStyles(
+    styles: ReadonlyArray<Pick<UnusedStyle, "id" | "name">>
+  ): Promise<RemoveStylesResult> {
+    const wf = getWebflow();
+    if (!wf || typeof wf.removeStyle !== "function") {
+      throw new Error("Designer API unavailable");
+    }
+
+    const inUse = new Set<string>();
+    for (const el of (await wf.getAllElements()) ?? []) {
+      for (const n of await styleService.getAppliedClassNames(el)) inUse.add(n);
+    }
+
+    const byId = new Map<string, any>();
+    for (const style of (await wf.getAllStyles()) ?? []) {
+      if (style?.id) byId.set(style.id, style);
+    }
+
+    const removed: string[] = [];
+    const kept: RemoveStylesResult["kept"] = [];
+    // Combos first: a base style cannot go while combos still hang off it
+    const isCombo = (id: string) =>
+      Number(byId.get(id)?.isComboClass?.() ?? false);
+    const ordered = [...styles].sort((a, b) => isCombo(b.id) - isCombo(a.id));
+    for (const { id, name } of ordered) {
+      const style = byId.get(id);
+      if (!style) {
+        kept.push({ name, reason: "Style no longer exists" });
+        continue;
+      }
+      if (inUse.has(name)) {
+        kept.push({ name, reason: "Now used on the current page" });
+        continue;
+      }
+      try {
+        await wf.removeStyle(style);
+        removed.push(name);
+      } catch (err) {
+        kept.push({
+          name,
+          reason: err instanceof Error ? err.message : "Removal failed",
+        });
+      }
+    }
+
+    if (removed.length > 0) resetStyleServiceCache();
+    return { removed, kept };
+  }
+
+  return { scanSite, removeStyles } as const;
+};
+
+export type StyleUsageService = ReturnType<typeof createStyleUsageService>;
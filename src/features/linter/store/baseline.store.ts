@@ -0,0 +1,85 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import {
+  clearBaseline,
+  createBaseline,
+  getBaselineSnapshot,
+} from "@/features/linter/use-cases/manage-baseline";
+import { usePageLintStore } from "./usePageLintStore";
+import { relintActiveViews } from "./relint";
+
+interface BaselineState {
+  /** Accepted fingerprints for the current page; 0 when there is no baseline */
+  entryCount: number;
+  createdAt: string | null;
+  /** Show baselined findings alongside new ones */
+  showBaselined: boolean;
+  busy: boolean;
+  error: string | null;
+}
+
+interface BaselineActions {
+  refresh: () => Promise<void>;
+  create: () => Promise<void>;
+  clear: () => Promise<void>;
+  setShowBaselined: (show: boolean) => void;
+}
+
+type BaselineStore = BaselineState & BaselineActions;
+
+const initialState: BaselineState = {
+  entryCount: 0,
+  createdAt: null,
+  showBaselined: false,
+  busy: false,
+  error: null,
+};
+
+export const useBaselineStore = create<BaselineStore>()(
+  devtools(
+    (set, get) => {
+      const run = async (action: () => Promise<void>, failure: string) => {
+        if (get().busy) return;
+        set({ busy: true, error: null });
+        try {
+          await action();
+          set(await getBaselineSnapshot());
+          await relintActiveViews();
+        } catch (err) {
+          console.error("[BaselineStore] action failed", err);
+          set({ error: err instanceof Error ? err.message : failure });
+        } finally {
+          set({ busy: false });
+        }
+      };
+
+      return {
+        ...initialState,
+
+        refresh: async () => {
+          try {
+            set(await getBaselineSnapshot());
+          } catch (err) {
+            console.error("[BaselineStore] refresh failed", err);
+          }
+        },
+
+        create: () =>
+          run(async () => {
+            const page = usePageLintStore.getState();
+            if (!page.hasRun) await page.lintPage();
+            const { results, baselined } = usePageLintStore.getState();
+            // Existing baselined findings stay accepted
+            await createBaseline([...results, ...baselined]);
+          }, "Failed to create baseline"),
+
+        clear: () => run(clearBaseline, "Failed to clear baseline"),
+
+        setShowBaselined: (show: boolean) => set({ showBaselined: show }),
+      };
+    },
+    { name: "baseline-store", serialize: { options: true } }
+  )
+);
+
+export const useBaseline = useBaselineStore;
@@ -0,0 +1,136 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import {
+  buildBatchFixPlan,
+  type BatchFixPlan,
+} from "@/features/linter/lib/batch-fix-plan";
+import { getPageContextCache } from "@/features/linter/services/lint-context.service";
+import {
+  applyBatchFixes,
+  type BatchFixSummary,
+} from "@/features/linter/use-cases/apply-batch-fixes";
+import { relintActiveViews } from "./relint";
+import { useFixJournalStore } from "./fixJournal.store";
+import { usePageLintStore } from "./usePageLintStore";
+
+interface BatchFixState {
+  plan: BatchFixPlan | null;
+  /** Change keys the user unticked */
+  excluded: Record<string, true>;
+  applying: boolean;
+  progress: { done: number; total: number } | null;
+  summary: BatchFixSummary | null;
+}
+
+interface BatchFixActions {
+  buildPlan: (results: ReadonlyArray<RuleResult>) => void;
+  toggleChange: (key: string) => void;
+  toggleElement: (elementId: string, selected: boolean) => void;
+  applySelected: () => Promise<void>;
+  reset: () => void;
+}
+
+type BatchFixStore = BatchFixState & BatchFixActions;
+
+const initialState: BatchFixState = {
+  plan: null,
+  excluded: {},
+  applying: false,
+  progress: null,
+  summary: null,
+};
+
+/** Class names per element from the last page scan, in `getStyles()` order */
+function getScannedClasses(elementId: string): string[] {
+  const styles = getPageContextCache()?.elementStyleMap.get(elementId) ?? [];
+  return [...styles].sort((a, b) => a.order - b.order).map((s) => s.name);
+}
+
+export const useBatchFixStore = create<BatchFixStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      buildPlan: (results) => {
+        set({
+          plan: buildBatchFixPlan(results, getScannedClasses),
+          excluded: {},
+          progress: null,
+          summary: null,
+        });
+      },
+
+      toggleChange: (key) => {
+        const excluded = { ...get().excluded };
+        if (excluded[key]) delete excluded[key];
+        else excluded[key] = true;
+        set({ excluded });
+      },
+
+      toggleElement: (elementId, selected) => {
+        const element = get().plan?.elements.find(
+          (e) => e.elementId === elementId
+        );
+        if (!element) return;
+        const excluded = { ...get().excluded };
+        for (const change of element.changes) {
+          if (selected) delete excluded[change.key];
+          else excluded[change.key] = true;
+        }
+        set({ excluded });
+      },
+
+      applySelected: async () => {
+        const { plan, excluded, applying } = get();
+        if (!plan || applying) return;
+        const changes = plan.elements.flatMap((e) =>
+          e.changes.filter((c) => !excluded[c.key])
+        );
+        if (changes.length === 0) return;
+
+        set({
+          applying: true,
+          summary: null,
+          progress: { done: 0, total: changes.length },
+        });
+        try {
+          const summary = await applyBatchFixes(changes, (done, total) =>
+            set({ progress: { done, total } })
+          );
+          set({ summary });
+          useFixJournalStore.getState().refresh();
+          if (summary.applied > 0) {
+            await relintActiveViews();
+            // Show what is still fixable after the re-scan
+            set({
+              plan: buildBatchFixPlan(
+                usePageLintStore.getState().results,
+                getScannedClasses
+              ),
+              excluded: {},
+            });
+          }
+        } catch (err) {
+          console.error("[BatchFixStore] batch apply failed", err);
+          set({
+            summary: {
+              applied: 0,
+              skipped: 0,
+              failed: [
+                err instanceof Error ? err.message : "Failed to apply fixes",
+              ],
+            },
+          });
+        } finally {
+          set({ applying: false });
+        }
+      },
+
+      reset: () => set({ ...initialState }),
+    }),
+    { name: "batch-fix-store", serialize: { options: true } }
+  )
+);
+
+export const useBatchFix = useBatchFixStore;
@@ -0,0 +1,68 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { ConfigProfile } from "@/features/linter/services/config-profiles.service";
+import {
+  getConfigProfilesSnapshot,
+  runConfigProfileAction,
+  type ConfigProfileAction,
+} from "@/features/linter/use-cases/manage-config-profiles";
+import { relintActiveViews } from "./relint";
+import { useRuleSettingsStore } from "./ruleSettings.store";
+
+interface ConfigProfilesState {
+  profiles: ConfigProfile[];
+  activeProfileId: string | null;
+  scope: string | null;
+  busy: boolean;
+  error: string | null;
+}
+
+interface ConfigProfilesActions {
+  refresh: () => void;
+  run: (action: ConfigProfileAction) => Promise<void>;
+}
+
+type ConfigProfilesStore = ConfigProfilesState & ConfigProfilesActions;
+
+const initialState: ConfigProfilesState = {
+  profiles: [],
+  activeProfileId: null,
+  scope: null,
+  busy: false,
+  error: null,
+};
+
+export const useConfigProfilesStore = create<ConfigProfilesStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      refresh: () => {
+        set({ ...getConfigProfilesSnapshot(), error: null });
+      },
+
+      run: async (action: ConfigProfileAction) => {
+        if (get().busy) return;
+        set({ busy: true, error: null });
+        try {
+          const changed = runConfigProfileAction(action);
+          set(getConfigProfilesSnapshot());
+          if (changed) {
+            useRuleSettingsStore.getState().refresh();
+            await relintActiveViews();
+          }
+        } catch (err) {
+          set({
+            error:
+              err instanceof Error ? err.message : "Profile update failed",
+          });
+        } finally {
+          set({ busy: false });
+        }
+      },
+    }),
+    { name: "config-profiles-store", serialize: { options: true } }
+  )
+);
+
+export const useConfigProfiles = useConfigProfilesStore;
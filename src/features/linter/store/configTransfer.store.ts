@@ -0,0 +1,79 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { ConfigImportResult } from "@/features/linter/services/rule-configuration-service";
+import {
+  exportRuleConfig,
+  previewRuleConfigImport,
+  saveImportedRuleConfig,
+} from "@/features/linter/use-cases/transfer-rule-config";
+import { relintActiveViews } from "./relint";
+import { useRuleSettingsStore } from "./ruleSettings.store";
+
+interface ConfigTransferState {
+  draft: string;
+  /** Validation result for the current draft; saving requires one */
+  preview: ConfigImportResult | null;
+  saving: boolean;
+  message: string | null;
+}
+
+interface ConfigTransferActions {
+  setDraft: (draft: string) => void;
+  exportCurrent: () => void;
+  validate: () => void;
+  save: () => Promise<void>;
+  reset: () => void;
+}
+
+type ConfigTransferStore = ConfigTransferState & ConfigTransferActions;
+
+const initialState: ConfigTransferState = {
+  draft: "",
+  preview: null,
+  saving: false,
+  message: null,
+};
+
+export const useConfigTransferStore = create<ConfigTransferStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      setDraft: (draft: string) => set({ draft, preview: null, message: null }),
+
+      exportCurrent: () => {
+        set({ draft: exportRuleConfig(), preview: null, message: null });
+      },
+
+      validate: () => {
+        const { draft } = get();
+        if (!draft.trim()) return;
+        set({ preview: previewRuleConfigImport(draft), message: null });
+      },
+
+      save: async () => {
+        const { preview, saving } = get();
+        if (!preview?.report.ok || saving) return;
+        set({ saving: true });
+        try {
+          saveImportedRuleConfig(preview.configs, preview.extends);
+          useRuleSettingsStore.getState().refresh();
+          set({ preview: null, message: "Configuration saved" });
+          await relintActiveViews();
+        } catch (err) {
+          set({
+            message:
+              err instanceof Error ? err.message : "Failed to save configuration",
+          });
+        } finally {
+          set({ saving: false });
+        }
+      },
+
+      reset: () => set({ ...initialState }),
+    }),
+    { name: "config-transfer-store", serialize: { options: true } }
+  )
+);
+
+export const useConfigTransfer = useConfigTransferStore;
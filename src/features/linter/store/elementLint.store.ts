@@ -4,6 +4,7 @@ import { ensureLinterInitialized } from "@/features/linter/model/linter.factory"
 import { scanSelectedElement } from "@/features/linter/use-cases/scan-selected-element";
 import type { RuleResult } from "@/features/linter/model/rule.types";
 import type { ElementRole } from "@/features/linter/model/linter.types";
+import type { RoleDiagnostics } from "@/features/linter/model/preset.types";
 
 // Intentionally unused type guard removed to satisfy no-unused-vars rule; access via window.webflow at runtime
 
@@ -14,6 +15,12 @@ interface ElementLintState {
   loading: boolean;
   error: string | null;
   structuralContext: boolean;
+  /** Findings hidden by `data-flowlint-disable*` attributes */
+  suppressed: RuleResult[];
+  /** Findings accepted by the page baseline */
+  baselined: RuleResult[];
+  /** Detector verdicts behind the selected element's role */
+  roleDiagnostics: RoleDiagnostics | null;
 }
 
 interface ElementLintActions {
@@ -31,6 +38,9 @@ const initialState: ElementLintState = {
   loading: false,
   error: null,
   structuralContext: false, // Default to enabled for better detection
+  suppressed: [],
+  baselined: [],
+  roleDiagnostics: null,
 };
 
 export const useElementLintStore = create<ElementLintStore>()(
@@ -41,12 +51,15 @@ export const useElementLintStore = create<ElementLintStore>()(
       refresh: async () => {
         if (get().loading) return;
         try {
-          ensureLinterInitialized("balanced");
+          ensureLinterInitialized();
           set({ loading: true, error: null });
           const wf: any = (window as any).webflow;
           if (!wf || typeof wf.getSelectedElement !== "function") {
             set({
               results: [],
+              suppressed: [],
+              baselined: [],
+              roleDiagnostics: null,
               classNames: [],
               roles: [],
               loading: false,
@@ -57,6 +70,9 @@ export const useElementLintStore = create<ElementLintStore>()(
           if (!el || typeof el.getStyles !== "function") {
             set({
               results: [],
+              suppressed: [],
+              baselined: [],
+              roleDiagnostics: null,
               classNames: [],
               roles: [],
               loading: false,
@@ -64,12 +80,13 @@ export const useElementLintStore = create<ElementLintStore>()(
             return;
           }
           const state = get();
-          const results = await scanSelectedElement(
-            el,
-            state.structuralContext
-          );
+          const { results, suppressed, baselined, roleDiagnostics } =
+            await scanSelectedElement(el, state.structuralContext);
           set({
             results,
+            suppressed,
+            baselined,
+            roleDiagnostics,
             classNames: [],
             roles: [],
             loading: false,
@@ -106,7 +123,7 @@ export const useElementLintStore = create<ElementLintStore>()(
   try {
     const wf: any = (window as any).webflow;
     if (!wf || typeof wf.subscribe !== "function") return;
-    ensureLinterInitialized("balanced");
+    ensureLinterInitialized();
     wf.subscribe("selectedelement", async (el: any) => {
       const g: any = window as any;
       if (g.__flowlint_ignoreNextSelectedEvent) {
@@ -116,6 +133,9 @@ export const useElementLintStore = create<ElementLintStore>()(
       if (!el || typeof el.getStyles !== "function") {
         useElementLintStore.setState({
           results: [],
+          suppressed: [],
+          baselined: [],
+          roleDiagnostics: null,
           classNames: [],
           roles: [],
           loading: false,
@@ -125,9 +145,13 @@ export const useElementLintStore = create<ElementLintStore>()(
       useElementLintStore.setState({ loading: true, error: null });
       try {
         const state = useElementLintStore.getState();
-        const results = await scanSelectedElement(el, state.structuralContext);
+        const { results, suppressed, baselined, roleDiagnostics } =
+          await scanSelectedElement(el, state.structuralContext);
         useElementLintStore.setState({
           results,
+          suppressed,
+          baselined,
+          roleDiagnostics,
           classNames: [],
           roles: [],
           loading: false,
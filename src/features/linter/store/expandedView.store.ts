@@ -6,7 +6,12 @@ export type ExpandedViewContentType =
   | "recognized-elements"
   | "rule-documentation"
   | "diagnostic-details"
-  | "suggested-fixes";
+  | "suggested-fixes"
+  | "rule-settings"
+  | "scan-diff"
+  | "unused-styles"
+  | "near-duplicates"
+  | "heading-outline";
 
 export interface ExpandedViewContent {
   type: ExpandedViewContentType;
@@ -0,0 +1,76 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { FixJournalEntry } from "@/features/linter/services/fix-journal.service";
+import {
+  getUndoableFixes,
+  undoLastFix,
+  undoSessionFixes,
+} from "@/features/linter/use-cases/undo-fixes";
+import { relintActiveViews } from "./relint";
+
+interface FixJournalState {
+  /** Undoable entries from this session, newest first */
+  sessionEntries: FixJournalEntry[];
+  undoing: boolean;
+  lastMessage: string | null;
+  error: string | null;
+}
+
+interface FixJournalActions {
+  refresh: () => void;
+  undoLast: () => Promise<void>;
+  undoSession: () => Promise<void>;
+}
+
+type FixJournalStore = FixJournalState & FixJournalActions;
+
+const initialState: FixJournalState = {
+  sessionEntries: [],
+  undoing: false,
+  lastMessage: null,
+  error: null,
+};
+
+export const useFixJournalStore = create<FixJournalStore>()(
+  devtools(
+    (set, get) => {
+      const runUndo = async (
+        undo: () => Promise<{ undone: number; failed: string[] }>
+      ) => {
+        if (get().undoing) return;
+        set({ undoing: true, error: null, lastMessage: null });
+        try {
+          const { undone, failed } = await undo();
+          set({
+            lastMessage:
+              undone > 0
+                ? `Undid ${undone} fix${undone === 1 ? "" : "es"}`
+                : null,
+            error: failed.length > 0 ? failed.join("; ") : null,
+          });
+          if (undone > 0) await relintActiveViews();
+        } catch (err) {
+          console.error("[FixJournalStore] undo failed", err);
+          set({
+            error: err instanceof Error ? err.message : "Failed to undo fix",
+          });
+        } finally {
+          set({ undoing: false, sessionEntries: getUndoableFixes() });
+        }
+      };
+
+      return {
+        ...initialState,
+
+        refresh: () => set({ sessionEntries: getUndoableFixes() }),
+
+        undoLast: () => runUndo(undoLastFix),
+
+        undoSession: () => runUndo(undoSessionFixes),
+      };
+    },
+    { name: "fix-journal-store", serialize: { options: true } }
+  )
+);
+
+export const useFixJournal = useFixJournalStore;
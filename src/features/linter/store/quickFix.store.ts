@@ -0,0 +1,78 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import type { FixApplyResult } from "@/features/linter/services/fix-applier.service";
+import {
+  applyQuickFix,
+  type ApplyQuickFixOptions,
+} from "@/features/linter/use-cases/apply-quick-fix";
+import { relintActiveViews } from "./relint";
+import { useFixJournalStore } from "./fixJournal.store";
+
+interface QuickFixState {
+  /** Key of the violation whose fix is currently being applied */
+  applyingKey: string | null;
+  lastResult: FixApplyResult | null;
+  /** Key of the violation the last result belongs to */
+  lastKey: string | null;
+  error: string | null;
+}
+
+interface QuickFixActions {
+  applyFix: (
+    violation: RuleResult,
+    key: string,
+    options?: ApplyQuickFixOptions
+  ) => Promise<void>;
+  clear: () => void;
+}
+
+type QuickFixStore = QuickFixState & QuickFixActions;
+
+const initialState: QuickFixState = {
+  applyingKey: null,
+  lastResult: null,
+  lastKey: null,
+  error: null,
+};
+
+export const useQuickFixStore = create<QuickFixStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      applyFix: async (
+        violation: RuleResult,
+        key: string,
+        options?: ApplyQuickFixOptions
+      ) => {
+        if (get().applyingKey) return;
+        set({ applyingKey: key, error: null });
+        try {
+          const result = await applyQuickFix(violation, options);
+          set({ lastResult: result, lastKey: key });
+          if (result && result.status !== "applied") {
+            set({ error: result.message });
+          }
+          if (result?.status === "applied") {
+            useFixJournalStore.getState().refresh();
+            await relintActiveViews();
+          }
+        } catch (err) {
+          console.error("[QuickFixStore] apply failed", err);
+          set({
+            lastKey: key,
+            error: err instanceof Error ? err.message : "Failed to apply fix",
+          });
+        } finally {
+          set({ applyingKey: null });
+        }
+      },
+
+      clear: () => set({ ...initialState }),
+    }),
+    { name: "quick-fix-store", serialize: { options: true } }
+  )
+);
+
+export const useQuickFix = useQuickFixStore;
@@ -0,0 +1,13 @@
+import { useElementLintStore } from "./elementLint.store";
+import { usePageLintStore } from "./usePageLintStore";
+
+/**
+ * Re-lints whichever views currently show results after the extension changed
+ * the Designer (fix applied, fix undone). Page results only refresh once the
+ * user has scanned the page.
+ */
+export async function relintActiveViews(): Promise<void> {
+  const pageState = usePageLintStore.getState();
+  if (pageState.hasRun) await pageState.lintPage();
+  await useElementLintStore.getState().refresh();
+}
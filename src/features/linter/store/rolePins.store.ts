@@ -0,0 +1,59 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { PinnableRole } from "@/features/linter/lib/role-pins";
+import {
+  pinElementRole,
+  unpinElementRole,
+} from "@/features/linter/use-cases/manage-role-pins";
+import { relintActiveViews } from "./relint";
+
+interface RolePinsState {
+  busy: boolean;
+  error: string | null;
+}
+
+interface RolePinsActions {
+  pin: (elementId: string, role: PinnableRole) => Promise<void>;
+  unpin: (elementId: string) => Promise<void>;
+}
+
+type RolePinsStore = RolePinsState & RolePinsActions;
+
+const initialState: RolePinsState = {
+  busy: false,
+  error: null,
+};
+
+export const useRolePinsStore = create<RolePinsStore>()(
+  devtools(
+    (set, get) => {
+      const run = async (action: () => Promise<unknown>, failure: string) => {
+        if (get().busy) return;
+        set({ busy: true, error: null });
+        try {
+          await action();
+          // Pins feed role detection, so every visible result may change
+          await relintActiveViews();
+        } catch (err) {
+          console.error("[RolePinsStore] action failed", err);
+          set({ error: err instanceof Error ? err.message : failure });
+        } finally {
+          set({ busy: false });
+        }
+      };
+
+      return {
+        ...initialState,
+
+        pin: (elementId: string, role: PinnableRole) =>
+          run(() => pinElementRole(elementId, role), "Failed to pin role"),
+
+        unpin: (elementId: string) =>
+          run(() => unpinElementRole(elementId), "Failed to unpin role"),
+      };
+    },
+    { name: "role-pins-store", serialize: { options: true } }
+  )
+);
+
+export const useRolePins = useRolePinsStore;
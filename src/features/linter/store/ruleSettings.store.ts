@@ -0,0 +1,96 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import {
+  getRuleSettingsEntries,
+  updateRuleSettings,
+  type RuleSettingsChange,
+  type RuleSettingsEntry,
+} from "@/features/linter/use-cases/update-rule-settings";
+import {
+  getAvailableOpinionModes,
+  getCurrentOpinionMode,
+  setOpinionMode,
+} from "@/features/linter/model/linter.factory";
+import type {
+  OpinionMode,
+  OpinionModeDefinition,
+} from "@/features/linter/model/opinion.modes";
+import { relintActiveViews } from "./relint";
+
+interface RuleSettingsState {
+  entries: RuleSettingsEntry[];
+  /** Rule whose change is being persisted and re-linted */
+  savingRuleId: string | null;
+  opinionMode: OpinionMode | null;
+  opinionModes: readonly OpinionModeDefinition[];
+  error: string | null;
+}
+
+interface RuleSettingsActions {
+  refresh: () => void;
+  update: (ruleId: string, change: RuleSettingsChange) => Promise<void>;
+  setOpinionMode: (mode: OpinionMode) => Promise<void>;
+}
+
+type RuleSettingsStore = RuleSettingsState & RuleSettingsActions;
+
+const initialState: RuleSettingsState = {
+  entries: [],
+  savingRuleId: null,
+  opinionMode: null,
+  opinionModes: [],
+  error: null,
+};
+
+const readSnapshot = () => ({
+  entries: getRuleSettingsEntries(),
+  opinionMode: getCurrentOpinionMode(),
+  opinionModes: getAvailableOpinionModes(),
+});
+
+export const useRuleSettingsStore = create<RuleSettingsStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      refresh: () => {
+        set({ ...readSnapshot(), error: null });
+      },
+
+      update: async (ruleId: string, change: RuleSettingsChange) => {
+        set({ savingRuleId: ruleId, error: null });
+        try {
+          updateRuleSettings(ruleId, change);
+          set(readSnapshot());
+          await relintActiveViews();
+        } catch (err) {
+          console.error("[RuleSettingsStore] update failed", err);
+          set({
+            error:
+              err instanceof Error ? err.message : "Failed to save settings",
+          });
+        } finally {
+          set({ savingRuleId: null });
+        }
+      },
+
+      setOpinionMode: async (mode: OpinionMode) => {
+        set({ error: null });
+        try {
+          setOpinionMode(mode);
+          set(readSnapshot());
+          await relintActiveViews();
+        } catch (err) {
+          console.error("[RuleSettingsStore] mode switch failed", err);
+          set({
+            error:
+              err instanceof Error ? err.message : "Failed to switch mode",
+          });
+        }
+      },
+    }),
+    { name: "rule-settings-store", serialize: { options: true } }
+  )
+);
+
+export const useRuleSettings = useRuleSettingsStore;
@@ -0,0 +1,95 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import {
+  auditUnusedStyles,
+  deleteUnusedStyles,
+  type DeleteUnusedStylesResult,
+  type UnusedStyleAudit,
+} from "@/features/linter/use-cases/audit-unused-styles";
+import type { StyleUsageProgress } from "@/features/linter/services/style-usage.service";
+
+interface StyleAuditState {
+  audit: UnusedStyleAudit | null;
+  scanning: boolean;
+  progress: StyleUsageProgress | null;
+  deleting: boolean;
+  /** Outcome of the last delete, including the backup that preceded it */
+  lastDelete: DeleteUnusedStylesResult | null;
+  error: string | null;
+}
+
+interface StyleAuditActions {
+  runAudit: () => Promise<void>;
+  /** Backs up and removes the given unused styles, then re-audits */
+  deleteStyles: (ids: string[]) => Promise<void>;
+  reset: () => void;
+}
+
+type StyleAuditStore = StyleAuditState & StyleAuditActions;
+
+const initialState: StyleAuditState = {
+  audit: null,
+  scanning: false,
+  progress: null,
+  deleting: false,
+  lastDelete: null,
+  error: null,
+};
+
+export const useStyleAuditStore = create<StyleAuditStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      runAudit: async () => {
+        if (get().scanning || get().deleting) return;
+        set({ scanning: true, error: null, progress: null });
+        try {
+          const audit = await auditUnusedStyles((progress) =>
+            set({ progress })
+          );
+          set({ audit });
+        } catch (err) {
+          console.error("[StyleAuditStore] audit failed", err);
+          set({
+            error: err instanceof Error ? err.message : "Failed to audit styles",
+          });
+        } finally {
+          set({ scanning: false, progress: null });
+        }
+      },
+
+      deleteStyles: async (ids: string[]) => {
+        const { audit, scanning, deleting } = get();
+        if (!audit || scanning || deleting || ids.length === 0) return;
+        const selected = audit.unused.filter((s) => ids.includes(s.id));
+        set({ deleting: true, error: null });
+        try {
+          const lastDelete = await deleteUnusedStyles(selected);
+          set({
+            lastDelete,
+            audit: {
+              ...audit,
+              unused: audit.unused.filter(
+                (s) => !lastDelete.removed.includes(s.name)
+              ),
+            },
+          });
+        } catch (err) {
+          console.error("[StyleAuditStore] delete failed", err);
+          set({
+            error:
+              err instanceof Error ? err.message : "Failed to delete styles",
+          });
+        } finally {
+          set({ deleting: false });
+        }
+      },
+
+      reset: () => set({ ...initialState }),
+    }),
+    { name: "style-audit-store", serialize: { options: true } }
+  )
+);
+
+export const useStyleAudit = useStyleAuditStore;
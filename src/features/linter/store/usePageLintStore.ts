@@ -5,6 +5,7 @@ import type { RuleResult } from "@/features/linter/model/rule.types";
 import { scanCurrentPageWithMeta } from "@/features/linter/use-cases/scan-current-page";
 import { ensureLinterInitialized } from "@/features/linter/model/linter.factory";
 import { invalidatePageContextCache } from "@/features/linter/services/lint-context.service";
+import { resetVariableServiceCache } from "@/entities/variable";
 import { useAnimationStore } from "./animation.store";
 // import { defaultRules } from '@/features/linter/rules/default-rules';
 
@@ -16,6 +17,16 @@ interface PageLintState {
   loading: boolean;
   error: string | null;
   hasRun: boolean;
+  /** Findings hidden by `data-flowlint-disable*` attributes */
+  suppressed: RuleResult[];
+  /** Findings accepted by the page baseline (excluded from `results`) */
+  baselined: RuleResult[];
+  /** Baseline entries that no longer occur on the page */
+  baselineFixedCount: number;
+  /** Completion time of the current results */
+  lastRunAt: string | null;
+  /** Findings (new and baselined) from the run before the current one */
+  previousRun: { results: RuleResult[]; completedAt: string } | null;
 }
 
 interface PageLintActions {
@@ -31,6 +42,11 @@ const initialState: PageLintState = {
   loading: false,
   error: null,
   hasRun: false,
+  suppressed: [],
+  baselined: [],
+  baselineFixedCount: 0,
+  lastRunAt: null,
+  previousRun: null,
 };
 
 export const usePageLintStore = create<PageLintStore>()(
@@ -48,16 +64,36 @@ export const usePageLintStore = create<PageLintStore>()(
         set({ hasRun: true, loading: true, error: null });
 
         try {
-          ensureLinterInitialized("balanced");
+          ensureLinterInitialized();
 
           // Invalidate cache before scanning to ensure fresh results for page mode
           invalidatePageContextCache();
+          resetVariableServiceCache();
 
           const elements = await webflow.getAllElements();
-          const { results, classNames } = await scanCurrentPageWithMeta(
-            elements
-          );
-          set({ results, passedClassNames: classNames, loading: false });
+          const {
+            results,
+            classNames,
+            suppressed,
+            baselined,
+            baselineFixedCount,
+          } = await scanCurrentPageWithMeta(elements);
+          const prior = get();
+          set({
+            previousRun: prior.lastRunAt
+              ? {
+                  results: [...prior.results, ...prior.baselined],
+                  completedAt: prior.lastRunAt,
+                }
+              : null,
+            lastRunAt: new Date().toISOString(),
+            results,
+            passedClassNames: classNames,
+            suppressed,
+            baselined,
+            baselineFixedCount,
+            loading: false,
+          });
 
           // Trigger severity tiles animation after results are ready
           requestAnimationFrame(() => {
@@ -69,6 +105,10 @@ export const usePageLintStore = create<PageLintStore>()(
             error:
               error instanceof Error ? error.message : "Failed to lint page",
             results: [],
+            suppressed: [],
+            baselined: [],
+            baselineFixedCount: 0,
+            lastRunAt: null,
             loading: false,
           });
           // Reset animation state on error
@@ -80,6 +120,11 @@ export const usePageLintStore = create<PageLintStore>()(
         set({
           results: [],
           passedClassNames: [],
+          suppressed: [],
+          baselined: [],
+          baselineFixedCount: 0,
+          lastRunAt: null,
+          previousRun: null,
           error: null,
           hasRun: false,
         });
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { LintPageButton } from "@/features/linter/ui/controls/LintPageButton";
 import { PresetSwitcher } from "@/features/linter/ui/controls/PresetSwitcher";
+import { ToolsMenu } from "@/features/linter/ui/controls/ToolsMenu";
 import { cn } from "@/shared/utils";
 
 interface ActionBarProps {
@@ -41,6 +42,7 @@ export const ActionBar: React.FC<ActionBarProps> = ({
       <div className="mx-auto max-w-[420px] px-4 py-2">
         <div className="flex items-stretch gap-2 h-8">
           <PresetSwitcher onPresetChange={() => void onLint()} />
+          <ToolsMenu />
           <div className="flex-1 flex items-stretch">
             <LintPageButton
               onClick={() => void onLint()}
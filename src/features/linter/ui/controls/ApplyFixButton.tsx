@@ -0,0 +1,40 @@
+import React from "react";
+import { Button } from "@/shared/ui/button";
+import { Loader2, Wand2 } from "lucide-react";
+import { cn } from "@/shared/utils";
+
+interface ApplyFixButtonProps {
+  onClick: () => void;
+  applying?: boolean;
+  disabled?: boolean;
+  className?: string;
+  text?: string;
+  title?: string;
+  variant?: "default" | "outline";
+}
+
+export const ApplyFixButton: React.FC<ApplyFixButtonProps> = ({
+  onClick,
+  applying = false,
+  disabled = false,
+  className,
+  text,
+  title,
+  variant = "default",
+}) => (
+  <Button
+    size="sm"
+    variant={variant}
+    onClick={onClick}
+    disabled={disabled || applying}
+    className={cn("cursor-pointer my-2", className)}
+    title={title}
+  >
+    {applying ? (
+      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+    ) : (
+      <Wand2 className="h-3 w-3 mr-1" />
+    )}
+    <span className="text-xs">{applying ? "Applying…" : text || "Apply fix"}</span>
+  </Button>
+);
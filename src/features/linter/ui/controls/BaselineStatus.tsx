@@ -0,0 +1,53 @@
+import React, { useEffect } from "react";
+import { Archive } from "lucide-react";
+import { cn } from "@/shared/utils";
+import { useBaseline } from "@/features/linter/store/baseline.store";
+
+interface BaselineStatusProps {
+  baselinedCount: number;
+  /** Omitted for element scans, which only see part of the page */
+  fixedCount?: number;
+  className?: string;
+}
+
+/**
+ * Summary of findings hidden by the page baseline, with a toggle to show
+ * them. Renders nothing when the page has no baseline.
+ */
+export const BaselineStatus: React.FC<BaselineStatusProps> = ({
+  baselinedCount,
+  fixedCount,
+  className,
+}) => {
+  const { entryCount, showBaselined, setShowBaselined, refresh } =
+    useBaseline();
+
+  // Baselines are per page; re-read whenever a scan produces new numbers
+  useEffect(() => {
+    void refresh();
+  }, [refresh, baselinedCount, fixedCount]);
+
+  if (entryCount === 0) return null;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 text-[10px] text-muted-foreground",
+        className
+      )}
+    >
+      <Archive className="h-3 w-3" />
+      {baselinedCount} baselined
+      {fixedCount !== undefined && fixedCount > 0 && (
+        <span className="text-suggestion-foreground">· {fixedCount} fixed since</span>
+      )}
+      <button
+        type="button"
+        className="underline underline-offset-2 hover:text-foreground"
+        onClick={() => setShowBaselined(!showBaselined)}
+      >
+        {showBaselined ? "Hide" : "Show"}
+      </button>
+    </span>
+  );
+};
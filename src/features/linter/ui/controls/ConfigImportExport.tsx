@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { Button } from "@/shared/ui/button";
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { cn } from "@/shared/utils";
+import { useConfigTransfer } from "@/features/linter/store/configTransfer.store";
+import type { ConfigValidationIssue } from "@/features/linter/services/config-validation";
+
+const IssueRow: React.FC<{ issue: ConfigValidationIssue }> = ({ issue }) => (
+  <li
+    className={cn(
+      "text-[10px] break-words",
+      issue.kind === "parse-error" ? "text-error" : "text-warning-foreground"
+    )}
+  >
+    <span className="font-mono text-muted-foreground">{issue.source}</span>{" "}
+    {issue.ruleId && <span className="font-mono">{issue.ruleId} </span>}
+    {issue.message}
+  </li>
+);
+
+/**
+ * Paste/export box for sharing configs. Imports are always validated first
+ * and the report shown before anything is written to the active profile.
+ */
+export const ConfigImportExport: React.FC = () => {
+  const {
+    draft,
+    preview,
+    saving,
+    message,
+    setDraft,
+    exportCurrent,
+    validate,
+    save,
+  } = useConfigTransfer();
+  const [open, setOpen] = useState(false);
+
+  const copyDraft = () => {
+    void navigator.clipboard?.writeText(draft).catch(() => {
+      /* clipboard may be blocked inside the Designer iframe */
+    });
+  };
+
+  return (
+    <div className="rounded-sm border p-2 space-y-2">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 text-[11px] font-medium"
+        onClick={() => setOpen((v) => !v)}
+      >
+        {open ? (
+          <ChevronDown className="h-3 w-3" />
+        ) : (
+          <ChevronRight className="h-3 w-3" />
+        )}
+        Import / export
+      </button>
+
+      {open && (
+        <>
+          <textarea
+            className="w-full rounded-xs border bg-background px-2 py-1 font-mono text-[10px]"
+            rows={6}
+            value={draft}
+            placeholder='Paste a config, e.g. { "version": 2, "extends": [ … ], "ruleConfigs": { … } }'
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-1">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 text-[11px]"
+              onClick={exportCurrent}
+            >
+              Export current
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 text-[11px]"
+              disabled={!draft}
+              onClick={copyDraft}
+            >
+              Copy
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 text-[11px]"
+              disabled={!draft.trim()}
+              onClick={validate}
+            >
+              Validate import
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              {preview.report.issues.length === 0 ? (
+                <div className="text-[10px] text-muted-foreground">
+                  No problems found.
+                </div>
+              ) : (
+                <ul className="space-y-1">
+                  {preview.report.issues.map((issue, i) => (
+                    <IssueRow key={i} issue={issue} />
+                  ))}
+                </ul>
+              )}
+              <Button
+                size="sm"
+                className="h-7 w-full text-[11px]"
+                disabled={!preview.report.ok || saving}
+                onClick={() => void save()}
+              >
+                {saving && <Loader2 className="h-3 w-3 animate-spin" />}
+                {preview.report.ok
+                  ? preview.report.issues.length > 0
+                    ? "Save, ignoring flagged values"
+                    : "Save to active profile"
+                  : "Fix the errors above to save"}
+              </Button>
+            </div>
+          )}
+
+          {message && (
+            <div className="text-[10px] text-muted-foreground">{message}</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
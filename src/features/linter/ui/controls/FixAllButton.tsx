@@ -0,0 +1,45 @@
+import React, { useMemo } from "react";
+import { Button } from "@/shared/ui/button";
+import { Wand2 } from "lucide-react";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import { getQuickFix } from "@/features/linter/services/fix-applier.service";
+import { useBatchFix } from "@/features/linter/store/batchFix.store";
+import { useExpandedView } from "@/features/linter/store/expandedView.store";
+
+interface FixAllButtonProps {
+  results: RuleResult[];
+  className?: string;
+}
+
+export const FixAllButton: React.FC<FixAllButtonProps> = ({
+  results,
+  className,
+}) => {
+  const { buildPlan } = useBatchFix();
+  const { openExpandedView } = useExpandedView();
+
+  const fixableCount = useMemo(
+    () => results.filter((r) => getQuickFix(r)?.scope === "element").length,
+    [results]
+  );
+
+  if (fixableCount === 0) return null;
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className={className}
+      onClick={() => {
+        buildPlan(results);
+        openExpandedView({
+          type: "suggested-fixes",
+          title: "Fix all",
+        });
+      }}
+    >
+      <Wand2 className="h-3 w-3" />
+      Fix all ({fixableCount})
+    </Button>
+  );
+};
@@ -4,84 +4,95 @@ import { File, SquareSlash } from "lucide-react";
 
 export type LintViewMode = "element" | "page";
 
-interface ModeToggleProps {
-  mode: LintViewMode;
-  onChange: (mode: LintViewMode) => void;
+export interface ModeToggleOption<T extends string> {
+  value: T;
+  label: string;
+  icon?: React.ReactNode;
+  title?: string;
+}
+
+const viewModeOptions: ModeToggleOption<LintViewMode>[] = [
+  { value: "page", label: "Page", icon: <File className="size-3.5" /> },
+  {
+    value: "element",
+    label: "Element",
+    icon: <SquareSlash className="size-3.5" />,
+  },
+];
+
+interface ModeToggleProps<T extends string> {
+  mode: T;
+  onChange: (mode: T) => void;
+  /** Defaults to the Page/Element lint view tabs */
+  options?: ReadonlyArray<ModeToggleOption<T>>;
+  ariaLabel?: string;
   className?: string;
 }
 
-export const ModeToggle: React.FC<ModeToggleProps> = ({
+export function ModeToggle<T extends string = LintViewMode>({
   mode,
   onChange,
+  options = viewModeOptions as unknown as ReadonlyArray<ModeToggleOption<T>>,
+  ariaLabel = "Lint view mode",
   className = "",
-}) => {
+}: ModeToggleProps<T>) {
+  const activeIndex = Math.max(
+    0,
+    options.findIndex((o) => o.value === mode)
+  );
+  const count = Math.max(1, options.length);
+
   return (
     <div
       className={cn(
         "relative inline-flex bg-muted rounded-xs px-1 text-muted-foreground",
-        "grid grid-cols-2 gap-0 w-fit h-8",
+        "grid gap-0 w-fit h-8",
         className
       )}
+      style={{ gridTemplateColumns: `repeat(${count}, minmax(0, 1fr))` }}
       role="tablist"
-      aria-label="Lint view mode"
+      aria-label={ariaLabel}
     >
       {/* Sliding background indicator */}
       <div
         className={cn(
           "absolute inset-y-1 rounded-xs bg-accent/50 shadow-xs",
-          "transition-transform duration-300 ease-out",
-          "w-[calc(50%-4px)]" // Account for container padding
+          "transition-transform duration-300 ease-out"
         )}
         style={{
+          // Account for container padding
+          width: `calc(${100 / count}% - 4px)`,
           transform:
-            mode === "page"
+            activeIndex === 0
               ? "translateX(4px)"
-              : "translateX(calc(100% + 2px))",
+              : `translateX(calc(${activeIndex * 100}% + ${2 * activeIndex}px))`,
         }}
         aria-hidden="true"
       />
 
-      {/* Page tab */}
-      <button
-        type="button"
-        role="tab"
-        aria-selected={mode === "page"}
-        aria-controls="page-content"
-        className={cn(
-          "relative z-10 inline-flex items-center justify-center gap-1.5",
-          "px-2 py-0 text-xs font-medium whitespace-nowrap rounded-xs",
-          "transition-colors duration-200 ease-out",
-          "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
-          mode === "page"
-            ? "text-accent-foreground"
-            : "text-muted-foreground hover:text-foreground"
-        )}
-        onClick={() => onChange("page")}
-      >
-        <File className="size-3.5" />
-        <span>Page</span>
-      </button>
-
-      {/* Element tab */}
-      <button
-        type="button"
-        role="tab"
-        aria-selected={mode === "element"}
-        aria-controls="element-content"
-        className={cn(
-          "relative z-10 inline-flex items-center justify-center gap-1.5",
-          "px-2 py-0 text-xs font-medium whitespace-nowrap rounded-xs",
-          "transition-colors duration-200 ease-out",
-          "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
-          mode === "element"
-            ? "text-accent-foreground"
-            : "text-muted-foreground hover:text-foreground"
-        )}
-        onClick={() => onChange("element")}
-      >
-        <SquareSlash className="size-3.5" />
-        <span>Element</span>
-      </button>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          role="tab"
+          aria-selected={mode === option.value}
+          aria-controls={`${option.value}-content`}
+          title={option.title}
+          className={cn(
+            "relative z-10 inline-flex items-center justify-center gap-1.5",
+            "px-2 py-0 text-xs font-medium whitespace-nowrap rounded-xs",
+            "transition-colors duration-200 ease-out",
+            "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+            mode === option.value
+              ? "text-accent-foreground"
+              : "text-muted-foreground hover:text-foreground"
+          )}
+          onClick={() => onChange(option.value)}
+        >
+          {option.icon}
+          <span>{option.label}</span>
+        </button>
+      ))}
     </div>
   );
-};
+}
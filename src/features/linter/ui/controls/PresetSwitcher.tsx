@@ -48,7 +48,7 @@ export const PresetSwitcher: React.FC<PresetSwitcherProps> = ({
               <button
                 key={id}
                 onClick={() => {
-                  ensureLinterInitialized("balanced", id);
+                  ensureLinterInitialized(undefined, id);
                   setPreset(id);
                   try {
                     if (typeof localStorage !== "undefined") {
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/shared/ui/button";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { useConfigProfiles } from "@/features/linter/store/configProfiles.store";
+
+type NamingMode = "create" | "duplicate" | "rename";
+
+const namingLabels: Record<NamingMode, string> = {
+  create: "New profile",
+  duplicate: "Duplicate as",
+  rename: "Rename to",
+};
+
+export const ProfileManager: React.FC = () => {
+  const { profiles, activeProfileId, scope, busy, error, refresh, run } =
+    useConfigProfiles();
+  const [naming, setNaming] = useState<NamingMode | null>(null);
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const active = profiles.find((p) => p.id === activeProfileId);
+
+  const startNaming = (mode: NamingMode) => {
+    setNaming(mode);
+    setName(
+      mode === "rename"
+        ? active?.name ?? ""
+        : mode === "duplicate"
+        ? `${active?.name ?? "Profile"} copy`
+        : ""
+    );
+  };
+
+  const submitName = async () => {
+    if (!naming || !activeProfileId) return;
+    if (naming === "create") await run({ kind: "create", name });
+    if (naming === "duplicate") {
+      await run({ kind: "duplicate", profileId: activeProfileId, name });
+    }
+    if (naming === "rename") {
+      await run({ kind: "rename", profileId: activeProfileId, name });
+    }
+    setNaming(null);
+  };
+
+  return (
+    <div className="rounded-sm border p-2 space-y-2">
+      <div className="flex items-center gap-1">
+        <label htmlFor="config-profile" className="text-[11px] font-medium">
+          Profile
+        </label>
+        <select
+          id="config-profile"
+          className="flex-1 min-w-0 rounded-xs border bg-background px-1 py-0.5 text-[11px]"
+          value={activeProfileId ?? ""}
+          disabled={busy}
+          onChange={(e) => void run({ kind: "switch", profileId: e.target.value })}
+        >
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={busy}
+          onClick={() => startNaming("create")}
+          title="New profile"
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={busy}
+          onClick={() => startNaming("duplicate")}
+          title="Duplicate profile"
+        >
+          <Copy className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={busy}
+          onClick={() => startNaming("rename")}
+          title="Rename profile"
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={busy || profiles.length < 2 || !activeProfileId}
+          onClick={() =>
+            activeProfileId &&
+            void run({ kind: "remove", profileId: activeProfileId })
+          }
+          title="Delete profile"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {naming && (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submitName();
+          }}
+        >
+          <input
+            autoFocus
+            className="flex-1 min-w-0 rounded-xs border bg-background px-2 py-1 text-[11px]"
+            placeholder={namingLabels[naming]}
+            aria-label={namingLabels[naming]}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            className="h-6 text-[11px]"
+            disabled={busy}
+          >
+            Save
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-6 text-[11px]"
+            onClick={() => setNaming(null)}
+          >
+            Cancel
+          </Button>
+        </form>
+      )}
+
+      {scope && (
+        <div className="text-[10px] text-muted-foreground font-mono truncate">
+          {scope}
+        </div>
+      )}
+      {error && <div className="text-[10px] text-error">{error}</div>}
+    </div>
+  );
+};
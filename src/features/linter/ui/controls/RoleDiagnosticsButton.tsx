@@ -0,0 +1,42 @@
+import React from "react";
+import { Microscope } from "lucide-react";
+import { cn } from "@/shared/utils";
+import { useElementLint } from "@/features/linter/store/elementLint.store";
+import { useExpandedView } from "@/features/linter/store/expandedView.store";
+
+interface RoleDiagnosticsButtonProps {
+  className?: string;
+}
+
+/**
+ * Shows the selected element's role (marked when pinned) and opens the role
+ * explainer with the detector score table.
+ */
+export const RoleDiagnosticsButton: React.FC<RoleDiagnosticsButtonProps> = ({
+  className,
+}) => {
+  const diagnostics = useElementLint((s) => s.roleDiagnostics);
+  const { openExpandedView } = useExpandedView();
+  if (!diagnostics) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() =>
+        openExpandedView({
+          type: "diagnostic-details",
+          title: "Role detection",
+        })
+      }
+      className={cn(
+        "inline-flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground",
+        className
+      )}
+      title="Show how each detector scored this element"
+    >
+      <Microscope className="h-3 w-3" />
+      Role: {diagnostics.finalRole}
+      {diagnostics.roleSource === "manual" && " (manual)"}
+    </button>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from "react";
+import type { RuleConfigField } from "@/features/linter/model/rule.types";
+
+interface RuleConfigFieldInputProps {
+  id: string;
+  field: RuleConfigField;
+  value: unknown;
+  disabled?: boolean;
+  onCommit: (value: unknown) => void;
+}
+
+const inputClass =
+  "w-full rounded-xs border bg-background px-2 py-1 text-[11px] disabled:opacity-50";
+
+function toDraft(field: RuleConfigField, value: unknown): string {
+  if (field.type === "string[]") {
+    return Array.isArray(value) ? value.join("\n") : "";
+  }
+  return value === undefined || value === null ? "" : String(value);
+}
+
+function fromDraft(field: RuleConfigField, draft: string): unknown {
+  if (field.type === "string[]") {
+    return draft
+      .split(/[\n,]/)
+      .map((s) => s.trim())
+      .filter(Boolean);
+  }
+  if (field.type === "number") {
+    const n = Number(draft);
+    return draft.trim() === "" || Number.isNaN(n) ? field.default : n;
+  }
+  return draft;
+}
+
+/**
+ * Form control for one RuleConfigSchema field. Text-like fields keep a local
+ * draft and commit on blur so typing doesn't trigger a re-lint per keystroke.
+ */
+export const RuleConfigFieldInput: React.FC<RuleConfigFieldInputProps> = ({
+  id,
+  field,
+  value,
+  disabled = false,
+  onCommit,
+}) => {
+  const [draft, setDraft] = useState(() => toDraft(field, value));
+
+  useEffect(() => {
+    setDraft(toDraft(field, value));
+  }, [field, value]);
+
+  const commitDraft = () => {
+    if (draft === toDraft(field, value)) return;
+    onCommit(fromDraft(field, draft));
+  };
+
+  if (field.type === "boolean") {
+    return (
+      <input
+        id={id}
+        type="checkbox"
+        checked={Boolean(value)}
+        disabled={disabled}
+        onChange={(e) => onCommit(e.target.checked)}
+      />
+    );
+  }
+
+  if (field.type === "enum") {
+    return (
+      <select
+        id={id}
+        className={inputClass}
+        value={String(value ?? field.default ?? "")}
+        disabled={disabled}
+        onChange={(e) => onCommit(e.target.value)}
+      >
+        {(field.options ?? []).map((opt) => (
+          <option key={opt} value={opt}>
+            {opt}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (field.type === "string[]") {
+    return (
+      <textarea
+        id={id}
+        className={inputClass}
+        rows={Math.min(6, Math.max(2, draft.split("\n").length))}
+        value={draft}
+        disabled={disabled}
+        placeholder="One value per line"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+      />
+    );
+  }
+
+  return (
+    <input
+      id={id}
+      type={field.type === "number" ? "number" : "text"}
+      className={inputClass}
+      value={draft}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commitDraft}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commitDraft();
+      }}
+    />
+  );
+};
@@ -0,0 +1,42 @@
+import React from "react";
+import { EyeOff } from "lucide-react";
+import { cn } from "@/shared/utils";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import {
+  SUPPRESS_ATTRIBUTE,
+  summarizeSuppressed,
+} from "@/features/linter/lib/suppressions";
+
+interface SuppressedCountProps {
+  suppressed: RuleResult[];
+  className?: string;
+}
+
+/**
+ * Keeps inline suppressions visible: shows how many findings were hidden by
+ * `data-flowlint-disable*` attributes, with a per-rule breakdown on hover.
+ */
+export const SuppressedCount: React.FC<SuppressedCountProps> = ({
+  suppressed,
+  className,
+}) => {
+  if (suppressed.length === 0) return null;
+  const { total, byRule } = summarizeSuppressed(suppressed);
+  const breakdown = Object.entries(byRule)
+    .sort(([, a], [, b]) => b - a)
+    .map(([ruleId, n]) => `${ruleId}: ${n}`)
+    .join("\n");
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 text-[10px] text-muted-foreground",
+        className
+      )}
+      title={`Hidden by ${SUPPRESS_ATTRIBUTE} attributes\n${breakdown}`}
+    >
+      <EyeOff className="h-3 w-3" />
+      {total} suppressed
+    </span>
+  );
+};
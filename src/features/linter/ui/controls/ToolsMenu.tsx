@@ -0,0 +1,145 @@
+import React from "react";
+import { Button } from "@/shared/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/shared/ui/dropdown-menu";
+import {
+  MoreHorizontal,
+  Undo2,
+  History,
+  Settings2,
+  Archive,
+  ArchiveX,
+  GitCompare,
+  Eraser,
+} from "lucide-react";
+import { useFixJournal } from "@/features/linter/store/fixJournal.store";
+import { useExpandedView } from "@/features/linter/store/expandedView.store";
+import { useBaseline } from "@/features/linter/store/baseline.store";
+import { usePageLint } from "@/features/linter/store/pageLint.store";
+
+export const ToolsMenu: React.FC = () => {
+  const { sessionEntries, undoing, error, refresh, undoLast, undoSession } =
+    useFixJournal();
+  const { openExpandedView } = useExpandedView();
+  const baseline = useBaseline();
+  const hasPreviousRun = usePageLint((s) => s.previousRun !== null);
+  const hasEntries = sessionEntries.length > 0;
+  const last = sessionEntries[0];
+
+  return (
+    <div className="rounded-sm border bg-card flex items-stretch h-full">
+      <DropdownMenu
+        onOpenChange={(open) => {
+          if (!open) return;
+          refresh();
+          void baseline.refresh();
+        }}
+      >
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-full w-8 rounded-xs">
+            <MoreHorizontal className="h-4 w-4" />
+            <span className="sr-only">Linter tools</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top" align="start" className="w-56">
+          <DropdownMenuItem
+            disabled={!hasEntries || undoing}
+            onSelect={() => void undoLast()}
+            className="text-[11px] gap-2 data-[disabled]:opacity-50"
+            title={last?.description}
+          >
+            <Undo2 className="h-3 w-3" />
+            Undo last fix
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!hasEntries || undoing}
+            onSelect={() => void undoSession()}
+            className="text-[11px] gap-2 data-[disabled]:opacity-50"
+          >
+            <History className="h-3 w-3" />
+            Undo all fixes from this session
+            {hasEntries && (
+              <span className="ml-auto text-muted-foreground">
+                {sessionEntries.length}
+              </span>
+            )}
+          </DropdownMenuItem>
+          {error && (
+            <div className="px-2 py-1 text-[10px] text-error">{error}</div>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={baseline.busy}
+            onSelect={() => void baseline.create()}
+            className="text-[11px] gap-2 data-[disabled]:opacity-50"
+            title="Accept all current findings on this page; later scans only report new ones"
+          >
+            <Archive className="h-3 w-3" />
+            {baseline.entryCount > 0 ? "Update baseline" : "Create baseline"}
+            {baseline.entryCount > 0 && (
+              <span className="ml-auto text-muted-foreground">
+                {baseline.entryCount}
+              </span>
+            )}
+          </DropdownMenuItem>
+          {baseline.entryCount > 0 && (
+            <DropdownMenuItem
+              disabled={baseline.busy}
+              onSelect={() => void baseline.clear()}
+              className="text-[11px] gap-2 data-[disabled]:opacity-50"
+            >
+              <ArchiveX className="h-3 w-3" />
+              Clear baseline
+            </DropdownMenuItem>
+          )}
+          {baseline.error && (
+            <div className="px-2 py-1 text-[10px] text-error">
+              {baseline.error}
+            </div>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={!hasPreviousRun}
+            onSelect={() =>
+              openExpandedView({
+                type: "scan-diff",
+                title: "Changes since last scan",
+              })
+            }
+            className="text-[11px] gap-2 data-[disabled]:opacity-50"
+          >
+            <GitCompare className="h-3 w-3" />
+            Changes since last scan
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() =>
+              openExpandedView({
+                type: "unused-styles",
+                title: "Unused styles",
+              })
+            }
+            className="text-[11px] gap-2"
+            title="Scans every page and component; switches pages while it runs"
+          >
+            <Eraser className="h-3 w-3" />
+            Find unused styles
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() =>
+              openExpandedView({ type: "rule-settings", title: "Rule settings" })
+            }
+            className="text-[11px] gap-2"
+          >
+            <Settings2 className="h-3 w-3" />
+            Rule settings
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
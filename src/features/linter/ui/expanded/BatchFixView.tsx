@@ -0,0 +1,178 @@
+import React from "react";
+import { Badge } from "@/shared/ui/badge";
+import { Button } from "@/shared/ui/button";
+import { ScrollArea } from "@/shared/ui/scroll-area";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { cn } from "@/shared/utils";
+import { useBatchFix } from "@/features/linter/store/batchFix.store";
+import {
+  previewClassList,
+  type BatchFixElementPlan,
+} from "@/features/linter/lib/batch-fix-plan";
+import { selectElementById } from "@/features/window/select-element";
+
+const ClassList: React.FC<{ classes: string[]; compareTo: string[] }> = ({
+  classes,
+  compareTo,
+}) => (
+  <div className="flex flex-wrap gap-1">
+    {classes.length === 0 && (
+      <span className="text-[10px] text-muted-foreground">No classes</span>
+    )}
+    {classes.map((c, i) => (
+      <Badge
+        key={`${c}-${i}`}
+        variant={compareTo[i] === c ? "webflowClassMuted" : "suggestionContent"}
+        className="text-[10px]"
+      >
+        {c}
+      </Badge>
+    ))}
+  </div>
+);
+
+const ElementDiff: React.FC<{
+  element: BatchFixElementPlan;
+  excluded: Record<string, true>;
+  disabled: boolean;
+  onToggleChange: (key: string) => void;
+  onToggleElement: (elementId: string, selected: boolean) => void;
+}> = ({ element, excluded, disabled, onToggleChange, onToggleElement }) => {
+  const after = previewClassList(element, (c) => !excluded[c.key]);
+  const allSelected = element.changes.every((c) => !excluded[c.key]);
+
+  return (
+    <div className="rounded-sm border p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={allSelected}
+          disabled={disabled}
+          onChange={(e) => onToggleElement(element.elementId, e.target.checked)}
+          aria-label="Select all changes for this element"
+        />
+        <button
+          type="button"
+          className="text-[11px] font-medium hover:underline truncate"
+          onClick={() => void selectElementById(element.elementId)}
+          title="Select element in Designer"
+        >
+          {element.before[0] ?? element.elementId}
+        </button>
+      </div>
+
+      <div className="space-y-1 pl-5">
+        {element.changes.map((change) => (
+          <label
+            key={change.key}
+            className="flex items-start gap-2 text-[11px] cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={!excluded[change.key]}
+              disabled={disabled}
+              onChange={() => onToggleChange(change.key)}
+            />
+            <span className="min-w-0 break-words">{change.description}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="pl-5 grid grid-cols-[1fr_auto_1fr] items-start gap-2">
+        <ClassList classes={element.before} compareTo={element.before} />
+        <ArrowRight className="h-3 w-3 mt-1 text-muted-foreground" />
+        <ClassList classes={after} compareTo={element.before} />
+      </div>
+    </div>
+  );
+};
+
+export const BatchFixView: React.FC = () => {
+  const {
+    plan,
+    excluded,
+    applying,
+    progress,
+    summary,
+    toggleChange,
+    toggleElement,
+    applySelected,
+  } = useBatchFix();
+
+  if (!plan) return null;
+
+  const selectedCount = plan.elements.reduce(
+    (n, e) => n + e.changes.filter((c) => !excluded[c.key]).length,
+    0
+  );
+
+  return (
+    <div className="h-full flex flex-col min-h-0">
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-4 space-y-3">
+          <div className="text-xs text-muted-foreground">
+            {plan.totalChanges === 0
+              ? "No automatic fixes available for this page."
+              : `${plan.totalChanges} fixable issue${
+                  plan.totalChanges === 1 ? "" : "s"
+                } across ${plan.elements.length} element${
+                  plan.elements.length === 1 ? "" : "s"
+                }. Untick anything you want to keep as is.`}
+          </div>
+
+          {summary && (
+            <div
+              className={cn(
+                "text-[11px] rounded-sm px-2 py-1",
+                summary.failed.length > 0 ? "bg-error/10" : "bg-accent/30"
+              )}
+            >
+              Applied {summary.applied}
+              {summary.skipped > 0 && `, skipped ${summary.skipped}`}
+              {summary.failed.length > 0 && `, failed ${summary.failed.length}`}
+              {summary.failed.map((f, i) => (
+                <div key={i} className="text-error text-[10px]">
+                  {f}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {plan.elements.map((element) => (
+            <ElementDiff
+              key={element.elementId}
+              element={element}
+              excluded={excluded}
+              disabled={applying}
+              onToggleChange={toggleChange}
+              onToggleElement={toggleElement}
+            />
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="border-t p-3 space-y-2">
+        {progress && applying && (
+          <div className="h-1 w-full rounded-full bg-accent overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-200"
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+        )}
+        <Button
+          size="sm"
+          className="w-full h-8"
+          disabled={applying || selectedCount === 0}
+          onClick={() => void applySelected()}
+        >
+          {applying && <Loader2 className="h-3 w-3 animate-spin" />}
+          {applying && progress
+            ? `Applying ${progress.done}/${progress.total}…`
+            : `Apply ${selectedCount} fix${selectedCount === 1 ? "" : "es"}`}
+        </Button>
+      </div>
+    </div>
+  );
+};
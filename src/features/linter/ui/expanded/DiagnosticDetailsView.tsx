@@ -0,0 +1,229 @@
+import React, { useMemo } from "react";
+import { Pin } from "lucide-react";
+import { Badge } from "@/shared/ui/badge";
+import { Button } from "@/shared/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/shared/ui/dropdown-menu";
+import { ScrollArea } from "@/shared/ui/scroll-area";
+import { cn } from "@/shared/utils";
+import { useElementLint } from "@/features/linter/store/elementLint.store";
+import { useRolePins } from "@/features/linter/store/rolePins.store";
+import type { DetectorVerdict } from "@/features/linter/model/preset.types";
+import { PINNABLE_ROLES, ROLE_ATTRIBUTE } from "@/features/linter/lib/role-pins";
+import { roleToLabel } from "@/features/linter/lib/labels";
+
+const formatScore = (score: number) => score.toFixed(2);
+
+const DEMOTION_LABELS = {
+  threshold: "best score is below the threshold",
+  "singleton-main": "another element scored higher as main",
+} as const;
+
+/** Scored verdicts first (highest score on top), then abstentions */
+function sortVerdicts(verdicts: readonly DetectorVerdict[]): DetectorVerdict[] {
+  return [...verdicts].sort(
+    (a, b) => (b.result?.score ?? -1) - (a.result?.score ?? -1)
+  );
+}
+
+/**
+ * Role explainer for the selected element: every detector's verdict, the
+ * threshold, and why the winning candidate was kept or dropped. Follows the
+ * Designer selection through the element lint store.
+ */
+export const DiagnosticDetailsView: React.FC = () => {
+  const diagnostics = useElementLint((s) => s.roleDiagnostics);
+  const loading = useElementLint((s) => s.loading);
+  const { pin, unpin, busy: pinning, error: pinError } = useRolePins();
+  const verdicts = useMemo(
+    () => sortVerdicts(diagnostics?.verdicts ?? []),
+    [diagnostics]
+  );
+
+  if (!diagnostics) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        {loading
+          ? "Scanning the selected element…"
+          : "Select an element in the Designer to see how its role was detected."}
+      </div>
+    );
+  }
+
+  const {
+    classes,
+    tagName,
+    elementType,
+    bestRole,
+    bestScore,
+    threshold,
+    finalRole,
+    roleSource,
+    pinnedBy,
+    demotedBy,
+  } = diagnostics;
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4 space-y-4">
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-1">
+            {classes.length > 0 ? (
+              classes.map((name) => (
+                <Badge
+                  key={name}
+                  variant="webflowClass"
+                  className="text-[10px] font-mono"
+                >
+                  {name}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-[11px] text-muted-foreground italic">
+                no classes
+              </span>
+            )}
+          </div>
+          <div className="text-[11px] text-muted-foreground font-mono">
+            &lt;{tagName}&gt;{elementType ? ` · ${elementType}` : ""}
+          </div>
+        </div>
+
+        <div className="rounded-sm border p-2 space-y-1 text-[11px]">
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Role</span>
+            <Badge
+              variant={finalRole === "unknown" ? "outline" : "secondary"}
+              className="text-[10px]"
+            >
+              {finalRole}
+            </Badge>
+            {roleSource === "manual" && (
+              <Badge variant="outline" className="text-[10px]">
+                manual
+              </Badge>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={pinning}
+                  className="ml-auto"
+                >
+                  <Pin className="h-3 w-3" />
+                  {pinnedBy === "ui" ? "Change pin" : "Pin role"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-44">
+                {PINNABLE_ROLES.map((role) => (
+                  <DropdownMenuItem
+                    key={role}
+                    onSelect={() => void pin(diagnostics.elementId, role)}
+                    className="text-[11px]"
+                  >
+                    {roleToLabel(role)}
+                  </DropdownMenuItem>
+                ))}
+                {pinnedBy === "ui" && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onSelect={() => void unpin(diagnostics.elementId)}
+                      className="text-[11px]"
+                    >
+                      Unpin
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          {pinnedBy && (
+            <div className="text-muted-foreground">
+              {pinnedBy === "ui"
+                ? "Pinned from the role explainer; detector scores are ignored."
+                : `Pinned by the ${ROLE_ATTRIBUTE} attribute; detector scores are ignored.`}
+            </div>
+          )}
+          {pinError && <div className="text-error">{pinError}</div>}
+          <div className="text-muted-foreground">
+            Best candidate:{" "}
+            {bestRole ? `${bestRole} (${formatScore(bestScore)})` : "none"} ·
+            threshold {formatScore(threshold)}
+          </div>
+          {demotedBy && (
+            <div className="text-warning">
+              Dropped: {DEMOTION_LABELS[demotedBy]}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+            Detectors ({verdicts.length})
+          </h3>
+          {verdicts.length === 0 ? (
+            <div className="text-[11px] text-muted-foreground">
+              The active preset has no role detectors.
+            </div>
+          ) : (
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal pb-1">Detector</th>
+                  <th className="font-normal pb-1">Role</th>
+                  <th className="font-normal pb-1 text-right">Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {verdicts.map(({ detectorId, result, error }) => (
+                  <tr
+                    key={detectorId}
+                    className={cn(
+                      "border-t align-top",
+                      !result && "text-muted-foreground"
+                    )}
+                  >
+                    <td className="py-1 pr-2 font-mono break-all">
+                      {detectorId}
+                      {result?.reasoning && (
+                        <div className="font-sans text-[10px] text-muted-foreground">
+                          {result.reasoning}
+                        </div>
+                      )}
+                      {error && (
+                        <div className="font-sans text-[10px] text-error">
+                          {error}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {result ? result.role : error ? "error" : "no match"}
+                    </td>
+                    <td
+                      className={cn(
+                        "py-1 text-right font-mono",
+                        result &&
+                          (result.score >= threshold
+                            ? "text-foreground"
+                            : "text-muted-foreground")
+                      )}
+                    >
+                      {result ? formatScore(result.score) : "–"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useMemo } from "react";
+import { Badge } from "@/shared/ui/badge";
+import { ScrollArea } from "@/shared/ui/scroll-area";
+import { cn } from "@/shared/utils";
+import { selectElementById } from "@/features/window/select-element";
+import type {
+  HeadingIssue,
+  HeadingOutlineEntry,
+} from "@/features/linter/rules/shared/accessibility";
+
+interface HeadingOutlineViewProps {
+  outline: HeadingOutlineEntry[];
+  focusElementId: string | null;
+}
+
+interface OutlineNode {
+  entry: HeadingOutlineEntry;
+  children: OutlineNode[];
+}
+
+const ISSUE_LABELS: Record<HeadingIssue, string> = {
+  "multiple-h1": "extra h1",
+  "skipped-level": "skipped level",
+  nested: "nested",
+  styling: "body-text class",
+};
+
+/** Nests each heading under the closest earlier heading of a lower level */
+function buildOutlineTree(outline: HeadingOutlineEntry[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  for (const entry of outline) {
+    const node: OutlineNode = { entry, children: [] };
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].entry.level >= entry.level
+    ) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  }
+  return roots;
+}
+
+const OutlineBranch: React.FC<{
+  nodes: OutlineNode[];
+  focusElementId: string | null;
+  nested?: boolean;
+}> = ({ nodes, focusElementId, nested = false }) => (
+  <ul className={cn("space-y-1", nested && "ml-3 border-l pl-2")}>
+    {nodes.map(({ entry, children }) => (
+      <li key={entry.elementId} className="space-y-1">
+        <button
+          type="button"
+          onClick={() => void selectElementById(entry.elementId)}
+          title="Select element in Designer"
+          className={cn(
+            "flex w-full items-center gap-2 rounded-sm px-1 py-0.5 text-left text-[11px] hover:bg-accent/50",
+            entry.elementId === focusElementId && "bg-accent"
+          )}
+        >
+          <span className="font-mono font-medium">h{entry.level}</span>
+          {entry.className ? (
+            <Badge
+              variant="webflowClass"
+              className="text-[10px] font-mono truncate"
+            >
+              {entry.className}
+            </Badge>
+          ) : (
+            <span className="text-muted-foreground italic">no class</span>
+          )}
+          {entry.issues.map((issue) => (
+            <Badge key={issue} variant="warning" className="text-[10px]">
+              {ISSUE_LABELS[issue]}
+            </Badge>
+          ))}
+        </button>
+        {children.length > 0 && (
+          <OutlineBranch
+            nodes={children}
+            focusElementId={focusElementId}
+            nested
+          />
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+/** The page's headings as a tree, in document order */
+export const HeadingOutlineView: React.FC<HeadingOutlineViewProps> = ({
+  outline,
+  focusElementId,
+}) => {
+  const tree = useMemo(() => buildOutlineTree(outline), [outline]);
+
+  if (outline.length === 0) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        No headings found on this page.
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4 space-y-3">
+        <div className="text-xs text-muted-foreground">
+          {outline.length} heading{outline.length === 1 ? "" : "s"} in
+          document order. Click one to select it.
+        </div>
+        <OutlineBranch nodes={tree} focusElementId={focusElementId} />
+      </div>
+    </ScrollArea>
+  );
+};
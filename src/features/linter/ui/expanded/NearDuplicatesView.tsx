@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { Badge } from "@/shared/ui/badge";
+import { ScrollArea } from "@/shared/ui/scroll-area";
+import { cn } from "@/shared/utils";
+import {
+  describeStyleContext,
+  parseStyleContextKey,
+} from "@/entities/style/model/style-contexts";
+import type { DeclarationDiffRow } from "@/features/linter/services/analyzers/near-duplicate-analyzer";
+
+export interface NearDuplicateComparison {
+  other: string;
+  valueSimilarity: number;
+  sharedCount: number;
+  totalCount: number;
+  differences: DeclarationDiffRow[];
+}
+
+interface NearDuplicatesViewProps {
+  className: string;
+  comparisons: NearDuplicateComparison[];
+}
+
+const Value: React.FC<{ value: string | null }> = ({ value }) =>
+  value === null ? (
+    <span className="text-muted-foreground italic">not set</span>
+  ) : (
+    <span className="font-mono break-all">{value}</span>
+  );
+
+/** Declarations that differ between a class and its near-duplicates */
+export const NearDuplicatesView: React.FC<NearDuplicatesViewProps> = ({
+  className,
+  comparisons,
+}) => {
+  const [active, setActive] = useState(0);
+  const current = comparisons[active];
+
+  if (!current) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        No comparison data for this finding.
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4 space-y-3">
+        {comparisons.length > 1 && (
+          <div className="flex flex-wrap gap-1">
+            {comparisons.map((c, i) => (
+              <button
+                key={c.other}
+                type="button"
+                onClick={() => setActive(i)}
+                className={cn(
+                  "rounded-sm border px-1.5 py-0.5 text-[10px] font-mono",
+                  i === active ? "bg-accent" : "hover:bg-accent/50"
+                )}
+              >
+                {c.other} · {Math.round(c.valueSimilarity * 100)}%
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="text-xs text-muted-foreground">
+          {current.sharedCount} of {current.totalCount} declarations are
+          identical. {current.differences.length} differ:
+        </div>
+
+        <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)] gap-x-2 gap-y-1 text-[11px]">
+          <div />
+          <Badge
+            variant="webflowClass"
+            className="text-[10px] font-mono truncate"
+          >
+            {className}
+          </Badge>
+          <Badge
+            variant="webflowClass"
+            className="text-[10px] font-mono truncate"
+          >
+            {current.other}
+          </Badge>
+          {current.differences.map((row) => (
+            <React.Fragment key={`${row.context}|${row.property}`}>
+              <div className="min-w-0">
+                <div className="font-mono truncate">{row.property}</div>
+                {row.context !== "main" && (
+                  <div className="text-[10px] text-muted-foreground">
+                    {describeStyleContext(parseStyleContextKey(row.context))}
+                  </div>
+                )}
+              </div>
+              <Value value={row.a} />
+              <Value value={row.b} />
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo } from "react";
+import { ScrollArea } from "@/shared/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/shared/utils";
+import type {
+  RuleCategory,
+  Severity,
+} from "@/features/linter/model/rule.types";
+import { toTitleCase } from "@/features/linter/lib/labels";
+import { useRuleSettings } from "@/features/linter/store/ruleSettings.store";
+import type { RuleSettingsEntry } from "@/features/linter/use-cases/update-rule-settings";
+import { RuleConfigFieldInput } from "@/features/linter/ui/controls/RuleConfigFieldInput";
+import { ProfileManager } from "@/features/linter/ui/controls/ProfileManager";
+import { ConfigImportExport } from "@/features/linter/ui/controls/ConfigImportExport";
+import { ModeToggle } from "@/features/linter/ui/controls/ModeToggle";
+
+const SEVERITY_OPTIONS: Severity[] = ["error", "warning", "suggestion"];
+
+const RuleSettingsItem: React.FC<{
+  entry: RuleSettingsEntry;
+  saving: boolean;
+}> = ({ entry, saving }) => {
+  const update = useRuleSettings((s) => s.update);
+  const { config, schema } = entry;
+  const fields = Object.entries(schema ?? {});
+
+  return (
+    <div
+      className={cn(
+        "rounded-sm border p-2 space-y-2",
+        !config.enabled && "opacity-60"
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          className="mt-0.5"
+          checked={config.enabled}
+          disabled={saving}
+          onChange={(e) =>
+            void update(entry.ruleId, {
+              kind: "enabled",
+              enabled: e.target.checked,
+            })
+          }
+          aria-label={`Enable ${entry.name}`}
+        />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-1 text-[11px] font-medium">
+            <span className="truncate">{entry.name}</span>
+            {saving && <Loader2 className="h-3 w-3 animate-spin shrink-0" />}
+          </div>
+          <div className="text-[10px] text-muted-foreground font-mono truncate">
+            {entry.ruleId}
+          </div>
+        </div>
+        <select
+          className="rounded-xs border bg-background px-1 py-0.5 text-[10px]"
+          value={config.severity}
+          disabled={saving}
+          onChange={(e) =>
+            void update(entry.ruleId, {
+              kind: "severity",
+              severity: e.target.value as Severity,
+            })
+          }
+          aria-label={`Severity for ${entry.name}`}
+        >
+          {SEVERITY_OPTIONS.map((sev) => (
+            <option key={sev} value={sev}>
+              {toTitleCase(sev)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {entry.description && (
+        <p className="text-[10px] text-muted-foreground pl-5">
+          {entry.description}
+        </p>
+      )}
+
+      {fields.length > 0 && (
+        <div className="pl-5 space-y-2">
+          {fields.map(([key, field]) => {
+            const inputId = `${entry.ruleId}-${key}`;
+            const input = (
+              <RuleConfigFieldInput
+                id={inputId}
+                field={field}
+                value={config.customSettings[key]}
+                disabled={saving}
+                onCommit={(value) =>
+                  void update(entry.ruleId, {
+                    kind: "settings",
+                    settings: { [key]: value },
+                  })
+                }
+              />
+            );
+            return (
+              <div
+                key={key}
+                className={
+                  field.type === "boolean"
+                    ? "flex items-center gap-2"
+                    : "space-y-1"
+                }
+              >
+                {field.type === "boolean" && input}
+                <label htmlFor={inputId} className="block text-[10px]">
+                  {field.label}
+                  {field.description && (
+                    <span className="block text-muted-foreground">
+                      {field.description}
+                    </span>
+                  )}
+                </label>
+                {field.type !== "boolean" && input}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const RuleSettingsView: React.FC = () => {
+  const {
+    entries,
+    savingRuleId,
+    opinionMode,
+    opinionModes,
+    error,
+    refresh,
+    setOpinionMode,
+  } = useRuleSettings();
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const grouped = useMemo(() => {
+    const map = new Map<RuleCategory, RuleSettingsEntry[]>();
+    for (const entry of entries) {
+      const list = map.get(entry.category) ?? [];
+      list.push(entry);
+      map.set(entry.category, list);
+    }
+    return Array.from(map.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [entries]);
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4 space-y-4">
+        <div className="text-xs text-muted-foreground">
+          Changes are saved to the active profile for this site and preset, and
+          re-lint any open results.
+        </div>
+
+        <ProfileManager />
+
+        {opinionMode && opinionModes.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-[11px] font-medium">Opinion mode</div>
+            <ModeToggle
+              mode={opinionMode}
+              onChange={(next) => void setOpinionMode(next)}
+              options={opinionModes.map((m) => ({
+                value: m.id,
+                label: m.label,
+                title: m.description,
+              }))}
+              ariaLabel="Opinion mode"
+            />
+            {opinionModes.find((m) => m.id === opinionMode)?.description && (
+              <div className="text-[10px] text-muted-foreground">
+                {opinionModes.find((m) => m.id === opinionMode)?.description}
+              </div>
+            )}
+          </div>
+        )}
+        <ConfigImportExport />
+
+        {error && (
+          <div className="text-[11px] text-error bg-error/10 rounded-sm px-2 py-1">
+            {error}
+          </div>
+        )}
+
+        {grouped.map(([category, list]) => (
+          <div key={category} className="space-y-2">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+              {toTitleCase(category)}
+            </h3>
+            {list.map((entry) => (
+              <RuleSettingsItem
+                key={entry.ruleId}
+                entry={entry}
+                saving={savingRuleId === entry.ruleId}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useMemo } from "react";
+import { Badge } from "@/shared/ui/badge";
+import { ScrollArea } from "@/shared/ui/scroll-area";
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import { usePageLint } from "@/features/linter/store/pageLint.store";
+import { diffResults } from "@/features/linter/lib/result-diff";
+import { selectElementById } from "@/features/window/select-element";
+
+const formatTime = (iso: string) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleTimeString();
+};
+
+const ResultRow: React.FC<{ result: RuleResult; selectable: boolean }> = ({
+  result,
+  selectable,
+}) => (
+  <li className="rounded-sm border p-2 space-y-1">
+    <div className="flex items-center gap-2">
+      <Badge variant="webflowClass" className="text-[10px] font-mono">
+        {result.className || "page"}
+      </Badge>
+      <span className="text-[10px] text-muted-foreground font-mono truncate">
+        {result.ruleId}
+      </span>
+    </div>
+    {selectable && result.elementId ? (
+      <button
+        type="button"
+        className="text-left text-[11px] hover:underline"
+        onClick={() => void selectElementById(result.elementId!)}
+        title="Select element in Designer"
+      >
+        {result.message}
+      </button>
+    ) : (
+      <div className="text-[11px] text-muted-foreground">{result.message}</div>
+    )}
+  </li>
+);
+
+const Section: React.FC<{
+  title: string;
+  results: RuleResult[];
+  empty: string;
+  selectable: boolean;
+}> = ({ title, results, empty, selectable }) => (
+  <div className="space-y-2">
+    <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+      {title} ({results.length})
+    </h3>
+    {results.length === 0 ? (
+      <div className="text-[11px] text-muted-foreground">{empty}</div>
+    ) : (
+      <ul className="space-y-1">
+        {results.map((r, i) => (
+          <ResultRow
+            key={`${r.fingerprint ?? r.ruleId}-${i}`}
+            result={r}
+            selectable={selectable}
+          />
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/** Findings fixed and introduced between the last two page scans */
+export const ScanDiffView: React.FC = () => {
+  const { results, baselined, previousRun, lastRunAt } = usePageLint();
+
+  const diff = useMemo(
+    () =>
+      previousRun
+        ? diffResults(previousRun.results, [...results, ...baselined])
+        : null,
+    [previousRun, results, baselined]
+  );
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4 space-y-6">
+        {!diff || !previousRun || !lastRunAt ? (
+          <div className="text-sm text-muted-foreground">
+            Lint the page twice to compare runs.
+          </div>
+        ) : (
+          <>
+            <div className="text-sm text-muted-foreground">
+              Scan at {formatTime(lastRunAt)} compared with{" "}
+              {formatTime(previousRun.completedAt)}: {diff.fixed.length} fixed,{" "}
+              {diff.introduced.length} introduced, {diff.unchangedCount}{" "}
+              unchanged.
+            </div>
+            <Section
+              title="Introduced"
+              results={diff.introduced}
+              empty="No new findings."
+              selectable
+            />
+            <Section
+              title="Fixed"
+              results={diff.fixed}
+              empty="Nothing was fixed."
+              selectable={false}
+            />
+          </>
+        )}
+      </div>
+    </ScrollArea>
+  );
+};
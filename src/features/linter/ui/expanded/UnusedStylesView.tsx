@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from "react";
+import { Badge } from "@/shared/ui/badge";
+import { Button } from "@/shared/ui/button";
+import { ScrollArea } from "@/shared/ui/scroll-area";
+import { Loader2, RefreshCw } from "lucide-react";
+import { cn } from "@/shared/utils";
+import { useStyleAudit } from "@/features/linter/store/styleAudit.store";
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+/** Site-wide list of styles applied nowhere, with a backed-up bulk delete */
+export const UnusedStylesView: React.FC = () => {
+  const {
+    audit,
+    scanning,
+    progress,
+    deleting,
+    lastDelete,
+    error,
+    runAudit,
+    deleteStyles,
+  } = useStyleAudit();
+  const [excluded, setExcluded] = useState<Record<string, true>>({});
+  const [confirmed, setConfirmed] = useState(false);
+
+  useEffect(() => {
+    if (!audit && !scanning) void runAudit();
+    // Only on open; re-runs are explicit
+  }, []);
+
+  useEffect(() => {
+    setExcluded({});
+    setConfirmed(false);
+  }, [audit?.completedAt]);
+
+  const unused = audit?.unused ?? [];
+  const selected = unused.filter((s) => !excluded[s.id]);
+  const busy = scanning || deleting;
+
+  const toggle = (id: string) =>
+    setExcluded((prev) => {
+      const next = { ...prev };
+      if (next[id]) delete next[id];
+      else next[id] = true;
+      return next;
+    });
+
+  return (
+    <div className="h-full flex flex-col min-h-0">
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-4 space-y-3">
+          {scanning && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                {progress?.label
+                  ? `Scanning ${progress.label} (${progress.done + 1}/${progress.total})…`
+                  : "Scanning site…"}
+              </div>
+              {progress && progress.total > 0 && (
+                <div className="h-1 w-full rounded-full bg-accent overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all duration-200"
+                    style={{
+                      width: `${(progress.done / progress.total) * 100}%`,
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-[11px] text-error">{error}</div>}
+
+          {audit && !scanning && (
+            <div className="flex items-start gap-2">
+              <div className="text-xs text-muted-foreground flex-1">
+                {plural(audit.unused.length, "unused style")} of{" "}
+                {audit.totalStyles}, across{" "}
+                {plural(audit.pagesScanned, "page")} and{" "}
+                {plural(audit.componentsScanned, "component")}.
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={busy}
+                onClick={() => void runAudit()}
+                title="Scan again"
+              >
+                <RefreshCw className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+
+          {audit && audit.skipped.length > 0 && (
+            <div className="text-[11px] rounded-sm px-2 py-1 bg-warning/10">
+              Could not read {audit.skipped.join(", ")}. Styles used only there
+              are listed as unused; review before deleting.
+            </div>
+          )}
+
+          {lastDelete && (
+            <div
+              className={cn(
+                "text-[11px] rounded-sm px-2 py-1 space-y-1",
+                lastDelete.kept.length > 0 ? "bg-warning/10" : "bg-accent/30"
+              )}
+            >
+              <div>
+                Removed {plural(lastDelete.removed.length, "style")}. Backup
+                saved as {lastDelete.backupFileName}.
+              </div>
+              {lastDelete.kept.map((k) => (
+                <div key={k.name} className="text-[10px] text-muted-foreground">
+                  Kept {k.name}: {k.reason}
+                </div>
+              ))}
+              <button
+                type="button"
+                className="text-[10px] underline"
+                onClick={() =>
+                  void navigator.clipboard
+                    ?.writeText(lastDelete.backupText)
+                    .catch(() => {
+                      /* clipboard may be blocked inside the Designer iframe */
+                    })
+                }
+              >
+                Copy backup JSON
+              </button>
+            </div>
+          )}
+
+          <ul className="space-y-1">
+            {unused.map((style) => (
+              <li key={style.id}>
+                <label className="flex items-center gap-2 text-[11px] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!excluded[style.id]}
+                    disabled={busy}
+                    onChange={() => toggle(style.id)}
+                  />
+                  <Badge variant="webflowClass" className="text-[10px] font-mono">
+                    {style.name}
+                  </Badge>
+                  {style.isCombo && (
+                    <span className="text-[10px] text-muted-foreground">
+                      combo
+                    </span>
+                  )}
+                  <span className="ml-auto text-[10px] text-muted-foreground">
+                    {style.propertyCount}{" "}
+                    {style.propertyCount === 1 ? "property" : "properties"}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </ScrollArea>
+
+      {unused.length > 0 && (
+        <div className="border-t p-3 space-y-2">
+          <label className="flex items-start gap-2 text-[11px] cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={confirmed}
+              disabled={busy}
+              onChange={(e) => setConfirmed(e.target.checked)}
+            />
+            <span>
+              Delete {plural(selected.length, "style")} from the site. A JSON
+              backup downloads first.
+            </span>
+          </label>
+          <Button
+            size="sm"
+            variant="destructive"
+            className="w-full h-8"
+            disabled={busy || !confirmed || selected.length === 0}
+            onClick={() => void deleteStyles(selected.map((s) => s.id))}
+          >
+            {deleting && <Loader2 className="h-3 w-3 animate-spin" />}
+            {deleting ? "Deleting…" : "Delete unused styles"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -10,6 +10,7 @@ import { ChevronDown } from "lucide-react";
 import { cn } from "@/shared/utils";
 import { RuleResult, Severity } from "@/features/linter/model/rule.types";
 import { ExpandViewButton } from "../controls/ExpandViewButton";
+import { ApplyFixButton } from "../controls/ApplyFixButton";
 
 import {
   parseDuplicateMessage,
@@ -43,6 +44,19 @@ interface ViolationDetailsProps {
     buttonClassName?: string;
   };
   textConfig?: Partial<TextConfig>;
+  onApplyFix?: (options?: {
+    siteWide?: boolean;
+    mergeOnCollision?: boolean;
+  }) => void;
+  fixConfig?: {
+    description: string;
+    applying: boolean;
+    error?: string | null;
+    /** Offer renaming the underlying style instead of this element only */
+    allowSiteWide?: boolean;
+    /** Last site-wide rename hit an existing style of the target name */
+    collision?: boolean;
+  };
 }
 
 export const ViolationDetails: React.FC<ViolationDetailsProps> = ({
@@ -51,6 +65,8 @@ export const ViolationDetails: React.FC<ViolationDetailsProps> = ({
   onExpandedViewClick,
   expandedViewConfig,
   textConfig,
+  onApplyFix,
+  fixConfig,
 }) => {
   const parsedMessage = parseDuplicateMessage(violation.message);
   const formattedProperty = violation.metadata?.formattedProperty;
@@ -191,6 +207,44 @@ export const ViolationDetails: React.FC<ViolationDetailsProps> = ({
         </div>
       )}
 
+      {onApplyFix && fixConfig && (
+        <div className="mt-2 flex flex-col items-start">
+          <div className="flex w-full gap-2">
+            <ApplyFixButton
+              onClick={() => onApplyFix()}
+              applying={fixConfig.applying}
+              title={fixConfig.description}
+              className="flex-1"
+            />
+            {fixConfig.allowSiteWide && (
+              <ApplyFixButton
+                onClick={() => onApplyFix({ siteWide: true })}
+                disabled={fixConfig.applying}
+                text="Rename site-wide"
+                title="Rename the style itself so every page picks up the new name"
+                className="flex-1"
+                variant="outline"
+              />
+            )}
+          </div>
+          {fixConfig.error && (
+            <div className="text-[10px] text-error">{fixConfig.error}</div>
+          )}
+          {fixConfig.collision && (
+            <ApplyFixButton
+              onClick={() =>
+                onApplyFix({ siteWide: true, mergeOnCollision: true })
+              }
+              applying={fixConfig.applying}
+              text="Merge into existing style"
+              title="Move every element on every page onto the existing style, then remove the old one"
+              className="w-full"
+              variant="outline"
+            />
+          )}
+        </div>
+      )}
+
       {violation.metadata?.detectionSource &&
         violation.metadata.detectionSource !== "api" && (
           <div className="mt-1 text-[10px] text-muted-foreground">
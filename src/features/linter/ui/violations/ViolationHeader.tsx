@@ -20,6 +20,7 @@ export const ViolationHeader: React.FC<ViolationHeaderProps> = ({
   };
 
   const role = violation.metadata?.role as string | undefined;
+  const isPinnedRole = violation.metadata?.roleSource === "manual";
   const isDuplicateRole = false;
 
   const isUnknownRole = role === "unknown";
@@ -47,6 +48,7 @@ export const ViolationHeader: React.FC<ViolationHeaderProps> = ({
         {!isDuplicateRole && role && !isUnknownRole && (
           <Badge variant="secondary" className="ml-1 text-[10px]">
             {roleToLabel(role as any)}
+            {isPinnedRole && " · manual"}
           </Badge>
         )}
       </div>
@@ -10,6 +10,12 @@ import { ViolationDetails, ClassBadge } from "./ViolationDetails";
 import { useExpandedView } from "@/features/linter/store/expandedView.store";
 import { expandedViewCapabilitiesService } from "@/features/linter/services/expanded-view-capabilities.service";
 import { getCurrentPreset } from "@/features/linter/model/linter.factory";
+import { useQuickFix } from "@/features/linter/store/quickFix.store";
+import {
+  describeFix,
+  getQuickFix,
+  getResultElementId,
+} from "@/features/linter/services/fix-applier.service";
 import { cn } from "@/shared/utils";
 
 interface ViolationItemProps {
@@ -29,6 +35,13 @@ export const ViolationItem: React.FC<ViolationItemProps> = ({
 }) => {
   const id = `${violation.ruleId}-${violation.className || "unknown"}-${index}`;
   const { openExpandedView } = useExpandedView();
+  const {
+    applyFix,
+    applyingKey,
+    lastKey,
+    lastResult,
+    error: fixError,
+  } = useQuickFix();
   const [isVisible, setIsVisible] = React.useState(false);
 
   React.useEffect(() => {
@@ -61,6 +74,17 @@ export const ViolationItem: React.FC<ViolationItemProps> = ({
         presetId: getCurrentPreset(),
         projectElements: [], // TODO: Get from configuration
       };
+    } else if (primaryCapability.contentType === "near-duplicates") {
+      contentData = {
+        className: violation.className,
+        comparisons: violation.metadata?.comparisons ?? [],
+      };
+    } else if (primaryCapability.contentType === "heading-outline") {
+      const data = primaryCapability.data as { outline?: unknown } | undefined;
+      contentData = {
+        outline: data?.outline ?? [],
+        focusElementId: violation.elementId ?? null,
+      };
     }
 
     openExpandedView({
@@ -71,6 +95,19 @@ export const ViolationItem: React.FC<ViolationItemProps> = ({
     });
   };
 
+  const quickFix = getQuickFix(violation);
+  const canApplyFix = Boolean(quickFix && getResultElementId(violation));
+  const isApplying = applyingKey === id;
+  const isLastFixed = lastKey === id && !isApplying;
+  const hasCollision = isLastFixed && lastResult?.status === "collision";
+
+  const handleApplyFix = (options?: {
+    siteWide?: boolean;
+    mergeOnCollision?: boolean;
+  }) => {
+    void applyFix(violation, id, options);
+  };
+
   return (
     <AccordionItem
       key={id}
@@ -107,6 +144,20 @@ export const ViolationItem: React.FC<ViolationItemProps> = ({
                 }
               : undefined
           }
+          onApplyFix={canApplyFix ? handleApplyFix : undefined}
+          fixConfig={
+            canApplyFix && quickFix
+              ? {
+                  description: describeFix(quickFix),
+                  applying: isApplying,
+                  error: isLastFixed ? fixError : null,
+                  allowSiteWide:
+                    quickFix.kind === "rename-class" &&
+                    quickFix.scope === "element",
+                  collision: hasCollision,
+                }
+              : undefined
+          }
         />
       </AccordionContent>
     </AccordionItem>
@@ -0,0 +1,50 @@
+// src/features/linter/use-cases/__tests__/transfer-rule-config.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  getRuleConfigService,
+  initializeRuleRegistry,
+  ruleRegistry,
+} from "@/features/linter/services/registry";
+import { exportRuleConfig } from "@/features/linter/use-cases/transfer-rule-config";
+
+describe("exportRuleConfig", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("leaves the opinion mode out of the exported file", () => {
+    initializeRuleRegistry("strict");
+    const moded = ruleRegistry
+      .getAllRules()
+      .find(
+        (rule) =>
+          ruleRegistry.getRuleConfiguration(rule.id)?.severity !== rule.severity
+      );
+    expect(moded).toBeDefined();
+
+    const exported = JSON.parse(exportRuleConfig());
+    expect(exported.severities).toEqual({});
+    expect(exported.enabledRules).toEqual(
+      getRuleConfigService()
+        .load()
+        .filter((cfg) => cfg.enabled)
+        .map((cfg) => cfg.ruleId)
+    );
+
+    // A severity the user pinned is exported even under a mode
+    getRuleConfigService().setRuleSeverity(moded!.id, moded!.severity);
+    expect(JSON.parse(exportRuleConfig()).severities).toEqual({
+      [moded!.id]: moded!.severity,
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import type { BatchFixChange } from "@/features/linter/lib/batch-fix-plan";
+import { ensureLinterInitialized } from "@/features/linter/model/linter.factory";
+import { getLinterServices } from "@/features/linter/services/linter-service-singleton";
+
+export interface BatchFixSummary {
+  applied: number;
+  skipped: number;
+  failed: string[];
+}
+
+/**
+ * Applies changes one at a time so each lands in the fix journal and can be
+ * undone individually. Changes must already be in plan order per element.
+ */
+export async function applyBatchFixes(
+  changes: ReadonlyArray<BatchFixChange>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchFixSummary> {
+  ensureLinterInitialized();
+  const { fixApplier, contextService } = getLinterServices();
+  const summary: BatchFixSummary = { applied: 0, skipped: 0, failed: [] };
+
+  let done = 0;
+  for (const change of changes) {
+    try {
+      const result = await fixApplier.applyFix(change.elementId, change.fix, {
+        ruleId: change.ruleId,
+      });
+      if (result.status === "applied") summary.applied += 1;
+      else if (result.status === "skipped") summary.skipped += 1;
+      else summary.failed.push(`${change.description}: ${result.message}`);
+    } catch (err) {
+      summary.failed.push(
+        `${change.description}: ${
+          err instanceof Error ? err.message : "unexpected error"
+        }`
+      );
+    }
+    done += 1;
+    onProgress?.(done, changes.length);
+  }
+
+  if (summary.applied > 0) contextService.clearCache();
+  return summary;
+}
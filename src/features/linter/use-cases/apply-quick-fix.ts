@@ -0,0 +1,42 @@
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import { ensureLinterInitialized } from "@/features/linter/model/linter.factory";
+import { getLinterServices } from "@/features/linter/services/linter-service-singleton";
+import {
+  getQuickFix,
+  getResultElementId,
+  type FixApplyOptions,
+  type FixApplyResult,
+} from "@/features/linter/services/fix-applier.service";
+
+export type ApplyQuickFixOptions = FixApplyOptions & {
+  /** Apply a rename to the underlying style instead of this element only */
+  siteWide?: boolean;
+};
+
+export async function applyQuickFix(
+  violation: RuleResult,
+  options: ApplyQuickFixOptions = {}
+): Promise<FixApplyResult | null> {
+  const suggested = getQuickFix(violation);
+  const elementId = getResultElementId(violation);
+  if (!suggested || !elementId) return null;
+
+  const { siteWide, ...applyOptions } = options;
+  const fix =
+    siteWide && suggested.kind === "rename-class"
+      ? { ...suggested, scope: "global" as const }
+      : suggested;
+
+  ensureLinterInitialized();
+  const { fixApplier, contextService } = getLinterServices();
+  const result = await fixApplier.applyFix(
+    elementId,
+    fix,
+    { ruleId: violation.ruleId },
+    applyOptions
+  );
+
+  // Class lists changed under the cached context; force a rebuild on next lint
+  if (result.status === "applied") contextService.clearCache();
+  return result;
+}
@@ -0,0 +1,86 @@
+import { ensureLinterInitialized } from "@/features/linter/model/linter.factory";
+import { getLinterServices } from "@/features/linter/services/linter-service-singleton";
+import {
+  createStyleBackup,
+  findUnusedStyles,
+  type RemoveStylesResult,
+  type StyleUsageProgress,
+  type UnusedStyle,
+} from "@/features/linter/services/style-usage.service";
+import { resetStyleServiceCache } from "@/entities/style/services/style-service-cache";
+import { getSiteId } from "@/entities/site";
+import { downloadJsonFile } from "@/shared/lib";
+
+export interface UnusedStyleAudit {
+  unused: UnusedStyle[];
+  totalStyles: number;
+  /** Distinct class names applied somewhere on the site */
+  usedClassCount: number;
+  pagesScanned: number;
+  componentsScanned: number;
+  /** Pages/components that could not be read; their usage is unknown */
+  skipped: string[];
+  completedAt: string;
+}
+
+export interface DeleteUnusedStylesResult extends RemoveStylesResult {
+  backupFileName: string;
+  /** Backup contents, for copying when the download is blocked */
+  backupText: string;
+}
+
+/** Walks every page and component and lists styles applied nowhere */
+export async function auditUnusedStyles(
+  onProgress?: (progress: StyleUsageProgress) => void
+): Promise<UnusedStyleAudit> {
+  ensureLinterInitialized();
+  const { styleService, styleUsageService } = getLinterServices();
+
+  // Styles may have been added since the cache was filled. Counts and the
+  // backup cover every breakpoint and pseudo-state, whatever rules are on
+  resetStyleServiceCache();
+  const allStyles = await styleService.getAllStylesWithProperties({
+    allContexts: true,
+  });
+  const scan = await styleUsageService.scanSite(onProgress);
+
+  return {
+    unused: findUnusedStyles(allStyles, scan.index),
+    totalStyles: allStyles.length,
+    usedClassCount: scan.index.size,
+    pagesScanned: scan.pagesScanned,
+    componentsScanned: scan.componentsScanned,
+    skipped: scan.skipped,
+    completedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Downloads a JSON backup of the selected styles (every breakpoint and
+ * pseudo-state), then removes them. Nothing is removed if the backup fails.
+ */
+export async function deleteUnusedStyles(
+  styles: ReadonlyArray<UnusedStyle>
+): Promise<DeleteUnusedStylesResult> {
+  ensureLinterInitialized();
+  const { styleService, styleUsageService, contextService } =
+    getLinterServices();
+
+  const ids = new Set(styles.map((s) => s.id));
+  const allStyles = await styleService.getAllStylesWithProperties({
+    allContexts: true,
+  });
+  const createdAt = new Date().toISOString();
+  const backup = createStyleBackup(
+    allStyles.filter((s) => ids.has(s.id)),
+    { siteId: await getSiteId(), createdAt }
+  );
+  const backupFileName = `flowlint-unused-styles-${createdAt
+    .slice(0, 19)
+    .replace(/[:T]/g, "-")}.json`;
+  const backupText = downloadJsonFile(backupFileName, backup);
+
+  const result = await styleUsageService.removeStyles(styles);
+  if (result.removed.length > 0) contextService.clearCache();
+  return { ...result, backupFileName, backupText };
+}
@@ -0,0 +1,48 @@
+import type { RuleResult } from "@/features/linter/model/rule.types";
+import {
+  createBaselineService,
+  type BaselinePartition,
+  type BaselineService,
+} from "@/features/linter/services/baseline.service";
+import { getCurrentPageId, getSiteId } from "@/entities/site";
+
+export interface BaselineSnapshot {
+  /** Number of accepted fingerprints; 0 when no baseline exists */
+  entryCount: number;
+  createdAt: string | null;
+}
+
+/** Baselines are scoped to the site and page open in the Designer */
+async function resolveBaselineService(): Promise<BaselineService> {
+  const [siteId, pageId] = await Promise.all([getSiteId(), getCurrentPageId()]);
+  return createBaselineService({ siteId, pageId });
+}
+
+export async function getBaselineSnapshot(): Promise<BaselineSnapshot> {
+  const baseline = (await resolveBaselineService()).load();
+  return {
+    entryCount: baseline?.fingerprints.length ?? 0,
+    createdAt: baseline?.createdAt ?? null,
+  };
+}
+
+/** Accepts every given finding; replaces any previous baseline for the page */
+export async function createBaseline(
+  results: ReadonlyArray<RuleResult>
+): Promise<BaselineSnapshot> {
+  const baseline = (await resolveBaselineService()).create(results);
+  return {
+    entryCount: baseline.fingerprints.length,
+    createdAt: baseline.createdAt,
+  };
+}
+
+export async function clearBaseline(): Promise<void> {
+  (await resolveBaselineService()).clear();
+}
+
+export async function splitByBaseline(
+  results: ReadonlyArray<RuleResult>
+): Promise<BaselinePartition> {
+  return (await resolveBaselineService()).partition(results);
+}
@@ -0,0 +1,58 @@
+import type { ConfigProfile } from "@/features/linter/services/config-profiles.service";
+import { getConfigProfiles } from "@/features/linter/services/registry";
+import { reloadLinterConfiguration } from "@/features/linter/model/linter.factory";
+
+export interface ConfigProfilesSnapshot {
+  profiles: ConfigProfile[];
+  activeProfileId: string;
+  /** `<siteId|local>:<presetId>` the profiles belong to */
+  scope: string;
+}
+
+export type ConfigProfileAction =
+  | { kind: "create"; name: string }
+  | { kind: "duplicate"; profileId: string; name?: string }
+  | { kind: "rename"; profileId: string; name: string }
+  | { kind: "switch"; profileId: string }
+  | { kind: "remove"; profileId: string };
+
+export function getConfigProfilesSnapshot(): ConfigProfilesSnapshot {
+  const service = getConfigProfiles();
+  return {
+    profiles: service.list(),
+    activeProfileId: service.getActive().id,
+    scope: service.scope,
+  };
+}
+
+/**
+ * Applies a profile change. Anything that changes the active profile reloads
+ * the rule registry so its stored configuration takes effect.
+ * @returns Whether the active configuration changed (callers should re-lint)
+ */
+export function runConfigProfileAction(action: ConfigProfileAction): boolean {
+  const service = getConfigProfiles();
+  const before = service.getActive().id;
+
+  switch (action.kind) {
+    case "create":
+      service.create(action.name);
+      break;
+    case "duplicate":
+      service.duplicate(action.profileId, action.name);
+      break;
+    case "rename":
+      service.rename(action.profileId, action.name);
+      break;
+    case "switch":
+      service.switchTo(action.profileId);
+      break;
+    case "remove":
+      service.remove(action.profileId);
+      break;
+  }
+
+  const changed = service.getActive().id !== before;
+  if (changed) reloadLinterConfiguration();
+  return changed;
+}
@@ -0,0 +1,28 @@
+import type { PinnableRole, RolePins } from "@/features/linter/lib/role-pins";
+import {
+  createRolePinService,
+  type RolePinService,
+} from "@/features/linter/services/role-pins.service";
+import { getCurrentPageId, getSiteId } from "@/entities/site";
+
+/** Pins are scoped to the site and page open in the Designer */
+async function resolveRolePinService(): Promise<RolePinService> {
+  const [siteId, pageId] = await Promise.all([getSiteId(), getCurrentPageId()]);
+  return createRolePinService({ siteId, pageId });
+}
+
+export async function loadRolePins(): Promise<RolePins> {
+  return (await resolveRolePinService()).load();
+}
+
+/** Replaces any existing pin for the element */
+export async function pinElementRole(
+  elementId: string,
+  role: PinnableRole
+): Promise<RolePins> {
+  return (await resolveRolePinService()).pin(elementId, role);
+}
+
+export async function unpinElementRole(elementId: string): Promise<RolePins> {
+  return (await resolveRolePinService()).unpin(elementId);
+}
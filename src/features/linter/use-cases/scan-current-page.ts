@@ -1,12 +1,18 @@
 import type { RuleResult } from "@/features/linter/model/rule.types";
 import { ensureLinterInitialized } from "@/features/linter/model/linter.factory";
 import { getLinterServices } from "@/features/linter/services/linter-service-singleton";
+import { splitByBaseline } from "@/features/linter/use-cases/manage-baseline";
 
 export async function scanCurrentPage(elements: any[]): Promise<RuleResult[]> {
   ensureLinterInitialized();
-  const { styleService, analyzer, pageLintService } = getLinterServices();
+  const { styleService, variableService, analyzer, pageLintService } =
+    getLinterServices();
 
-  const allStyles = await styleService.getAllStylesWithProperties();
+  // Color variables are read synchronously by property rules during the run
+  const [allStyles] = await Promise.all([
+    styleService.getAllStylesWithProperties(),
+    variableService.getColorVariables(),
+  ]);
   analyzer.buildPropertyMaps(allStyles);
 
   const valid = (elements || []).filter(
@@ -16,13 +22,24 @@ export async function scanCurrentPage(elements: any[]): Promise<RuleResult[]> {
   return pageLintService.lintCurrentPage(valid as any);
 }
 
-export async function scanCurrentPageWithMeta(
-  elements: any[]
-): Promise<{ results: RuleResult[]; classNames: string[] }> {
+export async function scanCurrentPageWithMeta(elements: any[]): Promise<{
+  /** Findings not covered by the page baseline */
+  results: RuleResult[];
+  classNames: string[];
+  suppressed: RuleResult[];
+  baselined: RuleResult[];
+  /** Baseline entries that no longer occur on the page */
+  baselineFixedCount: number;
+}> {
   ensureLinterInitialized();
-  const { styleService, analyzer, pageLintService } = getLinterServices();
+  const { styleService, variableService, analyzer, pageLintService } =
+    getLinterServices();
 
-  const allStyles = await styleService.getAllStylesWithProperties();
+  // Color variables are read synchronously by property rules during the run
+  const [allStyles] = await Promise.all([
+    styleService.getAllStylesWithProperties(),
+    variableService.getColorVariables(),
+  ]);
   analyzer.buildPropertyMaps(allStyles);
 
   const unique = new Set<string>();
@@ -42,6 +59,18 @@ export async function scanCurrentPageWithMeta(
     (el: any) => el && typeof el.getStyles === "function"
   );
 
-  const results = await pageLintService.lintCurrentPage(valid as any);
-  return { results, classNames: Array.from(unique) };
+  let suppressed: RuleResult[] = [];
+  const all = await pageLintService.lintCurrentPage(valid as any, {
+    onSuppressed: (r) => {
+      suppressed = r;
+    },
+  });
+  const { fresh, baselined, fixedCount } = await splitByBaseline(all);
+  return {
+    results: fresh,
+    classNames: Array.from(unique),
+    suppressed,
+    baselined,
+    baselineFixedCount: fixedCount,
+  };
 }
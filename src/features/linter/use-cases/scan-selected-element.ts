@@ -1,16 +1,39 @@
 import type { RuleResult } from "@/features/linter/model/rule.types";
+import type { RoleDiagnostics } from "@/features/linter/model/preset.types";
 import { ensureLinterInitialized } from "@/features/linter/model/linter.factory";
 import { getLinterServices } from "@/features/linter/services/linter-service-singleton";
+import { splitByBaseline } from "@/features/linter/use-cases/manage-baseline";
 
 export async function scanSelectedElement(
   element: any,
   useStructuralContext: boolean = false
-): Promise<RuleResult[]> {
+): Promise<{
+  /** Findings not covered by the page baseline */
+  results: RuleResult[];
+  suppressed: RuleResult[];
+  baselined: RuleResult[];
+  /** Why the element got its role, for the role explainer */
+  roleDiagnostics: RoleDiagnostics | null;
+}> {
   ensureLinterInitialized();
-  const { elementLintService } = getLinterServices();
-  return await elementLintService.lintElement(
+  const { elementLintService, variableService } = getLinterServices();
+  await variableService.getColorVariables();
+  let suppressed: RuleResult[] = [];
+  let roleDiagnostics: RoleDiagnostics | null = null;
+  const all = await elementLintService.lintElement(
     element,
     undefined, // No page context - focus on element-only logic
-    useStructuralContext
+    useStructuralContext,
+    {
+      onSuppressed: (r) => {
+        suppressed = r;
+      },
+      onRoleDiagnostics: (d) => {
+        roleDiagnostics = d;
+      },
+    }
   );
+  // Element scans see a subset of the page, so fixed counts aren't meaningful
+  const { fresh, baselined } = await splitByBaseline(all);
+  return { results: fresh, suppressed, baselined, roleDiagnostics };
 }
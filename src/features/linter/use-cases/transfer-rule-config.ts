@@ -0,0 +1,34 @@
+import type { RuleConfiguration } from "@/features/linter/model/rule.types";
+import type {
+  ConfigExtends,
+  ConfigImportResult,
+} from "@/features/linter/services/rule-configuration-service";
+import { getRuleConfigService } from "@/features/linter/services/registry";
+import { reloadLinterConfiguration } from "@/features/linter/model/linter.factory";
+
+/**
+ * Serializes the active profile's stored configuration. The registry holds
+ * effective configs with the opinion mode applied; exporting those would pin
+ * the exporter's mode onto whoever imports the file.
+ */
+export function exportRuleConfig(): string {
+  const service = getRuleConfigService();
+  return service.exportConfiguration(service.load());
+}
+
+/** Resolves and validates a pasted config without persisting anything */
+export function previewRuleConfigImport(json: string): ConfigImportResult {
+  return getRuleConfigService().importConfiguration(json);
+}
+
+/**
+ * Persists previously previewed configs to the active profile and reloads the
+ * registry. The imported `extends` chain is stored so the base keeps applying.
+ */
+export function saveImportedRuleConfig(
+  configs: ReadonlyArray<RuleConfiguration>,
+  chain: ConfigExtends = []
+): void {
+  getRuleConfigService().save(configs, undefined, chain);
+  reloadLinterConfiguration();
+}
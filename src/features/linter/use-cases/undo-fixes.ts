@@ -0,0 +1,36 @@
+import type { FixJournalEntry } from "@/features/linter/services/fix-journal.service";
+import { getLinterServices } from "@/features/linter/services/linter-service-singleton";
+
+type UndoSummary = { undone: number; failed: string[] };
+
+export function getUndoableFixes(): FixJournalEntry[] {
+  return getLinterServices().fixJournal.getUndoableSessionEntries();
+}
+
+async function undoEntries(
+  entries: ReadonlyArray<FixJournalEntry>
+): Promise<UndoSummary> {
+  const { fixApplier, contextService } = getLinterServices();
+  const summary: UndoSummary = { undone: 0, failed: [] };
+
+  // Newest first so stacked fixes on one element unwind in reverse
+  for (const entry of entries) {
+    const result = await fixApplier.undoEntry(entry);
+    if (result.status === "applied") summary.undone += 1;
+    else summary.failed.push(`${entry.description}: ${result.message}`);
+  }
+
+  if (summary.undone > 0) contextService.clearCache();
+  return summary;
+}
+
+export function undoLastFix(): Promise<UndoSummary> {
+  const [last] = getUndoableFixes();
+  return last
+    ? undoEntries([last])
+    : Promise.resolve({ undone: 0, failed: [] });
+}
+
+export function undoSessionFixes(): Promise<UndoSummary> {
+  return undoEntries(getUndoableFixes());
+}
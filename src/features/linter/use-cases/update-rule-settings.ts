@@ -0,0 +1,86 @@
+import type {
+  Rule,
+  RuleCategory,
+  RuleConfigSchema,
+  RuleConfiguration,
+  Severity,
+} from "@/features/linter/model/rule.types";
+import {
+  getRuleConfigService,
+  ruleRegistry,
+} from "@/features/linter/services/registry";
+import { ensureLinterInitialized } from "@/features/linter/model/linter.factory";
+
+export interface RuleSettingsEntry {
+  ruleId: string;
+  name: string;
+  description: string;
+  category: RuleCategory;
+  /** Effective configuration from the registry (opinion mode included) */
+  config: RuleConfiguration;
+  schema?: RuleConfigSchema;
+}
+
+export type RuleSettingsChange =
+  | { kind: "enabled"; enabled: boolean }
+  | { kind: "severity"; severity: Severity }
+  | { kind: "settings"; settings: Record<string, unknown> };
+
+/** Rules registered for the active preset, element rules first then page rules */
+export function getRuleSettingsEntries(): RuleSettingsEntry[] {
+  ensureLinterInitialized();
+  const rules: Rule[] = [
+    ...ruleRegistry.getAllRules(),
+    ...ruleRegistry.getPageRules(),
+  ];
+  return rules.flatMap((rule) => {
+    const config = ruleRegistry.getRuleConfiguration(rule.id);
+    if (!config) return [];
+    return [
+      {
+        ruleId: rule.id,
+        name: rule.name,
+        description: rule.description,
+        category: rule.category,
+        config,
+        schema: (rule as Rule & { config?: RuleConfigSchema }).config,
+      },
+    ];
+  });
+}
+
+/**
+ * Persists a single-rule edit and mirrors it into the live registry so the
+ * next lint run picks it up without re-initializing.
+ */
+export function updateRuleSettings(
+  ruleId: string,
+  change: RuleSettingsChange
+): void {
+  const ruleConfigService = getRuleConfigService();
+  switch (change.kind) {
+    case "enabled": {
+      ruleConfigService.setRuleEnabled(ruleId, change.enabled);
+      ruleRegistry.updateRuleConfiguration(ruleId, { enabled: change.enabled });
+      return;
+    }
+    case "severity": {
+      ruleConfigService.setRuleSeverity(ruleId, change.severity);
+      ruleRegistry.updateRuleConfiguration(ruleId, {
+        severity: change.severity,
+      });
+      return;
+    }
+    case "settings": {
+      const configs = ruleConfigService.upsertRuleCustomSettings(
+        ruleId,
+        change.settings
+      );
+      const saved = configs.find((c) => c.ruleId === ruleId);
+      ruleRegistry.updateRuleConfiguration(ruleId, {
+        customSettings: saved?.customSettings ?? change.settings,
+      });
+      return;
+    }
+  }
+}
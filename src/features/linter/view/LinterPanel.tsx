@@ -14,10 +14,25 @@ import SeverityFilter, {
   type SeverityFilterValue,
 } from "@/features/linter/ui/controls/SeverityFilter";
 import { StructuralContextToggle } from "@/features/linter/ui/controls/StructuralContextToggle";
+import { FixAllButton } from "@/features/linter/ui/controls/FixAllButton";
+import { SuppressedCount } from "@/features/linter/ui/controls/SuppressedCount";
+import { BaselineStatus } from "@/features/linter/ui/controls/BaselineStatus";
+import { RoleDiagnosticsButton } from "@/features/linter/ui/controls/RoleDiagnosticsButton";
+import { useBaseline } from "@/features/linter/store/baseline.store";
 
 export function LinterPanel() {
-  const { results, passedClassNames, loading, error, hasRun, lintPage } =
-    usePageLint();
+  const {
+    results,
+    passedClassNames,
+    loading,
+    error,
+    hasRun,
+    lintPage,
+    suppressed,
+    baselined,
+    baselineFixedCount,
+  } = usePageLint();
+  const showBaselined = useBaseline((s) => s.showBaselined);
   // const opinionMode: "strict" | "balanced" | "lenient" = "balanced";
   const count = results.length;
   const [mode, setMode] = useState<LintViewMode>("page");
@@ -50,12 +65,15 @@ export function LinterPanel() {
     refresh: refreshElementLint,
     structuralContext,
     setStructuralContext,
+    suppressed: elementSuppressed,
+    baselined: elementBaselined,
   } = useElementLint();
 
-  const activeViolations: RuleResult[] = useMemo(
-    () => (mode === "page" ? results : elementResults),
-    [mode, results, elementResults]
-  );
+  const activeViolations: RuleResult[] = useMemo(() => {
+    const fresh = mode === "page" ? results : elementResults;
+    if (!showBaselined) return fresh;
+    return [...fresh, ...(mode === "page" ? baselined : elementBaselined)];
+  }, [mode, results, elementResults, showBaselined, baselined, elementBaselined]);
   const filteredViolations: RuleResult[] = useMemo(() => {
     if (mode !== "page") return activeViolations;
     if (severityFilter === "all") return activeViolations;
@@ -158,6 +176,23 @@ export function LinterPanel() {
                       onChange={setSeverityFilter}
                       condensed={filtersCondensed}
                     />
+                    {!loading && (
+                      <div className="flex items-center justify-between gap-2 pb-1">
+                        <SuppressedCount suppressed={suppressed} />
+                        <BaselineStatus
+                          baselinedCount={baselined.length}
+                          fixedCount={baselineFixedCount}
+                        />
+                        <FixAllButton results={results} className="ml-auto" />
+                      </div>
+                    )}
+                  </div>
+                )}
+                {mode === "element" && !elementLoading && (
+                  <div className="flex items-center gap-2 pb-1">
+                    <SuppressedCount suppressed={elementSuppressed} />
+                    <BaselineStatus baselinedCount={elementBaselined.length} />
+                    <RoleDiagnosticsButton className="ml-auto pr-4" />
                   </div>
                 )}
                 <div className="flex-1 min-h-0">
@@ -8,6 +8,13 @@ import { ThemeProvider } from "@/shared/providers/theme-provider";
 import { LinterPanel } from "@/features/linter/view/LinterPanel";
 import { ExpandedContent } from "@/features/linter/ui/expanded/ExpandedContent";
 import { RecognizedElementsView } from "@/features/linter/ui/expanded/RecognizedElementsView";
+import { BatchFixView } from "@/features/linter/ui/expanded/BatchFixView";
+import { RuleSettingsView } from "@/features/linter/ui/expanded/RuleSettingsView";
+import { ScanDiffView } from "@/features/linter/ui/expanded/ScanDiffView";
+import { UnusedStylesView } from "@/features/linter/ui/expanded/UnusedStylesView";
+import { NearDuplicatesView } from "@/features/linter/ui/expanded/NearDuplicatesView";
+import { HeadingOutlineView } from "@/features/linter/ui/expanded/HeadingOutlineView";
+import { DiagnosticDetailsView } from "@/features/linter/ui/expanded/DiagnosticDetailsView";
 import { useExpandedView } from "@/features/linter/store/expandedView.store";
 import { cn } from "@/shared/utils";
 
@@ -57,6 +64,70 @@ const Root: React.FC = () => {
                     />
                   </ExpandedContent>
                 )}
+                {content.type === "suggested-fixes" && (
+                  <ExpandedContent
+                    title={content.title}
+                    onClose={closeExpandedView}
+                  >
+                    <BatchFixView />
+                  </ExpandedContent>
+                )}
+                {content.type === "rule-settings" && (
+                  <ExpandedContent
+                    title={content.title}
+                    onClose={closeExpandedView}
+                  >
+                    <RuleSettingsView />
+                  </ExpandedContent>
+                )}
+                {content.type === "scan-diff" && (
+                  <ExpandedContent
+                    title={content.title}
+                    onClose={closeExpandedView}
+                  >
+                    <ScanDiffView />
+                  </ExpandedContent>
+                )}
+                {content.type === "unused-styles" && (
+                  <ExpandedContent
+                    title={content.title}
+                    onClose={closeExpandedView}
+                  >
+                    <UnusedStylesView />
+                  </ExpandedContent>
+                )}
+                {content.type === "near-duplicates" && (
+                  <ExpandedContent
+                    title={content.title}
+                    onClose={closeExpandedView}
+                  >
+                    <NearDuplicatesView
+                      className={(content.data as any)?.className || ""}
+                      comparisons={(content.data as any)?.comparisons || []}
+                    />
+                  </ExpandedContent>
+                )}
+                {content.type === "heading-outline" && (
+                  <ExpandedContent
+                    title={content.title}
+                    onClose={closeExpandedView}
+                  >
+                    <HeadingOutlineView
+                      outline={(content.data as any)?.outline || []}
+                      focusElementId={
+                        (content.data as any)?.focusElementId ?? null
+                      }
+                    />
+                  </ExpandedContent>
+                )}
+                {content.type === "diagnostic-details" && (
+                  <ExpandedContent
+                    title={content.title}
+                    onClose={closeExpandedView}
+                  >
+                    <DiagnosticDetailsView />
+                  </ExpandedContent>
+                )}
               </>
             )}
           </div>
@@ -0,0 +1,29 @@
+// batch.ts
+
+/**
+ * Designer API calls in flight at once. Every call is an async round trip
+ * to the Designer; firing thousands together stalls it, one at a time is
+ * slow.
+ */
+export const DESIGNER_BATCH_SIZE = 50;
+
+/**
+ * Maps `items` through `fn` with at most `batchSize` calls in flight,
+ * keeping input order.
+ */
+export async function mapInBatches<T, R>(
+  items: readonly T[],
+  fn: (item: T, index: number) => Promise<R>,
+  batchSize: number = DESIGNER_BATCH_SIZE
+): Promise<R[]> {
+  const size = Math.max(1, batchSize);
+  const out: R[] = [];
+  for (let start = 0; start < items.length; start += size) {
+    const batch = items.slice(start, start + size);
+    const results = await Promise.all(
+      batch.map((item, i) => fn(item, start + i))
+    );
+    out.push(...results);
+  }
+  return out;
+}
@@ -0,0 +1,23 @@
+/**
+ * Saves `data` as a pretty-printed JSON file through a temporary link.
+ * Returns the serialized text so callers can offer a copy fallback when the
+ * host frame blocks downloads.
+ */
+export function downloadJsonFile(filename: string, data: unknown): string {
+  const text = JSON.stringify(data, null, 2);
+  const url = URL.createObjectURL(
+    new Blob([text], { type: "application/json" })
+  );
+  try {
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  } finally {
+    // Give the browser a tick to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+  return text;
+}
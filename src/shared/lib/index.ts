@@ -1 +1,3 @@
 export * from "./stable-json";
+export * from "./download";
+export * from "./batch";